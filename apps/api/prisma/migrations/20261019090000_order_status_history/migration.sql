@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE `OrderStatusHistory` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `orderId` INTEGER NOT NULL,
+    `fromStatus` ENUM('PENDING', 'PAID', 'FAILED', 'SHIPPED', 'DELIVERED', 'CANCELED') NOT NULL,
+    `toStatus` ENUM('PENDING', 'PAID', 'FAILED', 'SHIPPED', 'DELIVERED', 'CANCELED') NOT NULL,
+    `source` ENUM('USER', 'ADMIN', 'SYSTEM') NOT NULL,
+    `reason` TEXT NULL,
+    `actorId` INTEGER NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `OrderStatusHistory` ADD CONSTRAINT `OrderStatusHistory_orderId_fkey` FOREIGN KEY (`orderId`) REFERENCES `Order`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `OrderStatusHistory` ADD CONSTRAINT `OrderStatusHistory_actorId_fkey` FOREIGN KEY (`actorId`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE `Shipment` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `status` ENUM('PENDING', 'SHIPPED', 'DELIVERED', 'CANCELED') NOT NULL DEFAULT 'PENDING',
+    `shippingCost` DOUBLE NOT NULL,
+    `shippedAt` DATETIME(3) NULL,
+    `deliveredAt` DATETIME(3) NULL,
+    `orderId` INTEGER NOT NULL,
+    `warehouseId` INTEGER NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `Shipment_orderId_warehouseId_key`(`orderId`, `warehouseId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ShipmentItem` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `quantity` INTEGER NOT NULL,
+    `shipmentId` INTEGER NOT NULL,
+    `orderItemId` INTEGER NOT NULL,
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `Shipment` ADD CONSTRAINT `Shipment_orderId_fkey` FOREIGN KEY (`orderId`) REFERENCES `Order`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Shipment` ADD CONSTRAINT `Shipment_warehouseId_fkey` FOREIGN KEY (`warehouseId`) REFERENCES `Warehouse`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ShipmentItem` ADD CONSTRAINT `ShipmentItem_shipmentId_fkey` FOREIGN KEY (`shipmentId`) REFERENCES `Shipment`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ShipmentItem` ADD CONSTRAINT `ShipmentItem_orderItemId_fkey` FOREIGN KEY (`orderItemId`) REFERENCES `OrderItem`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: existing orders ship as a single parcel from their warehouse
+INSERT INTO `Shipment` (`status`, `shippingCost`, `shippedAt`, `orderId`, `warehouseId`, `createdAt`, `updatedAt`)
+SELECT
+    CASE `paymentStatus`
+        WHEN 'SHIPPED' THEN 'SHIPPED'
+        WHEN 'DELIVERED' THEN 'DELIVERED'
+        WHEN 'CANCELED' THEN 'CANCELED'
+        WHEN 'FAILED' THEN 'CANCELED'
+        ELSE 'PENDING'
+    END,
+    `shippingCost`,
+    CASE WHEN `paymentStatus` IN ('SHIPPED', 'DELIVERED') THEN `shippedAt` ELSE NULL END,
+    `id`,
+    `warehouseId`,
+    `createdAt`,
+    CURRENT_TIMESTAMP(3)
+FROM `Order`;
+
+INSERT INTO `ShipmentItem` (`quantity`, `shipmentId`, `orderItemId`)
+SELECT `OrderItem`.`quantity`, `Shipment`.`id`, `OrderItem`.`id`
+FROM `OrderItem`
+INNER JOIN `Shipment` ON `Shipment`.`orderId` = `OrderItem`.`orderId`;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE `PaymentCharge` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `provider` VARCHAR(191) NOT NULL,
+    `reference` VARCHAR(191) NOT NULL,
+    `status` ENUM('PENDING', 'SUCCEEDED', 'FAILED', 'EXPIRED') NOT NULL DEFAULT 'PENDING',
+    `amount` DOUBLE NOT NULL,
+    `redirectUrl` VARCHAR(191) NULL,
+    `expiresAt` DATETIME(3) NOT NULL,
+    `orderId` INTEGER NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `PaymentCharge_provider_reference_key`(`provider`, `reference`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `PaymentCharge` ADD CONSTRAINT `PaymentCharge_orderId_fkey` FOREIGN KEY (`orderId`) REFERENCES `Order`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE `PaymentProof` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `url` VARCHAR(191) NOT NULL,
+    `status` ENUM('PENDING', 'ACCEPTED', 'REJECTED') NOT NULL DEFAULT 'PENDING',
+    `rejectionReason` ENUM('WRONG_AMOUNT', 'UNREADABLE', 'WRONG_ACCOUNT', 'OTHER') NULL,
+    `reviewNote` TEXT NULL,
+    `reviewedAt` DATETIME(3) NULL,
+    `orderId` INTEGER NOT NULL,
+    `reviewerId` INTEGER NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `PaymentProof` ADD CONSTRAINT `PaymentProof_orderId_fkey` FOREIGN KEY (`orderId`) REFERENCES `Order`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PaymentProof` ADD CONSTRAINT `PaymentProof_reviewerId_fkey` FOREIGN KEY (`reviewerId`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Keep the proofs uploaded before versioning as their first version
+INSERT INTO `PaymentProof` (`url`, `status`, `orderId`, `createdAt`)
+SELECT
+    `paymentProof`,
+    CASE
+        WHEN `paymentStatus` = 'PENDING' THEN 'PENDING'
+        WHEN `paymentStatus` IN ('CANCELED', 'FAILED') THEN 'REJECTED'
+        ELSE 'ACCEPTED'
+    END,
+    `id`,
+    `updatedAt`
+FROM `Order`
+WHERE `paymentProof` IS NOT NULL;
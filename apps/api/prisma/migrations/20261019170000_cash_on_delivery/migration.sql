@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE `Warehouse` ADD COLUMN `codEnabled` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `codMaxOrderValue` DOUBLE NULL;
+
+-- AlterTable
+ALTER TABLE `Order` ADD COLUMN `codCollectedAt` DATETIME(3) NULL;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE `User` ADD COLUMN `walletBalance` DOUBLE NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE `Order` ADD COLUMN `walletAmount` DOUBLE NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE `WalletEntry` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `userId` INTEGER NOT NULL,
+    `amount` DOUBLE NOT NULL,
+    `balanceAfter` DOUBLE NOT NULL,
+    `type` ENUM('REFUND', 'CANCELLATION', 'ADJUSTMENT', 'CHECKOUT') NOT NULL,
+    `reason` TEXT NULL,
+    `orderId` INTEGER NULL,
+    `actorId` INTEGER NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `WalletEntry` ADD CONSTRAINT `WalletEntry_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `WalletEntry` ADD CONSTRAINT `WalletEntry_orderId_fkey` FOREIGN KEY (`orderId`) REFERENCES `Order`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `WalletEntry` ADD CONSTRAINT `WalletEntry_actorId_fkey` FOREIGN KEY (`actorId`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
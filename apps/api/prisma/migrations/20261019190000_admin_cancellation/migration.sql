@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE `Order` ADD COLUMN `cancellationNote` TEXT NULL,
+    ADD COLUMN `cancellationReason` ENUM('OUT_OF_STOCK', 'SUSPECTED_FRAUD', 'ADDRESS_UNREACHABLE', 'CUSTOMER_REQUEST') NULL,
+    MODIFY `cancellationSource` ENUM('USER', 'SYSTEM', 'ADMIN') NULL;
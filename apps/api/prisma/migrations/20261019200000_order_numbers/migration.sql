@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE `Warehouse` ADD COLUMN `code` VARCHAR(191) NULL;
+
+-- CreateTable
+CREATE TABLE `OrderNumberSequence` (
+    `warehouseId` INTEGER NOT NULL,
+    `period` VARCHAR(191) NOT NULL,
+    `lastNumber` INTEGER NOT NULL DEFAULT 0,
+
+    PRIMARY KEY (`warehouseId`, `period`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `Warehouse_code_key` ON `Warehouse`(`code`);
+
+-- AddForeignKey
+ALTER TABLE `OrderNumberSequence` ADD CONSTRAINT `OrderNumberSequence_warehouseId_fkey` FOREIGN KEY (`warehouseId`) REFERENCES `Warehouse`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
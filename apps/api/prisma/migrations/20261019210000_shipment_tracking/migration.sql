@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE `Shipment` ADD COLUMN `courier` VARCHAR(191) NULL,
+    ADD COLUMN `courierService` VARCHAR(191) NULL,
+    ADD COLUMN `waybill` VARCHAR(191) NULL;
+
+-- CreateTable
+CREATE TABLE `ShipmentEvent` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `status` ENUM('PICKED_UP', 'IN_TRANSIT', 'OUT_FOR_DELIVERY', 'DELIVERED') NOT NULL,
+    `description` TEXT NULL,
+    `location` VARCHAR(191) NULL,
+    `occurredAt` DATETIME(3) NOT NULL,
+    `source` ENUM('USER', 'ADMIN', 'SYSTEM') NOT NULL,
+    `shipmentId` INTEGER NOT NULL,
+    `actorId` INTEGER NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `ShipmentEvent_shipmentId_status_occurredAt_key`(`shipmentId`, `status`, `occurredAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `ShipmentEvent` ADD CONSTRAINT `ShipmentEvent_shipmentId_fkey` FOREIGN KEY (`shipmentId`) REFERENCES `Shipment`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ShipmentEvent` ADD CONSTRAINT `ShipmentEvent_actorId_fkey` FOREIGN KEY (`actorId`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE `Cart` ADD COLUMN `subscriptionId` INTEGER NULL;
+
+-- CreateTable
+CREATE TABLE `Subscription` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `cadence` ENUM('WEEKLY', 'BIWEEKLY') NOT NULL,
+    `nextRunAt` DATETIME(3) NOT NULL,
+    `paused` BOOLEAN NOT NULL DEFAULT false,
+    `courier` VARCHAR(191) NOT NULL,
+    `courierService` VARCHAR(191) NOT NULL,
+    `voucherCode` VARCHAR(191) NULL,
+    `lastRunAt` DATETIME(3) NULL,
+    `lastError` TEXT NULL,
+    `userId` INTEGER NOT NULL,
+    `addressId` INTEGER NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `SubscriptionItem` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `quantity` INTEGER NOT NULL,
+    `subscriptionId` INTEGER NOT NULL,
+    `productId` INTEGER NOT NULL,
+
+    UNIQUE INDEX `SubscriptionItem_subscriptionId_productId_key`(`subscriptionId`, `productId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `Cart` ADD CONSTRAINT `Cart_subscriptionId_fkey` FOREIGN KEY (`subscriptionId`) REFERENCES `Subscription`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Subscription` ADD CONSTRAINT `Subscription_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Subscription` ADD CONSTRAINT `Subscription_addressId_fkey` FOREIGN KEY (`addressId`) REFERENCES `Address`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SubscriptionItem` ADD CONSTRAINT `SubscriptionItem_subscriptionId_fkey` FOREIGN KEY (`subscriptionId`) REFERENCES `Subscription`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SubscriptionItem` ADD CONSTRAINT `SubscriptionItem_productId_fkey` FOREIGN KEY (`productId`) REFERENCES `Product`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
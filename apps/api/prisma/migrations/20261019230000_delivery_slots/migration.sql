@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE `Order` ADD COLUMN `deliverySlotId` INTEGER NULL,
+    ADD COLUMN `deliveryDate` DATE NULL;
+
+-- CreateTable
+CREATE TABLE `DeliverySlot` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `dayOfWeek` INTEGER NOT NULL,
+    `startTime` VARCHAR(191) NOT NULL,
+    `endTime` VARCHAR(191) NOT NULL,
+    `capacity` INTEGER NOT NULL,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `warehouseId` INTEGER NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `DeliverySlot_warehouseId_dayOfWeek_idx`(`warehouseId`, `dayOfWeek`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `Order` ADD CONSTRAINT `Order_deliverySlotId_fkey` FOREIGN KEY (`deliverySlotId`) REFERENCES `DeliverySlot`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `DeliverySlot` ADD CONSTRAINT `DeliverySlot_warehouseId_fkey` FOREIGN KEY (`warehouseId`) REFERENCES `Warehouse`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
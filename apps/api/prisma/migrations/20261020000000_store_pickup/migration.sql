@@ -0,0 +1,20 @@
+-- DropForeignKey
+ALTER TABLE `Order` DROP FOREIGN KEY `Order_addressId_fkey`;
+
+-- AlterTable
+ALTER TABLE `Order` ADD COLUMN `fulfillmentMethod` ENUM('DELIVERY', 'PICKUP') NOT NULL DEFAULT 'DELIVERY',
+    ADD COLUMN `pickedUpAt` DATETIME(3) NULL,
+    ADD COLUMN `pickupCode` VARCHAR(191) NULL,
+    ADD COLUMN `readyForPickupAt` DATETIME(3) NULL,
+    MODIFY `addressId` INTEGER NULL,
+    MODIFY `paymentStatus` ENUM('PENDING', 'PAID', 'FAILED', 'READY_FOR_PICKUP', 'SHIPPED', 'DELIVERED', 'CANCELED') NOT NULL;
+
+-- AlterTable
+ALTER TABLE `OrderStatusHistory` MODIFY `fromStatus` ENUM('PENDING', 'PAID', 'FAILED', 'READY_FOR_PICKUP', 'SHIPPED', 'DELIVERED', 'CANCELED') NOT NULL,
+    MODIFY `toStatus` ENUM('PENDING', 'PAID', 'FAILED', 'READY_FOR_PICKUP', 'SHIPPED', 'DELIVERED', 'CANCELED') NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `Order_pickupCode_key` ON `Order`(`pickupCode`);
+
+-- AddForeignKey
+ALTER TABLE `Order` ADD CONSTRAINT `Order_addressId_fkey` FOREIGN KEY (`addressId`) REFERENCES `Address`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
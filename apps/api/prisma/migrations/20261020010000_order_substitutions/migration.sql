@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE `OrderItem` ADD COLUMN `originalPrice` DOUBLE NULL,
+    ADD COLUMN `originalProductId` INTEGER NULL,
+    ADD COLUMN `preferredSubstituteId` INTEGER NULL,
+    ADD COLUMN `substitutedAt` DATETIME(3) NULL,
+    ADD COLUMN `substitutionPreference` ENUM('NONE', 'SIMILAR', 'SPECIFIC') NOT NULL DEFAULT 'NONE',
+    ADD COLUMN `substitutionRejectedAt` DATETIME(3) NULL;
+
+-- AddForeignKey
+ALTER TABLE `OrderItem` ADD CONSTRAINT `OrderItem_preferredSubstituteId_fkey` FOREIGN KEY (`preferredSubstituteId`) REFERENCES `Product`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `OrderItem` ADD CONSTRAINT `OrderItem_originalProductId_fkey` FOREIGN KEY (`originalProductId`) REFERENCES `Product`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
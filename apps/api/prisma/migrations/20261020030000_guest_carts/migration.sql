@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE `GuestCart` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `expiresAt` DATETIME(3) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `GuestCartItem` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `quantity` INTEGER NOT NULL,
+    `productId` INTEGER NOT NULL,
+    `guestCartId` INTEGER NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `GuestCartItem_guestCartId_productId_key`(`guestCartId`, `productId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `GuestCartItem` ADD CONSTRAINT `GuestCartItem_productId_fkey` FOREIGN KEY (`productId`) REFERENCES `Product`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `GuestCartItem` ADD CONSTRAINT `GuestCartItem_guestCartId_fkey` FOREIGN KEY (`guestCartId`) REFERENCES `GuestCart`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
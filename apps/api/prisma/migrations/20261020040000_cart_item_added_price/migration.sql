@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE `CartItem` ADD COLUMN `addedPrice` DOUBLE NULL;
+
+-- Lines already in a cart start from the current price
+UPDATE `CartItem` `ci`
+JOIN `Product` `p` ON `p`.`id` = `ci`.`productId`
+SET `ci`.`addedPrice` = `p`.`price`;
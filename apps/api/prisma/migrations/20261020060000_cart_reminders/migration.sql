@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE `User` ADD COLUMN `cartRemindersOff` BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE `CartReminder` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `cartId` INTEGER NOT NULL,
+    `sentAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `CartReminder_cartId_idx`(`cartId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `CartReminder` ADD CONSTRAINT `CartReminder_cartId_fkey` FOREIGN KEY (`cartId`) REFERENCES `Cart`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE `Product` ADD COLUMN `sku` VARCHAR(191) NULL;
+
+-- Existing products get the upper-cased slug, which is already unique
+UPDATE `Product` SET `sku` = UPPER(`slug`);
+
+-- AlterTable
+ALTER TABLE `Product` MODIFY `sku` VARCHAR(191) NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `Product_sku_key` ON `Product`(`sku`);
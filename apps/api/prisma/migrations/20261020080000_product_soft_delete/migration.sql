@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `Product` ADD COLUMN `deleted` BOOLEAN NOT NULL DEFAULT false;
@@ -163,6 +163,7 @@ async function main() {
       prisma.product.create({
         data: {
           slug: product.slug,
+          sku: product.slug.toUpperCase(),
           name: product.name,
           description: product.description,
           price: product.price,
@@ -24,11 +24,21 @@ import { stockTransferRouter } from './routers/stockTransfer.router';
 import { stockTransferLogRouter } from './routers/stockTransferLog.router';
 import { voucherRouter } from './routers/voucher.router';
 import { reportRouter } from './routers/report.router';
+import { returnRouter } from './routers/return.router';
+import { paymentRouter } from './routers/payment.router';
+import { walletRouter } from './routers/wallet.router';
+import { subscriptionRouter } from './routers/subscription.router';
+import { deliverySlotRouter } from './routers/deliverySlot.router';
+import { settingRouter } from './routers/setting.router';
+import { wishlistRouter } from './routers/wishlist.router';
+import { cartReminderRouter } from './routers/cartReminder.router';
+import { warnIfPaymentGatewayUnavailable } from './services/payment.service';
 
 export default class App {
   private app: Express;
 
   constructor() {
+    warnIfPaymentGatewayUnavailable();
     this.app = express();
     this.configure();
     this.routes();
@@ -38,7 +48,14 @@ export default class App {
 
   private configure(): void {
     this.app.use(cors());
-    this.app.use(json());
+    // Payment webhooks are verified against the exact bytes that were signed
+    this.app.use(
+      json({
+        verify: (req: any, res, buf) => {
+          req.rawBody = buf.toString();
+        },
+      }),
+    );
     this.app.use(urlencoded({ extended: true }));
   }
 
@@ -85,10 +102,20 @@ export default class App {
     this.app.use('/api/logs', stockTransferLogRouter);
     this.app.use('/api/vouchers', voucherRouter);
     this.app.use('/api/reports', reportRouter);
+    this.app.use('/api/returns', returnRouter);
+    this.app.use('/api/payments', paymentRouter);
+    this.app.use('/api/wallet', walletRouter);
+    this.app.use('/api/subscriptions', subscriptionRouter);
+    this.app.use('/api/delivery-slots', deliverySlotRouter);
+    this.app.use('/api/settings', settingRouter);
+    this.app.use('/api/wishlist', wishlistRouter);
+    this.app.use('/api/cart-reminders', cartReminderRouter);
   }
 
   private startCronJobs(): void {
-    startOrderCronJobs();
+    startOrderCronJobs().catch((error) => {
+      console.error('Failed to start order cron jobs:', error);
+    });
   }
 
   public start(): void {
@@ -10,5 +10,45 @@ config({ path: resolve(__dirname, `../${envFile}.local`), override: true });
 
 // Load all environment variables from .env file
 
+// Secrets have no fallback, the API refuses to start without them
+const requireEnv = (name: string) => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing required environment variable ${name}`);
+  }
+  return value;
+};
+
 export const PORT = process.env.PORT || 8000;
 export const DATABASE_URL = process.env.DATABASE_URL || '';
+export const COD_RESERVATION_DAYS = Number(
+  process.env.COD_RESERVATION_DAYS || 7,
+);
+// Only read outside production, where the mock gateway may be used
+export const PAYMENT_MOCK_SECRET = process.env.PAYMENT_MOCK_SECRET || '';
+export const PAYMENT_PROOF_GRACE_MINUTES = Number(
+  process.env.PAYMENT_PROOF_GRACE_MINUTES || 60,
+);
+// Left empty, the shop runs without the online payment gateway
+export const PAYMENT_PROVIDER = process.env.PAYMENT_PROVIDER || '';
+export const WEB_URL = process.env.WEB_URL || 'http://localhost:3000';
+export const ORDER_NUMBER_PREFIX = process.env.ORDER_NUMBER_PREFIX || 'HM';
+export const TRACKING_PROVIDER = process.env.TRACKING_PROVIDER || 'mock';
+export const TRACKING_MOCK_STEP_MINUTES = Number(
+  process.env.TRACKING_MOCK_STEP_MINUTES || 60,
+);
+export const SUBSCRIPTION_CUTOFF_HOURS = Number(
+  process.env.SUBSCRIPTION_CUTOFF_HOURS || 24,
+);
+export const SUBSCRIPTION_PAYMENT_HOURS = Number(
+  process.env.SUBSCRIPTION_PAYMENT_HOURS || 24,
+);
+export const DELIVERY_SLOT_DAYS_AHEAD = Number(
+  process.env.DELIVERY_SLOT_DAYS_AHEAD || 7,
+);
+export const PICKUP_WINDOW_DAYS = Number(process.env.PICKUP_WINDOW_DAYS || 3);
+export const GUEST_CART_SECRET = requireEnv('GUEST_CART_SECRET');
+export const GUEST_CART_TTL_DAYS = Number(
+  process.env.GUEST_CART_TTL_DAYS || 14,
+);
+export const CART_REMINDER_SECRET = requireEnv('CART_REMINDER_SECRET');
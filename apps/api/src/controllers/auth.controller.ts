@@ -5,6 +5,10 @@ import bcrypt, { genSalt } from 'bcrypt';
 import { transporter } from '@/utils/auth.utils';
 import { configDotenv } from 'dotenv';
 import { Role } from '@prisma/client';
+import {
+  GUEST_CART_HEADER,
+  mergeGuestCart,
+} from '@/services/guestCart.service';
 
 interface LoginPayload {
   userId: number;
@@ -15,6 +19,17 @@ interface LoginPayload {
   warehouseId?: number;
 }
 
+// A cart filled before logging in joins the user's cart. A failed merge must
+// not block the login, the guest cart simply stays behind.
+const mergeCartOfGuest = async (req: Request, userId: number) => {
+  try {
+    return await mergeGuestCart(userId, req.header(GUEST_CART_HEADER));
+  } catch (error) {
+    console.error('Error merging guest cart:', error);
+    return null;
+  }
+};
+
 export const register = async (req: Request, res: Response) => {
   try {
     const { email } = req.body;
@@ -51,6 +66,8 @@ export const register = async (req: Request, res: Response) => {
       },
     });
 
+    const cartMerge = await mergeCartOfGuest(req, user.id);
+
     const idToken = jwt.sign(
       {
         id: user.id,
@@ -80,6 +97,7 @@ export const register = async (req: Request, res: Response) => {
     res.status(201).json({
       message: 'Registration success',
       user,
+      cartMerge,
     });
   } catch (error) {
     console.error('Error registering user:', error);
@@ -135,7 +153,11 @@ export const login = async (req: Request, res: Response) => {
       maxAge: 3600000,
     });
 
-    res.status(200).json({ message: 'Login success', data: user, token });
+    const cartMerge = await mergeCartOfGuest(req, user.id);
+
+    res
+      .status(200)
+      .json({ message: 'Login success', data: user, token, cartMerge });
   } catch (error) {
     console.error('Error login', error);
     res.status(500).json({ message: 'Internal server error' });
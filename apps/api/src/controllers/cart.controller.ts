@@ -1,4 +1,5 @@
 import { Request, Response } from 'express';
+import { ZodError } from 'zod';
 import {
   createNewCart,
   getOrCreateCart,
@@ -7,7 +8,14 @@ import {
   updateItem,
   removeItem,
   deactivateCart,
+  reorderFromOrder,
+  REORDER_ORDER_NOT_FOUND,
+  revalidateCart,
+  acceptItemPrice,
+  CART_ITEM_NOT_FOUND,
+  quickOrder,
 } from '../services/cart.services';
+import { CheckoutError } from '../services/checkout.service';
 
 interface AuthenticatedRequest extends Request {
   user?: {
@@ -40,8 +48,11 @@ export const getCart = async (req: AuthenticatedRequest, res: Response) => {
     }
 
     const cart = await getOrCreateCart(userId);
+    const report = await revalidateCart(userId, cart);
 
-    res.status(200).json({ message: 'Get cart success', cart: cart });
+    res
+      .status(200)
+      .json({ message: 'Get cart success', cart: cart, report: report });
   } catch (error) {
     console.error('Error in getCart controller:', error);
     res.status(500).json({ error: 'Failed to get cart' });
@@ -108,3 +119,74 @@ export const removeCartItem = async (req: Request, res: Response) => {
     res.status(500).json({ message: 'Failed to remove cart item' });
   }
 };
+
+export const reorder = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const orderId = Number(req.body.orderId);
+    if (!Number.isInteger(orderId) || orderId <= 0) {
+      return res.status(400).json({ error: 'Valid orderId is required' });
+    }
+
+    const result = await reorderFromOrder(userId, orderId);
+    res.status(200).json({ message: 'Reorder success', ...result });
+  } catch (error) {
+    console.error('Error in reorder controller:', error);
+    if (error instanceof CheckoutError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof Error && error.message === REORDER_ORDER_NOT_FOUND) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to reorder' });
+  }
+};
+
+export const acceptCartItemPrice = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const updatedItem = await acceptItemPrice(
+      userId,
+      parseInt(req.params.itemId),
+    );
+    res.status(200).json({ message: 'Accept price success', updatedItem });
+  } catch (error) {
+    console.error('Error in acceptCartItemPrice controller:', error);
+    if (error instanceof Error && error.message === CART_ITEM_NOT_FOUND) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to accept price' });
+  }
+};
+
+export const quickOrderItems = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const result = await quickOrder(userId, req.body);
+    res.status(200).json({ message: 'Quick order success', ...result });
+  } catch (error) {
+    console.error('Error in quickOrderItems controller:', error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    res.status(500).json({ error: 'Failed to add quick order items' });
+  }
+};
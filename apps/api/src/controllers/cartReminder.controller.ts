@@ -0,0 +1,38 @@
+import { Request, Response } from 'express';
+import { ZodError } from 'zod';
+import {
+  CART_REMINDER_INVALID_TOKEN,
+  unsubscribeFromCartReminders,
+} from '../services/cartReminder.service';
+
+const handleCartReminderError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string,
+) => {
+  if (error instanceof ZodError) {
+    return res
+      .status(400)
+      .json({ success: false, message: error.errors[0].message });
+  }
+
+  if (error instanceof Error && error.message === CART_REMINDER_INVALID_TOKEN) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+
+  return res.status(500).json({ success: false, message: fallbackMessage });
+};
+
+// Reached from the link in the reminder email, the signed token is the proof
+export const unsubscribe = async (req: Request, res: Response) => {
+  try {
+    await unsubscribeFromCartReminders(req.body);
+    res.status(200).json({
+      success: true,
+      message: 'You will no longer receive cart reminders',
+    });
+  } catch (error) {
+    console.error('Error unsubscribing from cart reminders:', error);
+    return handleCartReminderError(res, error, 'Failed to unsubscribe');
+  }
+};
@@ -0,0 +1,152 @@
+import { Response } from 'express';
+import { ZodError } from 'zod';
+import { AuthenticatedRequest } from '@/middleware/auth.middleware';
+import {
+  createDeliverySlot,
+  DELIVERY_SLOT_NOT_FOUND,
+  DeliverySlotError,
+  getCheckoutDeliverySlots,
+  getDeliverySlots,
+  getPickingList,
+  updateDeliverySlot,
+  WAREHOUSE_NOT_FOUND,
+} from '../services/deliverySlot.service';
+import { CheckoutError } from '../services/checkout.service';
+import {
+  validateAvailableSlotsBody,
+  validatePickingQuery,
+} from '../validations/deliverySlot.validation';
+
+const handleDeliverySlotError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string,
+) => {
+  if (error instanceof ZodError) {
+    return res
+      .status(400)
+      .json({ success: false, message: error.errors[0].message });
+  }
+
+  if (
+    error instanceof DeliverySlotError ||
+    error instanceof CheckoutError ||
+    (error instanceof Error &&
+      error.message === 'Admin is not assigned to a warehouse')
+  ) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+
+  if (
+    error instanceof Error &&
+    (error.message === DELIVERY_SLOT_NOT_FOUND ||
+      error.message === WAREHOUSE_NOT_FOUND)
+  ) {
+    return res.status(404).json({ success: false, message: error.message });
+  }
+
+  return res.status(500).json({ success: false, message: fallbackMessage });
+};
+
+const parseWarehouseId = (value: unknown) => {
+  const warehouseId = Number(value);
+  return Number.isInteger(warehouseId) && warehouseId > 0
+    ? warehouseId
+    : undefined;
+};
+
+export const getSlots = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const slots = await getDeliverySlots(
+      { userId: req.user?.userId, role: req.user?.role },
+      parseWarehouseId(req.query.warehouseId),
+    );
+    res.status(200).json({ success: true, slots });
+  } catch (error) {
+    console.error('Error fetching delivery slots:', error);
+    return handleDeliverySlotError(
+      res,
+      error,
+      'Failed to fetch delivery slots',
+    );
+  }
+};
+
+export const createSlot = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const slot = await createDeliverySlot(
+      { userId: req.user?.userId, role: req.user?.role },
+      parseWarehouseId(req.body?.warehouseId),
+      req.body,
+    );
+    res.status(201).json({ success: true, slot });
+  } catch (error) {
+    console.error('Error creating delivery slot:', error);
+    return handleDeliverySlotError(
+      res,
+      error,
+      'Failed to create delivery slot',
+    );
+  }
+};
+
+export const updateSlot = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const slotId = parseInt(req.params.id);
+    if (isNaN(slotId)) {
+      return res.status(400).json({ error: 'Invalid delivery slot ID' });
+    }
+
+    const slot = await updateDeliverySlot(
+      slotId,
+      { userId: req.user?.userId, role: req.user?.role },
+      req.body,
+    );
+    res.status(200).json({ success: true, slot });
+  } catch (error) {
+    console.error('Error updating delivery slot:', error);
+    return handleDeliverySlotError(
+      res,
+      error,
+      'Failed to update delivery slot',
+    );
+  }
+};
+
+export const getAvailableSlots = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId || typeof userId !== 'number') {
+      return res.status(400).json({ error: 'Valid userId is required' });
+    }
+
+    const { addressId } = validateAvailableSlotsBody.parse(req.body);
+    const slots = await getCheckoutDeliverySlots(userId, addressId);
+    res.status(200).json({ success: true, slots });
+  } catch (error) {
+    console.error('Error fetching available delivery slots:', error);
+    return handleDeliverySlotError(
+      res,
+      error,
+      'Failed to fetch available delivery slots',
+    );
+  }
+};
+
+export const getPicking = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { date, warehouseId } = validatePickingQuery.parse(req.query);
+    const slots = await getPickingList(
+      { userId: req.user?.userId, role: req.user?.role },
+      date,
+      warehouseId,
+    );
+    res.status(200).json({ success: true, date, slots });
+  } catch (error) {
+    console.error('Error fetching picking list:', error);
+    return handleDeliverySlotError(res, error, 'Failed to fetch picking list');
+  }
+};
@@ -0,0 +1,95 @@
+import { Request, Response } from 'express';
+import { ZodError } from 'zod';
+import {
+  addGuestCartItem,
+  getOrCreateGuestCart,
+  GUEST_CART_HEADER,
+  GUEST_CART_INSUFFICIENT_STOCK,
+  GUEST_CART_ITEM_NOT_FOUND,
+  removeGuestCartItem,
+  updateGuestCartItem,
+} from '../services/guestCart.service';
+import { revalidateCartItems } from '../services/cart.services';
+
+const handleGuestCartError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string,
+) => {
+  if (error instanceof ZodError) {
+    return res.status(400).json({ error: error.errors[0].message });
+  }
+
+  if (error instanceof Error && error.message === GUEST_CART_ITEM_NOT_FOUND) {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (
+    error instanceof Error &&
+    error.message === GUEST_CART_INSUFFICIENT_STOCK
+  ) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: fallbackMessage });
+};
+
+// The token is sent back on every read so the web can refresh its cookie
+export const getGuestCart = async (req: Request, res: Response) => {
+  try {
+    const { cart, token } = await getOrCreateGuestCart(
+      req.header(GUEST_CART_HEADER),
+    );
+    // Guests have no address, so stock is checked across all warehouses
+    const report = await revalidateCartItems(cart.items, null);
+    res.status(200).json({ message: 'Get cart success', cart, report, token });
+  } catch (error) {
+    console.error('Error in getGuestCart controller:', error);
+    return handleGuestCartError(res, error, 'Failed to get cart');
+  }
+};
+
+export const addItemToGuestCart = async (req: Request, res: Response) => {
+  try {
+    const { cartItem, token } = await addGuestCartItem(
+      req.header(GUEST_CART_HEADER),
+      req.body,
+    );
+    res
+      .status(201)
+      .json({ message: 'Add item to cart success', cartItem, token });
+  } catch (error) {
+    console.error('Error in addItemToGuestCart controller:', error);
+    return handleGuestCartError(res, error, 'Failed to add item to cart');
+  }
+};
+
+export const updateGuestCartItemQuantity = async (
+  req: Request,
+  res: Response,
+) => {
+  try {
+    const updatedItem = await updateGuestCartItem(
+      req.header(GUEST_CART_HEADER),
+      parseInt(req.params.itemId),
+      req.body,
+    );
+    res.status(200).json({ message: 'Update item success', updatedItem });
+  } catch (error) {
+    console.error('Error in updateGuestCartItemQuantity controller:', error);
+    return handleGuestCartError(res, error, 'Failed to update cart item');
+  }
+};
+
+export const removeGuestCartItemById = async (req: Request, res: Response) => {
+  try {
+    await removeGuestCartItem(
+      req.header(GUEST_CART_HEADER),
+      parseInt(req.params.itemId),
+    );
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error in removeGuestCartItemById controller:', error);
+    return handleGuestCartError(res, error, 'Failed to remove cart item');
+  }
+};
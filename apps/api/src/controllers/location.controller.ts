@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import prisma from '@/prisma';
 import axios from 'axios';
+import { fetchShippingCosts } from '@/services/shipping.service';
 
 export const getProvince = async (req: Request, res: Response) => {
   try {   
@@ -96,29 +97,10 @@ export const createCity = async (req: Request, res: Response) => {
 
 export const getShipping = async (req: Request, res: Response) => {
   try {
-    const reqData= req.body;
-    const nyoba = {
-      origin: 1,
-      destination: 3,
-      weight: 1500,
-      courier: "jne"
-    }
-    
-    const response = await axios.post(
-      `https://api.rajaongkir.com/starter/cost`,{...reqData},
-      {
-        headers: {
-          key: '52f9fdf3233f8e61a6883ad3d87abdff',
-          'Content-Type': 'application/json',
-        },
-      },
-    );
-    console.log(response.data.rajaongkir.results);
-    
-    const hasil = response.data.rajaongkir.results
-    
+    const hasil = await fetchShippingCosts(req.body);
+
     res.status(200).json({ hasil });
   } catch (error) {
     res.status(500).json({ message: 'Internal server error.', error });
   }
-};
\ No newline at end of file
+};
@@ -3,15 +3,56 @@ import {
   handleCheckout,
   cancelExpiredOrders,
   cancelOrder,
+  cancelOrderItems,
+  ORDER_ITEM_CANCELLATION_ERRORS,
+  cancelOrderByAdmin,
+  ADMIN_CANCELLATION_ERRORS,
+  acceptPaymentProof,
+  rejectPaymentProof,
+  NO_PROOF_UNDER_REVIEW,
+  COD_COLLECTION_ERRORS,
+  confirmCodCollected,
+  PAYMENT_DEADLINE_PASSED,
+  PAYMENT_PROOF_UNDER_REVIEW,
   confirmOrder,
   confirmPayment,
   uploadPaymentProof,
-  checkAndMutateStock,
+  checkShipmentPlan,
   getOrderDetailById,
+  getOrderInvoice,
   autoReceiveOrders,
   updateStatusOrderResolver,
   getOrderListByRole,
+  CANCEL_THROUGH_ADMIN_CANCELLATION,
+  SHIP_THROUGH_SHIPMENTS,
+  PICKUP_THROUGH_PICKUP_ACTIONS,
 } from '../services/order.service';
+import { INVALID_STATUS_TRANSITION } from '../services/orderStatus.service';
+import { INSUFFICIENT_STOCK_TO_COMMIT } from '../services/stock.service';
+import {
+  addShipmentEvent,
+  confirmShipmentReceived,
+  SHIPMENT_NOT_IN_TRANSIT,
+  shipShipment,
+} from '../services/shipment.service';
+import {
+  CheckoutError,
+  getCheckoutShippingServices,
+  getPickupWarehouses,
+} from '../services/checkout.service';
+import {
+  confirmPickup,
+  markReadyForPickup,
+  PICKUP_ERRORS,
+} from '../services/pickup.service';
+import {
+  getSubstituteCandidates,
+  rejectSubstitute,
+  substituteOrderItem,
+  SUBSTITUTION_ERRORS,
+} from '../services/substitution.service';
+import { validateShippingQuery } from '../validations/order.validation';
+import { ZodError } from 'zod';
 import { AuthenticatedRequest } from '@/middleware/auth.middleware';
 import { Role } from '@prisma/client';
 export const updateStatusOrder = async (
@@ -25,11 +66,151 @@ export const updateStatusOrder = async (
     }
 
     // File is already uploaded by the middleware, so we proceed with logic
-    const updatedOrder = await updateStatusOrderResolver(orderId, status);
+    const updatedOrder = await updateStatusOrderResolver(
+      orderId,
+      status,
+      req.user?.userId,
+    );
     res.status(200).json(updatedOrder);
   } catch (error) {
     console.error('Error updating status order: ', error);
-    res.status(500).json({ message: 'Failed to update status order' });
+    if (
+      error instanceof Error &&
+      (error.message === CANCEL_THROUGH_ADMIN_CANCELLATION ||
+        error.message === SHIP_THROUGH_SHIPMENTS ||
+        error.message === PICKUP_THROUGH_PICKUP_ACTIONS ||
+        error.message.startsWith(INVALID_STATUS_TRANSITION))
+    ) {
+      res.status(400).json({ message: error.message });
+    } else {
+      res.status(500).json({ message: 'Failed to update status order' });
+    }
+  }
+};
+
+export const shipOrderShipment = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const shipmentId = parseInt(req.params.id);
+    if (isNaN(shipmentId)) {
+      return res.status(400).json({ error: 'Invalid shipment ID' });
+    }
+
+    const shipment = await shipShipment(
+      shipmentId,
+      { userId: req.user?.userId, role: req.user?.role },
+      req.body,
+    );
+    res.status(200).json({ success: true, shipment });
+  } catch (error) {
+    console.error('Error shipping parcel:', error);
+    if (error instanceof ZodError) {
+      res
+        .status(400)
+        .json({ success: false, message: error.errors[0].message });
+    } else if (
+      error instanceof Error &&
+      error.message === 'Shipment not found'
+    ) {
+      res.status(404).json({ success: false, message: error.message });
+    } else if (
+      error instanceof Error &&
+      error.message === 'Shipment belongs to another warehouse'
+    ) {
+      res.status(403).json({ success: false, message: error.message });
+    } else if (
+      error instanceof Error &&
+      (error.message === 'Order is not ready to be shipped' ||
+        error.message === 'Shipment has already been shipped' ||
+        error.message === INSUFFICIENT_STOCK_TO_COMMIT ||
+        error.message.startsWith(INVALID_STATUS_TRANSITION))
+    ) {
+      res.status(400).json({ success: false, message: error.message });
+    } else {
+      res
+        .status(500)
+        .json({ success: false, message: 'Failed to ship parcel' });
+    }
+  }
+};
+
+export const addShipmentTrackingEvent = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const shipmentId = parseInt(req.params.id);
+    if (isNaN(shipmentId)) {
+      return res.status(400).json({ error: 'Invalid shipment ID' });
+    }
+
+    const shipment = await addShipmentEvent(
+      shipmentId,
+      { userId: req.user?.userId, role: req.user?.role },
+      req.body,
+    );
+    res.status(200).json({ success: true, shipment });
+  } catch (error) {
+    console.error('Error adding tracking event:', error);
+    if (error instanceof ZodError) {
+      res
+        .status(400)
+        .json({ success: false, message: error.errors[0].message });
+    } else if (
+      error instanceof Error &&
+      error.message === 'Shipment not found'
+    ) {
+      res.status(404).json({ success: false, message: error.message });
+    } else if (
+      error instanceof Error &&
+      error.message === 'Shipment belongs to another warehouse'
+    ) {
+      res.status(403).json({ success: false, message: error.message });
+    } else if (
+      error instanceof Error &&
+      (error.message === SHIPMENT_NOT_IN_TRANSIT ||
+        error.message.startsWith(INVALID_STATUS_TRANSITION))
+    ) {
+      res.status(400).json({ success: false, message: error.message });
+    } else {
+      res
+        .status(500)
+        .json({ success: false, message: 'Failed to add tracking event' });
+    }
+  }
+};
+
+export const confirmShipmentReceipt = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId || typeof userId !== 'number') {
+      return res.status(400).json({ error: 'Valid userId is required' });
+    }
+
+    const shipmentId = parseInt(req.params.id);
+    if (isNaN(shipmentId)) {
+      return res.status(400).json({ error: 'Invalid shipment ID' });
+    }
+
+    const shipment = await confirmShipmentReceived(userId, shipmentId);
+    res.status(200).json({ success: true, shipment });
+  } catch (error) {
+    console.error('Error confirming parcel received:', error);
+    if (
+      error instanceof Error &&
+      error.message === 'Shipment not found or cannot be confirmed'
+    ) {
+      res.status(404).json({ success: false, message: error.message });
+    } else {
+      res
+        .status(500)
+        .json({ success: false, message: 'Failed to confirm parcel received' });
+    }
   }
 };
 
@@ -62,6 +243,35 @@ export const getOrderDetail = async (
   }
 };
 
+export const getInvoice = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    if (isNaN(orderId)) {
+      return res.status(400).json({ error: 'Invalid order ID' });
+    }
+
+    const { order, pdf } = await getOrderInvoice(orderId, {
+      userId: req.user?.userId,
+      role: req.user?.role,
+    });
+    res
+      .status(200)
+      .set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="invoice-${order.name}.pdf"`,
+        'Access-Control-Expose-Headers': 'Content-Disposition',
+      })
+      .send(pdf);
+  } catch (error) {
+    console.error('Error rendering invoice:', error);
+    if (error instanceof Error && error.message === 'Order not found') {
+      res.status(404).json({ message: error.message });
+    } else {
+      res.status(500).json({ message: 'Failed to render invoice' });
+    }
+  }
+};
+
 export const getOrderList = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -132,10 +342,54 @@ export const checkout = async (req: AuthenticatedRequest, res: Response) => {
     const order = await handleCheckout(userId, req.body);
     res.status(201).json(order);
   } catch (error) {
+    if (error instanceof CheckoutError) {
+      return res.status(error.code === 'TOTAL_MISMATCH' ? 409 : 400).json({
+        success: false,
+        code: error.code,
+        message: error.message,
+        details: error.details,
+      });
+    }
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        success: false,
+        code: 'INVALID_BODY',
+        message: error.errors[0]?.message,
+      });
+    }
+    console.error('Error during checkout:', error);
     res.status(500).json({ message: 'Failed to checkout' });
   }
 };
 
+export const getShippingServices = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId || typeof userId !== 'number') {
+      return res.status(400).json({ error: 'Valid userId is required' });
+    }
+
+    const { addressId, courier } = validateShippingQuery.parse(req.body);
+    const services = await getCheckoutShippingServices(
+      userId,
+      addressId,
+      courier,
+    );
+    res.status(200).json({ success: true, services });
+  } catch (error) {
+    if (error instanceof CheckoutError || error instanceof ZodError) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    console.error('Error fetching shipping services:', error);
+    res
+      .status(500)
+      .json({ success: false, message: 'Failed to fetch shipping services' });
+  }
+};
+
 export const cancelExpired = async (req: Request, res: Response) => {
   try {
     const canceledCount = await cancelExpiredOrders();
@@ -223,6 +477,78 @@ export const cancel = async (req: AuthenticatedRequest, res: Response) => {
   }
 };
 
+export const cancelItems = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    if (isNaN(orderId)) {
+      return res.status(400).json({ error: 'Invalid order ID' });
+    }
+
+    const result = await cancelOrderItems(
+      orderId,
+      { userId: req.user?.userId, role: req.user?.role },
+      req.body,
+    );
+    res.status(200).json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error canceling order items:', error);
+    if (error instanceof ZodError) {
+      res.status(400).json({
+        success: false,
+        message: error.errors[0]?.message || 'Invalid request',
+      });
+    } else if (error instanceof Error && error.message === 'Order not found') {
+      res.status(404).json({ success: false, message: error.message });
+    } else if (
+      error instanceof Error &&
+      (ORDER_ITEM_CANCELLATION_ERRORS.includes(error.message) ||
+        error.message.startsWith(INVALID_STATUS_TRANSITION))
+    ) {
+      res.status(400).json({ success: false, message: error.message });
+    } else {
+      res
+        .status(500)
+        .json({ success: false, message: 'Failed to cancel order items' });
+    }
+  }
+};
+
+export const adminCancel = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    if (isNaN(orderId)) {
+      return res.status(400).json({ error: 'Invalid order ID' });
+    }
+
+    const order = await cancelOrderByAdmin(
+      orderId,
+      { userId: req.user?.userId, role: req.user?.role },
+      req.body,
+    );
+    res.status(200).json({ success: true, order });
+  } catch (error) {
+    console.error('Error canceling order:', error);
+    if (error instanceof ZodError) {
+      res.status(400).json({
+        success: false,
+        message: error.errors[0]?.message || 'Invalid request',
+      });
+    } else if (error instanceof Error && error.message === 'Order not found') {
+      res.status(404).json({ success: false, message: error.message });
+    } else if (
+      error instanceof Error &&
+      (ADMIN_CANCELLATION_ERRORS.includes(error.message) ||
+        error.message.startsWith(INVALID_STATUS_TRANSITION))
+    ) {
+      res.status(400).json({ success: false, message: error.message });
+    } else {
+      res
+        .status(500)
+        .json({ success: false, message: 'Failed to cancel order' });
+    }
+  }
+};
+
 export const uploadProof = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = req.user?.userId;
@@ -243,16 +569,312 @@ export const uploadProof = async (req: AuthenticatedRequest, res: Response) => {
     res.status(200).json(updatedOrder);
   } catch (error) {
     console.error('Error uploading payment proof:', error);
-    res.status(500).json({ message: 'Failed to upload payment proof' });
+    if (error instanceof Error && error.message === 'Order not found') {
+      res.status(404).json({ message: error.message });
+    } else if (
+      error instanceof Error &&
+      (error.message === PAYMENT_PROOF_UNDER_REVIEW ||
+        error.message === PAYMENT_DEADLINE_PASSED)
+    ) {
+      res.status(400).json({ message: error.message });
+    } else {
+      res.status(500).json({ message: 'Failed to upload payment proof' });
+    }
+  }
+};
+
+const handleProofReviewError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string,
+) => {
+  if (error instanceof ZodError) {
+    return res
+      .status(400)
+      .json({ success: false, message: error.errors[0].message });
+  }
+
+  if (error instanceof Error && error.message === 'Order not found') {
+    return res.status(404).json({ success: false, message: error.message });
+  }
+
+  if (
+    error instanceof Error &&
+    (error.message === NO_PROOF_UNDER_REVIEW ||
+      error.message === INSUFFICIENT_STOCK_TO_COMMIT ||
+      error.message.startsWith(INVALID_STATUS_TRANSITION))
+  ) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+
+  return res.status(500).json({ success: false, message: fallbackMessage });
+};
+
+export const acceptProof = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    if (isNaN(orderId)) {
+      return res.status(400).json({ error: 'Invalid order ID' });
+    }
+
+    const order = await acceptPaymentProof(orderId, {
+      userId: req.user?.userId,
+      role: req.user?.role,
+    });
+    res.status(200).json({ success: true, order });
+  } catch (error) {
+    console.error('Error accepting payment proof:', error);
+    return handleProofReviewError(res, error, 'Failed to accept payment proof');
+  }
+};
+
+export const rejectProof = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    if (isNaN(orderId)) {
+      return res.status(400).json({ error: 'Invalid order ID' });
+    }
+
+    const order = await rejectPaymentProof(
+      orderId,
+      { userId: req.user?.userId, role: req.user?.role },
+      req.body,
+    );
+    res.status(200).json({ success: true, order });
+  } catch (error) {
+    console.error('Error rejecting payment proof:', error);
+    return handleProofReviewError(res, error, 'Failed to reject payment proof');
+  }
+};
+
+export const codCollected = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    if (isNaN(orderId)) {
+      return res.status(400).json({ error: 'Invalid order ID' });
+    }
+
+    const order = await confirmCodCollected(orderId, {
+      userId: req.user?.userId,
+      role: req.user?.role,
+    });
+    res.status(200).json({ success: true, order });
+  } catch (error) {
+    console.error('Error confirming cash collection:', error);
+    if (error instanceof Error && error.message === 'Order not found') {
+      res.status(404).json({ success: false, message: error.message });
+    } else if (
+      error instanceof Error &&
+      (COD_COLLECTION_ERRORS.includes(error.message) ||
+        error.message.startsWith(INVALID_STATUS_TRANSITION))
+    ) {
+      res.status(400).json({ success: false, message: error.message });
+    } else {
+      res
+        .status(500)
+        .json({ success: false, message: 'Failed to confirm cash collection' });
+    }
+  }
+};
+
+export const getPickupStores = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId || typeof userId !== 'number') {
+      return res.status(400).json({ error: 'Valid userId is required' });
+    }
+
+    const warehouses = await getPickupWarehouses(userId);
+    res.status(200).json({ success: true, warehouses });
+  } catch (error) {
+    console.error('Error fetching pickup stores:', error);
+    res
+      .status(500)
+      .json({ success: false, message: 'Failed to fetch pickup stores' });
+  }
+};
+
+const handlePickupError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string,
+) => {
+  if (error instanceof ZodError) {
+    return res
+      .status(400)
+      .json({ success: false, message: error.errors[0].message });
+  }
+
+  if (error instanceof Error && error.message === 'Order not found') {
+    return res.status(404).json({ success: false, message: error.message });
+  }
+
+  if (
+    error instanceof Error &&
+    (PICKUP_ERRORS.includes(error.message) ||
+      error.message.startsWith(INVALID_STATUS_TRANSITION))
+  ) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+
+  return res.status(500).json({ success: false, message: fallbackMessage });
+};
+
+export const readyForPickup = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    if (isNaN(orderId)) {
+      return res.status(400).json({ error: 'Invalid order ID' });
+    }
+
+    const order = await markReadyForPickup(orderId, {
+      userId: req.user?.userId,
+      role: req.user?.role,
+    });
+    res.status(200).json({ success: true, order });
+  } catch (error) {
+    console.error('Error marking order ready for pickup:', error);
+    return handlePickupError(
+      res,
+      error,
+      'Failed to mark order ready for pickup',
+    );
+  }
+};
+
+export const confirmPickupHandover = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const order = await confirmPickup(
+      { userId: req.user?.userId, role: req.user?.role },
+      req.body,
+    );
+    res.status(200).json({ success: true, order });
+  } catch (error) {
+    console.error('Error confirming pickup:', error);
+    return handlePickupError(res, error, 'Failed to confirm pickup');
+  }
+};
+
+const handleSubstitutionError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string,
+) => {
+  if (error instanceof ZodError) {
+    return res
+      .status(400)
+      .json({ success: false, message: error.errors[0].message });
+  }
+
+  if (error instanceof Error && error.message === 'Order not found') {
+    return res.status(404).json({ success: false, message: error.message });
+  }
+
+  if (
+    error instanceof Error &&
+    (SUBSTITUTION_ERRORS.includes(error.message) ||
+      error.message.startsWith(INVALID_STATUS_TRANSITION))
+  ) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+
+  return res.status(500).json({ success: false, message: fallbackMessage });
+};
+
+export const getSubstitutes = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const orderItemId = parseInt(req.params.itemId);
+    if (isNaN(orderId) || isNaN(orderItemId)) {
+      return res.status(400).json({ error: 'Invalid order ID' });
+    }
+
+    const products = await getSubstituteCandidates(orderId, orderItemId, {
+      userId: req.user?.userId,
+      role: req.user?.role,
+    });
+    res.status(200).json({ success: true, products });
+  } catch (error) {
+    console.error('Error fetching substitutes:', error);
+    return handleSubstitutionError(res, error, 'Failed to fetch substitutes');
+  }
+};
+
+export const substituteItem = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    if (isNaN(orderId)) {
+      return res.status(400).json({ error: 'Invalid order ID' });
+    }
+
+    const result = await substituteOrderItem(
+      orderId,
+      { userId: req.user?.userId, role: req.user?.role },
+      req.body,
+    );
+    res.status(200).json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error substituting order item:', error);
+    return handleSubstitutionError(res, error, 'Failed to substitute item');
+  }
+};
+
+export const rejectItemSubstitute = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId || typeof userId !== 'number') {
+      return res.status(400).json({ error: 'Valid userId is required' });
+    }
+
+    const orderId = parseInt(req.params.id);
+    const orderItemId = parseInt(req.params.itemId);
+    if (isNaN(orderId) || isNaN(orderItemId)) {
+      return res.status(400).json({ error: 'Invalid order ID' });
+    }
+
+    const result = await rejectSubstitute(orderId, orderItemId, userId);
+    res.status(200).json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error rejecting substitute:', error);
+    return handleSubstitutionError(res, error, 'Failed to reject substitute');
   }
 };
 
 export const checkStock = async (req: Request, res: Response) => {
   try {
     const { warehouseId, products, latitude, longitude } = req.body;
-    await checkAndMutateStock(warehouseId, products, latitude, longitude);
-    res.status(200).json({ message: 'Stock checked and mutated successfully' });
-  } catch (error) {
+    const shipments = await checkShipmentPlan(
+      warehouseId,
+      products,
+      latitude,
+      longitude,
+    );
+    res.status(200).json({ message: 'Stock is available', shipments });
+  } catch (error: any) {
+    if (error.message === 'Insufficient stock available in nearby warehouses') {
+      return res.status(400).json({ message: error.message });
+    }
     res.status(500).json({ message: 'Internal server error' });
   }
 };
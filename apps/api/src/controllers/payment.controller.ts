@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { AuthenticatedRequest } from '@/middleware/auth.middleware';
+import { INVALID_WEBHOOK_SIGNATURE } from '@/types/payment.type';
+import {
+  createPaymentCharge,
+  handlePaymentWebhook,
+  isPaymentGatewayEnabled,
+  PAYMENT_CHARGE_NOT_FOUND,
+  PAYMENT_GATEWAY_UNAVAILABLE,
+  refreshPaymentCharge,
+  simulateMockPayment,
+  UNKNOWN_PAYMENT_PROVIDER,
+} from '../services/payment.service';
+import {
+  validateCreateChargeBody,
+  validateMockOutcome,
+} from '../validations/payment.validation';
+
+const handlePaymentError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string,
+) => {
+  if (error instanceof ZodError) {
+    return res
+      .status(400)
+      .json({ success: false, message: error.errors[0].message });
+  }
+
+  if (error instanceof Error && error.message === INVALID_WEBHOOK_SIGNATURE) {
+    return res.status(401).json({ success: false, message: error.message });
+  }
+
+  if (
+    error instanceof Error &&
+    (error.message === PAYMENT_CHARGE_NOT_FOUND ||
+      error.message === UNKNOWN_PAYMENT_PROVIDER ||
+      error.message === 'Order not found')
+  ) {
+    return res.status(404).json({ success: false, message: error.message });
+  }
+
+  if (
+    error instanceof Error &&
+    (error.message === 'Order is not awaiting payment' ||
+      error.message === PAYMENT_GATEWAY_UNAVAILABLE ||
+      error.message === 'Payment amount does not match the charge')
+  ) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+
+  return res.status(500).json({ success: false, message: fallbackMessage });
+};
+
+// Lets the checkout hide the gateway when no provider is configured
+export const getPaymentOptions = async (req: Request, res: Response) => {
+  res.status(200).json({
+    success: true,
+    gatewayEnabled: isPaymentGatewayEnabled(),
+  });
+};
+
+export const createCharge = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const { orderId } = validateCreateChargeBody.parse(req.body);
+    const charge = await createPaymentCharge(req.user?.userId, orderId);
+    res.status(201).json({ success: true, charge });
+  } catch (error) {
+    console.error('Error creating payment charge:', error);
+    return handlePaymentError(res, error, 'Failed to create payment charge');
+  }
+};
+
+export const getChargeStatus = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const chargeId = parseInt(req.params.id);
+    if (isNaN(chargeId)) {
+      return res.status(400).json({ error: 'Invalid charge ID' });
+    }
+
+    const charge = await refreshPaymentCharge(req.user?.userId, chargeId);
+    res.status(200).json({ success: true, charge });
+  } catch (error) {
+    console.error('Error refreshing payment charge:', error);
+    return handlePaymentError(res, error, 'Failed to get payment status');
+  }
+};
+
+export const simulateCharge = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const chargeId = parseInt(req.params.id);
+    if (isNaN(chargeId)) {
+      return res.status(400).json({ error: 'Invalid charge ID' });
+    }
+
+    const outcome = validateMockOutcome.parse(req.params.outcome);
+    const charge = await simulateMockPayment(
+      req.user?.userId,
+      chargeId,
+      outcome,
+    );
+    res.status(200).json({ success: true, charge });
+  } catch (error) {
+    console.error('Error simulating payment:', error);
+    return handlePaymentError(res, error, 'Failed to simulate payment');
+  }
+};
+
+export const receiveWebhook = async (req: Request, res: Response) => {
+  try {
+    const charge = await handlePaymentWebhook(
+      req.params.provider,
+      req.headers,
+      (req as any).rawBody ?? '',
+    );
+    res.status(200).json({ success: true, status: charge.status });
+  } catch (error) {
+    console.error('Error handling payment webhook:', error);
+    return handlePaymentError(res, error, 'Failed to handle payment webhook');
+  }
+};
@@ -2,6 +2,10 @@
 
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
+import {
+  withAvailableStock,
+  withProductsAvailableStock,
+} from '@/services/stock.service';
 
 const prisma = new PrismaClient();
 
@@ -16,6 +20,7 @@ export class ProductController {
 
       const products = await prisma.product.findMany({
         where: {
+          deleted: false,
           OR: [
             { name: { contains: search } },
             { slug: { contains: search } },
@@ -54,6 +59,7 @@ export class ProductController {
 
       const totalProducts = await prisma.product.count({
         where: {
+          deleted: false,
           OR: [
             { name: { contains: search } },
             { slug: { contains: search } },
@@ -64,7 +70,7 @@ export class ProductController {
       });
 
       res.status(200).json({
-        products,
+        products: await withProductsAvailableStock(products),
         meta: {
           totalItems: totalProducts,
           totalPages: Math.ceil(totalProducts / limit),
@@ -81,6 +87,7 @@ export class ProductController {
   async getProducts(req: Request, res: Response) {
     try {
       const products = await prisma.product.findMany({
+        where: { deleted: false },
         include: {
           category: true,
           productImages: true,
@@ -91,7 +98,7 @@ export class ProductController {
           },
         },
       });
-      res.status(200).json(products);
+      res.status(200).json(await withProductsAvailableStock(products));
     } catch (error) {
       console.error('Error fetching products:', error);
       res.status(500).json({ error: 'Error fetching products' });
@@ -102,7 +109,7 @@ export class ProductController {
     const { id } = req.params;
     try {
       const product = await prisma.product.findUnique({
-        where: { id: parseInt(id) },
+        where: { id: parseInt(id), deleted: false },
         include: {
           category: true,
           productImages: true,
@@ -116,7 +123,10 @@ export class ProductController {
       if (!product) {
         return res.status(404).json({ error: 'Product not found' });
       }
-      res.json(product);
+      res.json({
+        ...product,
+        productStocks: await withAvailableStock(product.productStocks),
+      });
     } catch (error) {
       console.error('Error fetching product:', error);
       res.status(500).json({ error: 'Error fetching product' });
@@ -124,7 +134,7 @@ export class ProductController {
   }
 
   async createProduct(req: Request, res: Response) {
-    const { name, description, price, categoryId } = req.body;
+    const { name, description, price, categoryId, sku } = req.body;
     try {
       if (!name || !price || !categoryId) {
         return res
@@ -132,22 +142,26 @@ export class ProductController {
           .json({ message: 'Name, price, and categoryId are required.' });
       }
 
+      const slug = name.toLowerCase().replace(/ /g, '-');
+      const productSku = sku?.trim().toUpperCase() || slug.toUpperCase();
+
       const existingProduct = await prisma.product.findFirst({
         where: {
-          OR: [{ name }],
+          OR: [{ name }, { sku: productSku }],
         },
       });
 
       if (existingProduct) {
         return res.status(400).json({
-          message: 'Product with the same name or slug already exists.',
+          message: 'Product with the same name or SKU already exists.',
         });
       }
 
       const product = await prisma.product.create({
         data: {
           name,
-          slug: name.toLowerCase().replace(/ /g, '-'),
+          slug,
+          sku: productSku,
           description,
           price: parseFloat(price),
           categoryId: parseInt(categoryId),
@@ -175,13 +189,14 @@ export class ProductController {
 
   async updateProduct(req: Request, res: Response) {
     const { id } = req.params;
-    const { name, description, price, categoryId } = req.body;
+    const { name, description, price, categoryId, sku } = req.body;
 
     try {
       const product = await prisma.product.update({
         where: { id: parseInt(id) },
         data: {
           name,
+          sku: sku?.trim().toUpperCase() || undefined,
           description,
           price: parseFloat(price),
           categoryId: parseInt(categoryId),
@@ -214,31 +229,35 @@ export class ProductController {
     }
   }
 
+  // Orders, returns and stock history keep pointing at the product, so it is
+  // only marked deleted and taken out of carts, wishlists and subscriptions
   async deleteProduct(req: Request, res: Response) {
     const { id } = req.params;
     try {
-      await prisma.stockTransferLog.deleteMany({
-        where: { productStock: { productId: parseInt(id) } },
+      await prisma.productStock.updateMany({
+        where: { productId: parseInt(id) },
+        data: { deleted: true },
       });
 
-      await prisma.productStock.deleteMany({
+      await prisma.cartItem.deleteMany({
         where: { productId: parseInt(id) },
       });
 
-      await prisma.cartItem.deleteMany({
+      await prisma.guestCartItem.deleteMany({
         where: { productId: parseInt(id) },
       });
 
-      await prisma.orderItem.deleteMany({
+      await prisma.wishlist.deleteMany({
         where: { productId: parseInt(id) },
       });
 
-      await prisma.productImage.deleteMany({
+      await prisma.subscriptionItem.deleteMany({
         where: { productId: parseInt(id) },
       });
 
-      await prisma.product.delete({
+      await prisma.product.update({
         where: { id: parseInt(id) },
+        data: { deleted: true },
       });
 
       res.status(200).json({ message: 'Product deleted successfully.' });
@@ -252,7 +271,7 @@ export class ProductController {
 
     try {
       const product = await prisma.product.findUnique({
-        where: { slug },
+        where: { slug, deleted: false },
         include: {
           productStocks: {
             include: {
@@ -272,7 +291,10 @@ export class ProductController {
         return res.status(404).json({ message: 'Product not found' });
       }
       res.status(200).json({
-        product,
+        product: {
+          ...product,
+          productStocks: await withAvailableStock(product.productStocks),
+        },
         message: 'Product fetch successfully',
       });
     } catch (error) {
@@ -1,5 +1,9 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
+import {
+  withAvailableStock,
+  withProductsAvailableStock,
+} from '@/services/stock.service';
 
 const prisma = new PrismaClient();
 
@@ -7,6 +11,7 @@ export const getProductStock = async (req: Request, res: Response) => {
   try {
     console.log('Fetching all products with stock information...');
     const products = await prisma.product.findMany({
+      where: { deleted: false },
       include: {
         category: true,
         productImages: true,
@@ -21,7 +26,7 @@ export const getProductStock = async (req: Request, res: Response) => {
       },
     });
     console.log('Products fetched:', products.length);
-    res.json(products);
+    res.json(await withProductsAvailableStock(products));
   } catch (error) {
     console.error('Error fetching products:', error);
     res.status(500).json({ error: 'Error fetching products' });
@@ -41,9 +46,10 @@ export const getProductStockByWarehouseId = async (
         product: true,
       },
     });
-    res
-      .status(200)
-      .json({ message: 'Success Getting All Product Stock.', productStock });
+    res.status(200).json({
+      message: 'Success Getting All Product Stock.',
+      productStock: await withAvailableStock(productStock),
+    });
   } catch (error) {
     res.status(500).json({ message: 'Internal server error', error });
   }
@@ -1,5 +1,7 @@
-import { PrismaClient } from '@prisma/client';
+import { PaymentStatus, PrismaClient } from '@prisma/client';
 import { Request, Response } from 'express';
+import { COD_PAYMENT_METHOD } from '@/types/payment.type';
+import { getAmountDue } from '@/services/wallet.service';
 
 const prisma = new PrismaClient();
 
@@ -49,6 +51,77 @@ export const salesReport = async (req: Request, res: Response) => {
   }
 };
 
+// Cash still held by couriers against the cash they handed over this month
+export const codReconciliation = async (req: Request, res: Response) => {
+  const { month, warehouseId } = req.query;
+
+  if (typeof month !== 'string' || typeof warehouseId !== 'string') {
+    return res
+      .status(400)
+      .json({ error: 'Month and warehouseId must be strings.' });
+  }
+
+  try {
+    const startDate = new Date(month);
+    const endDate = new Date(startDate);
+    endDate.setMonth(endDate.getMonth() + 1);
+
+    // Split orders are reconciled by every warehouse that sent one of the parcels
+    const outstandingOrders = await prisma.order.findMany({
+      where: {
+        shipments: { some: { warehouseId: parseInt(warehouseId) } },
+        paymentMethod: COD_PAYMENT_METHOD,
+        paymentStatus: PaymentStatus.SHIPPED,
+      },
+      select: {
+        id: true,
+        name: true,
+        total: true,
+        walletAmount: true,
+        shippedAt: true,
+      },
+      orderBy: { shippedAt: 'asc' },
+    });
+
+    const collectedOrders = await prisma.order.findMany({
+      where: {
+        shipments: { some: { warehouseId: parseInt(warehouseId) } },
+        paymentMethod: COD_PAYMENT_METHOD,
+        codCollectedAt: {
+          gte: startDate,
+          lt: endDate,
+        },
+      },
+      select: {
+        total: true,
+        walletAmount: true,
+      },
+    });
+
+    // Couriers only collect what store credit did not already cover
+    res.json({
+      outstanding: {
+        count: outstandingOrders.length,
+        amount: outstandingOrders.reduce(
+          (sum, order) => sum + getAmountDue(order),
+          0,
+        ),
+        orders: outstandingOrders,
+      },
+      collected: {
+        count: collectedOrders.length,
+        amount: collectedOrders.reduce(
+          (sum, order) => sum + getAmountDue(order),
+          0,
+        ),
+      },
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to fetch COD reconciliation.' });
+  }
+};
+
 export const topProducts = async (req: Request, res: Response) => {
   const { month, warehouseId } = req.query;
 
@@ -0,0 +1,135 @@
+import { Response } from 'express';
+import { ReturnStatus } from '@prisma/client';
+import { ZodError } from 'zod';
+import { AuthenticatedRequest } from '@/middleware/auth.middleware';
+import {
+  approveReturnRequest,
+  createReturnRequest,
+  getReturnRequests,
+  rejectReturnRequest,
+  RETURN_REQUEST_NOT_FOUND,
+  ReturnRequestError,
+} from '../services/return.service';
+
+const handleReturnError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string,
+) => {
+  if (error instanceof ZodError) {
+    return res
+      .status(400)
+      .json({ success: false, message: error.errors[0].message });
+  }
+
+  if (error instanceof ReturnRequestError) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+
+  if (
+    error instanceof Error &&
+    (error.message === RETURN_REQUEST_NOT_FOUND ||
+      error.message === 'Order not found')
+  ) {
+    return res.status(404).json({ success: false, message: error.message });
+  }
+
+  if (
+    error instanceof Error &&
+    error.message === 'Admin is not assigned to a warehouse'
+  ) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+
+  return res.status(500).json({ success: false, message: fallbackMessage });
+};
+
+export const requestReturn = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId || typeof userId !== 'number') {
+      return res.status(400).json({ error: 'Valid userId is required' });
+    }
+
+    const returnRequest = await createReturnRequest(
+      userId,
+      req.body,
+      (req.files as Express.Multer.File[]) ?? [],
+    );
+    res.status(201).json({ success: true, returnRequest });
+  } catch (error) {
+    console.error('Error requesting return:', error);
+    return handleReturnError(res, error, 'Failed to request return');
+  }
+};
+
+export const getReturnList = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const { status, page = '1', limit = '10' } = req.query;
+    const returnStatus =
+      typeof status === 'string' && status in ReturnStatus
+        ? (status as ReturnStatus)
+        : undefined;
+
+    const result = await getReturnRequests(
+      { userId: req.user?.userId, role: req.user?.role },
+      returnStatus,
+      Number(page),
+      Number(limit),
+    );
+    res.status(200).json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error fetching return requests:', error);
+    return handleReturnError(res, error, 'Failed to fetch return requests');
+  }
+};
+
+export const approveReturn = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const returnRequestId = parseInt(req.params.id);
+    if (isNaN(returnRequestId)) {
+      return res.status(400).json({ error: 'Invalid return request ID' });
+    }
+
+    const returnRequest = await approveReturnRequest(
+      returnRequestId,
+      { userId: req.user?.userId, role: req.user?.role },
+      req.body,
+    );
+    res.status(200).json({ success: true, returnRequest });
+  } catch (error) {
+    console.error('Error approving return:', error);
+    return handleReturnError(res, error, 'Failed to approve return');
+  }
+};
+
+export const rejectReturn = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const returnRequestId = parseInt(req.params.id);
+    if (isNaN(returnRequestId)) {
+      return res.status(400).json({ error: 'Invalid return request ID' });
+    }
+
+    const returnRequest = await rejectReturnRequest(
+      returnRequestId,
+      { userId: req.user?.userId, role: req.user?.role },
+      req.body,
+    );
+    res.status(200).json({ success: true, returnRequest });
+  } catch (error) {
+    console.error('Error rejecting return:', error);
+    return handleReturnError(res, error, 'Failed to reject return');
+  }
+};
@@ -0,0 +1,72 @@
+import { Response } from 'express';
+import { ZodError } from 'zod';
+import { AuthenticatedRequest } from '@/middleware/auth.middleware';
+import {
+  getSettingHistory,
+  getSettings,
+  SETTING_NOT_FOUND,
+  updateSetting,
+} from '../services/setting.service';
+
+const handleSettingError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string,
+) => {
+  if (error instanceof ZodError) {
+    return res
+      .status(400)
+      .json({ success: false, message: error.errors[0].message });
+  }
+
+  if (error instanceof Error && error.message === SETTING_NOT_FOUND) {
+    return res.status(404).json({ success: false, message: error.message });
+  }
+
+  return res.status(500).json({ success: false, message: fallbackMessage });
+};
+
+export const getAllSettings = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const settings = await getSettings();
+    res.status(200).json({ success: true, settings });
+  } catch (error) {
+    console.error('Error fetching settings:', error);
+    return handleSettingError(res, error, 'Failed to fetch settings');
+  }
+};
+
+export const editSetting = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const setting = await updateSetting(
+      req.user?.userId,
+      req.params.key,
+      req.body,
+    );
+    res.status(200).json({ success: true, setting });
+  } catch (error) {
+    console.error('Error updating setting:', error);
+    return handleSettingError(res, error, 'Failed to update setting');
+  }
+};
+
+export const getSettingChanges = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const { key, page = '1', limit = '10' } = req.query;
+    const history = await getSettingHistory(
+      typeof key === 'string' && key ? key : undefined,
+      Number(page),
+      Number(limit),
+    );
+    res.status(200).json({ success: true, ...history });
+  } catch (error) {
+    console.error('Error fetching setting history:', error);
+    return handleSettingError(res, error, 'Failed to fetch setting history');
+  }
+};
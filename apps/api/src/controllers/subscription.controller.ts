@@ -0,0 +1,119 @@
+import { Response } from 'express';
+import { ZodError } from 'zod';
+import { AuthenticatedRequest } from '@/middleware/auth.middleware';
+import {
+  createSubscription,
+  deleteSubscription,
+  getSubscriptions,
+  skipSubscriptionCycle,
+  SUBSCRIPTION_NOT_FOUND,
+  SubscriptionError,
+  updateSubscription,
+} from '../services/subscription.service';
+
+const handleSubscriptionError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string,
+) => {
+  if (error instanceof ZodError) {
+    return res
+      .status(400)
+      .json({ success: false, message: error.errors[0].message });
+  }
+
+  if (error instanceof SubscriptionError) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+
+  if (error instanceof Error && error.message === SUBSCRIPTION_NOT_FOUND) {
+    return res.status(404).json({ success: false, message: error.message });
+  }
+
+  return res.status(500).json({ success: false, message: fallbackMessage });
+};
+
+export const getMySubscriptions = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId || typeof userId !== 'number') {
+      return res.status(400).json({ error: 'Valid userId is required' });
+    }
+
+    const subscriptions = await getSubscriptions(userId);
+    res.status(200).json({ success: true, subscriptions });
+  } catch (error) {
+    console.error('Error fetching subscriptions:', error);
+    return handleSubscriptionError(res, error, 'Failed to fetch subscriptions');
+  }
+};
+
+export const create = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId || typeof userId !== 'number') {
+      return res.status(400).json({ error: 'Valid userId is required' });
+    }
+
+    const subscription = await createSubscription(userId, req.body);
+    res.status(201).json({ success: true, subscription });
+  } catch (error) {
+    console.error('Error creating subscription:', error);
+    return handleSubscriptionError(res, error, 'Failed to create subscription');
+  }
+};
+
+export const update = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const subscriptionId = parseInt(req.params.id);
+    if (isNaN(subscriptionId)) {
+      return res.status(400).json({ error: 'Invalid subscription ID' });
+    }
+
+    const subscription = await updateSubscription(
+      req.user?.userId,
+      subscriptionId,
+      req.body,
+    );
+    res.status(200).json({ success: true, subscription });
+  } catch (error) {
+    console.error('Error updating subscription:', error);
+    return handleSubscriptionError(res, error, 'Failed to update subscription');
+  }
+};
+
+export const skip = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const subscriptionId = parseInt(req.params.id);
+    if (isNaN(subscriptionId)) {
+      return res.status(400).json({ error: 'Invalid subscription ID' });
+    }
+
+    const subscription = await skipSubscriptionCycle(
+      req.user?.userId,
+      subscriptionId,
+    );
+    res.status(200).json({ success: true, subscription });
+  } catch (error) {
+    console.error('Error skipping subscription cycle:', error);
+    return handleSubscriptionError(res, error, 'Failed to skip delivery');
+  }
+};
+
+export const remove = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const subscriptionId = parseInt(req.params.id);
+    if (isNaN(subscriptionId)) {
+      return res.status(400).json({ error: 'Invalid subscription ID' });
+    }
+
+    await deleteSubscription(req.user?.userId, subscriptionId);
+    res.status(200).json({ success: true, message: 'Subscription canceled' });
+  } catch (error) {
+    console.error('Error deleting subscription:', error);
+    return handleSubscriptionError(res, error, 'Failed to cancel subscription');
+  }
+};
@@ -1,5 +1,10 @@
 import { Request, Response } from 'express';
 import prisma from '@/prisma';
+import {
+  calculateItemsTotal,
+  calculateVoucherDiscount,
+  getVoucherIneligibility,
+} from '@/utils/voucher.utils';
 
 export const createVoucher = async (req: Request, res: Response) => {
   try {
@@ -108,61 +113,28 @@ export const applyVoucher = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'Voucher not found' });
     }
 
-    const currentDate = new Date();
-    if (voucher.expiryDate < currentDate) {
-      return res.status(400).json({ message: 'Voucher has expired' });
-    }
-
     const cart = await prisma.cart.findUnique({
       where: { id: cartId },
-      include: { items: true },
+      include: { items: { include: { product: true } } },
     });
 
     if (!cart) {
       return res.status(404).json({ message: 'Cart not found' });
     }
 
-    let cartTotal = 0;
-    for (const item of cart.items) {
-      const product = await prisma.product.findUnique({
-        where: { id: item.productId },
-      });
-
-      if (!product) {
-        return res
-          .status(404)
-          .json({ message: `Product with ID ${item.productId} not found` });
-      }
-
-      cartTotal += product.price * item.quantity;
-    }
-
-    if (voucher.minPurchase && cartTotal < voucher.minPurchase) {
-      return res.status(400).json({
-        message: `Minimum purchase of ${voucher.minPurchase} is required to apply this voucher`,
-      });
-    }
+    const items = cart.items.map((item) => ({
+      productId: item.productId,
+      quantity: item.quantity,
+      price: item.product.price,
+    }));
 
-    if (voucher.productId) {
-      const hasEligibleProduct = cart.items.some(
-        (item) => item.productId === voucher.productId,
-      );
-      if (!hasEligibleProduct) {
-        return res.status(400).json({
-          message: 'Voucher is not applicable to any products in the cart',
-        });
-      }
+    const ineligibility = getVoucherIneligibility(voucher, items);
+    if (ineligibility) {
+      return res.status(400).json({ message: ineligibility });
     }
 
-    let discount = 0;
-    if (voucher.discountType === 'PERCENTAGE') {
-      discount = (voucher.discountValue / 100) * cartTotal;
-      if (voucher.maxDiscount && discount > voucher.maxDiscount) {
-        discount = voucher.maxDiscount;
-      }
-    } else if (voucher.discountType === 'FIXED') {
-      discount = voucher.discountValue;
-    }
+    const cartTotal = calculateItemsTotal(items);
+    const discount = calculateVoucherDiscount(voucher, items);
 
     const finalTotal = cartTotal - discount;
 
@@ -0,0 +1,84 @@
+import { Response } from 'express';
+import { ZodError } from 'zod';
+import { AuthenticatedRequest } from '@/middleware/auth.middleware';
+import {
+  adjustWallet,
+  getWallet,
+  INSUFFICIENT_WALLET_BALANCE,
+  USER_NOT_FOUND,
+} from '../services/wallet.service';
+
+const handleWalletError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string,
+) => {
+  if (error instanceof ZodError) {
+    return res
+      .status(400)
+      .json({ success: false, message: error.errors[0].message });
+  }
+
+  if (error instanceof Error && error.message === USER_NOT_FOUND) {
+    return res.status(404).json({ success: false, message: error.message });
+  }
+
+  if (error instanceof Error && error.message === INSUFFICIENT_WALLET_BALANCE) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+
+  return res.status(500).json({ success: false, message: fallbackMessage });
+};
+
+export const getMyWallet = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId || typeof userId !== 'number') {
+      return res.status(400).json({ error: 'Valid userId is required' });
+    }
+
+    const { page = '1', limit = '10' } = req.query;
+    const wallet = await getWallet(userId, Number(page), Number(limit));
+    res.status(200).json({ success: true, ...wallet });
+  } catch (error) {
+    console.error('Error fetching wallet:', error);
+    return handleWalletError(res, error, 'Failed to fetch wallet');
+  }
+};
+
+export const getUserWallet = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    const { page = '1', limit = '10' } = req.query;
+    const wallet = await getWallet(userId, Number(page), Number(limit));
+    res.status(200).json({ success: true, ...wallet });
+  } catch (error) {
+    console.error('Error fetching user wallet:', error);
+    return handleWalletError(res, error, 'Failed to fetch wallet');
+  }
+};
+
+export const createWalletAdjustment = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    const entry = await adjustWallet(req.user?.userId, userId, req.body);
+    res.status(201).json({ success: true, entry });
+  } catch (error) {
+    console.error('Error adjusting wallet:', error);
+    return handleWalletError(res, error, 'Failed to adjust wallet');
+  }
+};
@@ -41,7 +41,10 @@ export const createWarehouse = async (req: Request, res: Response) => {
         cityId: Number(data.cityId),
         latitude: parseFloat(data.latitude),
         longitude: parseFloat(data.longitude),
-        storeRadius: parseFloat(data.storeRadius)
+        storeRadius: parseFloat(data.storeRadius),
+        codEnabled: data.codEnabled === true || data.codEnabled === 'true',
+        codMaxOrderValue: data.codMaxOrderValue ? parseFloat(data.codMaxOrderValue) : null,
+        code: data.code ? String(data.code).trim().toUpperCase() : null
       },
       include: {
         user: true,
@@ -130,6 +133,15 @@ export const updateWarehouse = async (req: Request, res: Response) => {
     if(data.storeRadius){
       data = {...data, storeRadius: parseFloat(data.storeRadius)}
     }
+    if(data.codEnabled !== undefined){
+      data = {...data, codEnabled: data.codEnabled === true || data.codEnabled === 'true'}
+    }
+    if(data.codMaxOrderValue !== undefined){
+      data = {...data, codMaxOrderValue: data.codMaxOrderValue ? parseFloat(data.codMaxOrderValue) : null}
+    }
+    if(data.code !== undefined){
+      data = {...data, code: data.code ? String(data.code).trim().toUpperCase() : null}
+    }
 
     const warehouse = await prisma.warehouse.update({
       where: {
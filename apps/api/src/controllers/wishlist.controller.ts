@@ -0,0 +1,139 @@
+import { Response } from 'express';
+import { ZodError } from 'zod';
+import { AuthenticatedRequest } from '@/middleware/auth.middleware';
+import { CART_ITEM_NOT_FOUND } from '../services/cart.services';
+import {
+  addToWishlist,
+  getWishlist,
+  moveToCart,
+  removeFromWishlist,
+  saveForLater,
+  WISHLIST_NOT_FOUND,
+  WISHLIST_OUT_OF_STOCK,
+  WISHLIST_PRODUCT_NOT_FOUND,
+} from '../services/wishlist.service';
+
+const handleWishlistError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string,
+) => {
+  if (error instanceof ZodError) {
+    return res
+      .status(400)
+      .json({ success: false, message: error.errors[0].message });
+  }
+
+  if (
+    error instanceof Error &&
+    [
+      WISHLIST_NOT_FOUND,
+      WISHLIST_PRODUCT_NOT_FOUND,
+      CART_ITEM_NOT_FOUND,
+    ].includes(error.message)
+  ) {
+    return res.status(404).json({ success: false, message: error.message });
+  }
+
+  if (error instanceof Error && error.message === WISHLIST_OUT_OF_STOCK) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+
+  return res.status(500).json({ success: false, message: fallbackMessage });
+};
+
+export const getMyWishlist = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId || typeof userId !== 'number') {
+      return res.status(400).json({ error: 'Valid userId is required' });
+    }
+
+    const wishlist = await getWishlist(userId);
+    res.status(200).json({ success: true, ...wishlist });
+  } catch (error) {
+    console.error('Error fetching wishlist:', error);
+    return handleWishlistError(res, error, 'Failed to fetch wishlist');
+  }
+};
+
+export const addItem = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId || typeof userId !== 'number') {
+      return res.status(400).json({ error: 'Valid userId is required' });
+    }
+
+    const wishlist = await addToWishlist(userId, req.body);
+    res.status(201).json({ success: true, wishlist });
+  } catch (error) {
+    console.error('Error adding to wishlist:', error);
+    return handleWishlistError(res, error, 'Failed to add to wishlist');
+  }
+};
+
+export const removeItem = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId || typeof userId !== 'number') {
+      return res.status(400).json({ error: 'Valid userId is required' });
+    }
+
+    const productId = parseInt(req.params.productId);
+    if (isNaN(productId)) {
+      return res.status(400).json({ error: 'Invalid product ID' });
+    }
+
+    await removeFromWishlist(userId, productId);
+    res
+      .status(200)
+      .json({ success: true, message: 'Product removed from wishlist' });
+  } catch (error) {
+    console.error('Error removing from wishlist:', error);
+    return handleWishlistError(res, error, 'Failed to remove from wishlist');
+  }
+};
+
+export const moveItemToCart = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId || typeof userId !== 'number') {
+      return res.status(400).json({ error: 'Valid userId is required' });
+    }
+
+    const productId = parseInt(req.params.productId);
+    if (isNaN(productId)) {
+      return res.status(400).json({ error: 'Invalid product ID' });
+    }
+
+    const result = await moveToCart(userId, productId);
+    res.status(200).json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error moving wishlist item to cart:', error);
+    return handleWishlistError(res, error, 'Failed to move item to cart');
+  }
+};
+
+export const saveCartItemForLater = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId || typeof userId !== 'number') {
+      return res.status(400).json({ error: 'Valid userId is required' });
+    }
+
+    const result = await saveForLater(userId, req.body);
+    res.status(200).json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error saving cart item for later:', error);
+    return handleWishlistError(res, error, 'Failed to save item for later');
+  }
+};
@@ -1,16 +1,30 @@
-import cron from 'node-cron';
+import cron, { ScheduledTask } from 'node-cron';
 import {
   cancelExpiredOrders,
+  cancelStaleCodOrders,
   autoReceiveOrders,
 } from '@/services/order.service';
+import { deleteExpiredIdempotencyKeys } from '@/services/idempotency.service';
+import { syncShipmentTracking } from '@/services/shipment.service';
+import { runDueSubscriptions } from '@/services/subscription.service';
+import { cancelUnclaimedPickups } from '@/services/pickup.service';
+import { deleteExpiredGuestCarts } from '@/services/guestCart.service';
+import { sendAbandonedCartReminders } from '@/services/cartReminder.service';
+import {
+  getSetting,
+  onSettingChange,
+  SettingKey,
+} from '@/services/setting.service';
 
-export function startOrderCronJobs() {
-  // Cancel expired orders every 5 minutes
-  cron.schedule('*/5 * * * *', async () => {
+// Each job runs on the schedule stored under its key, see setting.service
+const jobs = {
+  // Cancel expired orders
+  cancelExpiredOrdersSchedule: async () => {
     try {
       const canceledCount = await cancelExpiredOrders();
+      const staleCodCount = await cancelStaleCodOrders();
       console.log(
-        `[${new Date().toISOString()}] Canceled ${canceledCount} expired orders`,
+        `[${new Date().toISOString()}] Canceled ${canceledCount} expired orders and ${staleCodCount} stale cash on delivery orders`,
       );
     } catch (error) {
       console.error(
@@ -18,10 +32,10 @@ export function startOrderCronJobs() {
         error,
       );
     }
-  });
+  },
 
-  // Auto-receive orders every hour
-  cron.schedule('0 * * * *', async () => {
+  // Auto-receive orders
+  autoReceiveOrdersSchedule: async () => {
     try {
       const { autoConfirmedCount, autoCompletedCount } =
         await autoReceiveOrders();
@@ -34,6 +48,126 @@ export function startOrderCronJobs() {
         error,
       );
     }
+  },
+
+  // Pull courier tracking updates
+  shipmentTrackingSchedule: async () => {
+    try {
+      const deliveredCount = await syncShipmentTracking();
+      console.log(
+        `[${new Date().toISOString()}] Tracked shipments, ${deliveredCount} delivered`,
+      );
+    } catch (error) {
+      console.error(
+        `[${new Date().toISOString()}] Error tracking shipments:`,
+        error,
+      );
+    }
+  },
+
+  // Turn due subscriptions into orders
+  subscriptionsSchedule: async () => {
+    try {
+      const { dueCount, placedCount } = await runDueSubscriptions();
+      console.log(
+        `[${new Date().toISOString()}] Placed ${placedCount} of ${dueCount} due subscription orders`,
+      );
+    } catch (error) {
+      console.error(
+        `[${new Date().toISOString()}] Error running subscriptions:`,
+        error,
+      );
+    }
+  },
+
+  // Cancel pickup orders nobody came for
+  unclaimedPickupsSchedule: async () => {
+    try {
+      const canceledCount = await cancelUnclaimedPickups();
+      console.log(
+        `[${new Date().toISOString()}] Canceled ${canceledCount} unclaimed pickup orders`,
+      );
+    } catch (error) {
+      console.error(
+        `[${new Date().toISOString()}] Error canceling unclaimed pickups:`,
+        error,
+      );
+    }
+  },
+
+  // Purge stale idempotency keys
+  idempotencyPurgeSchedule: async () => {
+    try {
+      const deletedCount = await deleteExpiredIdempotencyKeys();
+      console.log(
+        `[${new Date().toISOString()}] Deleted ${deletedCount} expired idempotency keys`,
+      );
+    } catch (error) {
+      console.error(
+        `[${new Date().toISOString()}] Error deleting idempotency keys:`,
+        error,
+      );
+    }
+  },
+
+  // Purge guest carts nobody came back to
+  guestCartPurgeSchedule: async () => {
+    try {
+      const deletedCount = await deleteExpiredGuestCarts();
+      console.log(
+        `[${new Date().toISOString()}] Deleted ${deletedCount} expired guest carts`,
+      );
+    } catch (error) {
+      console.error(
+        `[${new Date().toISOString()}] Error deleting guest carts:`,
+        error,
+      );
+    }
+  },
+
+  // Nudge customers about carts they left behind
+  abandonedCartRemindersSchedule: async () => {
+    try {
+      const { dueCount, sentCount } = await sendAbandonedCartReminders();
+      console.log(
+        `[${new Date().toISOString()}] Sent ${sentCount} of ${dueCount} abandoned cart reminders`,
+      );
+    } catch (error) {
+      console.error(
+        `[${new Date().toISOString()}] Error sending cart reminders:`,
+        error,
+      );
+    }
+  },
+} satisfies Partial<Record<SettingKey, () => Promise<void>>>;
+
+type JobKey = keyof typeof jobs;
+
+const tasks = new Map<JobKey, ScheduledTask>();
+
+const isJobKey = (key: SettingKey): key is JobKey => key in jobs;
+
+const scheduleJob = async (key: JobKey) => {
+  const schedule = await getSetting(key);
+
+  tasks.get(key)?.stop();
+  tasks.set(key, cron.schedule(schedule, jobs[key]));
+  return schedule;
+};
+
+export async function startOrderCronJobs() {
+  for (const key of Object.keys(jobs) as JobKey[]) {
+    await scheduleJob(key);
+  }
+
+  // A schedule changed from the dashboard applies without a restart
+  onSettingChange(async (key) => {
+    if (isJobKey(key)) {
+      const schedule = await scheduleJob(key);
+      console.log(
+        `[${new Date().toISOString()}] Rescheduled ${key} to ${schedule}`,
+      );
+    }
   });
 
   console.log(
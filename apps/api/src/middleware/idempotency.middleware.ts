@@ -0,0 +1,107 @@
+import { Response, NextFunction } from 'express';
+import {
+  claimIdempotencyKey,
+  fingerprintRequest,
+  releaseIdempotencyKey,
+  saveIdempotentResponse,
+} from '@/services/idempotency.service';
+
+const MAX_KEY_LENGTH = 191;
+
+// Replays the stored response when a client retries with the same Idempotency-Key.
+// Must run after authenticateToken and before multer, so a replay never writes
+// the uploaded file to disk again.
+export const idempotent =
+  (scope: string) => async (req: any, res: Response, next: NextFunction) => {
+    const key = req.get('Idempotency-Key');
+    if (!key) {
+      return next();
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        code: 'INVALID_IDEMPOTENCY_KEY',
+        message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+      });
+    }
+
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    try {
+      const claim = await claimIdempotencyKey(
+        userId,
+        scope,
+        key,
+        fingerprintRequest({
+          method: req.method,
+          path: req.baseUrl + req.path,
+          body: req.body,
+          contentLength: req.is('multipart/form-data')
+            ? req.get('Content-Length')
+            : undefined,
+        }),
+      );
+
+      if (claim.status === 'conflict') {
+        return res.status(409).json({
+          success: false,
+          code: 'IDEMPOTENCY_KEY_REUSED',
+          message:
+            'This Idempotency-Key was already used for a different request',
+        });
+      }
+
+      if (claim.status === 'in_progress') {
+        return res.status(409).json({
+          success: false,
+          code: 'IDEMPOTENCY_KEY_IN_PROGRESS',
+          message: 'The original request is still being processed',
+        });
+      }
+
+      if (claim.status === 'replay') {
+        res.setHeader('Idempotent-Replayed', 'true');
+        return res.status(claim.statusCode).json(claim.body);
+      }
+
+      // Responses sent without res.json, such as errors passed to next, store
+      // nothing, so the key is freed for the retry instead of staying in progress
+      let settled = false;
+      const releaseUnsettled = () => {
+        if (settled || !res.headersSent) {
+          return;
+        }
+        settled = true;
+        releaseIdempotencyKey(claim.id).catch((error) =>
+          console.error('Error releasing idempotency key:', error),
+        );
+      };
+      res.on('finish', releaseUnsettled);
+      res.on('close', releaseUnsettled);
+
+      // The response is only sent once it is stored, so a retry arriving
+      // right after it always finds the replay
+      const json = res.json.bind(res);
+      res.json = (body: any) => {
+        settled = true;
+        const persist =
+          res.statusCode >= 500
+            ? releaseIdempotencyKey(claim.id)
+            : saveIdempotentResponse(claim.id, res.statusCode, body);
+        persist
+          .catch((error) =>
+            console.error('Error saving idempotent response:', error),
+          )
+          .then(() => json(body));
+        return res;
+      };
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
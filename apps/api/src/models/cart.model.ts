@@ -37,6 +37,8 @@ export const CartModel = {
       where: {
         userId: userId,
         isActive: true,
+        // Subscription runs check out their own carts
+        subscriptionId: null,
       },
       include: {
         items: {
@@ -68,16 +70,30 @@ export const CartModel = {
   },
 
   addItem: async (cartId: number, productId: number, quantity: number) => {
+    const product = await prisma.product.findUniqueOrThrow({
+      where: { id: productId, deleted: false },
+      select: { price: true },
+    });
+
     return prisma.cartItem.create({
       data: {
         quantity,
         productId,
         cartId,
+        addedPrice: product.price,
       },
       include: { product: true },
     });
   },
 
+  acceptPrice: async (itemId: number, price: number) => {
+    return prisma.cartItem.update({
+      where: { id: itemId },
+      data: { addedPrice: price },
+      include: { product: true },
+    });
+  },
+
   updateItem: async (itemId: number, quantity: number) => {
     return prisma.cartItem.update({
       where: { id: itemId },
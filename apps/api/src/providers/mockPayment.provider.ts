@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { PaymentChargeStatus } from '@prisma/client';
+import { PAYMENT_MOCK_SECRET } from '@/config';
+import {
+  CreateChargeInput,
+  INVALID_WEBHOOK_SIGNATURE,
+  PaymentProvider,
+  PaymentWebhookEvent,
+} from '@/types/payment.type';
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+type MockCharge = {
+  amount: number;
+  expiresAt: Date;
+  status: PaymentChargeStatus;
+};
+
+export type MockOutcome = 'succeed' | 'fail' | 'expire';
+
+const OUTCOME_STATUS: Record<MockOutcome, PaymentChargeStatus> = {
+  succeed: PaymentChargeStatus.SUCCEEDED,
+  fail: PaymentChargeStatus.FAILED,
+  expire: PaymentChargeStatus.EXPIRED,
+};
+
+// Charges only live in memory, the gateway forgets them on restart
+const charges = new Map<string, MockCharge>();
+
+const sign = (rawBody: string) =>
+  crypto
+    .createHmac('sha256', PAYMENT_MOCK_SECRET)
+    .update(rawBody)
+    .digest('hex');
+
+// Local stand-in for a real gateway. Charges stay PENDING until told to
+// succeed, fail or expire, which produces a signed webhook like a real one.
+export const mockPaymentProvider: PaymentProvider & {
+  settle(
+    reference: string,
+    outcome: MockOutcome,
+  ): { headers: IncomingHttpHeaders; rawBody: string };
+} = {
+  name: 'mock',
+
+  async createCharge({ orderId, amount, expiresAt }: CreateChargeInput) {
+    const reference = `MOCK-${orderId}-${crypto.randomUUID()}`;
+    charges.set(reference, {
+      amount,
+      expiresAt,
+      status: PaymentChargeStatus.PENDING,
+    });
+
+    return { reference, status: PaymentChargeStatus.PENDING };
+  },
+
+  async getChargeStatus(reference: string) {
+    const charge = charges.get(reference);
+    if (!charge) {
+      throw new Error('Payment charge not found');
+    }
+
+    if (
+      charge.status === PaymentChargeStatus.PENDING &&
+      charge.expiresAt < new Date()
+    ) {
+      charge.status = PaymentChargeStatus.EXPIRED;
+    }
+
+    return charge.status;
+  },
+
+  verifyWebhook(headers: IncomingHttpHeaders, rawBody: string) {
+    const signature = headers[MOCK_SIGNATURE_HEADER];
+    const expected = sign(rawBody);
+
+    if (
+      typeof signature !== 'string' ||
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new Error(INVALID_WEBHOOK_SIGNATURE);
+    }
+
+    return JSON.parse(rawBody) as PaymentWebhookEvent;
+  },
+
+  settle(reference: string, outcome: MockOutcome) {
+    const charge = charges.get(reference);
+    if (!charge) {
+      throw new Error('Payment charge not found');
+    }
+
+    charge.status = OUTCOME_STATUS[outcome];
+    const event: PaymentWebhookEvent = {
+      reference,
+      status: charge.status,
+      amount: charge.amount,
+    };
+    const rawBody = JSON.stringify(event);
+
+    return { headers: { [MOCK_SIGNATURE_HEADER]: sign(rawBody) }, rawBody };
+  },
+};
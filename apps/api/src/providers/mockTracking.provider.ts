@@ -0,0 +1,42 @@
+import { ShipmentEventStatus } from '@prisma/client';
+import { TRACKING_MOCK_STEP_MINUTES } from '@/config';
+import { TrackingProvider, TrackingQuery } from '@/types/tracking.type';
+
+const MOCK_TIMELINE = [
+  {
+    status: ShipmentEventStatus.PICKED_UP,
+    description: 'Parcel picked up by the courier',
+    location: 'Origin warehouse',
+  },
+  {
+    status: ShipmentEventStatus.IN_TRANSIT,
+    description: 'Parcel arrived at the sorting center',
+    location: 'Sorting center',
+  },
+  {
+    status: ShipmentEventStatus.OUT_FOR_DELIVERY,
+    description: 'Parcel is out for delivery',
+    location: 'Destination hub',
+  },
+  {
+    status: ShipmentEventStatus.DELIVERED,
+    description: 'Parcel delivered to the recipient',
+    location: 'Recipient address',
+  },
+];
+
+// Local stand-in for a courier API. Each step happens a fixed number of
+// minutes after the previous one, counting from the moment the parcel shipped.
+export const mockTrackingProvider: TrackingProvider = {
+  name: 'mock',
+
+  async getTrackingEvents({ courier, shippedAt }: TrackingQuery) {
+    const stepMs = TRACKING_MOCK_STEP_MINUTES * 60 * 1000;
+
+    return MOCK_TIMELINE.map((step, index) => ({
+      ...step,
+      description: `${step.description} (${courier.toUpperCase()})`,
+      occurredAt: new Date(shippedAt.getTime() + index * stepMs),
+    })).filter((event) => event.occurredAt.getTime() <= Date.now());
+  },
+};
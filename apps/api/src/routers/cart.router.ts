@@ -6,7 +6,16 @@ import {
   removeCartItem,
   updateCartItem,
   handleInvalidCart,
+  reorder,
+  acceptCartItemPrice,
+  quickOrderItems,
 } from '@/controllers/cart.controller';
+import {
+  addItemToGuestCart,
+  getGuestCart,
+  removeGuestCartItemById,
+  updateGuestCartItemQuantity,
+} from '@/controllers/guestCart.controller';
 import { authenticateToken } from '@/middleware/auth.middleware';
 
 const router = express.Router();
@@ -14,6 +23,12 @@ const router = express.Router();
 // Apply verifyToken middleware to all routes
 // router.use(verifyToken);
 
+// Guest carts are found through their signed token, not a login
+router.get('/guest', getGuestCart);
+router.post('/guest/items', addItemToGuestCart);
+router.put('/guest/items/:itemId', updateGuestCartItemQuantity);
+router.delete('/guest/items/:itemId', removeGuestCartItemById);
+
 router.use(authenticateToken);
 
 // Get or create a cart for the user
@@ -22,12 +37,21 @@ router.get('/', getCart);
 // Handle invalid cart
 router.post('/invalidate', handleInvalidCart);
 
+// Copy the items of a past order into the active cart
+router.post('/reorder', reorder);
+
+// Add pasted "SKU,qty" lines or an uploaded CSV to the active cart
+router.post('/quick-order', quickOrderItems);
+
 // Add an item to a cart
 router.post('/:id/items', addItemToCart);
 
 // Update a cart item
 router.put('/:id/items/:itemId', updateCartItem);
 
+// Keep a cart item at the product's current price
+router.post('/:id/items/:itemId/accept-price', acceptCartItemPrice);
+
 // Remove a cart item
 router.delete('/:id/items/:itemId', removeCartItem);
 
@@ -0,0 +1,9 @@
+import express from 'express';
+import { unsubscribe } from '@/controllers/cartReminder.controller';
+
+const router = express.Router();
+
+// Route for the unsubscribe link of abandoned cart reminder emails
+router.post('/unsubscribe', unsubscribe);
+
+export const cartReminderRouter = router;
@@ -0,0 +1,49 @@
+import express, { Request, Response, NextFunction } from 'express';
+import {
+  createSlot,
+  getAvailableSlots,
+  getPicking,
+  getSlots,
+  updateSlot,
+} from '@/controllers/deliverySlot.controller';
+import {
+  AdminGuard,
+  authenticateToken,
+  AuthenticatedRequest,
+} from '@/middleware/auth.middleware';
+
+const router = express.Router();
+
+// Helper function to wrap handlers that use AuthenticatedRequest
+const wrapAuthHandler = (
+  handler: (
+    req: AuthenticatedRequest,
+    res: Response,
+  ) => Promise<Response | undefined>,
+) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req as AuthenticatedRequest, res).catch(next);
+  };
+};
+
+// Route for the slots a customer can book for an address at checkout
+router.post(
+  '/available',
+  authenticateToken,
+  wrapAuthHandler(getAvailableSlots),
+);
+
+// Route for the orders and quantities to pick for each slot of a day
+router.get(
+  '/picking',
+  authenticateToken,
+  AdminGuard,
+  wrapAuthHandler(getPicking),
+);
+
+// Routes for warehouse admins managing their weekly slots
+router.get('/', authenticateToken, AdminGuard, wrapAuthHandler(getSlots));
+router.post('/', authenticateToken, AdminGuard, wrapAuthHandler(createSlot));
+router.put('/:id', authenticateToken, AdminGuard, wrapAuthHandler(updateSlot));
+
+export const deliverySlotRouter = router;
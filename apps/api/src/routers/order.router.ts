@@ -3,19 +3,37 @@ import {
   checkout,
   cancelExpired,
   cancel,
+  cancelItems,
+  adminCancel,
+  acceptProof,
+  rejectProof,
+  codCollected,
   uploadProof,
   checkStock,
   getOrderList,
   getOrderDetail,
+  getInvoice,
   confirmOrderReceived,
   confirmOrderPayment,
   updateStatusOrder,
+  getShippingServices,
+  shipOrderShipment,
+  addShipmentTrackingEvent,
+  confirmShipmentReceipt,
+  getPickupStores,
+  readyForPickup,
+  confirmPickupHandover,
+  getSubstitutes,
+  substituteItem,
+  rejectItemSubstitute,
 } from '../controllers/order.controller';
 import {
+  AdminGuard,
   authenticateToken,
   AuthenticatedRequest,
 } from '@/middleware/auth.middleware';
 import { uploader } from '@/middleware/uploader.middleware';
+import { idempotent } from '@/middleware/idempotency.middleware';
 
 const router = express.Router();
 
@@ -33,9 +51,43 @@ const wrapAuthHandler = (
 
 router.get('/', authenticateToken, wrapAuthHandler(getOrderList));
 router.get('/:id', authenticateToken, wrapAuthHandler(getOrderDetail));
+router.get('/:id/invoice', authenticateToken, wrapAuthHandler(getInvoice));
 
 // Route for checkout
-router.post('/checkout', authenticateToken, wrapAuthHandler(checkout));
+router.post(
+  '/checkout',
+  authenticateToken,
+  idempotent('checkout'),
+  wrapAuthHandler(checkout),
+);
+
+// Route for courier services quoted from the warehouse serving an address
+router.post(
+  '/checkout/shipping',
+  authenticateToken,
+  wrapAuthHandler(getShippingServices),
+);
+
+// Route for the stores that can hand over the whole cart
+router.get(
+  '/checkout/pickup-stores',
+  authenticateToken,
+  wrapAuthHandler(getPickupStores),
+);
+
+// Routes for warehouse admins handing pickup orders over at the counter
+router.post(
+  '/:id/ready-for-pickup',
+  authenticateToken,
+  AdminGuard,
+  wrapAuthHandler(readyForPickup),
+);
+router.post(
+  '/pickup/confirm',
+  authenticateToken,
+  AdminGuard,
+  wrapAuthHandler(confirmPickupHandover),
+);
 
 // Route for canceling expired orders
 router.post('/cancel-expired', authenticateToken, cancelExpired);
@@ -57,20 +109,99 @@ router.post(
 // Route for canceling an order
 router.post('/cancel', authenticateToken, wrapAuthHandler(cancel));
 
+// Route for canceling some of the items of an order
+router.post(
+  '/:id/cancel-items',
+  authenticateToken,
+  wrapAuthHandler(cancelItems),
+);
+
+// Routes for swapping a missing item and for the customer turning it down
+router.get(
+  '/:id/items/:itemId/substitutes',
+  authenticateToken,
+  AdminGuard,
+  wrapAuthHandler(getSubstitutes),
+);
+router.post(
+  '/:id/substitute',
+  authenticateToken,
+  AdminGuard,
+  wrapAuthHandler(substituteItem),
+);
+router.post(
+  '/:id/items/:itemId/reject-substitute',
+  authenticateToken,
+  wrapAuthHandler(rejectItemSubstitute),
+);
+
+// Route for admins canceling a whole order with a reason
+router.post(
+  '/:id/admin-cancel',
+  authenticateToken,
+  AdminGuard,
+  wrapAuthHandler(adminCancel),
+);
+
 router.post(
   '/update_status',
   authenticateToken,
+  AdminGuard,
   wrapAuthHandler(updateStatusOrder),
 );
 
+// Routes for the parcels of a split order
+router.post(
+  '/shipments/:id/ship',
+  authenticateToken,
+  AdminGuard,
+  wrapAuthHandler(shipOrderShipment),
+);
+
+router.post(
+  '/shipments/:id/events',
+  authenticateToken,
+  AdminGuard,
+  wrapAuthHandler(addShipmentTrackingEvent),
+);
+
+router.post(
+  '/shipments/:id/confirm-receipt',
+  authenticateToken,
+  wrapAuthHandler(confirmShipmentReceipt),
+);
+
 // Route for uploading payment proof
 router.post(
   '/payment-proof',
   authenticateToken,
+  idempotent('payment-proof'),
   uploader('/payment', 'PAYMENT').single('image'),
   wrapAuthHandler(uploadProof),
 );
 
+// Routes for admins reviewing the payment proof of an order
+router.post(
+  '/:id/payment-proof/accept',
+  authenticateToken,
+  AdminGuard,
+  wrapAuthHandler(acceptProof),
+);
+router.post(
+  '/:id/payment-proof/reject',
+  authenticateToken,
+  AdminGuard,
+  wrapAuthHandler(rejectProof),
+);
+
+// Route for warehouse admins confirming the courier collected the cash
+router.post(
+  '/:id/cod-collected',
+  authenticateToken,
+  AdminGuard,
+  wrapAuthHandler(codCollected),
+);
+
 // Route for checking stock
 router.post('/check-stock', checkStock);
 
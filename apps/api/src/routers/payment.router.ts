@@ -0,0 +1,48 @@
+import express, { Request, Response, NextFunction } from 'express';
+import {
+  createCharge,
+  getChargeStatus,
+  getPaymentOptions,
+  receiveWebhook,
+  simulateCharge,
+} from '@/controllers/payment.controller';
+import {
+  authenticateToken,
+  AuthenticatedRequest,
+} from '@/middleware/auth.middleware';
+import { NODE_ENV } from '@/config';
+
+const router = express.Router();
+
+// Helper function to wrap handlers that use AuthenticatedRequest
+const wrapAuthHandler = (
+  handler: (
+    req: AuthenticatedRequest,
+    res: Response,
+  ) => Promise<Response | undefined>,
+) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req as AuthenticatedRequest, res).catch(next);
+  };
+};
+
+// Route for the checkout to learn which payment methods are on offer
+router.get('/options', getPaymentOptions);
+
+// Routes for customers paying an order through the gateway
+router.post('/charges', authenticateToken, wrapAuthHandler(createCharge));
+router.get('/charges/:id', authenticateToken, wrapAuthHandler(getChargeStatus));
+
+// Route for gateways to report the outcome of a charge, trusted by signature only
+router.post('/webhook/:provider', receiveWebhook);
+
+// Route for settling mock charges by hand while developing
+if (NODE_ENV !== 'production') {
+  router.post(
+    '/mock/charges/:id/:outcome',
+    authenticateToken,
+    wrapAuthHandler(simulateCharge),
+  );
+}
+
+export const paymentRouter = router;
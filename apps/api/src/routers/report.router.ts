@@ -1,5 +1,6 @@
 import express from 'express';
 import {
+  codReconciliation,
   getStockSummaryByMonth,
   getStockDetailsByMonth,
   salesReport,
@@ -12,6 +13,7 @@ const router = express.Router();
 router.get('/', salesReport);
 router.get('/products', topProducts);
 router.get('/categories', topCategories);
+router.get('/cod', codReconciliation);
 router.get('/stock-summary', async (req, res) => {
   const { warehouseId, month, year } = req.query;
 
@@ -0,0 +1,52 @@
+import express, { Request, Response, NextFunction } from 'express';
+import {
+  approveReturn,
+  getReturnList,
+  rejectReturn,
+  requestReturn,
+} from '@/controllers/return.controller';
+import {
+  AdminGuard,
+  authenticateToken,
+  AuthenticatedRequest,
+} from '@/middleware/auth.middleware';
+import { uploader } from '@/middleware/uploader.middleware';
+
+const router = express.Router();
+
+// Helper function to wrap handlers that use AuthenticatedRequest
+const wrapAuthHandler = (
+  handler: (
+    req: AuthenticatedRequest,
+    res: Response,
+  ) => Promise<Response | undefined>,
+) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req as AuthenticatedRequest, res).catch(next);
+  };
+};
+
+// Route for customers to request a return with photos of the goods
+router.post(
+  '/',
+  authenticateToken,
+  uploader('/returns', 'RETURN').array('images', 5),
+  wrapAuthHandler(requestReturn),
+);
+
+// Routes for warehouse admins to review return requests
+router.get('/', authenticateToken, AdminGuard, wrapAuthHandler(getReturnList));
+router.post(
+  '/:id/approve',
+  authenticateToken,
+  AdminGuard,
+  wrapAuthHandler(approveReturn),
+);
+router.post(
+  '/:id/reject',
+  authenticateToken,
+  AdminGuard,
+  wrapAuthHandler(rejectReturn),
+);
+
+export const returnRouter = router;
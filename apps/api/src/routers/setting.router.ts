@@ -0,0 +1,47 @@
+import express, { Request, Response, NextFunction } from 'express';
+import {
+  editSetting,
+  getAllSettings,
+  getSettingChanges,
+} from '@/controllers/setting.controller';
+import {
+  authenticateToken,
+  AuthenticatedRequest,
+  SuperAdminGuard,
+} from '@/middleware/auth.middleware';
+
+const router = express.Router();
+
+// Helper function to wrap handlers that use AuthenticatedRequest
+const wrapAuthHandler = (
+  handler: (
+    req: AuthenticatedRequest,
+    res: Response,
+  ) => Promise<Response | undefined>,
+) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req as AuthenticatedRequest, res).catch(next);
+  };
+};
+
+// Routes for super admins to tune runtime settings and review who changed them
+router.get(
+  '/',
+  authenticateToken,
+  SuperAdminGuard,
+  wrapAuthHandler(getAllSettings),
+);
+router.get(
+  '/history',
+  authenticateToken,
+  SuperAdminGuard,
+  wrapAuthHandler(getSettingChanges),
+);
+router.put(
+  '/:key',
+  authenticateToken,
+  SuperAdminGuard,
+  wrapAuthHandler(editSetting),
+);
+
+export const settingRouter = router;
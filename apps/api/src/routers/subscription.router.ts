@@ -0,0 +1,37 @@
+import express, { Request, Response, NextFunction } from 'express';
+import {
+  create,
+  getMySubscriptions,
+  remove,
+  skip,
+  update,
+} from '@/controllers/subscription.controller';
+import {
+  authenticateToken,
+  AuthenticatedRequest,
+} from '@/middleware/auth.middleware';
+
+const router = express.Router();
+
+// Helper function to wrap handlers that use AuthenticatedRequest
+const wrapAuthHandler = (
+  handler: (
+    req: AuthenticatedRequest,
+    res: Response,
+  ) => Promise<Response | undefined>,
+) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req as AuthenticatedRequest, res).catch(next);
+  };
+};
+
+// Routes for customers to manage their recurring baskets
+router.get('/', authenticateToken, wrapAuthHandler(getMySubscriptions));
+router.post('/', authenticateToken, wrapAuthHandler(create));
+router.patch('/:id', authenticateToken, wrapAuthHandler(update));
+router.delete('/:id', authenticateToken, wrapAuthHandler(remove));
+
+// Route for skipping the next delivery before the cutoff
+router.post('/:id/skip', authenticateToken, wrapAuthHandler(skip));
+
+export const subscriptionRouter = router;
@@ -0,0 +1,44 @@
+import express, { Request, Response, NextFunction } from 'express';
+import {
+  createWalletAdjustment,
+  getMyWallet,
+  getUserWallet,
+} from '@/controllers/wallet.controller';
+import {
+  authenticateToken,
+  AuthenticatedRequest,
+  SuperAdminGuard,
+} from '@/middleware/auth.middleware';
+
+const router = express.Router();
+
+// Helper function to wrap handlers that use AuthenticatedRequest
+const wrapAuthHandler = (
+  handler: (
+    req: AuthenticatedRequest,
+    res: Response,
+  ) => Promise<Response | undefined>,
+) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req as AuthenticatedRequest, res).catch(next);
+  };
+};
+
+// Route for customers to see their store credit balance and ledger
+router.get('/', authenticateToken, wrapAuthHandler(getMyWallet));
+
+// Routes for super admins to review and adjust a customer's store credit
+router.get(
+  '/users/:id',
+  authenticateToken,
+  SuperAdminGuard,
+  wrapAuthHandler(getUserWallet),
+);
+router.post(
+  '/users/:id/adjustments',
+  authenticateToken,
+  SuperAdminGuard,
+  wrapAuthHandler(createWalletAdjustment),
+);
+
+export const walletRouter = router;
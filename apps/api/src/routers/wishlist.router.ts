@@ -0,0 +1,45 @@
+import express, { Request, Response, NextFunction } from 'express';
+import {
+  addItem,
+  getMyWishlist,
+  moveItemToCart,
+  removeItem,
+  saveCartItemForLater,
+} from '@/controllers/wishlist.controller';
+import {
+  authenticateToken,
+  AuthenticatedRequest,
+} from '@/middleware/auth.middleware';
+
+const router = express.Router();
+
+// Helper function to wrap handlers that use AuthenticatedRequest
+const wrapAuthHandler = (
+  handler: (
+    req: AuthenticatedRequest,
+    res: Response,
+  ) => Promise<Response | undefined>,
+) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req as AuthenticatedRequest, res).catch(next);
+  };
+};
+
+// Routes for customers to keep products for later
+router.get('/', authenticateToken, wrapAuthHandler(getMyWishlist));
+router.post('/', authenticateToken, wrapAuthHandler(addItem));
+router.delete('/:productId', authenticateToken, wrapAuthHandler(removeItem));
+
+// Routes moving lines between the active cart and the wishlist
+router.post(
+  '/save-for-later',
+  authenticateToken,
+  wrapAuthHandler(saveCartItemForLater),
+);
+router.post(
+  '/:productId/move-to-cart',
+  authenticateToken,
+  wrapAuthHandler(moveItemToCart),
+);
+
+export const wishlistRouter = router;
@@ -10,6 +10,8 @@ export const warehouseSchema = z.object({
     latitude: z.string(),
     longitude: z.string(),
     storeRadius: z.string(),
+    codEnabled: z.boolean().optional(),
+    codMaxOrderValue: z.string().optional(),
     userId: z.number()
 })
 
@@ -22,5 +24,7 @@ export const editWarehouseSchema = z.object({
     latitude: z.string(),
     longitude: z.string(),
     storeRadius: z.string(),
+    codEnabled: z.boolean().optional(),
+    codMaxOrderValue: z.string().optional(),
     userId: z.number().optional()
 })
\ No newline at end of file
@@ -1,10 +1,22 @@
+import prisma from '@/prisma';
 import { CartModel } from '../models/cart.model';
 import { calculateCartTotal, validateCartItem } from '@/utils/cart.utils';
 import {
   ADD_TO_CART_BODY,
   UPDATE_BODY,
   DELETE_CART_BODY,
+  QUICK_ORDER_BODY,
 } from '@/validations/cart.validation';
+import {
+  CartLineWarning,
+  CartRevalidationReport,
+  QuickOrderLine,
+  QuickOrderReport,
+  ReorderLine,
+  ReorderReport,
+} from '@/types/cart.type';
+import { resolveWarehouseForAddress } from './checkout.service';
+import { getAvailableStockAt, getAvailableStocks } from './stock.service';
 
 export const createNewCart = async (userId: number) => {
   if (!userId || typeof userId !== 'number') {
@@ -118,3 +130,354 @@ export const removeItem = async (itemId: number) => {
     throw new Error('Failed to remove cart item');
   }
 };
+
+export const REORDER_ORDER_NOT_FOUND = 'Order not found';
+
+// Copies the lines of a past order into the active cart. Stock is checked at
+// the warehouse that would serve the customer today, and lines whose price
+// changed are left out so the customer is never surprised at checkout.
+export const reorderFromOrder = async (userId: number, orderId: number) => {
+  const order = await prisma.order.findFirst({
+    where: { id: orderId, cart: { userId } },
+    include: {
+      address: true,
+      items: {
+        include: {
+          product: {
+            include: { productStocks: { where: { deleted: false } } },
+          },
+        },
+      },
+    },
+  });
+
+  if (!order) {
+    throw new Error(REORDER_ORDER_NOT_FOUND);
+  }
+
+  const address =
+    (await prisma.address.findFirst({ where: { userId, isPrimary: true } })) ??
+    order.address;
+  // Pickup orders carry no address, so stock is checked where they were collected
+  const warehouseId = address
+    ? (await resolveWarehouseForAddress(address)).id
+    : order.warehouseId;
+  const cart = await getOrCreateCart(userId);
+  const cartItems = new Map(
+    cart.items.map((item) => [
+      item.productId,
+      { id: item.id, quantity: item.quantity },
+    ]),
+  );
+
+  const report: ReorderReport = { added: [], adjusted: [], skipped: [] };
+  for (const item of order.items) {
+    // Fully canceled lines were never delivered
+    if (item.quantity === 0) {
+      continue;
+    }
+
+    const line: ReorderLine = {
+      productId: item.productId,
+      name: item.product.name,
+      orderedQuantity: item.quantity,
+      quantity: 0,
+      price: item.product.price,
+      previousPrice: item.price,
+    };
+
+    if (item.product.productStocks.length === 0) {
+      report.skipped.push({ ...line, reason: 'DISCONTINUED' });
+      continue;
+    }
+    if (item.product.price !== item.price) {
+      report.skipped.push({ ...line, reason: 'REPRICED' });
+      continue;
+    }
+
+    const cartItem = cartItems.get(item.productId);
+    const inCart = cartItem?.quantity ?? 0;
+    const available = await getAvailableStockAt(
+      prisma,
+      item.productId,
+      warehouseId,
+    );
+    const quantity = Math.min(item.quantity, available - inCart);
+    if (quantity <= 0) {
+      report.skipped.push({ ...line, reason: 'OUT_OF_STOCK' });
+      continue;
+    }
+
+    if (cartItem) {
+      await CartModel.updateItem(cartItem.id, inCart + quantity);
+      cartItem.quantity += quantity;
+    } else {
+      const newCartItem = await CartModel.addItem(
+        cart.id,
+        item.productId,
+        quantity,
+      );
+      cartItems.set(item.productId, { id: newCartItem.id, quantity });
+    }
+
+    if (quantity < item.quantity) {
+      report.adjusted.push({ ...line, quantity });
+    } else {
+      report.added.push({ ...line, quantity });
+    }
+  }
+
+  return { report, cartTotal: await calculateCartTotal(cart.id) };
+};
+
+export const CART_ITEM_NOT_FOUND = 'Cart item not found';
+
+type RevalidatedItem = {
+  id: number;
+  productId: number;
+  quantity: number;
+  addedPrice?: number | null;
+  product: { name: string; price: number };
+};
+
+// The warehouse that would serve the customer's primary address today, null
+// when the customer has no address yet
+export const getCartWarehouseId = async (userId: number) => {
+  const address =
+    (await prisma.address.findFirst({ where: { userId, isPrimary: true } })) ??
+    (await prisma.address.findFirst({ where: { userId } }));
+
+  return address ? (await resolveWarehouseForAddress(address)).id : null;
+};
+
+// Compares every line with the product as it is now, so a cart left for a
+// while never reaches checkout on stale prices or stock. Without a warehouse
+// the stock of every warehouse counts.
+export const revalidateCartItems = async (
+  items: RevalidatedItem[],
+  warehouseId: number | null,
+): Promise<CartRevalidationReport> => {
+  const productIds = items.map((item) => item.productId);
+  const stocks = await getAvailableStocks(productIds);
+
+  const warnings: CartLineWarning[] = [];
+  for (const item of items) {
+    const line = {
+      itemId: item.id,
+      productId: item.productId,
+      name: item.product.name,
+      quantity: item.quantity,
+    };
+
+    const productStocks = stocks.filter(
+      (stock) => stock.productId === item.productId,
+    );
+    if (productStocks.length === 0) {
+      warnings.push({ ...line, reason: 'PRODUCT_DELETED' });
+      continue;
+    }
+
+    if (
+      item.addedPrice !== undefined &&
+      item.addedPrice !== null &&
+      item.addedPrice !== item.product.price
+    ) {
+      warnings.push({
+        ...line,
+        reason: 'PRICE_CHANGED',
+        addedPrice: item.addedPrice,
+        price: item.product.price,
+      });
+    }
+
+    const availableStock = productStocks
+      .filter(
+        (stock) => warehouseId === null || stock.warehouseId === warehouseId,
+      )
+      .reduce((total, stock) => total + stock.availableStock, 0);
+    if (item.quantity > availableStock) {
+      warnings.push({ ...line, reason: 'INSUFFICIENT_STOCK', availableStock });
+    }
+  }
+
+  return { warehouseId, warnings };
+};
+
+export const revalidateCart = async (
+  userId: number,
+  cart: { items: RevalidatedItem[] },
+) => revalidateCartItems(cart.items, await getCartWarehouseId(userId));
+
+// The customer agrees to order the line at the product's current price
+export const acceptItemPrice = async (userId: number, itemId: number) => {
+  const cartItem = await prisma.cartItem.findFirst({
+    where: { id: itemId, cart: { userId, isActive: true } },
+    include: { product: true },
+  });
+
+  if (!cartItem) {
+    throw new Error(CART_ITEM_NOT_FOUND);
+  }
+
+  return await CartModel.acceptPrice(cartItem.id, cartItem.product.price);
+};
+
+type ParsedQuickOrderLine = {
+  line: number;
+  text: string;
+  sku?: string;
+  quantity?: number;
+};
+
+// Pasted lines and CSV files alike hold "SKU,qty" per line. Spreadsheets
+// often export semicolons or tabs, a header row or extra columns, so those
+// are accepted too.
+const parseQuickOrderText = (text: string) => {
+  const lines: ParsedQuickOrderLine[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = { line: index + 1, text: raw.trim() };
+    if (!line.text) {
+      return;
+    }
+
+    const [sku, quantity] = line.text
+      .split(/[,;\t]/)
+      .map((field) => field.trim().replace(/^"(.*)"$/, '$1'));
+    if (lines.length === 0 && /^sku$/i.test(sku)) {
+      return;
+    }
+
+    const parsedQuantity = Number(quantity);
+    if (!sku || !Number.isInteger(parsedQuantity) || parsedQuantity <= 0) {
+      lines.push(line);
+      return;
+    }
+
+    lines.push({ ...line, sku: sku.toUpperCase(), quantity: parsedQuantity });
+  });
+
+  return lines;
+};
+
+// Resolves every line to a product and adds what the warehouse serving the
+// customer can still sell, all in one transaction so a failure adds nothing.
+// Each line reports what happened to it.
+export const quickOrder = async (userId: number, body: unknown) => {
+  const { text } = QUICK_ORDER_BODY.parse(body);
+  const parsedLines = parseQuickOrderText(text);
+  const warehouseId = await getCartWarehouseId(userId);
+
+  const { cartId, lines } = await prisma.$transaction(async (tx) => {
+    const skus = Array.from(
+      new Set(parsedLines.flatMap((line) => (line.sku ? [line.sku] : []))),
+    );
+    const products = await tx.product.findMany({
+      where: { sku: { in: skus }, deleted: false },
+    });
+    const productBySku = new Map(
+      products.map((product) => [product.sku.toUpperCase(), product]),
+    );
+
+    const availableStock = new Map<number, number>();
+    const stocks = await getAvailableStocks(
+      products.map((product) => product.id),
+      tx,
+    );
+    for (const stock of stocks) {
+      if (warehouseId === null || stock.warehouseId === warehouseId) {
+        availableStock.set(
+          stock.productId,
+          (availableStock.get(stock.productId) ?? 0) + stock.availableStock,
+        );
+      }
+    }
+
+    const cart =
+      (await tx.cart.findFirst({
+        where: { userId, isActive: true, subscriptionId: null },
+        include: { items: true },
+      })) ??
+      (await tx.cart.create({
+        data: { userId, isActive: true },
+        include: { items: true },
+      }));
+    const cartItems = new Map(
+      cart.items.map((item) => [
+        item.productId,
+        { id: item.id, quantity: item.quantity },
+      ]),
+    );
+
+    const lines: QuickOrderLine[] = [];
+    for (const parsedLine of parsedLines) {
+      const { line, text, sku, quantity: requestedQuantity } = parsedLine;
+      if (!sku || !requestedQuantity) {
+        lines.push({ line, text, status: 'INVALID_LINE', quantity: 0 });
+        continue;
+      }
+
+      const product = productBySku.get(sku);
+      if (!product) {
+        lines.push({
+          line,
+          text,
+          sku,
+          requestedQuantity,
+          status: 'UNKNOWN_SKU',
+          quantity: 0,
+        });
+        continue;
+      }
+
+      const resolved = {
+        line,
+        text,
+        sku,
+        requestedQuantity,
+        productId: product.id,
+        name: product.name,
+        price: product.price,
+      };
+      const cartItem = cartItems.get(product.id);
+      const inCart = cartItem?.quantity ?? 0;
+      const quantity = Math.min(
+        requestedQuantity,
+        (availableStock.get(product.id) ?? 0) - inCart,
+      );
+      if (quantity <= 0) {
+        lines.push({ ...resolved, status: 'OUT_OF_STOCK', quantity: 0 });
+        continue;
+      }
+
+      if (cartItem) {
+        await tx.cartItem.update({
+          where: { id: cartItem.id },
+          data: { quantity: inCart + quantity },
+        });
+        cartItem.quantity += quantity;
+      } else {
+        const newCartItem = await tx.cartItem.create({
+          data: {
+            cartId: cart.id,
+            productId: product.id,
+            quantity,
+            addedPrice: product.price,
+          },
+        });
+        cartItems.set(product.id, { id: newCartItem.id, quantity });
+      }
+
+      lines.push({
+        ...resolved,
+        status: quantity < requestedQuantity ? 'ADJUSTED' : 'ADDED',
+        quantity,
+      });
+    }
+
+    return { cartId: cart.id, lines };
+  });
+
+  const report: QuickOrderReport = { warehouseId, lines };
+  return { report, cartTotal: await calculateCartTotal(cartId) };
+};
@@ -0,0 +1,135 @@
+import prisma from '@/prisma';
+import jwt from 'jsonwebtoken';
+import { CART_REMINDER_SECRET, WEB_URL } from '@/config';
+import { escapeHtml, sendMail } from '@/utils/mail.utils';
+import { validateUnsubscribeBody } from '@/validations/cartReminder.validation';
+import { getSetting } from './setting.service';
+
+export const CART_REMINDER_INVALID_TOKEN = 'Invalid unsubscribe link';
+
+const HOUR = 60 * 60 * 1000;
+
+// The link never expires, an old email must still be able to unsubscribe
+const signUnsubscribeToken = (userId: number) =>
+  jwt.sign({ userId }, CART_REMINDER_SECRET);
+
+const formatPrice = (price: number) =>
+  `Rp ${Math.round(price).toLocaleString('id-ID')}`;
+
+type ReminderCart = {
+  items: {
+    quantity: number;
+    product: {
+      name: string;
+      price: number;
+      productImages: { url: string }[];
+    };
+  }[];
+};
+
+const buildReminderHtml = (cart: ReminderCart, unsubscribeUrl: string) => {
+  const cartUrl = `${WEB_URL}/cart`;
+  const rows = cart.items
+    .map((item) => {
+      const image = item.product.productImages[0]?.url;
+      const name = escapeHtml(item.product.name);
+      return (
+        '<tr>' +
+        `<td>${image ? `<img src="${escapeHtml(`${WEB_URL}${image}`)}" alt="${name}" width="64" height="64" />` : ''}</td>` +
+        `<td>${name}</td>` +
+        `<td>${item.quantity} x ${formatPrice(item.product.price)}</td>` +
+        '</tr>'
+      );
+    })
+    .join('');
+
+  return (
+    '<p>You left these items in your cart:</p>' +
+    `<table cellpadding="8">${rows}</table>` +
+    `<p>Prices and stock can change, finish your order here: <a href="${cartUrl}">${cartUrl}</a></p>` +
+    `<p style="font-size:12px;color:#888">Don't want these reminders? <a href="${unsubscribeUrl}">Unsubscribe</a></p>`
+  );
+};
+
+// Active carts nobody touched for the configured hours get an email, at most
+// the configured number of times and never twice within the same window.
+// Items change without touching the cart row, so their updatedAt counts too.
+export const sendAbandonedCartReminders = async () => {
+  const [hours, maxReminders] = await Promise.all([
+    getSetting('abandonedCartHours'),
+    getSetting('abandonedCartMaxReminders'),
+  ]);
+  if (maxReminders === 0) {
+    return { dueCount: 0, sentCount: 0 };
+  }
+
+  const cutoff = new Date(Date.now() - hours * HOUR);
+  const carts = await prisma.cart.findMany({
+    where: {
+      isActive: true,
+      deletedAt: null,
+      subscriptionId: null,
+      updatedAt: { lt: cutoff },
+      items: { some: {}, none: { updatedAt: { gte: cutoff } } },
+      reminders: { none: { sentAt: { gte: cutoff } } },
+      user: { cartRemindersOff: false },
+    },
+    include: {
+      user: { select: { id: true, email: true } },
+      items: {
+        include: {
+          product: {
+            select: {
+              name: true,
+              price: true,
+              productImages: { select: { url: true }, take: 1 },
+            },
+          },
+        },
+      },
+      _count: { select: { reminders: true } },
+    },
+  });
+
+  const dueCarts = carts.filter((cart) => cart._count.reminders < maxReminders);
+  let sentCount = 0;
+  for (const cart of dueCarts) {
+    const unsubscribeUrl = `${WEB_URL}/unsubscribe?token=${signUnsubscribeToken(cart.user.id)}`;
+    const sent = await sendMail(
+      cart.user.email,
+      'You left something in your cart',
+      buildReminderHtml(cart, unsubscribeUrl),
+    );
+
+    // A failed send is retried on the next run instead of using up a reminder
+    if (sent) {
+      await prisma.cartReminder.create({ data: { cartId: cart.id } });
+      sentCount++;
+    }
+  }
+
+  return { dueCount: dueCarts.length, sentCount };
+};
+
+export const unsubscribeFromCartReminders = async (body: unknown) => {
+  const { token } = validateUnsubscribeBody.parse(body);
+
+  let userId: unknown;
+  try {
+    const payload = jwt.verify(token, CART_REMINDER_SECRET);
+    userId = typeof payload === 'object' ? payload.userId : null;
+  } catch {
+    throw new Error(CART_REMINDER_INVALID_TOKEN);
+  }
+  if (typeof userId !== 'number') {
+    throw new Error(CART_REMINDER_INVALID_TOKEN);
+  }
+
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId },
+    data: { cartRemindersOff: true },
+  });
+  if (count === 0) {
+    throw new Error(CART_REMINDER_INVALID_TOKEN);
+  }
+};
@@ -0,0 +1,451 @@
+import prisma from '@/prisma';
+import {
+  Address,
+  FulfillmentMethod,
+  SubstitutionPreference,
+} from '@prisma/client';
+import {
+  CheckoutBody,
+  CheckoutShipment,
+  CheckoutSummary,
+  OrderItemsBody,
+  SubstitutionPreferenceBody,
+} from '@/types/order.type';
+import { findNearestWarehouse } from './warehouse.service';
+import {
+  CourierService,
+  DEFAULT_PARCEL_WEIGHT,
+  getCourierServices,
+  getServiceCost,
+} from './shipping.service';
+import { planPickup, planShipments } from './shipment.service';
+import { getAvailableStocks } from './stock.service';
+import {
+  calculateItemsTotal,
+  calculateVoucherDiscount,
+  getVoucherIneligibility,
+} from '@/utils/voucher.utils';
+import { isCashOnDelivery } from './orderStatus.service';
+import { isPaymentGatewayEnabled } from './payment.service';
+import { GATEWAY_PAYMENT_METHOD } from '@/types/payment.type';
+
+export type CheckoutErrorCode =
+  | 'INVALID_CART'
+  | 'EMPTY_CART'
+  | 'INVALID_ADDRESS'
+  | 'NO_WAREHOUSE'
+  | 'INVALID_VOUCHER'
+  | 'INVALID_SHIPPING'
+  | 'INSUFFICIENT_STOCK'
+  | 'TOTAL_MISMATCH'
+  | 'COD_UNAVAILABLE'
+  | 'GATEWAY_UNAVAILABLE'
+  | 'INVALID_WALLET_AMOUNT'
+  | 'SLOT_UNAVAILABLE'
+  | 'INVALID_SUBSTITUTION';
+
+// Carries a machine readable code so the checkout page can explain the failure
+export class CheckoutError extends Error {
+  code: CheckoutErrorCode;
+  details?: Record<string, unknown>;
+
+  constructor(
+    code: CheckoutErrorCode,
+    message: string,
+    details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = 'CheckoutError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export const findUserAddress = async (userId: number, addressId: number) => {
+  const address = await prisma.address.findFirst({
+    where: { id: addressId, userId },
+  });
+
+  if (!address) {
+    throw new CheckoutError('INVALID_ADDRESS', 'Address not found');
+  }
+
+  return address;
+};
+
+// Addresses rarely carry coordinates, so fall back to the same city or province
+export const resolveWarehouseForAddress = async (address: Address) => {
+  if (address.latitude !== null && address.longitude !== null) {
+    const nearest = await findNearestWarehouse({
+      latitude: address.latitude,
+      longitude: address.longitude,
+    });
+    return { id: nearest.warehouseId, cityId: nearest.city.id };
+  }
+
+  const warehouse =
+    (await prisma.warehouse.findFirst({
+      where: { cityId: address.cityId },
+    })) ??
+    (await prisma.warehouse.findFirst({
+      where: { provinceId: address.provinceId },
+    })) ??
+    (await prisma.warehouse.findFirst({ orderBy: { id: 'asc' } }));
+
+  if (!warehouse) {
+    throw new CheckoutError('NO_WAREHOUSE', 'No warehouse found');
+  }
+
+  return { id: warehouse.id, cityId: warehouse.cityId };
+};
+
+// Quotes every parcel of the active cart, a service is only offered when all
+// parcels can use it and is priced as the sum of their costs
+export const getCheckoutShippingServices = async (
+  userId: number,
+  addressId: number,
+  courier: string,
+): Promise<CourierService[]> => {
+  const address = await findUserAddress(userId, addressId);
+  const warehouse = await resolveWarehouseForAddress(address);
+
+  const cart = await prisma.cart.findFirst({
+    where: { userId, isActive: true, subscriptionId: null },
+    include: { items: true },
+  });
+  const { shipments } = await planShipments(
+    prisma,
+    warehouse.id,
+    cart?.items ?? [],
+  );
+  const origins = shipments.length
+    ? shipments.map((shipment) => shipment.cityId)
+    : [warehouse.cityId];
+
+  const quotes = await Promise.all(
+    origins.map((origin) =>
+      getCourierServices({
+        origin,
+        destination: address.cityId,
+        weight: DEFAULT_PARCEL_WEIGHT,
+        courier,
+      }),
+    ),
+  );
+
+  return quotes[0]
+    .filter((service) =>
+      quotes.every((quote) =>
+        quote.some((item) => item.service === service.service),
+      ),
+    )
+    .map((service) => ({
+      ...service,
+      cost: [
+        {
+          ...service.cost[0],
+          value: quotes.reduce(
+            (sum, quote) =>
+              sum +
+              (quote.find((item) => item.service === service.service)?.cost[0]
+                ?.value ?? 0),
+            0,
+          ),
+        },
+      ],
+    }));
+};
+
+// Pickup is offered at the warehouses that can hand over the whole cart
+export const getPickupWarehouses = async (userId: number) => {
+  const cart = await prisma.cart.findFirst({
+    where: { userId, isActive: true, subscriptionId: null },
+    include: { items: true },
+  });
+  if (!cart || cart.items.length === 0) {
+    return [];
+  }
+
+  const stocks = await getAvailableStocks(
+    cart.items.map((item) => item.productId),
+  );
+  const warehouseIds = Array.from(
+    new Set(stocks.map((stock) => stock.warehouseId)),
+  ).filter((warehouseId) =>
+    cart.items.every((item) =>
+      stocks.some(
+        (stock) =>
+          stock.warehouseId === warehouseId &&
+          stock.productId === item.productId &&
+          stock.availableStock >= item.quantity,
+      ),
+    ),
+  );
+
+  return await prisma.warehouse.findMany({
+    where: { id: { in: warehouseIds } },
+    select: {
+      id: true,
+      name: true,
+      address: true,
+      postalCode: true,
+      codEnabled: true,
+      codMaxOrderValue: true,
+      city: { select: { name: true } },
+      province: { select: { name: true } },
+    },
+    orderBy: { name: 'asc' },
+  });
+};
+
+const findPickupWarehouse = async (warehouseId: number) => {
+  const warehouse = await prisma.warehouse.findUnique({
+    where: { id: warehouseId },
+  });
+
+  if (!warehouse) {
+    throw new CheckoutError('NO_WAREHOUSE', 'Pickup store not found');
+  }
+
+  return { id: warehouse.id, cityId: warehouse.cityId };
+};
+
+// Every warehouse sending a parcel collects cash, so all of them must offer COD
+// and the order may not exceed the lowest limit among them
+const assertCashOnDeliveryAvailable = async (
+  warehouseIds: number[],
+  total: number,
+) => {
+  const warehouses = await prisma.warehouse.findMany({
+    where: { id: { in: warehouseIds } },
+  });
+
+  const unavailable = warehouses.filter((warehouse) => !warehouse.codEnabled);
+  if (unavailable.length > 0) {
+    throw new CheckoutError(
+      'COD_UNAVAILABLE',
+      'Cash on delivery is not available for this order',
+      { warehouses: unavailable.map((warehouse) => warehouse.name) },
+    );
+  }
+
+  const limits = warehouses
+    .map((warehouse) => warehouse.codMaxOrderValue)
+    .filter((limit): limit is number => limit !== null);
+  const maxOrderValue = limits.length ? Math.min(...limits) : null;
+  if (maxOrderValue !== null && total > maxOrderValue) {
+    throw new CheckoutError(
+      'COD_UNAVAILABLE',
+      'Your order total exceeds the cash on delivery limit',
+      { maxOrderValue, total },
+    );
+  }
+};
+
+export const buildCheckoutSummary = async (
+  userId: number,
+  body: CheckoutBody,
+): Promise<CheckoutSummary> => {
+  const cart = await prisma.cart.findFirst({
+    where: { id: body.cartId, userId, isActive: true },
+    include: { items: { include: { product: true } } },
+  });
+
+  if (!cart) {
+    throw new CheckoutError('INVALID_CART', 'Invalid or inactive cart');
+  }
+
+  if (cart.items.length === 0) {
+    throw new CheckoutError('EMPTY_CART', 'Your cart is empty');
+  }
+
+  const isPickup = body.fulfillmentMethod === FulfillmentMethod.PICKUP;
+  const address = isPickup
+    ? null
+    : await findUserAddress(userId, body.addressId!);
+  const warehouse = address
+    ? await resolveWarehouseForAddress(address)
+    : await findPickupWarehouse(body.pickupWarehouseId!);
+
+  // Prices always come from the catalogue, never from the client
+  const items = cart.items.map((item) => ({
+    productId: item.productId,
+    quantity: item.quantity,
+    price: item.product.price,
+    total: item.product.price * item.quantity,
+  }));
+  const subtotal = calculateItemsTotal(items);
+
+  let voucherId: number | null = null;
+  let discount = 0;
+  if (body.voucherCode) {
+    const voucher = await prisma.voucher.findUnique({
+      where: { code: body.voucherCode },
+    });
+
+    if (!voucher) {
+      throw new CheckoutError('INVALID_VOUCHER', 'Voucher not found');
+    }
+
+    const ineligibility = getVoucherIneligibility(voucher, items);
+    if (ineligibility) {
+      throw new CheckoutError('INVALID_VOUCHER', ineligibility);
+    }
+
+    voucherId = voucher.id;
+    discount = calculateVoucherDiscount(voucher, items);
+  }
+
+  const plan = isPickup
+    ? await planPickup(prisma, warehouse.id, items)
+    : await planShipments(prisma, warehouse.id, items);
+  if (plan.shortages.length > 0) {
+    throw new CheckoutError(
+      'INSUFFICIENT_STOCK',
+      'Some items in your cart are out of stock',
+      { shortages: plan.shortages },
+    );
+  }
+
+  // Each warehouse sends its own parcel, so each one is quoted separately
+  const shipments: CheckoutShipment[] = [];
+  for (const parcel of plan.shipments) {
+    // Nothing is shipped when the customer collects the order
+    if (!address) {
+      shipments.push({
+        warehouseId: parcel.warehouseId,
+        shippingCost: 0,
+        items: parcel.items,
+      });
+      continue;
+    }
+
+    const parcelCost = await getServiceCost(
+      {
+        origin: parcel.cityId,
+        destination: address.cityId,
+        weight: DEFAULT_PARCEL_WEIGHT,
+        courier: body.courier!,
+      },
+      body.courierService!,
+    );
+
+    if (parcelCost === null) {
+      throw new CheckoutError(
+        'INVALID_SHIPPING',
+        `Courier service ${body.courier!.toUpperCase()} ${body.courierService} is not available for this address`,
+      );
+    }
+
+    shipments.push({
+      warehouseId: parcel.warehouseId,
+      shippingCost: parcelCost,
+      items: parcel.items,
+    });
+  }
+  const shippingCost = shipments.reduce(
+    (sum, shipment) => sum + shipment.shippingCost,
+    0,
+  );
+
+  const total = subtotal + shippingCost - discount;
+
+  if (
+    body.paymentMethod === GATEWAY_PAYMENT_METHOD &&
+    !isPaymentGatewayEnabled()
+  ) {
+    throw new CheckoutError(
+      'GATEWAY_UNAVAILABLE',
+      'Online payment is not available, please choose another payment method',
+    );
+  }
+
+  if (isCashOnDelivery(body.paymentMethod)) {
+    await assertCashOnDeliveryAvailable(
+      shipments.map((shipment) => shipment.warehouseId),
+      total,
+    );
+  }
+
+  return {
+    cartId: cart.id,
+    fulfillmentMethod: isPickup
+      ? FulfillmentMethod.PICKUP
+      : FulfillmentMethod.DELIVERY,
+    addressId: address?.id ?? null,
+    warehouseId: warehouse.id,
+    voucherId,
+    items,
+    shipments,
+    subtotal,
+    discount,
+    shippingCost,
+    total,
+  };
+};
+
+// The preference of every order line, lines left out accept no substitute
+export const resolveSubstitutionPreferences = async (
+  items: OrderItemsBody[],
+  substitutions: SubstitutionPreferenceBody[] = [],
+) => {
+  for (const line of substitutions) {
+    if (!items.some((item) => item.productId === line.productId)) {
+      throw new CheckoutError(
+        'INVALID_SUBSTITUTION',
+        'Substitution preferences must refer to items in your cart',
+      );
+    }
+  }
+
+  const substituteIds = substitutions
+    .map((line) => line.substituteProductId)
+    .filter((id): id is number => id !== undefined);
+  const substitutes = await prisma.product.count({
+    where: { id: { in: substituteIds }, deleted: false },
+  });
+  if (substitutes !== new Set(substituteIds).size) {
+    throw new CheckoutError(
+      'INVALID_SUBSTITUTION',
+      'The product chosen as substitute was not found',
+    );
+  }
+
+  return new Map(
+    items.map((item) => {
+      const line = substitutions.find(
+        (substitution) => substitution.productId === item.productId,
+      );
+      return [
+        item.productId,
+        {
+          substitutionPreference:
+            line?.preference ?? SubstitutionPreference.NONE,
+          preferredSubstituteId: line?.substituteProductId ?? null,
+        },
+      ];
+    }),
+  );
+};
+
+export const assertExpectedTotal = (
+  summary: CheckoutSummary,
+  expectedTotal?: number,
+) => {
+  if (
+    expectedTotal !== undefined &&
+    Math.round(expectedTotal) !== Math.round(summary.total)
+  ) {
+    throw new CheckoutError(
+      'TOTAL_MISMATCH',
+      'Your order total has changed, please review it before placing the order',
+      {
+        expectedTotal,
+        subtotal: summary.subtotal,
+        discount: summary.discount,
+        shippingCost: summary.shippingCost,
+        total: summary.total,
+      },
+    );
+  }
+};
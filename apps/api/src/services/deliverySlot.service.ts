@@ -0,0 +1,319 @@
+import prisma from '@/prisma';
+import { PaymentStatus, Prisma, Role } from '@prisma/client';
+import { DELIVERY_SLOT_DAYS_AHEAD } from '@/config';
+import {
+  validateDeliverySlotBody,
+  validateDeliverySlotUpdateBody,
+} from '../validations/deliverySlot.validation';
+import {
+  CheckoutError,
+  findUserAddress,
+  resolveWarehouseForAddress,
+} from './checkout.service';
+import { isCashOnDelivery } from './orderStatus.service';
+
+export const DELIVERY_SLOT_NOT_FOUND = 'Delivery slot not found';
+export const WAREHOUSE_NOT_FOUND = 'Warehouse not found';
+
+// Rule violations the admin can fix, reported as 400
+export class DeliverySlotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeliverySlotError';
+  }
+}
+
+type SlotManager = { userId: number; role: Role };
+
+// Canceled and failed orders give their place in the slot back
+const BOOKED_STATUSES = {
+  notIn: [PaymentStatus.CANCELED, PaymentStatus.FAILED],
+};
+
+// Slot dates are calendar days, kept in UTC so the weekday never shifts
+const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+const parseDateKey = (dateKey: string) => new Date(`${dateKey}T00:00:00.000Z`);
+
+// Deliveries are offered from tomorrow on, so same day windows never expire
+// while the customer is still checking out
+const getUpcomingDates = () => {
+  const today = parseDateKey(toDateKey(new Date()));
+  return Array.from(
+    { length: DELIVERY_SLOT_DAYS_AHEAD },
+    (_, index) => new Date(today.getTime() + (index + 1) * 24 * 60 * 60 * 1000),
+  );
+};
+
+const bookingKey = (slotId: number, date: Date) =>
+  `${slotId}-${toDateKey(date)}`;
+
+const countBookedOrders = async (slotIds: number[], dates: Date[]) => {
+  const bookings = await prisma.order.groupBy({
+    by: ['deliverySlotId', 'deliveryDate'],
+    where: {
+      deliverySlotId: { in: slotIds },
+      deliveryDate: { in: dates },
+      paymentStatus: BOOKED_STATUSES,
+    },
+    _count: { _all: true },
+  });
+
+  return new Map(
+    bookings.map((booking) => [
+      bookingKey(booking.deliverySlotId!, booking.deliveryDate!),
+      booking._count._all,
+    ]),
+  );
+};
+
+// Warehouse admins only manage the slots of their own warehouse
+const resolveManagedWarehouseId = async (
+  user: SlotManager,
+  warehouseId?: number,
+) => {
+  if (user.role === Role.SUPER_ADMIN) {
+    if (!warehouseId) {
+      throw new DeliverySlotError('Please select a warehouse');
+    }
+    const warehouse = await prisma.warehouse.findUnique({
+      where: { id: warehouseId },
+    });
+    if (!warehouse) {
+      throw new Error(WAREHOUSE_NOT_FOUND);
+    }
+    return warehouse.id;
+  }
+
+  const warehouse = await prisma.warehouse.findUnique({
+    where: { userId: user.userId },
+  });
+  if (!warehouse) {
+    throw new Error('Admin is not assigned to a warehouse');
+  }
+  if (warehouseId && warehouseId !== warehouse.id) {
+    throw new Error(WAREHOUSE_NOT_FOUND);
+  }
+  return warehouse.id;
+};
+
+const findManagedSlot = async (slotId: number, user: SlotManager) => {
+  const slot = await prisma.deliverySlot.findUnique({ where: { id: slotId } });
+  if (!slot) {
+    throw new Error(DELIVERY_SLOT_NOT_FOUND);
+  }
+
+  await resolveManagedWarehouseId(user, slot.warehouseId);
+  return slot;
+};
+
+export const getDeliverySlots = async (
+  user: SlotManager,
+  warehouseId?: number,
+) => {
+  return await prisma.deliverySlot.findMany({
+    where: { warehouseId: await resolveManagedWarehouseId(user, warehouseId) },
+    orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }],
+  });
+};
+
+export const createDeliverySlot = async (
+  user: SlotManager,
+  warehouseId: number | undefined,
+  body: unknown,
+) => {
+  const data = validateDeliverySlotBody.parse(body);
+
+  return await prisma.deliverySlot.create({
+    data: {
+      ...data,
+      warehouseId: await resolveManagedWarehouseId(user, warehouseId),
+    },
+  });
+};
+
+// Slots are switched off rather than deleted, orders keep pointing at them
+export const updateDeliverySlot = async (
+  slotId: number,
+  user: SlotManager,
+  body: unknown,
+) => {
+  const data = validateDeliverySlotUpdateBody.parse(body);
+  const slot = await findManagedSlot(slotId, user);
+
+  if ((data.startTime ?? slot.startTime) >= (data.endTime ?? slot.endTime)) {
+    throw new DeliverySlotError('End time must be after start time');
+  }
+
+  return await prisma.deliverySlot.update({
+    where: { id: slot.id },
+    data,
+  });
+};
+
+// Upcoming slot dates of a warehouse that still have room for an order
+export const getAvailableDeliverySlots = async (warehouseId: number) => {
+  const slots = await prisma.deliverySlot.findMany({
+    where: { warehouseId, isActive: true },
+    orderBy: { startTime: 'asc' },
+  });
+  if (slots.length === 0) {
+    return [];
+  }
+
+  const dates = getUpcomingDates();
+  const booked = await countBookedOrders(
+    slots.map((slot) => slot.id),
+    dates,
+  );
+
+  return dates.flatMap((date) =>
+    slots
+      .filter((slot) => slot.dayOfWeek === date.getUTCDay())
+      .map((slot) => ({
+        deliverySlotId: slot.id,
+        date: toDateKey(date),
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        remaining: slot.capacity - (booked.get(bookingKey(slot.id, date)) ?? 0),
+      }))
+      .filter((option) => option.remaining > 0),
+  );
+};
+
+// Slots are offered by the warehouse that will serve the address
+export const getCheckoutDeliverySlots = async (
+  userId: number,
+  addressId: number,
+) => {
+  const address = await findUserAddress(userId, addressId);
+  const warehouse = await resolveWarehouseForAddress(address);
+  return await getAvailableDeliverySlots(warehouse.id);
+};
+
+// Takes a place in the slot for the order being created. Must run before
+// anything is read in the checkout transaction: the update locks the slot row,
+// so the count that follows sees every booking committed by a concurrent
+// checkout.
+export const bookDeliverySlot = async (
+  tx: Prisma.TransactionClient,
+  warehouseId: number,
+  slotId: number,
+  dateKey: string,
+) => {
+  const date = parseDateKey(dateKey);
+  const slot = await tx.deliverySlot.findFirst({
+    where: { id: slotId, warehouseId, isActive: true },
+  });
+  const isUpcoming = getUpcomingDates().some(
+    (upcoming) => toDateKey(upcoming) === dateKey,
+  );
+
+  if (!slot || slot.dayOfWeek !== date.getUTCDay() || !isUpcoming) {
+    throw new CheckoutError(
+      'SLOT_UNAVAILABLE',
+      'The selected delivery slot is not available',
+    );
+  }
+
+  await tx.deliverySlot.update({
+    where: { id: slot.id },
+    data: { updatedAt: new Date() },
+  });
+  const bookedCount = await tx.order.count({
+    where: {
+      deliverySlotId: slot.id,
+      deliveryDate: date,
+      paymentStatus: BOOKED_STATUSES,
+    },
+  });
+
+  if (bookedCount >= slot.capacity) {
+    throw new CheckoutError(
+      'SLOT_UNAVAILABLE',
+      'The selected delivery slot is already full',
+    );
+  }
+
+  return date;
+};
+
+// Orders of one day grouped by slot, with the quantities to pick for the
+// orders that may be shipped
+export const getPickingList = async (
+  user: SlotManager,
+  dateKey: string,
+  warehouseId?: number,
+) => {
+  const managedWarehouseId = await resolveManagedWarehouseId(user, warehouseId);
+  const date = parseDateKey(dateKey);
+
+  const slots = await prisma.deliverySlot.findMany({
+    where: {
+      warehouseId: managedWarehouseId,
+      OR: [
+        { dayOfWeek: date.getUTCDay(), isActive: true },
+        { orders: { some: { deliveryDate: date } } },
+      ],
+    },
+    include: {
+      orders: {
+        where: { deliveryDate: date, paymentStatus: BOOKED_STATUSES },
+        include: {
+          address: true,
+          items: { include: { product: true } },
+        },
+        orderBy: { id: 'asc' },
+      },
+    },
+    orderBy: { startTime: 'asc' },
+  });
+
+  return slots.map(({ orders, ...slot }) => {
+    const pickList = new Map<
+      number,
+      { productId: number; name: string; quantity: number }
+    >();
+    for (const order of orders) {
+      const readyStatus = isCashOnDelivery(order.paymentMethod)
+        ? PaymentStatus.PENDING
+        : PaymentStatus.PAID;
+      if (order.paymentStatus !== readyStatus) {
+        continue;
+      }
+
+      for (const item of order.items) {
+        const line = pickList.get(item.productId) ?? {
+          productId: item.productId,
+          name: item.product.name,
+          quantity: 0,
+        };
+        line.quantity += item.quantity;
+        pickList.set(item.productId, line);
+      }
+    }
+
+    return {
+      ...slot,
+      orders: orders.map((order) => ({
+        id: order.id,
+        name: order.name,
+        paymentStatus: order.paymentStatus,
+        paymentMethod: order.paymentMethod,
+        address: {
+          name: order.address?.name ?? '',
+          address: order.address?.address ?? '',
+        },
+        items: order.items
+          .filter((item) => item.quantity > 0)
+          .map((item) => ({
+            productId: item.productId,
+            name: item.product.name,
+            quantity: item.quantity,
+          })),
+      })),
+      pickList: Array.from(pickList.values()).filter(
+        (line) => line.quantity > 0,
+      ),
+    };
+  });
+};
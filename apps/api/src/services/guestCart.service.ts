@@ -0,0 +1,204 @@
+import prisma from '@/prisma';
+import jwt from 'jsonwebtoken';
+import { GUEST_CART_SECRET, GUEST_CART_TTL_DAYS } from '@/config';
+import { CartModel } from '../models/cart.model';
+import { calculateCartTotal } from '@/utils/cart.utils';
+import {
+  ADD_TO_CART_BODY,
+  UPDATE_QUANTITY_BODY,
+} from '@/validations/cart.validation';
+import { getOrCreateCart } from './cart.services';
+import { getAvailableStocks } from './stock.service';
+
+// The web sends the signed token it keeps in the guest cart cookie here
+export const GUEST_CART_HEADER = 'x-guest-cart';
+
+export const GUEST_CART_ITEM_NOT_FOUND = 'Cart item not found';
+export const GUEST_CART_INSUFFICIENT_STOCK =
+  'Invalid product or insufficient stock';
+
+const guestCartInclude = {
+  items: {
+    include: { product: true },
+    orderBy: { createdAt: 'asc' as const },
+  },
+};
+
+const getExpiry = () =>
+  new Date(Date.now() + GUEST_CART_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+const signGuestCartToken = (guestCartId: number) =>
+  jwt.sign({ guestCartId }, GUEST_CART_SECRET, {
+    expiresIn: `${GUEST_CART_TTL_DAYS}d`,
+  });
+
+// Tampered, expired or missing tokens all mean there is no guest cart
+const readGuestCartId = (token?: string) => {
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const payload = jwt.verify(token, GUEST_CART_SECRET);
+    return typeof payload === 'object' &&
+      typeof payload.guestCartId === 'number'
+      ? payload.guestCartId
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const findGuestCart = async (token?: string) => {
+  const guestCartId = readGuestCartId(token);
+  if (!guestCartId) {
+    return null;
+  }
+
+  return await prisma.guestCart.findFirst({
+    where: { id: guestCartId, expiresAt: { gt: new Date() } },
+    include: guestCartInclude,
+  });
+};
+
+// Stock of every warehouse still able to sell the product
+const getTotalAvailableStock = async (productId: number) => {
+  const stocks = await getAvailableStocks([productId]);
+  return stocks.reduce((total, stock) => total + stock.availableStock, 0);
+};
+
+// Every visit pushes the expiry back, so only abandoned carts run out
+export const getOrCreateGuestCart = async (token?: string) => {
+  const existingCart = await findGuestCart(token);
+
+  const cart = existingCart
+    ? await prisma.guestCart.update({
+        where: { id: existingCart.id },
+        data: { expiresAt: getExpiry() },
+        include: guestCartInclude,
+      })
+    : await prisma.guestCart.create({
+        data: { expiresAt: getExpiry() },
+        include: guestCartInclude,
+      });
+
+  return { cart, token: signGuestCartToken(cart.id) };
+};
+
+const findGuestCartOrThrow = async (token?: string) => {
+  const cart = await findGuestCart(token);
+  if (!cart) {
+    throw new Error(GUEST_CART_ITEM_NOT_FOUND);
+  }
+  return cart;
+};
+
+export const addGuestCartItem = async (
+  token: string | undefined,
+  body: unknown,
+) => {
+  const { productId, quantity } = ADD_TO_CART_BODY.parse(body);
+  const { cart, token: guestToken } = await getOrCreateGuestCart(token);
+
+  const existingItem = cart.items.find((item) => item.productId === productId);
+  const newQuantity = (existingItem?.quantity ?? 0) + quantity;
+  if (newQuantity > (await getTotalAvailableStock(productId))) {
+    throw new Error(GUEST_CART_INSUFFICIENT_STOCK);
+  }
+
+  const cartItem = await prisma.guestCartItem.upsert({
+    where: { guestCartId_productId: { guestCartId: cart.id, productId } },
+    create: { guestCartId: cart.id, productId, quantity },
+    update: { quantity: newQuantity },
+    include: { product: true },
+  });
+
+  return { cartItem, token: guestToken };
+};
+
+export const updateGuestCartItem = async (
+  token: string | undefined,
+  itemId: number,
+  body: unknown,
+) => {
+  const { quantity } = UPDATE_QUANTITY_BODY.parse(body);
+  const cart = await findGuestCartOrThrow(token);
+
+  const item = cart.items.find((item) => item.id === itemId);
+  if (!item) {
+    throw new Error(GUEST_CART_ITEM_NOT_FOUND);
+  }
+  if (quantity > (await getTotalAvailableStock(item.productId))) {
+    throw new Error(GUEST_CART_INSUFFICIENT_STOCK);
+  }
+
+  return await prisma.guestCartItem.update({
+    where: { id: itemId },
+    data: { quantity },
+    include: { product: true },
+  });
+};
+
+export const removeGuestCartItem = async (
+  token: string | undefined,
+  itemId: number,
+) => {
+  const cart = await findGuestCartOrThrow(token);
+
+  if (!cart.items.some((item) => item.id === itemId)) {
+    throw new Error(GUEST_CART_ITEM_NOT_FOUND);
+  }
+
+  await prisma.guestCartItem.delete({ where: { id: itemId } });
+};
+
+// Runs on login and registration. Quantities of products already in the
+// user's cart are added together, but never beyond the stock left to sell.
+export const mergeGuestCart = async (userId: number, token?: string) => {
+  const guestCart = await findGuestCart(token);
+  if (!guestCart) {
+    return null;
+  }
+
+  const cart = await getOrCreateCart(userId);
+  let mergedCount = 0;
+  let cappedCount = 0;
+
+  for (const guestItem of guestCart.items) {
+    const cartItem = cart.items.find(
+      (item) => item.productId === guestItem.productId,
+    );
+    const inCart = cartItem?.quantity ?? 0;
+    const available = await getTotalAvailableStock(guestItem.productId);
+    const quantity = Math.min(inCart + guestItem.quantity, available);
+
+    if (quantity < inCart + guestItem.quantity) {
+      cappedCount++;
+    }
+    if (quantity <= inCart) {
+      continue;
+    }
+
+    if (cartItem) {
+      await CartModel.updateItem(cartItem.id, quantity);
+    } else {
+      await CartModel.addItem(cart.id, guestItem.productId, quantity);
+    }
+    mergedCount++;
+  }
+
+  await prisma.guestCart.delete({ where: { id: guestCart.id } });
+
+  return {
+    mergedCount,
+    cappedCount,
+    cartTotal: await calculateCartTotal(cart.id),
+  };
+};
+
+export const deleteExpiredGuestCarts = async () => {
+  const { count } = await prisma.guestCart.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+  return count;
+};
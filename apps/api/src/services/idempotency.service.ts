@@ -0,0 +1,125 @@
+import prisma from '@/prisma';
+import { Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+
+// Keys only need to outlive client retries, older ones are purged by the cron
+export const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+export type IdempotencyClaim =
+  | { status: 'claimed'; id: number }
+  | { status: 'replay'; statusCode: number; body: unknown }
+  | { status: 'conflict' }
+  | { status: 'in_progress' };
+
+// Serializes with sorted object keys so field order never changes the fingerprint
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`,
+      );
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+};
+
+// Multipart bodies are not parsed yet when the key is claimed, their size
+// stands in for the content
+export const fingerprintRequest = (request: {
+  method: string;
+  path: string;
+  body: unknown;
+  contentLength?: string;
+}) =>
+  createHash('sha256')
+    .update(
+      stableStringify({
+        method: request.method,
+        path: request.path,
+        body: request.body ?? null,
+        contentLength: request.contentLength ?? null,
+      }),
+    )
+    .digest('hex');
+
+export const claimIdempotencyKey = async (
+  userId: number,
+  scope: string,
+  key: string,
+  fingerprint: string,
+): Promise<IdempotencyClaim> => {
+  try {
+    const created = await prisma.idempotencyKey.create({
+      data: { userId, scope, key, fingerprint },
+    });
+    return { status: 'claimed', id: created.id };
+  } catch (error: any) {
+    if (error.code !== 'P2002') {
+      throw error;
+    }
+  }
+
+  const existing = await prisma.idempotencyKey.findUnique({
+    where: { userId_scope_key: { userId, scope, key } },
+  });
+
+  // The first request failed and released the key in the meantime
+  if (!existing) {
+    return await claimIdempotencyKey(userId, scope, key, fingerprint);
+  }
+
+  if (existing.fingerprint !== fingerprint) {
+    return { status: 'conflict' };
+  }
+
+  if (existing.statusCode === null) {
+    return { status: 'in_progress' };
+  }
+
+  return {
+    status: 'replay',
+    statusCode: existing.statusCode,
+    body: existing.responseBody,
+  };
+};
+
+export const saveIdempotentResponse = async (
+  id: number,
+  statusCode: number,
+  body: unknown,
+) => {
+  await prisma.idempotencyKey.update({
+    where: { id },
+    data: {
+      statusCode,
+      responseBody:
+        body === undefined || body === null
+          ? Prisma.JsonNull
+          : (JSON.parse(JSON.stringify(body)) as Prisma.InputJsonValue),
+    },
+  });
+};
+
+// Frees the key so the client can retry after a server side failure
+export const releaseIdempotencyKey = async (id: number) => {
+  await prisma.idempotencyKey.deleteMany({ where: { id } });
+};
+
+export const deleteExpiredIdempotencyKeys = async () => {
+  const cutoff = new Date(
+    Date.now() - IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000,
+  );
+
+  const { count } = await prisma.idempotencyKey.deleteMany({
+    where: { createdAt: { lt: cutoff } },
+  });
+
+  return count;
+};
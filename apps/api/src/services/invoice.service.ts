@@ -0,0 +1,138 @@
+import PDFDocument from 'pdfkit';
+import { Prisma } from '@prisma/client';
+import { calculateItemsTotal } from '@/utils/voucher.utils';
+
+export const invoiceOrderInclude = {
+  items: { include: { product: true } },
+  voucher: true,
+  warehouse: { include: { city: true, province: true } },
+  address: { include: { city: true, province: true } },
+  cart: { include: { user: true } },
+} satisfies Prisma.OrderInclude;
+
+type InvoiceOrder = Prisma.OrderGetPayload<{
+  include: typeof invoiceOrderInclude;
+}>;
+
+const formatRupiah = (value: number) =>
+  `Rp ${Math.round(value).toLocaleString('id-ID')}`;
+
+const COLUMNS = { product: 50, quantity: 300, price: 360, subtotal: 460 };
+
+// Renders the invoice in memory, it is small enough to send in one response
+export const renderInvoicePdf = (order: InvoiceOrder) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50 });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const { warehouse, address } = order;
+    const items = order.items.filter((item) => item.quantity > 0);
+    const itemsTotal = calculateItemsTotal(items);
+    // Whatever the items and shipping do not explain was taken off by the voucher
+    const discount = Math.max(itemsTotal + order.shippingCost - order.total, 0);
+
+    doc.fontSize(20).font('Helvetica-Bold').text('INVOICE', { align: 'right' });
+    doc
+      .fontSize(10)
+      .font('Helvetica')
+      .text(order.name, { align: 'right' })
+      .text(`Date: ${order.createdAt.toLocaleDateString('id-ID')}`, {
+        align: 'right',
+      })
+      .text(`Payment status: ${order.paymentStatus}`, { align: 'right' })
+      .text(`Payment method: ${order.paymentMethod}`, { align: 'right' });
+
+    const partiesTop = 150;
+    doc
+      .font('Helvetica-Bold')
+      .text('From', 50, partiesTop)
+      .font('Helvetica')
+      .text(warehouse.name, 50, partiesTop + 15, { width: 230 })
+      .text(warehouse.address, { width: 230 })
+      .text(
+        `${warehouse.city.name}, ${warehouse.province.name} ${warehouse.postalCode}`,
+        { width: 230 },
+      );
+    doc
+      .font('Helvetica-Bold')
+      .text('Bill to', 320, partiesTop)
+      .font('Helvetica');
+    if (address) {
+      doc
+        .text(address.name, 320, partiesTop + 15, { width: 230 })
+        .text(order.cart.user.email, { width: 230 })
+        .text(address.address, { width: 230 })
+        .text(
+          `${address.city.name}, ${address.province.name} ${address.postalCode}`,
+          { width: 230 },
+        );
+    } else {
+      // Pickup orders have no shipping address
+      doc
+        .text(order.cart.user.email, 320, partiesTop + 15, { width: 230 })
+        .text(`Store pickup at ${warehouse.name}`, { width: 230 });
+    }
+
+    let y = 280;
+    doc
+      .font('Helvetica-Bold')
+      .text('Product', COLUMNS.product, y)
+      .text('Qty', COLUMNS.quantity, y)
+      .text('Price', COLUMNS.price, y)
+      .text('Subtotal', COLUMNS.subtotal, y);
+    y += 20;
+    doc
+      .moveTo(50, y - 5)
+      .lineTo(545, y - 5)
+      .stroke();
+
+    doc.font('Helvetica');
+    for (const item of items) {
+      if (y > 740) {
+        doc.addPage();
+        y = 50;
+      }
+      doc
+        .text(item.product.name, COLUMNS.product, y, { width: 240 })
+        .text(String(item.quantity), COLUMNS.quantity, y)
+        .text(formatRupiah(item.price), COLUMNS.price, y)
+        .text(formatRupiah(item.total), COLUMNS.subtotal, y);
+      y = Math.max(doc.y, y + 15) + 5;
+    }
+
+    const summary: [string, string][] = [
+      ['Subtotal', formatRupiah(itemsTotal)],
+      ['Shipping', formatRupiah(order.shippingCost)],
+    ];
+    if (discount > 0) {
+      summary.push([
+        order.voucher ? `Voucher (${order.voucher.code})` : 'Discount',
+        `- ${formatRupiah(discount)}`,
+      ]);
+    }
+    summary.push(['Total', formatRupiah(order.total)]);
+    if (order.walletAmount > 0) {
+      summary.push(
+        ['Store credit', `- ${formatRupiah(order.walletAmount)}`],
+        [
+          'Amount due',
+          formatRupiah(Math.max(order.total - order.walletAmount, 0)),
+        ],
+      );
+    }
+
+    doc.moveTo(50, y).lineTo(545, y).stroke();
+    y += 10;
+    for (const [label, value] of summary) {
+      doc
+        .font(label === 'Total' ? 'Helvetica-Bold' : 'Helvetica')
+        .text(label, COLUMNS.price, y)
+        .text(value, COLUMNS.subtotal, y);
+      y += 15;
+    }
+
+    doc.end();
+  });
@@ -1,45 +1,145 @@
 import prisma from '@/prisma';
 import { CheckoutBody } from '@/types/order.type';
-import { findNearestWarehouse } from './warehouse.service';
+import {
+  assertExpectedTotal,
+  buildCheckoutSummary,
+  CheckoutError,
+  resolveSubstitutionPreferences,
+} from './checkout.service';
 import { createNewCart } from './cart.services';
 import {
   PaymentStatus,
+  PaymentProofRejectionReason,
+  PaymentProofStatus,
+  CancellationReason,
   CancellationSource,
+  FulfillmentMethod,
+  OrderStatusSource,
   TransactionType,
-  TransferStatus,
+  Prisma,
   Role,
+  ShipmentStatus,
+  WalletEntryType,
 } from '@prisma/client';
-import { calculateDistance } from '@/utils/distance.utils';
+import { isCashOnDelivery, transitionOrderStatus } from './orderStatus.service';
+import { planShipments } from './shipment.service';
+import { generateOrderNumber, generatePickupCode } from './orderNumber.service';
+import { bookDeliverySlot } from './deliverySlot.service';
+import { invoiceOrderInclude, renderInvoicePdf } from './invoice.service';
+import {
+  commitOrderReservations,
+  extendOrderReservations,
+  getAvailableStockAt,
+  lockProductStocks,
+  releaseOrderReservations,
+  releaseReservedQuantity,
+  reserveOrderStock,
+  restockOrderQuantity,
+} from './stock.service';
 import {
+  calculateItemsTotal,
+  calculateVoucherDiscount,
+  getVoucherIneligibility,
+} from '@/utils/voucher.utils';
+import {
+  validateAdminCancelBody,
+  validateCancelItemsBody,
   validateCheckoutBody,
   validateFile,
   validateOrderId,
+  validateProofRejectionBody,
   validateWarehouseId,
 } from '../validations/order.validation';
+import { PAYMENT_PROOF_GRACE_MINUTES, WEB_URL } from '@/config';
+import { sendMail } from '@/utils/mail.utils';
+import {
+  COD_PAYMENT_METHOD,
+  GATEWAY_PAYMENT_METHOD,
+  STORE_CREDIT_PAYMENT_METHOD,
+} from '@/types/payment.type';
+import { getSetting } from './setting.service';
+import {
+  INSUFFICIENT_WALLET_BALANCE,
+  recordWalletEntry,
+  refundOrderToWallet,
+} from './wallet.service';
+
+export const CANCEL_THROUGH_ADMIN_CANCELLATION =
+  'Orders are canceled through the cancel order action';
+export const SHIP_THROUGH_SHIPMENTS =
+  'Orders are shipped parcel by parcel through the ship parcel action';
+export const PICKUP_THROUGH_PICKUP_ACTIONS =
+  'Pickup orders move through the ready for pickup and handover actions';
 
 export const updateStatusOrderResolver = async (
   orderId: string, // Ubah tipe data menjadi string
   status: PaymentStatus,
+  actorId: number,
 ) => {
   const validatedOrderId = validateOrderId.parse(parseInt(orderId, 10));
-  const shippedAtLimit = new Date(Date.now() + 2 * 60 * 1000);
-  const order = await prisma.order.findFirst({
-    where: {
-      id: validatedOrderId,
-    },
-  });
 
-  if (!order) {
-    throw new Error('Order not found');
+  // Cancellations need a reason, a refund and a customer email, which only
+  // cancelOrderByAdmin takes care of
+  if (status === PaymentStatus.CANCELED) {
+    throw new Error(CANCEL_THROUGH_ADMIN_CANCELLATION);
   }
 
-  return await prisma.order.update({
-    where: {
-      id: validatedOrderId,
-    },
-    data: {
-      paymentStatus: status,
-    },
+  // Every parcel needs its courier and waybill, which only shipShipment checks
+  if (status === PaymentStatus.SHIPPED) {
+    throw new Error(SHIP_THROUGH_SHIPMENTS);
+  }
+
+  // The customer email and the pickup code check live in the pickup service
+  if (status === PaymentStatus.READY_FOR_PICKUP) {
+    throw new Error(PICKUP_THROUGH_PICKUP_ACTIONS);
+  }
+
+  return await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { id: validatedOrderId },
+    });
+
+    // Orders waiting at the counter are only handed over with their code
+    if (order?.paymentStatus === PaymentStatus.READY_FOR_PICKUP) {
+      throw new Error(PICKUP_THROUGH_PICKUP_ACTIONS);
+    }
+
+    const updatedOrder = await transitionOrderStatus(tx, {
+      orderId: validatedOrderId,
+      status,
+      source: OrderStatusSource.ADMIN,
+      actorId,
+    });
+
+    // A proof waiting for review is decided by the status the admin picked
+    if (status === PaymentStatus.PAID || status === PaymentStatus.FAILED) {
+      await tx.paymentProof.updateMany({
+        where: {
+          orderId: validatedOrderId,
+          status: PaymentProofStatus.PENDING,
+        },
+        data: {
+          status:
+            status === PaymentStatus.PAID
+              ? PaymentProofStatus.ACCEPTED
+              : PaymentProofStatus.REJECTED,
+          reviewerId: actorId,
+          reviewedAt: new Date(),
+        },
+      });
+    }
+
+    if (status === PaymentStatus.PAID) {
+      await commitOrderReservations(tx, validatedOrderId);
+    } else if (status === PaymentStatus.FAILED) {
+      await releaseOrderReservations(tx, validatedOrderId);
+      await refundOrderToWallet(tx, validatedOrderId, order!.paymentStatus, {
+        actorId,
+        reason: `Order ${status.toLowerCase()} by admin`,
+      });
+    }
+
+    return updatedOrder;
   });
 };
 
@@ -68,15 +168,19 @@ export const getOrderListByRole = async (
     };
   }
 
-  // Order number filter
-  if (orderNumber) {
-    filters.id = parseInt(orderNumber, 10);
+  // Order number filter, matches HM order numbers and plain order IDs
+  const orderQuery = orderNumber?.trim();
+  if (orderQuery) {
+    filters.OR = [
+      { name: { contains: orderQuery } },
+      ...(/^\d+$/.test(orderQuery) ? [{ id: parseInt(orderQuery, 10) }] : []),
+    ];
   }
 
   if (role === Role.SUPER_ADMIN) {
     // Super Admin can see all orders and filter by warehouse
     if (warehouseId) {
-      filters.warehouseId = warehouseId;
+      filters.shipments = { some: { warehouseId } };
     }
   } else if (role === Role.ADMIN) {
     // Admin can only see orders for their assigned warehouse
@@ -87,7 +191,8 @@ export const getOrderListByRole = async (
     if (!admin || !admin.warehouse) {
       throw new Error('Admin is not assigned to a warehouse');
     }
-    filters.warehouseId = admin.warehouse.id;
+    // Split orders are listed for every warehouse sending one of the parcels
+    filters.shipments = { some: { warehouseId: admin.warehouse.id } };
   } else if (role === Role.USER) {
     // Regular users can only see their own orders
     filters.cart = { userId: userId };
@@ -95,7 +200,12 @@ export const getOrderListByRole = async (
     throw new Error('Invalid role');
   }
 
-  const validSortFields = ['createdAt', 'total', 'paymentStatus'];
+  const validSortFields = [
+    'createdAt',
+    'total',
+    'paymentStatus',
+    'deliveryDate',
+  ];
   const sortField = validSortFields.includes(sortBy) ? sortBy : 'createdAt';
 
   const totalCount = await prisma.order.count({
@@ -108,12 +218,34 @@ export const getOrderListByRole = async (
       items: {
         include: {
           product: true,
+          originalProduct: true,
+          preferredSubstitute: true,
         },
       },
       warehouse: true,
       cart: true,
       address: true,
       voucher: true,
+      deliverySlot: true,
+      paymentProofs: {
+        include: { reviewer: { select: { id: true, username: true } } },
+        orderBy: { createdAt: 'desc' },
+      },
+      shipments: {
+        include: {
+          warehouse: true,
+          items: {
+            include: {
+              orderItem: {
+                include: {
+                  product: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: { id: 'asc' },
+      },
     },
     orderBy: {
       [sortField]: sortOrder,
@@ -151,57 +283,194 @@ export const getOrderDetailById = async (userId: number, orderId: number) => {
       items: {
         include: {
           product: true,
+          originalProduct: true,
+          preferredSubstitute: true,
         },
       },
       warehouse: true,
       cart: true,
       address: true,
       voucher: true,
+      deliverySlot: true,
+      paymentProofs: {
+        include: { reviewer: { select: { id: true, username: true } } },
+        orderBy: { createdAt: 'desc' },
+      },
+      statusHistory: {
+        orderBy: { createdAt: 'asc' },
+      },
+      returnRequests: {
+        include: {
+          items: {
+            include: {
+              orderItem: {
+                include: {
+                  product: true,
+                },
+              },
+            },
+          },
+          photos: true,
+        },
+        orderBy: { createdAt: 'desc' },
+      },
+      shipments: {
+        include: {
+          warehouse: true,
+          items: {
+            include: {
+              orderItem: {
+                include: {
+                  product: true,
+                },
+              },
+            },
+          },
+          events: { orderBy: { occurredAt: 'asc' } },
+        },
+        orderBy: { id: 'asc' },
+      },
     },
   });
 };
 
-export const handleCheckout = async (id: number, body: CheckoutBody) => {
+// Cash on delivery is never paid upfront, its stock stays held until shipping.
+// The other methods hold it for the window configured for them.
+const getPaymentDeadline = async (paymentMethod: string) => {
+  if (isCashOnDelivery(paymentMethod)) {
+    const days = await getSetting('codReservationDays');
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+
+  const minutes = await getSetting(
+    paymentMethod === GATEWAY_PAYMENT_METHOD
+      ? 'gatewayPaymentMinutes'
+      : 'bankTransferPaymentMinutes',
+  );
+  return new Date(Date.now() + minutes * 60 * 1000);
+};
+
+// Subscription runs pass their own deadline, the customer pays from an email
+export const handleCheckout = async (
+  id: number,
+  body: CheckoutBody,
+  paymentDeadline?: Date,
+) => {
+  const validatedBody = validateCheckoutBody.parse(body);
+  const summary = await buildCheckoutSummary(id, validatedBody);
+  assertExpectedTotal(summary, validatedBody.expectedTotal);
+
   const {
-    name,
-    paymentStatus,
     shippingCost,
     total,
-    paymentMethod,
     warehouseId,
     cartId,
+    fulfillmentMethod,
     addressId,
-    orderItems,
-    latitude,
-    longitude,
     voucherId,
-    userId,
-  } = body;
-
-  const expirePayment = new Date(Date.now() + 2 * 60 * 1000); // in 2 minutes
-
-  const warehouse = await findNearestWarehouse({ latitude, longitude });
-  if (!warehouse) {
-    throw new Error('No warehouse found');
+    items: orderItems,
+    shipments,
+  } = summary;
+  const substitutionPreferences = await resolveSubstitutionPreferences(
+    orderItems,
+    validatedBody.substitutions,
+  );
+
+  // Store credit pays part or all of the order and is taken when it is placed
+  const walletAmount = Math.min(validatedBody.walletAmount ?? 0, total);
+  const paidWithStoreCredit = total > 0 && walletAmount >= total;
+  if (
+    validatedBody.paymentMethod === STORE_CREDIT_PAYMENT_METHOD &&
+    !paidWithStoreCredit
+  ) {
+    throw new CheckoutError(
+      'INVALID_WALLET_AMOUNT',
+      'Your store credit does not cover the order total',
+    );
+  }
+  if (walletAmount > 0) {
+    const user = await prisma.user.findUnique({ where: { id } });
+    if (!user || user.walletBalance < walletAmount) {
+      throw new CheckoutError(
+        'INVALID_WALLET_AMOUNT',
+        INSUFFICIENT_WALLET_BALANCE,
+        {
+          balance: user?.walletBalance ?? 0,
+        },
+      );
+    }
   }
 
+  const expirePayment =
+    paymentDeadline && !isCashOnDelivery(validatedBody.paymentMethod)
+      ? paymentDeadline
+      : await getPaymentDeadline(validatedBody.paymentMethod);
+
   return prisma.$transaction(async (tx) => {
+    await lockProductStocks(
+      tx,
+      shipments.flatMap((shipment) =>
+        shipment.items.map((item) => ({
+          productId: item.productId,
+          warehouseId: shipment.warehouseId,
+        })),
+      ),
+    );
+
+    const deliveryDate = validatedBody.deliverySlotId
+      ? await bookDeliverySlot(
+          tx,
+          warehouseId,
+          validatedBody.deliverySlotId,
+          validatedBody.deliveryDate!,
+        )
+      : null;
+
     const cart = await tx.cart.findUnique({
       where: { id: cartId },
     });
 
     if (!cart || !cart.isActive) {
-      throw new Error('Invalid or inactive cart');
+      throw new CheckoutError('INVALID_CART', 'Invalid or inactive cart');
+    }
+
+    for (const shipment of shipments) {
+      for (const item of shipment.items) {
+        const availableStock = await getAvailableStockAt(
+          tx,
+          item.productId,
+          shipment.warehouseId,
+        );
+
+        if (availableStock < item.quantity) {
+          throw new CheckoutError(
+            'INSUFFICIENT_STOCK',
+            'Some items in your cart are out of stock',
+            { productId: item.productId, availableStock },
+          );
+        }
+      }
     }
 
     const order = await tx.order.create({
       data: {
-        name,
-        paymentStatus,
+        name: await generateOrderNumber(tx, warehouseId),
+        paymentStatus: PaymentStatus.PENDING,
         shippingCost,
         total,
-        paymentMethod,
+        paymentMethod: paidWithStoreCredit
+          ? STORE_CREDIT_PAYMENT_METHOD
+          : validatedBody.paymentMethod,
+        walletAmount,
         expirePayment,
+        deliverySlotId: validatedBody.deliverySlotId,
+        deliveryDate,
+        fulfillmentMethod,
+        // Shown to the customer once the order is ready at the counter
+        pickupCode:
+          fulfillmentMethod === FulfillmentMethod.PICKUP
+            ? generatePickupCode()
+            : null,
         warehouseId,
         addressId,
         voucherId,
@@ -212,9 +481,18 @@ export const handleCheckout = async (id: number, body: CheckoutBody) => {
             price: item.price,
             total: item.total,
             productId: item.productId,
+            ...substitutionPreferences.get(item.productId),
           })),
         },
       },
+      include: { items: true },
+    });
+
+    await recordWalletEntry(tx, {
+      userId: id,
+      amount: -walletAmount,
+      type: WalletEntryType.CHECKOUT,
+      orderId: order.id,
     });
 
     // Soft delete the old cart
@@ -233,44 +511,31 @@ export const handleCheckout = async (id: number, body: CheckoutBody) => {
     //   })),
     // });
 
-    for (const item of orderItems) {
-      await tx.productStock.updateMany({
-        where: {
-          productId: item.productId,
-          warehouseId,
-        },
+    for (const shipment of shipments) {
+      await tx.shipment.create({
         data: {
-          stock: {
-            decrement: item.quantity,
+          orderId: order.id,
+          warehouseId: shipment.warehouseId,
+          shippingCost: shipment.shippingCost,
+          items: {
+            create: shipment.items.map((item) => ({
+              quantity: item.quantity,
+              orderItemId: order.items.find(
+                (orderItem) => orderItem.productId === item.productId,
+              )!.id,
+            })),
           },
         },
       });
 
-      const productInfo = await tx.product.findUnique({
-        where: {
-          id: item.productId,
-        },
-        select: { name: true },
-      });
-
-      const productStock = await tx.productStock.findFirst({
-        where: {
-          productId: item.productId,
-          warehouseId,
-        },
-      });
-
-      if (productStock) {
-        await tx.stockTransferLog.create({
-          data: {
-            quantity: item.quantity,
-            transactionType: 'OUT',
-            description: `Stock OUT ${productInfo?.name} from warehouse for ORDER, qty: ${item.quantity}`,
-            productStockId: productStock.id,
-            warehouseId,
-          },
-        });
-      }
+      // Stock is only held until the payment deadline, it is taken OUT on payment
+      await reserveOrderStock(
+        tx,
+        order.id,
+        shipment.warehouseId,
+        shipment.items,
+        expirePayment,
+      );
     }
 
     await tx.transactionHistory.create({
@@ -282,19 +547,33 @@ export const handleCheckout = async (id: number, body: CheckoutBody) => {
       },
     });
 
+    if (paidWithStoreCredit) {
+      const paidOrder = await markOrderPaid(tx, order.id, {
+        source: OrderStatusSource.SYSTEM,
+        reason: 'Paid with store credit',
+      });
+      return { ...order, ...paidOrder };
+    }
+
     return order;
   });
 };
 
 export const cancelExpiredOrders = async () => {
-  const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+  const expiredOrderMinutes = await getSetting('expiredOrderMinutes');
+  const createdBefore = new Date(Date.now() - expiredOrderMinutes * 60 * 1000);
   return await prisma.$transaction(async (tx) => {
     const expiredOrders = await tx.order.findMany({
       where: {
         paymentStatus: PaymentStatus.PENDING,
         paymentProof: null,
+        paymentMethod: { not: COD_PAYMENT_METHOD },
         createdAt: {
-          lt: oneHourAgo,
+          lt: createdBefore,
+        },
+        // Orders whose proof was rejected keep their grace period
+        expirePayment: {
+          lt: new Date(),
         },
       },
       include: {
@@ -310,47 +589,20 @@ export const cancelExpiredOrders = async () => {
     const cancelOrderPromises = expiredOrders.map(async (order) => {
       try {
         // Update order status to CANCELED
-        await tx.order.update({
-          where: { id: order.id },
-          data: {
-            paymentStatus: PaymentStatus.CANCELED,
-            cancellationSource: CancellationSource.SYSTEM,
-          },
+        await transitionOrderStatus(tx, {
+          orderId: order.id,
+          status: PaymentStatus.CANCELED,
+          source: OrderStatusSource.SYSTEM,
+          reason: 'Payment expired',
+          data: { cancellationSource: CancellationSource.SYSTEM },
         });
 
-        // Return stock to warehouse and create stock transfer logs
-        const updateStockPromises = order.items.map(async (item) => {
-          const productStock = await tx.productStock.update({
-            where: {
-              productId_warehouseId: {
-                productId: item.productId,
-                warehouseId: order.warehouseId,
-              },
-            },
-            data: {
-              stock: { increment: item.quantity },
-            },
-          });
-
-          const productInfo = await tx.product.findUnique({
-            where: { id: item.productId },
-            select: { name: true },
-          });
-
-          return tx.stockTransferLog.create({
-            data: {
-              quantity: item.quantity,
-              transactionType: TransactionType.IN,
-              description: `Stock IN ${productInfo?.name} to ${order.warehouseId} warehouse for CANCELED ORDER, qty: ${item.quantity}`,
-              productStockId: productStock.id,
-              warehouseId: order.warehouseId,
-            },
-          });
+        // Unpaid orders never took stock OUT, only their reservations are dropped
+        await releaseOrderReservations(tx, order.id);
+        await refundOrderToWallet(tx, order.id, order.paymentStatus, {
+          reason: 'Payment expired',
         });
 
-        // Wait for all stock updates to complete
-        await Promise.all(updateStockPromises);
-
         // Create transaction history entry for refund
         await tx.transactionHistory.create({
           data: {
@@ -378,6 +630,68 @@ export const cancelExpiredOrders = async () => {
   });
 };
 
+// Cash on delivery orders that did not leave within the hold window are
+// canceled, so the stock they hold goes back on sale
+export const cancelStaleCodOrders = async () => {
+  const staleOrders = await prisma.order.findMany({
+    where: {
+      paymentStatus: PaymentStatus.PENDING,
+      paymentMethod: COD_PAYMENT_METHOD,
+      expirePayment: { lt: new Date() },
+      // Partly shipped orders are already on their way to the customer
+      shipments: {
+        none: {
+          status: { in: [ShipmentStatus.SHIPPED, ShipmentStatus.DELIVERED] },
+        },
+      },
+    },
+    include: { cart: { include: { user: true } } },
+  });
+
+  let canceledCount = 0;
+  for (const order of staleOrders) {
+    const reason = 'Not shipped within the cash on delivery hold';
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        await transitionOrderStatus(tx, {
+          orderId: order.id,
+          status: PaymentStatus.CANCELED,
+          source: OrderStatusSource.SYSTEM,
+          reason,
+          data: {
+            cancellationSource: CancellationSource.SYSTEM,
+            cancellationNote: reason,
+          },
+        });
+
+        // Nothing was paid, only the store credit applied goes back
+        await releaseOrderReservations(tx, order.id);
+        await refundOrderToWallet(tx, order.id, order.paymentStatus, {
+          reason,
+        });
+      });
+    } catch (error) {
+      console.error(`Failed to cancel stale COD order ${order.id}:`, error);
+      continue;
+    }
+
+    canceledCount++;
+    const url = `${WEB_URL}/order/${order.id}`;
+    await sendMail(
+      order.cart.user.email,
+      `Your order ${order.name} was canceled`,
+      `Your cash on delivery order could not be shipped in time, so we canceled it.` +
+        (order.walletAmount > 0
+          ? ' The store credit you applied was returned to your balance.'
+          : '') +
+        ` See the details of your order: <a href="${url}">${url}</a>`,
+    );
+  }
+
+  return canceledCount;
+};
+
 export const confirmOrder = async (userId: number, orderId: number) => {
   return await prisma.$transaction(async (tx) => {
     const order = await tx.order.findFirst({
@@ -387,6 +701,8 @@ export const confirmOrder = async (userId: number, orderId: number) => {
           userId: userId,
         },
         paymentStatus: PaymentStatus.SHIPPED,
+        // Cash on delivery is completed by the admin once the cash is collected
+        paymentMethod: { not: COD_PAYMENT_METHOD },
       },
     });
 
@@ -394,11 +710,11 @@ export const confirmOrder = async (userId: number, orderId: number) => {
       throw new Error('Order not found or cannot be confirmed');
     }
 
-    const updatedOrder = await tx.order.update({
-      where: { id: orderId },
-      data: {
-        paymentStatus: PaymentStatus.DELIVERED,
-      },
+    const updatedOrder = await transitionOrderStatus(tx, {
+      orderId,
+      status: PaymentStatus.DELIVERED,
+      source: OrderStatusSource.USER,
+      actorId: userId,
     });
 
     return updatedOrder;
@@ -424,25 +740,95 @@ export const confirmPayment = async (userId: number, orderId: number) => {
       throw new Error('Order not found or cannot confirm payment');
     }
 
-    const updatedOrder = await tx.order.update({
-      where: { id: orderId },
-      data: {
-        paymentStatus: PaymentStatus.PAID,
-      },
+    return await markOrderPaid(tx, orderId, {
+      source: OrderStatusSource.USER,
+      actorId: userId,
     });
+  });
+};
 
-    // Create a transaction history entry
-    await tx.transactionHistory.create({
-      data: {
-        userId: userId,
-        orderId: orderId,
-        amount: order.total,
-        type: TransactionType.PURCHASE,
-      },
-    });
+type PaymentOutcomeOptions = {
+  source: OrderStatusSource;
+  actorId?: number;
+  reason?: string;
+};
 
-    return updatedOrder;
+// Payment received: the reserved stock is taken OUT for good
+export const markOrderPaid = async (
+  tx: Prisma.TransactionClient,
+  orderId: number,
+  { source, actorId, reason }: PaymentOutcomeOptions,
+) => {
+  const updatedOrder = await transitionOrderStatus(tx, {
+    orderId,
+    status: PaymentStatus.PAID,
+    source,
+    actorId,
+    reason,
+  });
+
+  await commitOrderReservations(tx, orderId);
+
+  // Create a transaction history entry
+  const cart = await tx.cart.findUniqueOrThrow({
+    where: { id: updatedOrder.cartId },
+  });
+  await tx.transactionHistory.create({
+    data: {
+      userId: cart.userId,
+      orderId: orderId,
+      amount: updatedOrder.total,
+      type: TransactionType.PURCHASE,
+    },
+  });
+
+  return updatedOrder;
+};
+
+// Payment declined or expired at the gateway: the held stock goes back on sale
+export const markOrderFailed = async (
+  tx: Prisma.TransactionClient,
+  orderId: number,
+  { source, actorId, reason }: PaymentOutcomeOptions,
+) => {
+  const updatedOrder = await transitionOrderStatus(tx, {
+    orderId,
+    status: PaymentStatus.FAILED,
+    source,
+    actorId,
+    reason,
   });
+
+  await releaseOrderReservations(tx, orderId);
+  await refundOrderToWallet(tx, orderId, PaymentStatus.PENDING, { reason });
+
+  return updatedOrder;
+};
+
+// Payment received after the stock it held was sold: the order is canceled and
+// the whole amount goes back to the customer's store credit
+export const markOrderUnfulfillable = async (
+  tx: Prisma.TransactionClient,
+  orderId: number,
+  { source, actorId, reason }: PaymentOutcomeOptions,
+) => {
+  const updatedOrder = await transitionOrderStatus(tx, {
+    orderId,
+    status: PaymentStatus.CANCELED,
+    source,
+    actorId,
+    reason,
+    data: {
+      cancellationSource: CancellationSource.SYSTEM,
+      cancellationReason: CancellationReason.OUT_OF_STOCK,
+      cancellationNote: reason,
+    },
+  });
+
+  await releaseOrderReservations(tx, orderId);
+  await refundOrderToWallet(tx, orderId, PaymentStatus.PAID, { reason });
+
+  return updatedOrder;
 };
 
 export const cancelOrder = async (
@@ -451,69 +837,484 @@ export const cancelOrder = async (
   source: CancellationSource,
 ) => {
   return await prisma.$transaction(async (tx) => {
-    const updatedOrder = await tx.order.update({
+    const order = await tx.order.findFirst({
       where: {
         id: orderId,
+        cart: {
+          userId: userId,
+        },
         paymentStatus: PaymentStatus.PENDING,
         paymentProof: null,
-      },
-      data: {
-        paymentStatus: PaymentStatus.CANCELED,
-        cancellationSource: source,
+        // A cash on delivery parcel may already be on its way while unpaid
+        shipments: { none: { status: ShipmentStatus.SHIPPED } },
       },
       include: {
         items: true,
       },
     });
 
-    if (!updatedOrder) {
+    if (!order) {
       throw new Error('Order not found OR cannot be cancelled');
     }
 
+    const updatedOrder = await transitionOrderStatus(tx, {
+      orderId,
+      status: PaymentStatus.CANCELED,
+      source: OrderStatusSource[source],
+      actorId: userId,
+      data: { cancellationSource: source },
+    });
+
     await createNewCart(userId);
 
-    for (const item of updatedOrder.items) {
-      const productStock = await tx.productStock.update({
-        where: {
-          productId_warehouseId: {
-            productId: item.productId,
-            warehouseId: updatedOrder.warehouseId,
-          },
-        },
-        data: {
-          stock: { increment: item.quantity },
+    await releaseOrderReservations(tx, order.id);
+    await refundOrderToWallet(tx, order.id, order.paymentStatus, {
+      actorId: userId,
+      reason: 'Order canceled',
+    });
+
+    await tx.transactionHistory.create({
+      data: {
+        userId: userId,
+        orderId: updatedOrder.id,
+        amount: updatedOrder.total,
+        type: TransactionType.REFUND,
+      },
+    });
+
+    // // Create a new cart for the user
+    // await createNewCart(userId);
+
+    return updatedOrder;
+  });
+};
+
+export type OrderActor = { userId: number; role: Role };
+
+// Warehouse admins may only act on orders their warehouse sends parcels from
+export const assertAdminCanManageOrder = async (
+  tx: Prisma.TransactionClient,
+  order: { warehouseId: number; shipments: { warehouseId: number }[] },
+  user: OrderActor,
+) => {
+  if (user.role !== Role.ADMIN) {
+    return;
+  }
+
+  const warehouse = await tx.warehouse.findUnique({
+    where: { userId: user.userId },
+  });
+  if (
+    !warehouse ||
+    (order.warehouseId !== warehouse.id &&
+      !order.shipments.some(
+        (shipment) => shipment.warehouseId === warehouse.id,
+      ))
+  ) {
+    throw new Error('Order not found');
+  }
+};
+
+export const ADMIN_CANCELLATION_ERRORS = [
+  'Order can no longer be canceled',
+  'Orders with shipped parcels cannot be canceled',
+];
+
+export const CANCELLATION_REASON_LABELS: Record<CancellationReason, string> = {
+  OUT_OF_STOCK: 'some items are out of stock',
+  SUSPECTED_FRAUD: 'the order could not be verified',
+  ADDRESS_UNREACHABLE: 'the delivery address cannot be reached',
+  CUSTOMER_REQUEST: 'you asked us to cancel it',
+};
+
+// Cancels a whole order before anything left the warehouse. Paid orders get
+// their stock back and the amount refunded to the customer's store credit.
+export const cancelOrderByAdmin = async (
+  orderId: number,
+  user: OrderActor,
+  body: unknown,
+) => {
+  const { reason, note } = validateAdminCancelBody.parse(body);
+  const [notCancelable, alreadyShipped] = ADMIN_CANCELLATION_ERRORS;
+
+  const { order, updatedOrder } = await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: {
+        cart: { include: { user: true } },
+        shipments: {
+          include: { items: { include: { orderItem: true } } },
         },
-      });
+      },
+    });
 
-      const productInfo = await tx.product.findUnique({
-        where: { id: item.productId },
-        select: { name: true },
-      });
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    await assertAdminCanManageOrder(tx, order, user);
+
+    if (
+      order.paymentStatus !== PaymentStatus.PENDING &&
+      order.paymentStatus !== PaymentStatus.PAID
+    ) {
+      throw new Error(notCancelable);
+    }
+
+    if (
+      order.shipments.some(
+        (shipment) =>
+          shipment.status !== ShipmentStatus.PENDING &&
+          shipment.status !== ShipmentStatus.CANCELED,
+      )
+    ) {
+      throw new Error(alreadyShipped);
+    }
+
+    const isPaid = order.paymentStatus === PaymentStatus.PAID;
+    const updatedOrder = await transitionOrderStatus(tx, {
+      orderId,
+      status: PaymentStatus.CANCELED,
+      source: OrderStatusSource.ADMIN,
+      actorId: user.userId,
+      reason: note
+        ? `${CANCELLATION_REASON_LABELS[reason]}: ${note}`
+        : CANCELLATION_REASON_LABELS[reason],
+      data: {
+        cancellationSource: CancellationSource.ADMIN,
+        cancellationReason: reason,
+        cancellationNote: note,
+      },
+    });
+
+    await tx.paymentProof.updateMany({
+      where: { orderId, status: PaymentProofStatus.PENDING },
+      data: {
+        status: PaymentProofStatus.REJECTED,
+        reviewerId: user.userId,
+        reviewedAt: new Date(),
+      },
+    });
 
-      await tx.stockTransferLog.create({
+    // Paid orders already took their stock out, unpaid ones only held it
+    if (isPaid) {
+      for (const shipment of order.shipments) {
+        if (shipment.status !== ShipmentStatus.PENDING) continue;
+        for (const item of shipment.items) {
+          await restockOrderQuantity(
+            tx,
+            item.orderItem.productId,
+            shipment.warehouseId,
+            item.quantity,
+            'admin cancellation',
+          );
+        }
+      }
+
+      await tx.transactionHistory.create({
         data: {
-          quantity: item.quantity,
-          transactionType: TransactionType.IN,
-          description: `Stock IN ${productInfo?.name} to warehouse ${updatedOrder.warehouseId} due to order cancellation, qty: ${item.quantity}`,
-          productStockId: productStock.id,
-          warehouseId: updatedOrder.warehouseId,
+          userId: order.cart.userId,
+          orderId,
+          amount: order.total,
+          type: TransactionType.REFUND,
         },
       });
+    } else {
+      await releaseOrderReservations(tx, orderId);
     }
 
+    await refundOrderToWallet(tx, orderId, order.paymentStatus, {
+      actorId: user.userId,
+      reason: 'Order canceled by admin',
+    });
+
+    return { order, updatedOrder };
+  });
+
+  const url = `${WEB_URL}/order/${order.id}`;
+  await sendMail(
+    order.cart.user.email,
+    `Your order ${order.name} was canceled`,
+    `We had to cancel your order because ${CANCELLATION_REASON_LABELS[reason]}.` +
+      (note ? ` Note from our team: ${note}.` : '') +
+      (order.paymentStatus === PaymentStatus.PAID
+        ? ' The amount you paid was refunded to your store credit.'
+        : order.walletAmount > 0
+          ? ' The store credit you applied was returned to your balance.'
+          : '') +
+      ` See the details of your order: <a href="${url}">${url}</a>`,
+  );
+
+  return updatedOrder;
+};
+
+type RepriceReasons = {
+  cancelReason: string;
+  refundReason: string;
+  entryType: WalletEntryType;
+};
+
+// Settles an order after some of its lines changed: empty parcels and a voucher
+// that no longer applies are dropped and the customer gets the difference back
+export const repriceOrder = async (
+  tx: Prisma.TransactionClient,
+  order: Prisma.OrderGetPayload<{ include: { cart: true; voucher: true } }>,
+  user: OrderActor,
+  { cancelReason, refundReason, entryType }: RepriceReasons,
+) => {
+  // Parcels left without items are dropped along with their shipping cost
+  const emptyShipments = await tx.shipment.findMany({
+    where: {
+      orderId: order.id,
+      status: ShipmentStatus.PENDING,
+      items: { none: {} },
+    },
+  });
+  for (const shipment of emptyShipments) {
+    await tx.shipment.update({
+      where: { id: shipment.id },
+      data: { status: ShipmentStatus.CANCELED },
+    });
+  }
+  const shippingCost = Math.max(
+    order.shippingCost -
+      emptyShipments.reduce((sum, shipment) => sum + shipment.shippingCost, 0),
+    0,
+  );
+
+  const items = (
+    await tx.orderItem.findMany({ where: { orderId: order.id } })
+  ).filter((item) => item.quantity > 0);
+
+  // A voucher whose minimum purchase is no longer met is taken off the order
+  let voucherId = order.voucherId;
+  let discount = 0;
+  if (order.voucher) {
+    if (getVoucherIneligibility(order.voucher, items, { checkExpiry: false })) {
+      voucherId = null;
+    } else {
+      discount = calculateVoucherDiscount(order.voucher, items);
+    }
+  }
+
+  // Losing the voucher never makes the customer owe more than they agreed to
+  const total =
+    items.length === 0
+      ? 0
+      : Math.min(
+          calculateItemsTotal(items) + shippingCost - discount,
+          order.total,
+        );
+  const totalReduction = order.total - total;
+  // Store credit applied at checkout never exceeds what is left to pay for
+  const walletAmount = Math.min(order.walletAmount, total);
+  // Paid orders get the difference back, unpaid ones only the unused credit
+  const wasPaid = order.paymentStatus !== PaymentStatus.PENDING;
+  const refundAmount = wasPaid
+    ? totalReduction
+    : order.walletAmount - walletAmount;
+
+  await tx.order.update({
+    where: { id: order.id },
+    data: { total, shippingCost, voucherId, walletAmount },
+  });
+
+  if (items.length === 0) {
+    await transitionOrderStatus(tx, {
+      orderId: order.id,
+      status: PaymentStatus.CANCELED,
+      source:
+        user.role === Role.USER
+          ? OrderStatusSource.USER
+          : OrderStatusSource.ADMIN,
+      actorId: user.userId,
+      reason: cancelReason,
+      data:
+        user.role === Role.USER
+          ? { cancellationSource: CancellationSource.USER }
+          : undefined,
+    });
+    await releaseOrderReservations(tx, order.id);
+  } else if (
+    order.paymentStatus === PaymentStatus.PENDING &&
+    walletAmount >= total
+  ) {
+    await markOrderPaid(tx, order.id, {
+      source: OrderStatusSource.SYSTEM,
+      reason: 'Paid with store credit',
+    });
+  }
+
+  // Unpaid orders only get a lower total, nothing was paid to give back
+  if (wasPaid && refundAmount > 0) {
     await tx.transactionHistory.create({
       data: {
-        userId: userId,
-        orderId: updatedOrder.id,
-        amount: updatedOrder.total,
+        userId: order.cart.userId,
+        orderId: order.id,
+        amount: refundAmount,
         type: TransactionType.REFUND,
       },
     });
+  }
 
-    // // Create a new cart for the user
-    // await createNewCart(userId);
+  if (refundAmount > 0) {
+    await recordWalletEntry(tx, {
+      userId: order.cart.userId,
+      amount: refundAmount,
+      type: entryType,
+      orderId: order.id,
+      actorId: user.userId,
+      reason: refundReason,
+    });
+  }
 
-    return updatedOrder;
+  return {
+    refundAmount,
+    totalReduction,
+    voucherRemoved: order.voucherId !== null && voucherId === null,
+  };
+};
+
+// Rule violations in a partial cancellation, reported as 400
+export const ORDER_ITEM_CANCELLATION_ERRORS = [
+  'Order items can no longer be canceled',
+  'Item does not belong to this order',
+  'Cancel quantity exceeds the remaining quantity',
+  'Items already shipped cannot be canceled',
+];
+
+// Cancels some units of an order. Customers may do so while the order awaits
+// payment, admins until the parcels holding those units have been shipped.
+export const cancelOrderItems = async (
+  orderId: number,
+  user: OrderActor,
+  body: unknown,
+) => {
+  const { items: lines, reason } = validateCancelItemsBody.parse(body);
+  const [notCancelable, notInOrder, tooMany, alreadyShipped] =
+    ORDER_ITEM_CANCELLATION_ERRORS;
+
+  return await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: {
+        cart: true,
+        voucher: true,
+        shipments: true,
+        items: {
+          include: {
+            shipmentItems: {
+              include: { shipment: true },
+              orderBy: { id: 'desc' },
+            },
+          },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    if (user.role === Role.USER) {
+      if (order.cart.userId !== user.userId) {
+        throw new Error('Order not found');
+      }
+      if (
+        order.paymentStatus !== PaymentStatus.PENDING ||
+        order.paymentProof !== null
+      ) {
+        throw new Error(notCancelable);
+      }
+    } else {
+      if (
+        order.paymentStatus !== PaymentStatus.PENDING &&
+        order.paymentStatus !== PaymentStatus.PAID
+      ) {
+        throw new Error(notCancelable);
+      }
+
+      await assertAdminCanManageOrder(tx, order, user);
+    }
+
+    for (const line of lines) {
+      const orderItem = order.items.find(
+        (item) => item.id === line.orderItemId,
+      );
+      if (!orderItem) {
+        throw new Error(notInOrder);
+      }
+      if (line.quantity > orderItem.quantity) {
+        throw new Error(tooMany);
+      }
+
+      // Units come out of parcels that are still waiting in the warehouse
+      let remaining = line.quantity;
+      for (const shipmentItem of orderItem.shipmentItems) {
+        if (remaining <= 0) break;
+        if (shipmentItem.shipment.status !== ShipmentStatus.PENDING) continue;
+
+        const quantity = Math.min(shipmentItem.quantity, remaining);
+        if (quantity === shipmentItem.quantity) {
+          await tx.shipmentItem.delete({ where: { id: shipmentItem.id } });
+        } else {
+          await tx.shipmentItem.update({
+            where: { id: shipmentItem.id },
+            data: { quantity: { decrement: quantity } },
+          });
+        }
+
+        if (order.paymentStatus === PaymentStatus.PENDING) {
+          await releaseReservedQuantity(
+            tx,
+            order.id,
+            orderItem.productId,
+            shipmentItem.shipment.warehouseId,
+            quantity,
+          );
+        } else {
+          await restockOrderQuantity(
+            tx,
+            orderItem.productId,
+            shipmentItem.shipment.warehouseId,
+            quantity,
+            'order item cancellation',
+          );
+        }
+        remaining -= quantity;
+      }
+
+      if (remaining > 0) {
+        throw new Error(alreadyShipped);
+      }
+
+      await tx.orderItem.update({
+        where: { id: orderItem.id },
+        data: {
+          quantity: { decrement: line.quantity },
+          canceledQuantity: { increment: line.quantity },
+          total: orderItem.price * (orderItem.quantity - line.quantity),
+        },
+      });
+    }
+
+    const { refundAmount, voucherRemoved } = await repriceOrder(
+      tx,
+      order,
+      user,
+      {
+        cancelReason: reason ?? 'All items canceled',
+        refundReason: reason ?? 'Order items canceled',
+        entryType: WalletEntryType.CANCELLATION,
+      },
+    );
+
+    const updatedOrder = await tx.order.findUnique({
+      where: { id: order.id },
+      include: { items: { include: { product: true } }, shipments: true },
+    });
+
+    return { order: updatedOrder, refundAmount, voucherRemoved };
   });
 };
 
@@ -531,6 +1332,14 @@ export const uploadPaymentProof = async (
       cart: {
         userId: userId,
       },
+      paymentStatus: PaymentStatus.PENDING,
+      paymentMethod: { not: COD_PAYMENT_METHOD },
+    },
+    include: {
+      paymentProofs: {
+        where: { status: PaymentProofStatus.REJECTED },
+        take: 1,
+      },
     },
   });
 
@@ -538,164 +1347,263 @@ export const uploadPaymentProof = async (
     throw new Error('Order not found');
   }
 
-  return await prisma.order.update({
-    where: {
-      id: validatedOrderId,
-    },
-    data: {
-      paymentProof: `/assets/payment/${validatedFile.filename}`,
-      paymentStatus: PaymentStatus.PENDING,
-      shippedAt: shippedAtLimit,
-    },
+  if (order.paymentProof) {
+    throw new Error(PAYMENT_PROOF_UNDER_REVIEW);
+  }
+
+  // Re-uploads after a rejection have to arrive within the grace period
+  if (order.paymentProofs.length > 0 && order.expirePayment < new Date()) {
+    throw new Error(PAYMENT_DEADLINE_PASSED);
+  }
+
+  const paymentProof = `/assets/payment/${validatedFile.filename}`;
+
+  return await prisma.$transaction(async (tx) => {
+    await tx.paymentProof.create({
+      data: { url: paymentProof, orderId: validatedOrderId },
+    });
+
+    return await tx.order.update({
+      where: {
+        id: validatedOrderId,
+      },
+      data: {
+        paymentProof,
+        shippedAt: shippedAtLimit,
+      },
+    });
   });
 };
 
-export const checkAndMutateStock = async (
-  warehouseId: number,
-  products: Array<{ productId: number; quantity: number }>,
-  latitude: number,
-  longitude: number,
+export const PAYMENT_PROOF_UNDER_REVIEW =
+  'Payment proof is already under review';
+export const PAYMENT_DEADLINE_PASSED = 'Payment deadline has passed';
+export const NO_PROOF_UNDER_REVIEW = 'Order has no payment proof to review';
+
+const PROOF_REJECTION_LABELS: Record<PaymentProofRejectionReason, string> = {
+  WRONG_AMOUNT: 'the transferred amount does not match the order total',
+  UNREADABLE: 'the proof could not be read',
+  WRONG_ACCOUNT: 'the transfer was made to the wrong account',
+  OTHER: 'it could not be verified',
+};
+
+const findProofUnderReview = async (
+  tx: Prisma.TransactionClient,
+  orderId: number,
+  reviewer: OrderActor,
 ) => {
-  const validatedWarehouseId = validateWarehouseId.parse(warehouseId);
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    include: {
+      shipments: true,
+      cart: { include: { user: true } },
+      paymentProofs: {
+        where: { status: PaymentProofStatus.PENDING },
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+      },
+    },
+  });
 
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  await assertAdminCanManageOrder(tx, order, reviewer);
+
+  const [proof] = order.paymentProofs;
+  if (order.paymentStatus !== PaymentStatus.PENDING || !proof) {
+    throw new Error(NO_PROOF_UNDER_REVIEW);
+  }
+
+  return { order, proof };
+};
+
+export const acceptPaymentProof = async (
+  orderId: number,
+  reviewer: OrderActor,
+) => {
   return await prisma.$transaction(async (tx) => {
-    for (const product of products) {
-      let stockInWarehouse = await tx.productStock.findFirst({
-        where: {
-          productId: product.productId,
-          warehouseId: validatedWarehouseId,
-        },
-        include: {
-          product: true,
-          warehouse: true,
-        },
-      });
+    const { proof } = await findProofUnderReview(tx, orderId, reviewer);
 
-      let remainingQuantity = product.quantity;
-      const availableStock = stockInWarehouse ? stockInWarehouse.stock : 0;
-      const deficitQuantity = remainingQuantity - availableStock;
+    await tx.paymentProof.update({
+      where: { id: proof.id },
+      data: {
+        status: PaymentProofStatus.ACCEPTED,
+        reviewerId: reviewer.userId,
+        reviewedAt: new Date(),
+      },
+    });
 
-      if (deficitQuantity > 0) {
-        const warehousesWithStock = await tx.productStock.findMany({
-          where: {
-            productId: product.productId,
-            stock: { gt: 0 },
-            NOT: { warehouseId: warehouseId },
-          },
-          include: {
-            product: true,
-            warehouse: true,
-          },
-        });
+    return await markOrderPaid(tx, orderId, {
+      source: OrderStatusSource.ADMIN,
+      actorId: reviewer.userId,
+      reason: 'Payment proof accepted',
+    });
+  });
+};
 
-        const sortedWarehouses = warehousesWithStock.sort((a, b) => {
-          const distanceA = calculateDistance(
-            latitude,
-            longitude,
-            a.warehouse.latitude!,
-            a.warehouse.longitude!,
-          );
-          const distanceB = calculateDistance(
-            latitude,
-            longitude,
-            b.warehouse.latitude!,
-            b.warehouse.longitude!,
-          );
-          return distanceA - distanceB;
-        });
+// The order stays open: the customer is told why and may upload a new proof
+// until the extended payment deadline
+export const rejectPaymentProof = async (
+  orderId: number,
+  reviewer: OrderActor,
+  body: unknown,
+) => {
+  const { reason, note } = validateProofRejectionBody.parse(body);
 
-        let currentDeficit = deficitQuantity;
-        for (const warehouseWithStock of sortedWarehouses) {
-          if (currentDeficit <= 0) break;
+  const { order, updatedOrder } = await prisma.$transaction(async (tx) => {
+    const { order, proof } = await findProofUnderReview(tx, orderId, reviewer);
 
-          const transferQuantity = Math.min(
-            warehouseWithStock.stock,
-            currentDeficit,
-          );
+    await tx.paymentProof.update({
+      where: { id: proof.id },
+      data: {
+        status: PaymentProofStatus.REJECTED,
+        rejectionReason: reason,
+        reviewNote: note,
+        reviewerId: reviewer.userId,
+        reviewedAt: new Date(),
+      },
+    });
 
-          const stockTransfer = await tx.stockTransfer.create({
-            data: {
-              stockRequest: transferQuantity,
-              stockProcess: transferQuantity,
-              note: `Stock transfer for order fulfillment`,
-              productId: product.productId,
-              status: TransferStatus.COMPLETED,
-            },
-          });
+    const expirePayment = new Date(
+      Math.max(order.expirePayment.getTime(), Date.now()) +
+        PAYMENT_PROOF_GRACE_MINUTES * 60 * 1000,
+    );
+    await extendOrderReservations(tx, orderId, expirePayment);
 
-          await tx.stockTransferLog.create({
-            data: {
-              quantity: transferQuantity,
-              transactionType: TransactionType.OUT,
-              description: `Stock OUT ${warehouseWithStock.product.name} from ${warehouseWithStock.warehouse.name} to ${stockInWarehouse?.warehouse.name}, qty: ${transferQuantity} for ORDER. (Automatic Transfer)`,
-              productStockId: warehouseWithStock.id,
-              warehouseId: warehouseWithStock.warehouseId,
-            },
-          });
+    const updatedOrder = await tx.order.update({
+      where: { id: orderId },
+      data: { paymentProof: null, expirePayment },
+    });
 
-          await tx.productStock.update({
-            where: { id: warehouseWithStock.id },
-            data: { stock: { decrement: transferQuantity } },
-          });
+    return { order, updatedOrder };
+  });
 
-          if (stockInWarehouse) {
-            await tx.productStock.update({
-              where: { id: stockInWarehouse.id },
-              data: { stock: { increment: transferQuantity } },
-            });
-          } else {
-            stockInWarehouse = await tx.productStock.create({
-              data: {
-                stock: transferQuantity,
-                productId: product.productId,
-                warehouseId: warehouseId,
-              },
-              include: {
-                product: true,
-                warehouse: true,
-              },
-            });
-          }
-
-          await tx.stockTransferLog.create({
-            data: {
-              quantity: transferQuantity,
-              transactionType: TransactionType.IN,
-              description: `Stock IN ${stockInWarehouse.product.name} to ${stockInWarehouse.warehouse.name} from ${warehouseWithStock.warehouse.name}, qty: ${transferQuantity} for ORDER. (Automatic Transfer)`,
-              productStockId: stockInWarehouse.id,
-              warehouseId: warehouseId,
-            },
-          });
+  const url = `${WEB_URL}/order/${order.id}`;
+  await sendMail(
+    order.cart.user.email,
+    `Payment proof for ${order.name} was rejected`,
+    `We could not accept your payment proof because ${PROOF_REJECTION_LABELS[reason]}.` +
+      (note ? ` Note from our team: ${note}.` : '') +
+      ` Please upload a new proof before ${updatedOrder.expirePayment.toLocaleString()}: <a href="${url}">${url}</a>`,
+  );
 
-          currentDeficit -= transferQuantity;
-        }
+  return updatedOrder;
+};
 
-        if (currentDeficit > 0) {
-          throw new Error('Insufficient stock available in nearby warehouses');
-        }
-      }
+export const COD_COLLECTION_ERRORS = [
+  'Order is not paid by cash on delivery',
+  'Order has not been shipped yet',
+];
 
-      if (stockInWarehouse) {
-        await tx.productStock.update({
-          where: { id: stockInWarehouse.id },
-          data: { stock: { decrement: remainingQuantity } },
-        });
-      }
+// The courier handed the cash over: the order is paid and delivered at once
+export const confirmCodCollected = async (
+  orderId: number,
+  user: OrderActor,
+) => {
+  return await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: { shipments: true },
+    });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    await assertAdminCanManageOrder(tx, order, user);
+
+    if (!isCashOnDelivery(order.paymentMethod)) {
+      throw new Error(COD_COLLECTION_ERRORS[0]);
+    }
+
+    if (order.paymentStatus !== PaymentStatus.SHIPPED) {
+      throw new Error(COD_COLLECTION_ERRORS[1]);
     }
+
+    await markOrderPaid(tx, orderId, {
+      source: OrderStatusSource.ADMIN,
+      actorId: user.userId,
+      reason: 'Cash collected on delivery',
+    });
+
+    return await transitionOrderStatus(tx, {
+      orderId,
+      status: PaymentStatus.DELIVERED,
+      source: OrderStatusSource.ADMIN,
+      actorId: user.userId,
+      reason: 'Delivered with cash on delivery',
+      data: { codCollectedAt: new Date() },
+    });
   });
 };
 
+// Customers get invoices of their own orders, admins of the orders they manage
+export const getOrderInvoice = async (orderId: number, user: OrderActor) => {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { ...invoiceOrderInclude, shipments: true },
+  });
+
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  if (user.role === Role.USER) {
+    if (order.cart.userId !== user.userId) {
+      throw new Error('Order not found');
+    }
+  } else {
+    await assertAdminCanManageOrder(prisma, order, user);
+  }
+
+  return { order, pdf: await renderInvoicePdf(order) };
+};
+
+// Read only: tells the checkout page how the cart would be split into parcels
+export const checkShipmentPlan = async (
+  warehouseId: number,
+  products: Array<{ productId: number; quantity: number }>,
+  latitude?: number,
+  longitude?: number,
+) => {
+  const validatedWarehouseId = validateWarehouseId.parse(warehouseId);
+
+  const { shipments, shortages } = await planShipments(
+    prisma,
+    validatedWarehouseId,
+    products,
+    typeof latitude === 'number' && typeof longitude === 'number'
+      ? { latitude, longitude }
+      : undefined,
+  );
+
+  if (shortages.length > 0) {
+    throw new Error('Insufficient stock available in nearby warehouses');
+  }
+
+  return shipments;
+};
+
 export const autoReceiveOrders = async () => {
-  const twoDaysAgo = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
-  const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+  const autoConfirmDays = await getSetting('autoConfirmDays');
+  const autoCompleteDays = await getSetting('autoCompleteDays');
+  const confirmBefore = new Date(
+    Date.now() - autoConfirmDays * 24 * 60 * 60 * 1000,
+  );
+  const completeBefore = new Date(
+    Date.now() - autoCompleteDays * 24 * 60 * 60 * 1000,
+  );
 
   return await prisma.$transaction(async (tx) => {
-    // Proses untuk Order Confirmation (2 hari)
+    // Proses untuk Order Confirmation
     const ordersToAutoConfirm = await tx.order.findMany({
       where: {
         paymentStatus: PaymentStatus.SHIPPED,
+        paymentMethod: { not: COD_PAYMENT_METHOD },
         shippedAt: {
-          lt: twoDaysAgo,
+          lt: confirmBefore,
         },
       },
     });
@@ -704,9 +1612,11 @@ export const autoReceiveOrders = async () => {
 
     for (const order of ordersToAutoConfirm) {
       try {
-        await tx.order.update({
-          where: { id: order.id },
-          data: { paymentStatus: PaymentStatus.DELIVERED },
+        await transitionOrderStatus(tx, {
+          orderId: order.id,
+          status: PaymentStatus.DELIVERED,
+          source: OrderStatusSource.SYSTEM,
+          reason: `Auto-confirmed ${autoConfirmDays} days after shipping`,
         });
         autoConfirmedCount++;
       } catch (error) {
@@ -714,12 +1624,13 @@ export const autoReceiveOrders = async () => {
       }
     }
 
-    // Proses untuk Send User Orders (7 hari)
+    // Proses untuk Send User Orders
     const ordersToAutoComplete = await tx.order.findMany({
       where: {
         paymentStatus: PaymentStatus.SHIPPED,
+        paymentMethod: { not: COD_PAYMENT_METHOD },
         shippedAt: {
-          lt: sevenDaysAgo,
+          lt: completeBefore,
         },
       },
     });
@@ -728,9 +1639,11 @@ export const autoReceiveOrders = async () => {
 
     for (const order of ordersToAutoComplete) {
       try {
-        await tx.order.update({
-          where: { id: order.id },
-          data: { paymentStatus: PaymentStatus.DELIVERED },
+        await transitionOrderStatus(tx, {
+          orderId: order.id,
+          status: PaymentStatus.DELIVERED,
+          source: OrderStatusSource.SYSTEM,
+          reason: `Auto-completed ${autoCompleteDays} days after shipping`,
         });
         autoCompletedCount++;
       } catch (error) {
@@ -0,0 +1,54 @@
+import { randomInt } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { ORDER_NUMBER_PREFIX } from '@/config';
+
+const pad = (value: number, length: number) =>
+  String(value).padStart(length, '0');
+
+// Warehouses without a code fall back to the first letters of their city
+const getWarehouseCode = (warehouse: {
+  code: string | null;
+  city: { name: string };
+}) =>
+  warehouse.code ??
+  warehouse.city.name
+    .replace(/^(kota|kabupaten|kab\.)\s+/i, '')
+    .replace(/[^a-z]/gi, '')
+    .slice(0, 3)
+    .toUpperCase();
+
+// Numbers restart every month for each warehouse, e.g. HM-JKT-202610-00042.
+// The upsert locks the sequence row, so concurrent checkouts never share one.
+export const generateOrderNumber = async (
+  tx: Prisma.TransactionClient,
+  warehouseId: number,
+  date = new Date(),
+) => {
+  const warehouse = await tx.warehouse.findUniqueOrThrow({
+    where: { id: warehouseId },
+    include: { city: true },
+  });
+
+  const period = `${date.getFullYear()}${pad(date.getMonth() + 1, 2)}`;
+  const sequence = await tx.orderNumberSequence.upsert({
+    where: { warehouseId_period: { warehouseId, period } },
+    create: { warehouseId, period, lastNumber: 1 },
+    update: { lastNumber: { increment: 1 } },
+  });
+
+  return [
+    ORDER_NUMBER_PREFIX,
+    getWarehouseCode(warehouse),
+    period,
+    pad(sequence.lastNumber, 5),
+  ].join('-');
+};
+
+// No 0/O or 1/I, the code is read out loud and typed in at the counter
+const PICKUP_CODE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+export const generatePickupCode = () =>
+  Array.from(
+    { length: 8 },
+    () => PICKUP_CODE_ALPHABET[randomInt(PICKUP_CODE_ALPHABET.length)],
+  ).join('');
@@ -0,0 +1,172 @@
+import {
+  FulfillmentMethod,
+  OrderStatusSource,
+  PaymentStatus,
+  Prisma,
+  ShipmentStatus,
+} from '@prisma/client';
+import { COD_PAYMENT_METHOD } from '@/types/payment.type';
+
+// Single source of truth for which status an order may move to next
+export const ORDER_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> =
+  {
+    [PaymentStatus.PENDING]: [
+      PaymentStatus.PAID,
+      PaymentStatus.CANCELED,
+      PaymentStatus.FAILED,
+    ],
+    [PaymentStatus.PAID]: [
+      PaymentStatus.SHIPPED,
+      PaymentStatus.READY_FOR_PICKUP,
+      PaymentStatus.CANCELED,
+    ],
+    // Collected at the warehouse, or canceled when nobody came for it
+    [PaymentStatus.READY_FOR_PICKUP]: [
+      PaymentStatus.DELIVERED,
+      PaymentStatus.CANCELED,
+    ],
+    [PaymentStatus.SHIPPED]: [PaymentStatus.DELIVERED],
+    [PaymentStatus.DELIVERED]: [],
+    [PaymentStatus.FAILED]: [],
+    [PaymentStatus.CANCELED]: [],
+  };
+
+// Cash on delivery ships unpaid and is only PAID once the courier collected.
+// Picked up orders are paid at the counter when they are handed over.
+export const COD_ORDER_STATUS_TRANSITIONS: Record<
+  PaymentStatus,
+  PaymentStatus[]
+> = {
+  [PaymentStatus.PENDING]: [
+    PaymentStatus.SHIPPED,
+    PaymentStatus.READY_FOR_PICKUP,
+    PaymentStatus.CANCELED,
+  ],
+  [PaymentStatus.PAID]: [PaymentStatus.DELIVERED],
+  [PaymentStatus.READY_FOR_PICKUP]: [
+    PaymentStatus.PAID,
+    PaymentStatus.CANCELED,
+  ],
+  [PaymentStatus.SHIPPED]: [PaymentStatus.PAID],
+  [PaymentStatus.DELIVERED]: [],
+  [PaymentStatus.FAILED]: [],
+  [PaymentStatus.CANCELED]: [],
+};
+
+export const INVALID_STATUS_TRANSITION = 'Invalid order status transition';
+
+export const isCashOnDelivery = (paymentMethod: string) =>
+  paymentMethod === COD_PAYMENT_METHOD;
+
+// Pickup orders are never shipped and delivered orders never wait at the counter
+const isWrongFulfillment = (
+  to: PaymentStatus,
+  fulfillmentMethod: FulfillmentMethod,
+) =>
+  fulfillmentMethod === FulfillmentMethod.PICKUP
+    ? to === PaymentStatus.SHIPPED
+    : to === PaymentStatus.READY_FOR_PICKUP;
+
+export const canTransitionOrderStatus = (
+  from: PaymentStatus,
+  to: PaymentStatus,
+  paymentMethod?: string,
+  fulfillmentMethod: FulfillmentMethod = FulfillmentMethod.DELIVERY,
+) =>
+  !isWrongFulfillment(to, fulfillmentMethod) &&
+  (paymentMethod && isCashOnDelivery(paymentMethod)
+    ? COD_ORDER_STATUS_TRANSITIONS
+    : ORDER_STATUS_TRANSITIONS)[from].includes(to);
+
+// Order level transitions carry along the parcels that have not caught up yet
+const cascadeToShipments = async (
+  tx: Prisma.TransactionClient,
+  orderId: number,
+  status: PaymentStatus,
+) => {
+  const now = new Date();
+
+  if (status === PaymentStatus.SHIPPED) {
+    await tx.shipment.updateMany({
+      where: { orderId, status: ShipmentStatus.PENDING },
+      data: { status: ShipmentStatus.SHIPPED, shippedAt: now },
+    });
+  } else if (status === PaymentStatus.DELIVERED) {
+    await tx.shipment.updateMany({
+      where: {
+        orderId,
+        status: { in: [ShipmentStatus.PENDING, ShipmentStatus.SHIPPED] },
+      },
+      data: { status: ShipmentStatus.DELIVERED, deliveredAt: now },
+    });
+  } else if (
+    status === PaymentStatus.CANCELED ||
+    status === PaymentStatus.FAILED
+  ) {
+    await tx.shipment.updateMany({
+      where: { orderId, status: ShipmentStatus.PENDING },
+      data: { status: ShipmentStatus.CANCELED },
+    });
+  }
+};
+
+type TransitionOrderStatusParams = {
+  orderId: number;
+  status: PaymentStatus;
+  source: OrderStatusSource;
+  actorId?: number;
+  reason?: string;
+  data?: Prisma.OrderUncheckedUpdateInput;
+};
+
+export const transitionOrderStatus = async (
+  tx: Prisma.TransactionClient,
+  {
+    orderId,
+    status,
+    source,
+    actorId,
+    reason,
+    data,
+  }: TransitionOrderStatusParams,
+) => {
+  const order = await tx.order.findUnique({ where: { id: orderId } });
+
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  if (
+    !canTransitionOrderStatus(
+      order.paymentStatus,
+      status,
+      order.paymentMethod,
+      order.fulfillmentMethod,
+    )
+  ) {
+    throw new Error(
+      `${INVALID_STATUS_TRANSITION}: ${order.paymentStatus} to ${status}`,
+    );
+  }
+
+  // Guard on the current status so a concurrent transition cannot be overwritten
+  const updatedOrder = await tx.order.update({
+    where: { id: orderId, paymentStatus: order.paymentStatus },
+    data: { ...data, paymentStatus: status },
+  });
+
+  await tx.orderStatusHistory.create({
+    data: {
+      orderId,
+      fromStatus: order.paymentStatus,
+      toStatus: status,
+      source,
+      reason,
+      actorId,
+    },
+  });
+
+  await cascadeToShipments(tx, orderId, status);
+
+  return updatedOrder;
+};
@@ -0,0 +1,308 @@
+import { IncomingHttpHeaders } from 'http';
+import prisma from '@/prisma';
+import {
+  OrderStatusSource,
+  PaymentChargeStatus,
+  PaymentStatus,
+  Prisma,
+} from '@prisma/client';
+import {
+  NODE_ENV,
+  PAYMENT_MOCK_SECRET,
+  PAYMENT_PROVIDER,
+  WEB_URL,
+} from '@/config';
+import { PaymentProvider } from '@/types/payment.type';
+import {
+  mockPaymentProvider,
+  MockOutcome,
+} from '@/providers/mockPayment.provider';
+import {
+  markOrderFailed,
+  markOrderPaid,
+  markOrderUnfulfillable,
+} from './order.service';
+import { isCashOnDelivery } from './orderStatus.service';
+import { INSUFFICIENT_STOCK_TO_COMMIT } from './stock.service';
+import { getAmountDue } from './wallet.service';
+import { sendMail } from '@/utils/mail.utils';
+
+export const UNKNOWN_PAYMENT_PROVIDER = 'Unknown payment provider';
+export const PAYMENT_GATEWAY_UNAVAILABLE = 'Online payment is not available';
+export const PAYMENT_CHARGE_NOT_FOUND = 'Payment charge not found';
+
+// Real gateways are added here next to the mock one. The mock gateway settles
+// charges on request, so it is never registered in production and never
+// without its own webhook secret.
+const paymentProviders: Record<string, PaymentProvider> = {
+  ...(NODE_ENV !== 'production' && PAYMENT_MOCK_SECRET
+    ? { [mockPaymentProvider.name]: mockPaymentProvider }
+    : {}),
+};
+
+export const getPaymentProvider = (name: string) => {
+  const provider = paymentProviders[name];
+  if (!provider) {
+    throw new Error(UNKNOWN_PAYMENT_PROVIDER);
+  }
+  return provider;
+};
+
+// Without a gateway the shop keeps taking bank transfer and cash on delivery
+export const isPaymentGatewayEnabled = () =>
+  Boolean(paymentProviders[PAYMENT_PROVIDER]);
+
+// Runs on startup, so a gateway that was asked for but cannot be used is
+// noticed before customers find the option missing
+export const warnIfPaymentGatewayUnavailable = () => {
+  if (!PAYMENT_PROVIDER || isPaymentGatewayEnabled()) {
+    return;
+  }
+  console.warn(
+    PAYMENT_PROVIDER === mockPaymentProvider.name
+      ? 'The mock payment provider needs PAYMENT_MOCK_SECRET and is not available in production, online payment is disabled'
+      : `Payment provider ${PAYMENT_PROVIDER} is not configured, online payment is disabled`,
+  );
+};
+
+// Applies a gateway verdict to the charge and moves the order along with it.
+// Verdicts for charges that are already settled are ignored, so webhook retries
+// and status polling can overlap safely.
+const applyChargeStatus = async (
+  tx: Prisma.TransactionClient,
+  chargeId: number,
+  status: PaymentChargeStatus,
+) => {
+  const charge = await tx.paymentCharge.findUniqueOrThrow({
+    where: { id: chargeId },
+    include: { order: true },
+  });
+
+  if (
+    charge.status !== PaymentChargeStatus.PENDING ||
+    status === PaymentChargeStatus.PENDING
+  ) {
+    return charge;
+  }
+
+  const updatedCharge = await tx.paymentCharge.update({
+    where: { id: charge.id },
+    data: { status },
+  });
+
+  // The order may have been cancelled or paid another way in the meantime
+  if (charge.order.paymentStatus !== PaymentStatus.PENDING) {
+    return updatedCharge;
+  }
+
+  const options = {
+    source: OrderStatusSource.SYSTEM,
+    reason: `Payment ${status.toLowerCase()} at ${charge.provider}`,
+  };
+  if (status === PaymentChargeStatus.SUCCEEDED) {
+    await markOrderPaid(tx, charge.orderId, options);
+  } else {
+    await markOrderFailed(tx, charge.orderId, options);
+  }
+
+  return updatedCharge;
+};
+
+// The money was captured but the stock is gone, so the charge is still
+// recorded and the order refunded instead of failing every webhook retry
+const refundUnfulfillableCharge = async (chargeId: number) => {
+  const { charge, order } = await prisma.$transaction(async (tx) => {
+    const charge = await tx.paymentCharge.findUniqueOrThrow({
+      where: { id: chargeId },
+      include: { order: { include: { cart: { include: { user: true } } } } },
+    });
+
+    if (charge.status !== PaymentChargeStatus.PENDING) {
+      return { charge, order: null };
+    }
+
+    const updatedCharge = await tx.paymentCharge.update({
+      where: { id: charge.id },
+      data: { status: PaymentChargeStatus.SUCCEEDED },
+    });
+
+    if (charge.order.paymentStatus !== PaymentStatus.PENDING) {
+      return { charge: updatedCharge, order: null };
+    }
+
+    await markOrderUnfulfillable(tx, charge.orderId, {
+      source: OrderStatusSource.SYSTEM,
+      reason: `Paid at ${charge.provider} after the stock ran out`,
+    });
+    return { charge: updatedCharge, order: charge.order };
+  });
+
+  if (order) {
+    const url = `${WEB_URL}/order/${order.id}`;
+    await sendMail(
+      order.cart.user.email,
+      `Your order ${order.name} was canceled`,
+      'Your payment arrived after some items of your order sold out, so we canceled it.' +
+        ' The amount you paid was refunded to your store credit.' +
+        ` See the details of your order: <a href="${url}">${url}</a>`,
+    );
+  }
+
+  return charge;
+};
+
+const settleCharge = async (chargeId: number, status: PaymentChargeStatus) => {
+  try {
+    return await prisma.$transaction((tx) =>
+      applyChargeStatus(tx, chargeId, status),
+    );
+  } catch (error) {
+    if (
+      status === PaymentChargeStatus.SUCCEEDED &&
+      error instanceof Error &&
+      error.message === INSUFFICIENT_STOCK_TO_COMMIT
+    ) {
+      return await refundUnfulfillableCharge(chargeId);
+    }
+    throw error;
+  }
+};
+
+// Opens a charge for an unpaid order, or hands back the one still open
+export const createPaymentCharge = async (userId: number, orderId: number) => {
+  const order = await prisma.order.findFirst({
+    where: { id: orderId, cart: { userId } },
+    include: {
+      paymentCharges: {
+        where: { status: PaymentChargeStatus.PENDING },
+        orderBy: { createdAt: 'desc' },
+      },
+    },
+  });
+
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  if (
+    order.paymentStatus !== PaymentStatus.PENDING ||
+    isCashOnDelivery(order.paymentMethod)
+  ) {
+    throw new Error('Order is not awaiting payment');
+  }
+
+  // Store credit applied at checkout is not charged again
+  const amount = getAmountDue(order);
+  const openCharge = order.paymentCharges.find(
+    (charge) => charge.amount === amount && charge.expiresAt > new Date(),
+  );
+  if (openCharge) {
+    return openCharge;
+  }
+
+  if (!isPaymentGatewayEnabled()) {
+    throw new Error(PAYMENT_GATEWAY_UNAVAILABLE);
+  }
+
+  const provider = getPaymentProvider(PAYMENT_PROVIDER);
+  const charge = await provider.createCharge({
+    orderId: order.id,
+    amount,
+    expiresAt: order.expirePayment,
+  });
+
+  return await prisma.paymentCharge.create({
+    data: {
+      provider: provider.name,
+      reference: charge.reference,
+      status: charge.status,
+      amount,
+      redirectUrl: charge.redirectUrl,
+      expiresAt: order.expirePayment,
+      orderId: order.id,
+    },
+  });
+};
+
+// Status query, for when the customer returns before the webhook arrived
+export const refreshPaymentCharge = async (
+  userId: number,
+  chargeId: number,
+) => {
+  const charge = await prisma.paymentCharge.findFirst({
+    where: { id: chargeId, order: { cart: { userId } } },
+  });
+
+  if (!charge) {
+    throw new Error(PAYMENT_CHARGE_NOT_FOUND);
+  }
+
+  if (charge.status !== PaymentChargeStatus.PENDING) {
+    return charge;
+  }
+
+  const status = await getPaymentProvider(charge.provider).getChargeStatus(
+    charge.reference,
+  );
+
+  return await settleCharge(charge.id, status);
+};
+
+export const handlePaymentWebhook = async (
+  providerName: string,
+  headers: IncomingHttpHeaders,
+  rawBody: string,
+) => {
+  const provider = getPaymentProvider(providerName);
+  const event = provider.verifyWebhook(headers, rawBody);
+
+  const charge = await prisma.paymentCharge.findUnique({
+    where: {
+      provider_reference: {
+        provider: provider.name,
+        reference: event.reference,
+      },
+    },
+  });
+
+  if (!charge) {
+    throw new Error(PAYMENT_CHARGE_NOT_FOUND);
+  }
+
+  // A successful payment for a different amount is never accepted silently
+  if (
+    event.status === PaymentChargeStatus.SUCCEEDED &&
+    event.amount !== charge.amount
+  ) {
+    throw new Error('Payment amount does not match the charge');
+  }
+
+  return await settleCharge(charge.id, event.status);
+};
+
+// Local development only: makes the mock gateway settle a charge and deliver
+// the signed webhook the same way a real gateway would
+export const simulateMockPayment = async (
+  userId: number,
+  chargeId: number,
+  outcome: MockOutcome,
+) => {
+  const charge = await prisma.paymentCharge.findFirst({
+    where: {
+      id: chargeId,
+      provider: mockPaymentProvider.name,
+      order: { cart: { userId } },
+    },
+  });
+
+  if (!charge) {
+    throw new Error(PAYMENT_CHARGE_NOT_FOUND);
+  }
+
+  const { headers, rawBody } = mockPaymentProvider.settle(
+    charge.reference,
+    outcome,
+  );
+
+  return await handlePaymentWebhook(mockPaymentProvider.name, headers, rawBody);
+};
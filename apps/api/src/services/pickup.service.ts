@@ -0,0 +1,228 @@
+import prisma from '@/prisma';
+import {
+  CancellationSource,
+  FulfillmentMethod,
+  OrderStatusSource,
+  PaymentStatus,
+  ShipmentStatus,
+  TransactionType,
+} from '@prisma/client';
+import { PICKUP_WINDOW_DAYS, WEB_URL } from '@/config';
+import { sendMail } from '@/utils/mail.utils';
+import { validatePickupCodeBody } from '../validations/order.validation';
+import {
+  assertAdminCanManageOrder,
+  markOrderPaid,
+  OrderActor,
+} from './order.service';
+import { isCashOnDelivery, transitionOrderStatus } from './orderStatus.service';
+import { commitOrderReservations, restockOrderQuantity } from './stock.service';
+import { refundOrderToWallet } from './wallet.service';
+
+// Rule violations in the pickup flow, reported as 400
+export const PICKUP_ERRORS = [
+  'Order is not a pickup order',
+  'Order is not ready to be set aside yet',
+  'Order is not waiting for pickup',
+];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const getPickupDeadline = (readyForPickupAt: Date) =>
+  new Date(readyForPickupAt.getTime() + PICKUP_WINDOW_DAYS * DAY);
+
+// The goods are packed at the counter: paid orders can be collected now and
+// cash orders set their stock aside until the customer pays at the counter
+export const markReadyForPickup = async (orderId: number, user: OrderActor) => {
+  const order = await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: {
+        shipments: true,
+        warehouse: true,
+        cart: { include: { user: true } },
+      },
+    });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    await assertAdminCanManageOrder(tx, order, user);
+
+    if (order.fulfillmentMethod !== FulfillmentMethod.PICKUP) {
+      throw new Error(PICKUP_ERRORS[0]);
+    }
+
+    const cashOnDelivery = isCashOnDelivery(order.paymentMethod);
+    const readyStatus = cashOnDelivery
+      ? PaymentStatus.PENDING
+      : PaymentStatus.PAID;
+    if (order.paymentStatus !== readyStatus) {
+      throw new Error(PICKUP_ERRORS[1]);
+    }
+
+    const updatedOrder = await transitionOrderStatus(tx, {
+      orderId,
+      status: PaymentStatus.READY_FOR_PICKUP,
+      source: OrderStatusSource.ADMIN,
+      actorId: user.userId,
+      data: { readyForPickupAt: new Date() },
+    });
+
+    if (cashOnDelivery) {
+      await commitOrderReservations(tx, orderId);
+    }
+
+    return { ...order, ...updatedOrder };
+  });
+
+  const url = `${WEB_URL}/order/${order.id}`;
+  await sendMail(
+    order.cart.user.email,
+    `Your order ${order.name} is ready for pickup`,
+    `Your order is waiting for you at ${order.warehouse.name}, ${order.warehouse.address}.` +
+      ` Show this pickup code at the counter: <strong>${order.pickupCode}</strong>.` +
+      (isCashOnDelivery(order.paymentMethod)
+        ? ` Please bring Rp ${Math.round(order.total - order.walletAmount).toLocaleString('id-ID')} to pay at the counter.`
+        : '') +
+      ` Orders not collected before ${getPickupDeadline(order.readyForPickupAt!).toLocaleString()} are canceled.` +
+      ` See your order: <a href="${url}">${url}</a>`,
+  );
+
+  return order;
+};
+
+// The customer showed the code at the counter and took the order home
+export const confirmPickup = async (user: OrderActor, body: unknown) => {
+  const { code } = validatePickupCodeBody.parse(body);
+
+  return await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { pickupCode: code },
+      include: { shipments: true },
+    });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    await assertAdminCanManageOrder(tx, order, user);
+
+    if (order.paymentStatus !== PaymentStatus.READY_FOR_PICKUP) {
+      throw new Error(PICKUP_ERRORS[2]);
+    }
+
+    const cashOnDelivery = isCashOnDelivery(order.paymentMethod);
+    if (cashOnDelivery) {
+      await markOrderPaid(tx, order.id, {
+        source: OrderStatusSource.ADMIN,
+        actorId: user.userId,
+        reason: 'Cash paid at pickup',
+      });
+    }
+
+    const now = new Date();
+    return await transitionOrderStatus(tx, {
+      orderId: order.id,
+      status: PaymentStatus.DELIVERED,
+      source: OrderStatusSource.ADMIN,
+      actorId: user.userId,
+      reason: 'Picked up by the customer',
+      data: {
+        pickedUpAt: now,
+        ...(cashOnDelivery ? { codCollectedAt: now } : {}),
+      },
+    });
+  });
+};
+
+// Orders left at the counter past the window go back on the shelf
+export const cancelUnclaimedPickups = async () => {
+  const unclaimedOrders = await prisma.order.findMany({
+    where: {
+      paymentStatus: PaymentStatus.READY_FOR_PICKUP,
+      readyForPickupAt: { lt: new Date(Date.now() - PICKUP_WINDOW_DAYS * DAY) },
+    },
+    include: {
+      cart: { include: { user: true } },
+      warehouse: true,
+      shipments: {
+        include: { items: { include: { orderItem: true } } },
+      },
+    },
+  });
+
+  let canceledCount = 0;
+  for (const order of unclaimedOrders) {
+    // Cash orders were never paid, only their store credit goes back
+    const wasPaid = !isCashOnDelivery(order.paymentMethod);
+    const reason = `Not picked up within ${PICKUP_WINDOW_DAYS} days`;
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        await transitionOrderStatus(tx, {
+          orderId: order.id,
+          status: PaymentStatus.CANCELED,
+          source: OrderStatusSource.SYSTEM,
+          reason,
+          data: {
+            cancellationSource: CancellationSource.SYSTEM,
+            cancellationNote: reason,
+          },
+        });
+
+        // The stock was taken out when the order was set aside
+        for (const shipment of order.shipments) {
+          if (shipment.status !== ShipmentStatus.PENDING) continue;
+          for (const item of shipment.items) {
+            await restockOrderQuantity(
+              tx,
+              item.orderItem.productId,
+              shipment.warehouseId,
+              item.quantity,
+              'unclaimed pickup',
+            );
+          }
+        }
+
+        if (wasPaid) {
+          await tx.transactionHistory.create({
+            data: {
+              userId: order.cart.userId,
+              orderId: order.id,
+              amount: order.total,
+              type: TransactionType.REFUND,
+            },
+          });
+        }
+
+        await refundOrderToWallet(
+          tx,
+          order.id,
+          wasPaid ? order.paymentStatus : PaymentStatus.PENDING,
+          { reason },
+        );
+      });
+    } catch (error) {
+      console.error(`Failed to cancel unclaimed order ${order.id}:`, error);
+      continue;
+    }
+
+    canceledCount++;
+    const url = `${WEB_URL}/order/${order.id}`;
+    await sendMail(
+      order.cart.user.email,
+      `Your order ${order.name} was canceled`,
+      `Your order was not picked up at ${order.warehouse.name} within ${PICKUP_WINDOW_DAYS} days, so we canceled it.` +
+        (wasPaid
+          ? ' The amount you paid was refunded to your store credit.'
+          : order.walletAmount > 0
+            ? ' The store credit you applied was returned to your balance.'
+            : '') +
+        ` See the details of your order: <a href="${url}">${url}</a>`,
+    );
+  }
+
+  return canceledCount;
+};
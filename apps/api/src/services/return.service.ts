@@ -0,0 +1,376 @@
+import prisma from '@/prisma';
+import {
+  PaymentStatus,
+  Prisma,
+  ReturnStatus,
+  Role,
+  ShipmentStatus,
+  TransactionType,
+  WalletEntryType,
+} from '@prisma/client';
+import { validateFile } from '../validations/order.validation';
+import {
+  validateReturnApprovalBody,
+  validateReturnRejectionBody,
+  validateReturnRequestBody,
+} from '../validations/return.validation';
+import {
+  calculateItemsTotal,
+  calculateVoucherDiscount,
+} from '@/utils/voucher.utils';
+import { recordWalletEntry } from './wallet.service';
+
+export const RETURN_REQUEST_NOT_FOUND = 'Return request not found';
+const MAX_RETURN_PHOTOS = 5;
+
+// Rule violations the customer or reviewer can fix, reported as 400
+export class ReturnRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReturnRequestError';
+  }
+}
+
+type Reviewer = { userId: number; role: Role };
+
+const returnRequestInclude = {
+  items: {
+    include: {
+      orderItem: {
+        include: { product: true },
+      },
+    },
+  },
+  photos: true,
+} satisfies Prisma.ReturnRequestInclude;
+
+// Warehouse admins only see returns of orders their warehouse shipped
+const getReviewerScope = async (
+  reviewer: Reviewer,
+): Promise<Prisma.OrderWhereInput> => {
+  if (reviewer.role === Role.SUPER_ADMIN) {
+    return {};
+  }
+
+  const warehouse = await prisma.warehouse.findUnique({
+    where: { userId: reviewer.userId },
+  });
+  if (!warehouse) {
+    throw new Error('Admin is not assigned to a warehouse');
+  }
+
+  return {
+    OR: [
+      { warehouseId: warehouse.id },
+      { shipments: { some: { warehouseId: warehouse.id } } },
+    ],
+  };
+};
+
+export const createReturnRequest = async (
+  userId: number,
+  body: unknown,
+  files: Express.Multer.File[],
+) => {
+  const { orderId, reason, items } = validateReturnRequestBody.parse(body);
+
+  if (files.length === 0) {
+    throw new ReturnRequestError('Please attach at least one photo');
+  }
+  if (files.length > MAX_RETURN_PHOTOS) {
+    throw new ReturnRequestError(
+      `You can attach at most ${MAX_RETURN_PHOTOS} photos`,
+    );
+  }
+  files.forEach(validateFile);
+
+  return await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findFirst({
+      where: { id: orderId, cart: { userId } },
+      include: {
+        voucher: true,
+        items: {
+          include: {
+            returnItems: { include: { returnRequest: true } },
+          },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    if (order.paymentStatus !== PaymentStatus.DELIVERED) {
+      throw new ReturnRequestError('Only delivered orders can be returned');
+    }
+
+    // The voucher discount is shared over the lines by value, so a returned
+    // unit refunds what was actually paid for it
+    const deliveredItems = order.items.filter((item) => item.quantity > 0);
+    const itemsTotal = calculateItemsTotal(deliveredItems);
+    const discount = order.voucher
+      ? calculateVoucherDiscount(order.voucher, deliveredItems)
+      : 0;
+    const paidShare =
+      itemsTotal > 0 ? Math.max(itemsTotal - discount, 0) / itemsTotal : 0;
+
+    let refundAmount = 0;
+    for (const item of items) {
+      const orderItem = order.items.find(
+        (orderItem) => orderItem.id === item.orderItemId,
+      );
+      if (!orderItem) {
+        throw new ReturnRequestError('Item does not belong to this order');
+      }
+
+      // Quantities already under review or refunded cannot be claimed twice
+      const alreadyReturned = orderItem.returnItems
+        .filter(
+          (returnItem) =>
+            returnItem.returnRequest.status !== ReturnStatus.REJECTED,
+        )
+        .reduce((sum, returnItem) => sum + returnItem.quantity, 0);
+
+      if (item.quantity > orderItem.quantity - alreadyReturned) {
+        throw new ReturnRequestError(
+          'Return quantity exceeds the quantity that can still be returned',
+        );
+      }
+
+      refundAmount += orderItem.price * item.quantity * paidShare;
+    }
+
+    return await tx.returnRequest.create({
+      data: {
+        orderId,
+        userId,
+        reason,
+        refundAmount: Math.floor(refundAmount),
+        items: { create: items },
+        photos: {
+          create: files.map((file) => ({
+            url: `/assets/returns/${file.filename}`,
+          })),
+        },
+      },
+      include: returnRequestInclude,
+    });
+  });
+};
+
+export const getReturnRequests = async (
+  reviewer: Reviewer,
+  status?: ReturnStatus,
+  page = 1,
+  limit = 10,
+) => {
+  const where: Prisma.ReturnRequestWhereInput = {
+    order: await getReviewerScope(reviewer),
+    ...(status ? { status } : {}),
+  };
+
+  const [totalCount, returnRequests] = await Promise.all([
+    prisma.returnRequest.count({ where }),
+    prisma.returnRequest.findMany({
+      where,
+      include: {
+        ...returnRequestInclude,
+        order: { select: { id: true, name: true } },
+        user: { select: { id: true, username: true, email: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+  ]);
+
+  return {
+    returnRequests,
+    pagination: {
+      currentPage: page,
+      totalPages: Math.ceil(totalCount / limit),
+      totalItems: totalCount,
+      itemsPerPage: limit,
+    },
+  };
+};
+
+const findReviewableRequest = async (
+  tx: Prisma.TransactionClient,
+  returnRequestId: number,
+  reviewer: Reviewer,
+) => {
+  const returnRequest = await tx.returnRequest.findFirst({
+    where: {
+      id: returnRequestId,
+      order: await getReviewerScope(reviewer),
+    },
+    include: {
+      order: true,
+      items: {
+        include: {
+          orderItem: {
+            include: {
+              product: true,
+              shipmentItems: { include: { shipment: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!returnRequest) {
+    throw new Error(RETURN_REQUEST_NOT_FOUND);
+  }
+
+  if (returnRequest.status !== ReturnStatus.REQUESTED) {
+    throw new ReturnRequestError('Return request has already been reviewed');
+  }
+
+  return returnRequest;
+};
+
+// A line split over parcels goes back to the warehouses that sent it, filled
+// parcel by parcel, canceled parcels never left and are skipped
+const allocateReturnToWarehouses = (
+  shipmentItems: Prisma.ShipmentItemGetPayload<{
+    include: { shipment: true };
+  }>[],
+  quantity: number,
+  fallbackWarehouseId: number,
+) => {
+  const allocations: { warehouseId: number; quantity: number }[] = [];
+  let remaining = quantity;
+
+  for (const shipmentItem of shipmentItems) {
+    if (remaining <= 0) break;
+    if (shipmentItem.shipment.status === ShipmentStatus.CANCELED) continue;
+
+    const allocated = Math.min(shipmentItem.quantity, remaining);
+    allocations.push({
+      warehouseId: shipmentItem.shipment.warehouseId,
+      quantity: allocated,
+    });
+    remaining -= allocated;
+  }
+
+  if (remaining > 0) {
+    allocations.push({ warehouseId: fallbackWarehouseId, quantity: remaining });
+  }
+
+  return allocations;
+};
+
+export const approveReturnRequest = async (
+  returnRequestId: number,
+  reviewer: Reviewer,
+  body: unknown,
+) => {
+  const { restock, note } = validateReturnApprovalBody.parse(body);
+
+  return await prisma.$transaction(async (tx) => {
+    const returnRequest = await findReviewableRequest(
+      tx,
+      returnRequestId,
+      reviewer,
+    );
+
+    for (const item of returnRequest.items) {
+      const { orderItem } = item;
+      // Goods go back to the warehouses that sent them
+      const allocations = allocateReturnToWarehouses(
+        orderItem.shipmentItems,
+        item.quantity,
+        returnRequest.order.warehouseId,
+      );
+
+      for (const { warehouseId, quantity } of allocations) {
+        const productStock = await tx.productStock.upsert({
+          where: {
+            productId_warehouseId: {
+              productId: orderItem.productId,
+              warehouseId,
+            },
+          },
+          create: {
+            productId: orderItem.productId,
+            warehouseId,
+            stock: restock ? quantity : 0,
+          },
+          update: restock ? { stock: { increment: quantity } } : {},
+        });
+
+        await tx.stockTransferLog.create({
+          data: {
+            quantity,
+            transactionType: TransactionType.REFUND,
+            description: restock
+              ? `Stock REFUND ${orderItem.product.name} returned to warehouse, qty: ${quantity} (Return #${returnRequest.id})`
+              : `Stock REFUND ${orderItem.product.name} written off, qty: ${quantity} (Return #${returnRequest.id})`,
+            productStockId: productStock.id,
+            warehouseId,
+          },
+        });
+      }
+    }
+
+    await tx.transactionHistory.create({
+      data: {
+        userId: returnRequest.userId,
+        orderId: returnRequest.orderId,
+        amount: returnRequest.refundAmount,
+        type: TransactionType.REFUND,
+      },
+    });
+
+    await recordWalletEntry(tx, {
+      userId: returnRequest.userId,
+      amount: returnRequest.refundAmount,
+      type: WalletEntryType.REFUND,
+      orderId: returnRequest.orderId,
+      actorId: reviewer.userId,
+      reason: `Return #${returnRequest.id} approved`,
+    });
+
+    return await tx.returnRequest.update({
+      where: { id: returnRequest.id },
+      data: {
+        status: ReturnStatus.APPROVED,
+        restocked: restock,
+        reviewNote: note,
+        reviewerId: reviewer.userId,
+        reviewedAt: new Date(),
+      },
+      include: returnRequestInclude,
+    });
+  });
+};
+
+export const rejectReturnRequest = async (
+  returnRequestId: number,
+  reviewer: Reviewer,
+  body: unknown,
+) => {
+  const { note } = validateReturnRejectionBody.parse(body);
+
+  return await prisma.$transaction(async (tx) => {
+    const returnRequest = await findReviewableRequest(
+      tx,
+      returnRequestId,
+      reviewer,
+    );
+
+    return await tx.returnRequest.update({
+      where: { id: returnRequest.id },
+      data: {
+        status: ReturnStatus.REJECTED,
+        reviewNote: note,
+        reviewerId: reviewer.userId,
+        reviewedAt: new Date(),
+      },
+      include: returnRequestInclude,
+    });
+  });
+};
@@ -0,0 +1,247 @@
+import prisma from '@/prisma';
+import { z } from 'zod';
+import { COD_RESERVATION_DAYS } from '@/config';
+import {
+  settingCount,
+  settingCronSchedule,
+  settingDays,
+  settingHours,
+  settingMinutes,
+  validateSettingBody,
+} from '../validations/setting.validation';
+
+export const SETTING_NOT_FOUND = 'Setting not found';
+
+type SettingDefinition<T> = {
+  label: string;
+  group: 'Payments' | 'Orders' | 'Carts' | 'Schedules';
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  defaultValue: T;
+};
+
+const defineSetting = <T>(definition: SettingDefinition<T>) => definition;
+
+// Every value a super admin may change at runtime. Code reads them through
+// getSetting, a key without a stored value falls back to its default.
+export const SETTING_DEFINITIONS = {
+  bankTransferPaymentMinutes: defineSetting({
+    label: 'Bank transfer payment window (minutes)',
+    group: 'Payments',
+    schema: settingMinutes,
+    defaultValue: 2,
+  }),
+  gatewayPaymentMinutes: defineSetting({
+    label: 'Payment gateway payment window (minutes)',
+    group: 'Payments',
+    schema: settingMinutes,
+    defaultValue: 2,
+  }),
+  codReservationDays: defineSetting({
+    label: 'Cash on delivery stock hold (days)',
+    group: 'Payments',
+    schema: settingDays,
+    defaultValue: COD_RESERVATION_DAYS,
+  }),
+  expiredOrderMinutes: defineSetting({
+    label: 'Minimum age of an unpaid order before it is canceled (minutes)',
+    group: 'Orders',
+    schema: settingMinutes,
+    defaultValue: 60,
+  }),
+  autoConfirmDays: defineSetting({
+    label: 'Auto-confirm shipped orders after (days)',
+    group: 'Orders',
+    schema: settingDays,
+    defaultValue: 2,
+  }),
+  autoCompleteDays: defineSetting({
+    label: 'Auto-complete shipped orders after (days)',
+    group: 'Orders',
+    schema: settingDays,
+    defaultValue: 7,
+  }),
+  abandonedCartHours: defineSetting({
+    label: 'Remind about an untouched cart after (hours)',
+    group: 'Carts',
+    schema: settingHours,
+    defaultValue: 24,
+  }),
+  abandonedCartMaxReminders: defineSetting({
+    label: 'Reminders sent per cart at most',
+    group: 'Carts',
+    schema: settingCount,
+    defaultValue: 2,
+  }),
+  cancelExpiredOrdersSchedule: defineSetting({
+    label: 'Cancel expired orders',
+    group: 'Schedules',
+    schema: settingCronSchedule,
+    defaultValue: '*/5 * * * *',
+  }),
+  autoReceiveOrdersSchedule: defineSetting({
+    label: 'Auto-receive shipped orders',
+    group: 'Schedules',
+    schema: settingCronSchedule,
+    defaultValue: '0 * * * *',
+  }),
+  shipmentTrackingSchedule: defineSetting({
+    label: 'Pull courier tracking updates',
+    group: 'Schedules',
+    schema: settingCronSchedule,
+    defaultValue: '*/15 * * * *',
+  }),
+  subscriptionsSchedule: defineSetting({
+    label: 'Place due subscription orders',
+    group: 'Schedules',
+    schema: settingCronSchedule,
+    defaultValue: '30 * * * *',
+  }),
+  unclaimedPickupsSchedule: defineSetting({
+    label: 'Cancel unclaimed pickup orders',
+    group: 'Schedules',
+    schema: settingCronSchedule,
+    defaultValue: '15 * * * *',
+  }),
+  idempotencyPurgeSchedule: defineSetting({
+    label: 'Purge stale idempotency keys',
+    group: 'Schedules',
+    schema: settingCronSchedule,
+    defaultValue: '0 3 * * *',
+  }),
+  guestCartPurgeSchedule: defineSetting({
+    label: 'Purge expired guest carts',
+    group: 'Schedules',
+    schema: settingCronSchedule,
+    defaultValue: '30 3 * * *',
+  }),
+  abandonedCartRemindersSchedule: defineSetting({
+    label: 'Send abandoned cart reminders',
+    group: 'Schedules',
+    schema: settingCronSchedule,
+    defaultValue: '0 * * * *',
+  }),
+};
+
+export type SettingKey = keyof typeof SETTING_DEFINITIONS;
+
+export type SettingValue<K extends SettingKey> =
+  (typeof SETTING_DEFINITIONS)[K]['defaultValue'];
+
+type SettingListener = (key: SettingKey) => void | Promise<void>;
+
+const listeners: SettingListener[] = [];
+
+const isSettingKey = (key: string): key is SettingKey =>
+  Object.prototype.hasOwnProperty.call(SETTING_DEFINITIONS, key);
+
+// Lets long running parts of the app, like the cron jobs, react to a change
+export const onSettingChange = (listener: SettingListener) => {
+  listeners.push(listener);
+};
+
+export const getSetting = async <K extends SettingKey>(
+  key: K,
+): Promise<SettingValue<K>> => {
+  const definition = SETTING_DEFINITIONS[key];
+  const setting = await prisma.setting.findUnique({ where: { key } });
+
+  // A value stored by an older version of a key is ignored, not trusted
+  const parsed = definition.schema.safeParse(setting?.value);
+  return (
+    setting && parsed.success ? parsed.data : definition.defaultValue
+  ) as SettingValue<K>;
+};
+
+export const getSettings = async () => {
+  const settings = await prisma.setting.findMany();
+
+  return Object.entries(SETTING_DEFINITIONS).map(([key, definition]) => {
+    const setting = settings.find((setting) => setting.key === key);
+    const parsed = definition.schema.safeParse(setting?.value);
+
+    return {
+      key,
+      label: definition.label,
+      group: definition.group,
+      value: setting && parsed.success ? parsed.data : definition.defaultValue,
+      defaultValue: definition.defaultValue,
+      updatedAt: setting?.updatedAt ?? null,
+    };
+  });
+};
+
+export const updateSetting = async (
+  actorId: number,
+  key: string,
+  body: unknown,
+) => {
+  if (!isSettingKey(key)) {
+    throw new Error(SETTING_NOT_FOUND);
+  }
+
+  const { value: rawValue } = validateSettingBody.parse(body);
+  const value = SETTING_DEFINITIONS[key].schema.parse(rawValue);
+
+  const setting = await prisma.$transaction(async (tx) => {
+    const current = await tx.setting.findUnique({ where: { key } });
+
+    const updated = await tx.setting.upsert({
+      where: { key },
+      create: { key, value },
+      update: { value },
+    });
+
+    await tx.settingChange.create({
+      data: {
+        key,
+        oldValue: current?.value ?? undefined,
+        newValue: value,
+        actorId,
+      },
+    });
+
+    return updated;
+  });
+
+  for (const listener of listeners) {
+    try {
+      await listener(key);
+    } catch (error) {
+      console.error(`Failed to apply setting ${key}:`, error);
+    }
+  }
+
+  return setting;
+};
+
+export const getSettingHistory = async (
+  key: string | undefined,
+  page = 1,
+  limit = 10,
+) => {
+  if (key && !isSettingKey(key)) {
+    throw new Error(SETTING_NOT_FOUND);
+  }
+
+  const where = key ? { key } : {};
+  const [totalCount, changes] = await Promise.all([
+    prisma.settingChange.count({ where }),
+    prisma.settingChange.findMany({
+      where,
+      include: { actor: { select: { id: true, username: true } } },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+  ]);
+
+  return {
+    changes,
+    pagination: {
+      currentPage: page,
+      totalPages: Math.ceil(totalCount / limit),
+      totalItems: totalCount,
+      itemsPerPage: limit,
+    },
+  };
+};
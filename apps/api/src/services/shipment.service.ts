@@ -0,0 +1,501 @@
+import prisma from '@/prisma';
+import {
+  OrderStatusSource,
+  PaymentStatus,
+  Prisma,
+  Role,
+  ShipmentEventStatus,
+  ShipmentStatus,
+} from '@prisma/client';
+import { calculateDistance } from '@/utils/distance.utils';
+import { commitOrderReservations, getAvailableStocks } from './stock.service';
+import { isCashOnDelivery, transitionOrderStatus } from './orderStatus.service';
+import { TRACKING_PROVIDER } from '@/config';
+import { TrackingEvent, TrackingProvider } from '@/types/tracking.type';
+import { mockTrackingProvider } from '@/providers/mockTracking.provider';
+import {
+  validateShipBody,
+  validateShipmentEventBody,
+} from '../validations/shipment.validation';
+
+export type ShipmentPlanItem = {
+  productId: number;
+  quantity: number;
+};
+
+export type ShipmentPlan = {
+  warehouseId: number;
+  cityId: number;
+  items: ShipmentPlanItem[];
+};
+
+export type StockShortage = {
+  productId: number;
+  requested: number;
+  available: number;
+};
+
+type Coordinates = { latitude: number; longitude: number };
+
+// Fills each line from the primary warehouse first, then from the nearest
+// warehouses that still have stock. Every warehouse used becomes one parcel.
+export const planShipments = async (
+  client: Prisma.TransactionClient,
+  primaryWarehouseId: number,
+  items: ShipmentPlanItem[],
+  origin?: Coordinates,
+) => {
+  const warehouses = await client.warehouse.findMany({
+    select: { id: true, cityId: true, latitude: true, longitude: true },
+  });
+  const primary = warehouses.find(
+    (warehouse) => warehouse.id === primaryWarehouseId,
+  );
+
+  if (!primary) {
+    throw new Error('Warehouse not found');
+  }
+
+  const from =
+    origin ??
+    (primary.latitude !== null && primary.longitude !== null
+      ? { latitude: primary.latitude, longitude: primary.longitude }
+      : null);
+  const distanceTo = (warehouse: (typeof warehouses)[number]) =>
+    from && warehouse.latitude !== null && warehouse.longitude !== null
+      ? calculateDistance(
+          from.latitude,
+          from.longitude,
+          warehouse.latitude,
+          warehouse.longitude,
+        )
+      : Number.POSITIVE_INFINITY;
+
+  const candidates = [
+    primary,
+    ...warehouses
+      .filter((warehouse) => warehouse.id !== primary.id)
+      .sort((a, b) => distanceTo(a) - distanceTo(b)),
+  ];
+
+  const stocks = await getAvailableStocks(
+    items.map((item) => item.productId),
+    client,
+  );
+  const available = new Map(
+    stocks.map((stock) => [
+      `${stock.productId}-${stock.warehouseId}`,
+      stock.availableStock,
+    ]),
+  );
+
+  const parcels = new Map<number, ShipmentPlanItem[]>();
+  const shortages: StockShortage[] = [];
+
+  for (const item of items) {
+    let remaining = item.quantity;
+
+    for (const warehouse of candidates) {
+      if (remaining <= 0) break;
+
+      const key = `${item.productId}-${warehouse.id}`;
+      const quantity = Math.min(available.get(key) ?? 0, remaining);
+      if (quantity <= 0) continue;
+
+      available.set(key, (available.get(key) ?? 0) - quantity);
+      parcels.set(warehouse.id, [
+        ...(parcels.get(warehouse.id) ?? []),
+        { productId: item.productId, quantity },
+      ]);
+      remaining -= quantity;
+    }
+
+    if (remaining > 0) {
+      shortages.push({
+        productId: item.productId,
+        requested: item.quantity,
+        available: item.quantity - remaining,
+      });
+    }
+  }
+
+  const shipments: ShipmentPlan[] = candidates
+    .filter((warehouse) => parcels.has(warehouse.id))
+    .map((warehouse) => ({
+      warehouseId: warehouse.id,
+      cityId: warehouse.cityId,
+      items: parcels.get(warehouse.id)!,
+    }));
+
+  return { shipments, shortages };
+};
+
+// Pickup orders are collected in one visit, so the chosen warehouse has to
+// hold every line on its own
+export const planPickup = async (
+  client: Prisma.TransactionClient,
+  warehouseId: number,
+  items: ShipmentPlanItem[],
+) => {
+  const warehouse = await client.warehouse.findUnique({
+    where: { id: warehouseId },
+    select: { id: true, cityId: true },
+  });
+
+  if (!warehouse) {
+    throw new Error('Warehouse not found');
+  }
+
+  const stocks = await getAvailableStocks(
+    items.map((item) => item.productId),
+    client,
+  );
+  const shortages: StockShortage[] = [];
+  for (const item of items) {
+    const available =
+      stocks.find(
+        (stock) =>
+          stock.productId === item.productId &&
+          stock.warehouseId === warehouse.id,
+      )?.availableStock ?? 0;
+
+    if (available < item.quantity) {
+      shortages.push({
+        productId: item.productId,
+        requested: item.quantity,
+        available,
+      });
+    }
+  }
+
+  const shipments: ShipmentPlan[] = [
+    {
+      warehouseId: warehouse.id,
+      cityId: warehouse.cityId,
+      items: items.map(({ productId, quantity }) => ({ productId, quantity })),
+    },
+  ];
+
+  return { shipments, shortages };
+};
+
+type SyncOptions = {
+  source: OrderStatusSource;
+  actorId?: number;
+};
+
+// The order follows its parcels: SHIPPED once all are on their way and
+// DELIVERED once all have arrived. Canceled parcels are ignored. Cash on
+// delivery ships straight from PENDING and waits for the cash to be collected.
+export const syncOrderStatusWithShipments = async (
+  tx: Prisma.TransactionClient,
+  orderId: number,
+  { source, actorId }: SyncOptions,
+) => {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    include: { shipments: true },
+  });
+
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  const shipments = order.shipments.filter(
+    (shipment) => shipment.status !== ShipmentStatus.CANCELED,
+  );
+  if (shipments.length === 0) {
+    return;
+  }
+
+  const allShipped = shipments.every(
+    (shipment) =>
+      shipment.status === ShipmentStatus.SHIPPED ||
+      shipment.status === ShipmentStatus.DELIVERED,
+  );
+  const allDelivered = shipments.every(
+    (shipment) => shipment.status === ShipmentStatus.DELIVERED,
+  );
+
+  const cashOnDelivery = isCashOnDelivery(order.paymentMethod);
+  let status = order.paymentStatus;
+  if (
+    allShipped &&
+    status === (cashOnDelivery ? PaymentStatus.PENDING : PaymentStatus.PAID)
+  ) {
+    status = (
+      await transitionOrderStatus(tx, {
+        orderId,
+        status: PaymentStatus.SHIPPED,
+        source,
+        actorId,
+        reason: 'All parcels shipped',
+        data: { shippedAt: new Date() },
+      })
+    ).paymentStatus;
+
+    // Parcels commit their own stock as they ship, this picks up the rest
+    // when the whole order was marked shipped at once
+    if (cashOnDelivery) {
+      await commitOrderReservations(tx, orderId);
+    }
+  }
+
+  if (allDelivered && status === PaymentStatus.SHIPPED && !cashOnDelivery) {
+    await transitionOrderStatus(tx, {
+      orderId,
+      status: PaymentStatus.DELIVERED,
+      source,
+      actorId,
+      reason: 'All parcels delivered',
+    });
+  }
+};
+
+export const shipShipment = async (
+  shipmentId: number,
+  user: { userId: number; role: Role },
+  body: unknown,
+) => {
+  const { courier, courierService, waybill } = validateShipBody.parse(body);
+
+  return await prisma.$transaction(async (tx) => {
+    const shipment = await tx.shipment.findUnique({
+      where: { id: shipmentId },
+      include: { order: true, warehouse: true },
+    });
+
+    if (!shipment) {
+      throw new Error('Shipment not found');
+    }
+
+    // Warehouse admins may only dispatch parcels leaving their own warehouse
+    if (user.role === Role.ADMIN && shipment.warehouse.userId !== user.userId) {
+      throw new Error('Shipment belongs to another warehouse');
+    }
+
+    const readyStatus = isCashOnDelivery(shipment.order.paymentMethod)
+      ? PaymentStatus.PENDING
+      : PaymentStatus.PAID;
+    if (shipment.order.paymentStatus !== readyStatus) {
+      throw new Error('Order is not ready to be shipped');
+    }
+
+    if (shipment.status !== ShipmentStatus.PENDING) {
+      throw new Error('Shipment has already been shipped');
+    }
+
+    const updatedShipment = await tx.shipment.update({
+      where: { id: shipmentId },
+      data: {
+        status: ShipmentStatus.SHIPPED,
+        shippedAt: new Date(),
+        courier,
+        courierService,
+        waybill,
+      },
+    });
+
+    // Cash on delivery stock leaves with each parcel, not with the last one
+    if (isCashOnDelivery(shipment.order.paymentMethod)) {
+      await commitOrderReservations(tx, shipment.orderId, shipment.warehouseId);
+    }
+
+    await syncOrderStatusWithShipments(tx, shipment.orderId, {
+      source: OrderStatusSource.ADMIN,
+      actorId: user.userId,
+    });
+
+    return updatedShipment;
+  });
+};
+
+export const SHIPMENT_NOT_IN_TRANSIT = 'Shipment is not in transit';
+
+// Couriers without an API are tracked by hand from the admin dashboard
+const manualTrackingProvider: TrackingProvider = {
+  name: 'manual',
+  getTrackingEvents: async () => [],
+};
+
+// Real courier APIs are added here next to the mock one
+const trackingProviders: Record<string, TrackingProvider> = {
+  [manualTrackingProvider.name]: manualTrackingProvider,
+  [mockTrackingProvider.name]: mockTrackingProvider,
+};
+
+const getTrackingProvider = (name: string) => {
+  const provider = trackingProviders[name];
+  if (!provider) {
+    throw new Error('Unknown tracking provider');
+  }
+  return provider;
+};
+
+// Appends events to the timeline, ignoring the ones already recorded. A
+// DELIVERED event completes the parcel and moves the order along with it.
+const recordShipmentEvents = async (
+  tx: Prisma.TransactionClient,
+  shipment: { id: number; orderId: number; status: ShipmentStatus },
+  events: TrackingEvent[],
+  { source, actorId }: SyncOptions,
+) => {
+  await tx.shipmentEvent.createMany({
+    data: events.map((event) => ({
+      ...event,
+      shipmentId: shipment.id,
+      source,
+      actorId,
+    })),
+    skipDuplicates: true,
+  });
+
+  const delivered = events.find(
+    (event) => event.status === ShipmentEventStatus.DELIVERED,
+  );
+  if (delivered && shipment.status === ShipmentStatus.SHIPPED) {
+    await tx.shipment.update({
+      where: { id: shipment.id },
+      data: {
+        status: ShipmentStatus.DELIVERED,
+        deliveredAt: delivered.occurredAt,
+      },
+    });
+
+    await syncOrderStatusWithShipments(tx, shipment.orderId, {
+      source,
+      actorId,
+    });
+  }
+};
+
+export const addShipmentEvent = async (
+  shipmentId: number,
+  user: { userId: number; role: Role },
+  body: unknown,
+) => {
+  const { status, description, location, occurredAt } =
+    validateShipmentEventBody.parse(body);
+
+  return await prisma.$transaction(async (tx) => {
+    const shipment = await tx.shipment.findUnique({
+      where: { id: shipmentId },
+      include: { warehouse: true },
+    });
+
+    if (!shipment) {
+      throw new Error('Shipment not found');
+    }
+
+    if (user.role === Role.ADMIN && shipment.warehouse.userId !== user.userId) {
+      throw new Error('Shipment belongs to another warehouse');
+    }
+
+    if (shipment.status !== ShipmentStatus.SHIPPED) {
+      throw new Error(SHIPMENT_NOT_IN_TRANSIT);
+    }
+
+    await recordShipmentEvents(
+      tx,
+      shipment,
+      [
+        {
+          status,
+          description: description ?? '',
+          location,
+          occurredAt: occurredAt ?? new Date(),
+        },
+      ],
+      { source: OrderStatusSource.ADMIN, actorId: user.userId },
+    );
+
+    return await tx.shipment.findUnique({
+      where: { id: shipmentId },
+      include: { events: { orderBy: { occurredAt: 'asc' } } },
+    });
+  });
+};
+
+// Polls the courier for every parcel on its way, returns how many moved on
+export const syncShipmentTracking = async () => {
+  const provider = getTrackingProvider(TRACKING_PROVIDER);
+  const shipments = await prisma.shipment.findMany({
+    where: {
+      status: ShipmentStatus.SHIPPED,
+      courier: { not: null },
+      waybill: { not: null },
+      shippedAt: { not: null },
+    },
+  });
+
+  let deliveredCount = 0;
+  for (const shipment of shipments) {
+    try {
+      const events = await provider.getTrackingEvents({
+        courier: shipment.courier!,
+        waybill: shipment.waybill!,
+        shippedAt: shipment.shippedAt!,
+      });
+      if (events.length === 0) continue;
+
+      await prisma.$transaction((tx) =>
+        recordShipmentEvents(tx, shipment, events, {
+          source: OrderStatusSource.SYSTEM,
+        }),
+      );
+      if (
+        events.some((event) => event.status === ShipmentEventStatus.DELIVERED)
+      ) {
+        deliveredCount++;
+      }
+    } catch (error) {
+      // One courier failing must not hold up the other parcels
+      console.error(`Error tracking shipment ${shipment.id}:`, error);
+    }
+  }
+
+  return deliveredCount;
+};
+
+export const confirmShipmentReceived = async (
+  userId: number,
+  shipmentId: number,
+) => {
+  return await prisma.$transaction(async (tx) => {
+    const shipment = await tx.shipment.findFirst({
+      where: {
+        id: shipmentId,
+        status: ShipmentStatus.SHIPPED,
+        order: { cart: { userId } },
+      },
+    });
+
+    if (!shipment) {
+      throw new Error('Shipment not found or cannot be confirmed');
+    }
+
+    const deliveredAt = new Date();
+    const updatedShipment = await tx.shipment.update({
+      where: { id: shipmentId },
+      data: { status: ShipmentStatus.DELIVERED, deliveredAt },
+    });
+
+    await tx.shipmentEvent.create({
+      data: {
+        status: ShipmentEventStatus.DELIVERED,
+        description: 'Receipt confirmed by the customer',
+        occurredAt: deliveredAt,
+        source: OrderStatusSource.USER,
+        shipmentId,
+        actorId: userId,
+      },
+    });
+
+    await syncOrderStatusWithShipments(tx, shipment.orderId, {
+      source: OrderStatusSource.USER,
+      actorId: userId,
+    });
+
+    return updatedShipment;
+  });
+};
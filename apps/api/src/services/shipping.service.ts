@@ -0,0 +1,49 @@
+import axios from 'axios';
+
+const RAJAONGKIR_URL = 'https://api.rajaongkir.com/starter';
+const RAJAONGKIR_KEY = '52f9fdf3233f8e61a6883ad3d87abdff';
+
+// Products carry no weight yet, every parcel is quoted as 1kg
+export const DEFAULT_PARCEL_WEIGHT = 1000;
+
+export type ShippingQuery = {
+  origin: number | string;
+  destination: number | string;
+  weight: number;
+  courier: string;
+};
+
+export type CourierService = {
+  service: string;
+  description: string;
+  cost: { value: number; etd: string; note: string }[];
+};
+
+export const fetchShippingCosts = async (query: ShippingQuery) => {
+  const response = await axios.post(
+    `${RAJAONGKIR_URL}/cost`,
+    { ...query },
+    {
+      headers: {
+        key: RAJAONGKIR_KEY,
+        'Content-Type': 'application/json',
+      },
+    },
+  );
+
+  return response.data.rajaongkir.results;
+};
+
+export const getCourierServices = async (
+  query: ShippingQuery,
+): Promise<CourierService[]> => {
+  const results = await fetchShippingCosts(query);
+  return results[0]?.costs ?? [];
+};
+
+export const getServiceCost = async (query: ShippingQuery, service: string) => {
+  const services = await getCourierServices(query);
+  const selected = services.find((item) => item.service === service);
+
+  return selected?.cost[0]?.value ?? null;
+};
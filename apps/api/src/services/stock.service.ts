@@ -1,21 +1,385 @@
 import prisma from '@/prisma';
+import {
+  PaymentStatus,
+  Prisma,
+  ReservationStatus,
+  TransactionType,
+} from '@prisma/client';
+import { COD_PAYMENT_METHOD } from '@/types/payment.type';
+
+export const INSUFFICIENT_STOCK_TO_COMMIT =
+  'Not enough stock left to fulfil this order';
+
+// Reservations hold stock until the order's payment deadline, or for as long
+// as a payment proof waits for review or a cash on delivery order waits to
+// ship, since those orders are never expired by their deadline alone
+const activeReservationFilter = (): Prisma.StockReservationWhereInput => ({
+  status: ReservationStatus.ACTIVE,
+  OR: [
+    { expiresAt: { gt: new Date() } },
+    {
+      order: {
+        paymentStatus: PaymentStatus.PENDING,
+        paymentProof: { not: null },
+      },
+    },
+    {
+      order: {
+        paymentStatus: PaymentStatus.PENDING,
+        paymentMethod: COD_PAYMENT_METHOD,
+      },
+    },
+  ],
+});
+
+const stockKey = (productId: number, warehouseId: number) =>
+  `${productId}-${warehouseId}`;
+
+export const getReservedStock = async (
+  productIds: number[],
+  client: Prisma.TransactionClient = prisma,
+) => {
+  const reservations = await client.stockReservation.groupBy({
+    by: ['productId', 'warehouseId'],
+    where: {
+      ...activeReservationFilter(),
+      productId: { in: productIds },
+    },
+    _sum: { quantity: true },
+  });
+
+  return new Map(
+    reservations.map((reservation) => [
+      stockKey(reservation.productId, reservation.warehouseId),
+      reservation._sum.quantity ?? 0,
+    ]),
+  );
+};
+
+// Adds reservedStock and availableStock (on-hand minus active reservations)
+export const withAvailableStock = async <
+  T extends { productId: number; warehouseId: number; stock: number },
+>(
+  stocks: T[],
+) => {
+  const reserved = await getReservedStock(
+    Array.from(new Set(stocks.map((stock) => stock.productId))),
+  );
+
+  return stocks.map((stock) => {
+    const reservedStock =
+      reserved.get(stockKey(stock.productId, stock.warehouseId)) ?? 0;
+    return {
+      ...stock,
+      reservedStock,
+      availableStock: Math.max(stock.stock - reservedStock, 0),
+    };
+  });
+};
+
+export const withProductsAvailableStock = async <
+  T extends {
+    productStocks: { productId: number; warehouseId: number; stock: number }[];
+  },
+>(
+  products: T[],
+) => {
+  return await Promise.all(
+    products.map(async (product) => ({
+      ...product,
+      productStocks: await withAvailableStock(product.productStocks),
+    })),
+  );
+};
+
+// Available stock of every warehouse that carries one of the products
+export const getAvailableStocks = async (
+  productIds: number[],
+  client: Prisma.TransactionClient = prisma,
+) => {
+  const productStocks = await client.productStock.findMany({
+    where: { productId: { in: productIds }, deleted: false },
+  });
+  const reserved = await getReservedStock(productIds, client);
+
+  return productStocks.map((productStock) => ({
+    productId: productStock.productId,
+    warehouseId: productStock.warehouseId,
+    availableStock: Math.max(
+      productStock.stock -
+        (reserved.get(
+          stockKey(productStock.productId, productStock.warehouseId),
+        ) ?? 0),
+      0,
+    ),
+  }));
+};
+
+// Locks the stock rows an order is about to reserve. Must run first in the
+// transaction: the updates hold the rows, so the reservation counts that
+// follow see every reservation committed by a concurrent checkout. Rows are
+// taken in a fixed order so two checkouts never deadlock on each other.
+export const lockProductStocks = async (
+  tx: Prisma.TransactionClient,
+  stocks: { productId: number; warehouseId: number }[],
+) => {
+  const keys = Array.from(
+    new Set(
+      stocks.map((stock) => stockKey(stock.productId, stock.warehouseId)),
+    ),
+  ).sort();
+
+  for (const key of keys) {
+    const [productId, warehouseId] = key.split('-').map(Number);
+    await tx.productStock.updateMany({
+      where: { productId, warehouseId },
+      data: { updatedAt: new Date() },
+    });
+  }
+};
+
+export const getAvailableStockAt = async (
+  client: Prisma.TransactionClient,
+  productId: number,
+  warehouseId: number,
+) => {
+  const productStock = await client.productStock.findUnique({
+    where: { productId_warehouseId: { productId, warehouseId } },
+  });
+
+  if (!productStock || productStock.deleted) {
+    return 0;
+  }
+
+  const reserved = await getReservedStock([productId], client);
+  return Math.max(
+    productStock.stock - (reserved.get(stockKey(productId, warehouseId)) ?? 0),
+    0,
+  );
+};
 
 export const checkStockAvailability = async (cartItems: any[]) => {
+  const reserved = await getReservedStock(
+    cartItems.map((item) => item.productId),
+  );
+
   for (const item of cartItems) {
-    const totalStock = await prisma.productStock.aggregate({
-      _sum: {
-        stock: true,
-      },
+    const productStocks = await prisma.productStock.findMany({
       where: {
         productId: item.productId,
         deleted: false,
       },
     });
 
-    if ((totalStock._sum.stock || 0) < item.quantity) {
+    const availableStock = productStocks.reduce(
+      (sum, productStock) =>
+        sum +
+        Math.max(
+          productStock.stock -
+            (reserved.get(
+              stockKey(productStock.productId, productStock.warehouseId),
+            ) ?? 0),
+          0,
+        ),
+      0,
+    );
+
+    if (availableStock < item.quantity) {
       return false;
     }
   }
 
   return true;
 };
+
+export const reserveOrderStock = async (
+  tx: Prisma.TransactionClient,
+  orderId: number,
+  warehouseId: number,
+  items: { productId: number; quantity: number }[],
+  expiresAt: Date,
+) => {
+  await tx.stockReservation.createMany({
+    data: items.map((item) => ({
+      orderId,
+      warehouseId,
+      productId: item.productId,
+      quantity: item.quantity,
+      expiresAt,
+    })),
+  });
+};
+
+// Keeps the stock held for as long as the order may still be paid
+export const extendOrderReservations = async (
+  tx: Prisma.TransactionClient,
+  orderId: number,
+  expiresAt: Date,
+) => {
+  await tx.stockReservation.updateMany({
+    where: { orderId, status: ReservationStatus.ACTIVE },
+    data: { expiresAt },
+  });
+};
+
+// Turns the order's reservations into a real stock OUT once it is paid. A
+// warehouse limits it to the parcel leaving that warehouse.
+export const commitOrderReservations = async (
+  tx: Prisma.TransactionClient,
+  orderId: number,
+  warehouseId?: number,
+) => {
+  const reservationFilter = {
+    orderId,
+    warehouseId,
+    status: ReservationStatus.ACTIVE,
+  };
+  const reservations = await tx.stockReservation.findMany({
+    where: reservationFilter,
+    include: { product: { select: { name: true } } },
+  });
+
+  for (const reservation of reservations) {
+    // A reservation that lapsed may have let its units be sold or held by
+    // other orders, the stock never goes below what they still need
+    const heldByOthers = await tx.stockReservation.aggregate({
+      where: {
+        ...activeReservationFilter(),
+        orderId: { not: orderId },
+        productId: reservation.productId,
+        warehouseId: reservation.warehouseId,
+      },
+      _sum: { quantity: true },
+    });
+    const where = {
+      productId: reservation.productId,
+      warehouseId: reservation.warehouseId,
+    };
+    const { count } = await tx.productStock.updateMany({
+      where: {
+        ...where,
+        stock: {
+          gte: reservation.quantity + (heldByOthers._sum.quantity ?? 0),
+        },
+      },
+      data: {
+        stock: { decrement: reservation.quantity },
+      },
+    });
+    if (count === 0) {
+      throw new Error(INSUFFICIENT_STOCK_TO_COMMIT);
+    }
+
+    const productStock = await tx.productStock.findUniqueOrThrow({
+      where: { productId_warehouseId: where },
+    });
+
+    await tx.stockTransferLog.create({
+      data: {
+        quantity: reservation.quantity,
+        transactionType: TransactionType.OUT,
+        description: `Stock OUT ${reservation.product.name} from warehouse for ORDER, qty: ${reservation.quantity}`,
+        productStockId: productStock.id,
+        warehouseId: reservation.warehouseId,
+      },
+    });
+  }
+
+  await tx.stockReservation.updateMany({
+    where: reservationFilter,
+    data: { status: ReservationStatus.COMMITTED },
+  });
+};
+
+// Shrinks the order's active reservation when a line is reduced before payment
+export const releaseReservedQuantity = async (
+  tx: Prisma.TransactionClient,
+  orderId: number,
+  productId: number,
+  warehouseId: number,
+  quantity: number,
+) => {
+  const reservations = await tx.stockReservation.findMany({
+    where: {
+      orderId,
+      productId,
+      warehouseId,
+      status: ReservationStatus.ACTIVE,
+    },
+  });
+
+  let remaining = quantity;
+  for (const reservation of reservations) {
+    if (remaining <= 0) break;
+
+    const released = Math.min(reservation.quantity, remaining);
+    await tx.stockReservation.update({
+      where: { id: reservation.id },
+      data:
+        released === reservation.quantity
+          ? { status: ReservationStatus.RELEASED }
+          : { quantity: { decrement: released } },
+    });
+    remaining -= released;
+  }
+};
+
+// Puts paid stock back on the shelf, e.g. when a line of a paid order is canceled
+export const restockOrderQuantity = async (
+  tx: Prisma.TransactionClient,
+  productId: number,
+  warehouseId: number,
+  quantity: number,
+  reason: string,
+) => {
+  const productStock = await tx.productStock.update({
+    where: { productId_warehouseId: { productId, warehouseId } },
+    data: { stock: { increment: quantity } },
+    include: { product: { select: { name: true } } },
+  });
+
+  await tx.stockTransferLog.create({
+    data: {
+      quantity,
+      transactionType: TransactionType.IN,
+      description: `Stock IN ${productStock.product.name} to warehouse ${warehouseId} due to ${reason}, qty: ${quantity}`,
+      productStockId: productStock.id,
+      warehouseId,
+    },
+  });
+};
+
+// Takes stock OUT right away for a line added to an order that is already paid
+export const takeOrderQuantity = async (
+  tx: Prisma.TransactionClient,
+  productId: number,
+  warehouseId: number,
+  quantity: number,
+  reason: string,
+) => {
+  const productStock = await tx.productStock.update({
+    where: { productId_warehouseId: { productId, warehouseId } },
+    data: { stock: { decrement: quantity } },
+    include: { product: { select: { name: true } } },
+  });
+
+  await tx.stockTransferLog.create({
+    data: {
+      quantity,
+      transactionType: TransactionType.OUT,
+      description: `Stock OUT ${productStock.product.name} from warehouse ${warehouseId} due to ${reason}, qty: ${quantity}`,
+      productStockId: productStock.id,
+      warehouseId,
+    },
+  });
+};
+
+export const releaseOrderReservations = async (
+  tx: Prisma.TransactionClient,
+  orderId: number,
+) => {
+  await tx.stockReservation.updateMany({
+    where: { orderId, status: ReservationStatus.ACTIVE },
+    data: { status: ReservationStatus.RELEASED },
+  });
+};
@@ -0,0 +1,334 @@
+import prisma from '@/prisma';
+import { ZodError } from 'zod';
+import { Prisma, Subscription, SubscriptionCadence } from '@prisma/client';
+import {
+  SUBSCRIPTION_CUTOFF_HOURS,
+  SUBSCRIPTION_PAYMENT_HOURS,
+  WEB_URL,
+} from '@/config';
+import { GATEWAY_PAYMENT_METHOD } from '@/types/payment.type';
+import { sendMail } from '@/utils/mail.utils';
+import {
+  validateSubscriptionBody,
+  validateSubscriptionUpdateBody,
+} from '../validations/subscription.validation';
+import { handleCheckout } from './order.service';
+
+export const SUBSCRIPTION_NOT_FOUND = 'Subscription not found';
+
+// Rule violations the customer can fix, reported as 400
+export class SubscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubscriptionError';
+  }
+}
+
+const CADENCE_DAYS: Record<SubscriptionCadence, number> = {
+  WEEKLY: 7,
+  BIWEEKLY: 14,
+};
+
+const HOUR = 60 * 60 * 1000;
+
+const subscriptionInclude = {
+  items: { include: { product: true } },
+  address: true,
+} satisfies Prisma.SubscriptionInclude;
+
+// Baskets are locked for changes once the run is closer than the cutoff
+const getCutoff = (nextRunAt: Date) =>
+  new Date(nextRunAt.getTime() - SUBSCRIPTION_CUTOFF_HOURS * HOUR);
+
+const isPastCutoff = (nextRunAt: Date) => getCutoff(nextRunAt) <= new Date();
+
+// Moves a run date forward by whole cycles until it falls after the given time
+const advanceRun = (from: Date, cadence: SubscriptionCadence, after: Date) => {
+  let next = from;
+  while (next <= after) {
+    next = new Date(next.getTime() + CADENCE_DAYS[cadence] * 24 * HOUR);
+  }
+  return next;
+};
+
+const assertBeforeCutoff = (subscription: Subscription) => {
+  if (isPastCutoff(subscription.nextRunAt)) {
+    throw new SubscriptionError(
+      `Changes close ${SUBSCRIPTION_CUTOFF_HOURS} hours before the next delivery`,
+    );
+  }
+};
+
+const assertUserAddress = async (userId: number, addressId: number) => {
+  const address = await prisma.address.findFirst({
+    where: { id: addressId, userId },
+  });
+  if (!address) {
+    throw new SubscriptionError('Address not found');
+  }
+};
+
+const assertProductsExist = async (productIds: number[]) => {
+  const count = await prisma.product.count({
+    where: { id: { in: productIds }, deleted: false },
+  });
+  if (count !== productIds.length) {
+    throw new SubscriptionError('Some products are no longer available');
+  }
+};
+
+const findUserSubscription = async (userId: number, subscriptionId: number) => {
+  const subscription = await prisma.subscription.findFirst({
+    where: { id: subscriptionId, userId },
+  });
+  if (!subscription) {
+    throw new Error(SUBSCRIPTION_NOT_FOUND);
+  }
+  return subscription;
+};
+
+export const getSubscriptions = async (userId: number) => {
+  const subscriptions = await prisma.subscription.findMany({
+    where: { userId },
+    include: {
+      ...subscriptionInclude,
+      // The latest order links the customer to its payment page
+      carts: {
+        where: { order: { isNot: null } },
+        include: {
+          order: {
+            select: { id: true, name: true, paymentStatus: true, total: true },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return subscriptions.map(({ carts, ...subscription }) => ({
+    ...subscription,
+    editableUntil: getCutoff(subscription.nextRunAt),
+    lastOrder: carts[0]?.order ?? null,
+  }));
+};
+
+export const createSubscription = async (userId: number, body: unknown) => {
+  const { startDate, items, ...data } = validateSubscriptionBody.parse(body);
+
+  if (isPastCutoff(startDate)) {
+    throw new SubscriptionError(
+      `The first delivery must be at least ${SUBSCRIPTION_CUTOFF_HOURS} hours from now`,
+    );
+  }
+  await assertUserAddress(userId, data.addressId);
+  await assertProductsExist(items.map((item) => item.productId));
+
+  return await prisma.subscription.create({
+    data: {
+      ...data,
+      userId,
+      nextRunAt: startDate,
+      items: { create: items },
+    },
+    include: subscriptionInclude,
+  });
+};
+
+export const updateSubscription = async (
+  userId: number,
+  subscriptionId: number,
+  body: unknown,
+) => {
+  const { paused, items, ...data } = validateSubscriptionUpdateBody.parse(body);
+  const subscription = await findUserSubscription(userId, subscriptionId);
+
+  // Pausing is always allowed, anything that changes the basket is not
+  const changesBasket =
+    items !== undefined ||
+    Object.values(data).some((value) => value !== undefined);
+  if (changesBasket) {
+    assertBeforeCutoff(subscription);
+  }
+  if (data.addressId) {
+    await assertUserAddress(userId, data.addressId);
+  }
+  if (items) {
+    await assertProductsExist(items.map((item) => item.productId));
+  }
+
+  // Cycles missed while paused are not ordered after resuming
+  const nextRunAt =
+    subscription.paused && paused === false
+      ? advanceRun(
+          subscription.nextRunAt,
+          data.cadence ?? subscription.cadence,
+          new Date(Date.now() + SUBSCRIPTION_CUTOFF_HOURS * HOUR),
+        )
+      : undefined;
+
+  return await prisma.$transaction(async (tx) => {
+    if (items) {
+      await tx.subscriptionItem.deleteMany({
+        where: { subscriptionId: subscription.id },
+      });
+    }
+
+    return await tx.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        ...data,
+        paused,
+        nextRunAt,
+        ...(items ? { items: { create: items } } : {}),
+      },
+      include: subscriptionInclude,
+    });
+  });
+};
+
+export const skipSubscriptionCycle = async (
+  userId: number,
+  subscriptionId: number,
+) => {
+  const subscription = await findUserSubscription(userId, subscriptionId);
+
+  if (subscription.paused) {
+    throw new SubscriptionError(
+      'A paused subscription has no delivery to skip',
+    );
+  }
+  assertBeforeCutoff(subscription);
+
+  return await prisma.subscription.update({
+    where: { id: subscription.id },
+    data: {
+      nextRunAt: advanceRun(
+        subscription.nextRunAt,
+        subscription.cadence,
+        subscription.nextRunAt,
+      ),
+    },
+    include: subscriptionInclude,
+  });
+};
+
+export const deleteSubscription = async (
+  userId: number,
+  subscriptionId: number,
+) => {
+  const subscription = await findUserSubscription(userId, subscriptionId);
+  await prisma.subscription.delete({ where: { id: subscription.id } });
+};
+
+// Checks the basket out through the normal checkout, so stock, voucher and
+// shipping rules are the same as for an order placed by hand
+const placeSubscriptionOrder = async (
+  subscription: Prisma.SubscriptionGetPayload<{
+    include: { items: true; user: true };
+  }>,
+  nextRunAt: Date,
+) => {
+  const cart = await prisma.cart.create({
+    data: {
+      userId: subscription.userId,
+      subscriptionId: subscription.id,
+      items: {
+        create: subscription.items.map(({ productId, quantity }) => ({
+          productId,
+          quantity,
+        })),
+      },
+    },
+  });
+
+  try {
+    const order = await handleCheckout(
+      subscription.userId,
+      {
+        cartId: cart.id,
+        addressId: subscription.addressId,
+        paymentMethod: GATEWAY_PAYMENT_METHOD,
+        courier: subscription.courier,
+        courierService: subscription.courierService,
+        voucherCode: subscription.voucherCode ?? undefined,
+      },
+      new Date(Date.now() + SUBSCRIPTION_PAYMENT_HOURS * HOUR),
+    );
+
+    await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { lastError: null },
+    });
+
+    const url = `${WEB_URL}/order/payment-gateway/${order.id}`;
+    await sendMail(
+      subscription.user.email,
+      `Your subscription order ${order.name} is ready for payment`,
+      `We placed your ${subscription.cadence.toLowerCase()} basket as order ${order.name} for Rp ${Math.round(order.total).toLocaleString('id-ID')}.` +
+        ` Please pay before ${order.expirePayment.toLocaleString()}: <a href="${url}">${url}</a>`,
+    );
+    return true;
+  } catch (error) {
+    console.error(`Error placing subscription #${subscription.id}:`, error);
+
+    // The cycle is not retried, the customer hears why and the next one runs
+    await prisma.cart.update({
+      where: { id: cart.id },
+      data: { isActive: false, deletedAt: new Date() },
+    });
+
+    const message =
+      error instanceof ZodError
+        ? error.errors[0].message
+        : error instanceof Error
+          ? error.message
+          : 'Unexpected error';
+    await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { lastError: message },
+    });
+
+    const url = `${WEB_URL}/profile/subscriptions`;
+    await sendMail(
+      subscription.user.email,
+      'We could not place your subscription order',
+      `Your ${subscription.cadence.toLowerCase()} basket could not be ordered this time: ${message}.` +
+        ` The next delivery is scheduled for ${nextRunAt.toLocaleString()}. You can review your subscription here: <a href="${url}">${url}</a>`,
+    );
+    return false;
+  }
+};
+
+export const runDueSubscriptions = async () => {
+  const now = new Date();
+  const dueSubscriptions = await prisma.subscription.findMany({
+    where: { paused: false, nextRunAt: { lte: now } },
+    include: { items: true, user: true },
+  });
+
+  let placedCount = 0;
+  for (const subscription of dueSubscriptions) {
+    const nextRunAt = advanceRun(
+      subscription.nextRunAt,
+      subscription.cadence,
+      now,
+    );
+
+    // Claiming the cycle first keeps an overlapping run from ordering it twice
+    const { count } = await prisma.subscription.updateMany({
+      where: { id: subscription.id, nextRunAt: subscription.nextRunAt },
+      data: { nextRunAt, lastRunAt: now },
+    });
+    if (count === 0) {
+      continue;
+    }
+
+    if (await placeSubscriptionOrder(subscription, nextRunAt)) {
+      placedCount++;
+    }
+  }
+
+  return { dueCount: dueSubscriptions.length, placedCount };
+};
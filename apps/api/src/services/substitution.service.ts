@@ -0,0 +1,389 @@
+import prisma from '@/prisma';
+import {
+  PaymentStatus,
+  Prisma,
+  Role,
+  ShipmentStatus,
+  SubstitutionPreference,
+  WalletEntryType,
+} from '@prisma/client';
+import { WEB_URL } from '@/config';
+import { sendMail } from '@/utils/mail.utils';
+import { validateSubstituteBody } from '../validations/order.validation';
+import {
+  assertAdminCanManageOrder,
+  OrderActor,
+  repriceOrder,
+} from './order.service';
+import {
+  getAvailableStockAt,
+  releaseReservedQuantity,
+  reserveOrderStock,
+  restockOrderQuantity,
+  takeOrderQuantity,
+} from './stock.service';
+
+// Rule violations in a substitution, reported as 400
+export const SUBSTITUTION_ERRORS = [
+  'Order items can no longer be substituted',
+  'Item does not belong to this order',
+  'Item was already substituted',
+  'The customer does not accept substitutes for this item',
+  'The substitute must be from the same category',
+  'The customer asked for a different substitute',
+  'The substitute is already part of this order',
+  'The substitute is out of stock',
+  'Items already shipped cannot be substituted',
+  'Item has no substitute to reject',
+  'Substitute product not found',
+];
+
+const [
+  notSubstitutable,
+  notInOrder,
+  alreadySubstituted,
+  noSubstitutes,
+  otherCategory,
+  otherProduct,
+  alreadyInOrder,
+  outOfStock,
+  alreadyShipped,
+  nothingToReject,
+  productNotFound,
+] = SUBSTITUTION_ERRORS;
+
+// Substitutes are swapped before the parcels leave, whether paid or not
+const SUBSTITUTABLE_STATUSES: PaymentStatus[] = [
+  PaymentStatus.PENDING,
+  PaymentStatus.PAID,
+];
+
+const findOrderForSubstitution = (
+  tx: Prisma.TransactionClient,
+  orderId: number,
+) =>
+  tx.order.findUnique({
+    where: { id: orderId },
+    include: {
+      cart: { include: { user: true } },
+      voucher: true,
+      shipments: true,
+      items: {
+        include: {
+          product: true,
+          shipmentItems: { include: { shipment: true } },
+        },
+      },
+    },
+  });
+
+// The products an admin may offer for a line, in stock at every warehouse
+// sending a part of it
+export const getSubstituteCandidates = async (
+  orderId: number,
+  orderItemId: number,
+  user: OrderActor,
+) => {
+  const order = await findOrderForSubstitution(prisma, orderId);
+
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  await assertAdminCanManageOrder(prisma, order, user);
+
+  const orderItem = order.items.find((item) => item.id === orderItemId);
+  if (!orderItem) {
+    throw new Error(notInOrder);
+  }
+  const isSpecific =
+    orderItem.substitutionPreference === SubstitutionPreference.SPECIFIC;
+  if (
+    orderItem.substitutionPreference === SubstitutionPreference.NONE ||
+    (isSpecific && !orderItem.preferredSubstituteId)
+  ) {
+    return [];
+  }
+
+  const products = await prisma.product.findMany({
+    where: isSpecific
+      ? { id: orderItem.preferredSubstituteId! }
+      : {
+          categoryId: orderItem.product.categoryId,
+          id: { notIn: order.items.map((item) => item.productId) },
+          deleted: false,
+        },
+    orderBy: { name: 'asc' },
+  });
+
+  const candidates = [];
+  for (const product of products) {
+    let inStock = true;
+    for (const shipmentItem of orderItem.shipmentItems) {
+      const availableStock = await getAvailableStockAt(
+        prisma,
+        product.id,
+        shipmentItem.shipment.warehouseId,
+      );
+      if (availableStock < shipmentItem.quantity) {
+        inStock = false;
+        break;
+      }
+    }
+    candidates.push({
+      id: product.id,
+      name: product.name,
+      price: product.price,
+      inStock,
+    });
+  }
+
+  return candidates;
+};
+
+// Swaps a line the picker could not find for another product the customer
+// accepts. The customer never pays more than for the original, a cheaper
+// substitute lowers the total and the difference is refunded.
+export const substituteOrderItem = async (
+  orderId: number,
+  user: OrderActor,
+  body: unknown,
+) => {
+  const { orderItemId, productId } = validateSubstituteBody.parse(body);
+
+  const result = await prisma.$transaction(async (tx) => {
+    const order = await findOrderForSubstitution(tx, orderId);
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    await assertAdminCanManageOrder(tx, order, user);
+
+    if (!SUBSTITUTABLE_STATUSES.includes(order.paymentStatus)) {
+      throw new Error(notSubstitutable);
+    }
+
+    const orderItem = order.items.find((item) => item.id === orderItemId);
+    if (!orderItem || orderItem.quantity === 0) {
+      throw new Error(notInOrder);
+    }
+    if (orderItem.substitutedAt) {
+      throw new Error(alreadySubstituted);
+    }
+
+    const substitute = await tx.product.findUnique({
+      where: { id: productId, deleted: false },
+    });
+    if (!substitute) {
+      throw new Error(productNotFound);
+    }
+
+    if (orderItem.substitutionPreference === SubstitutionPreference.NONE) {
+      throw new Error(noSubstitutes);
+    }
+    if (
+      orderItem.substitutionPreference === SubstitutionPreference.SIMILAR &&
+      substitute.categoryId !== orderItem.product.categoryId
+    ) {
+      throw new Error(otherCategory);
+    }
+    if (
+      orderItem.substitutionPreference === SubstitutionPreference.SPECIFIC &&
+      substitute.id !== orderItem.preferredSubstituteId
+    ) {
+      throw new Error(otherProduct);
+    }
+    if (order.items.some((item) => item.productId === substitute.id)) {
+      throw new Error(alreadyInOrder);
+    }
+
+    if (
+      orderItem.shipmentItems.some(
+        (shipmentItem) =>
+          shipmentItem.shipment.status !== ShipmentStatus.PENDING,
+      )
+    ) {
+      throw new Error(alreadyShipped);
+    }
+
+    // Each parcel holding the line takes the substitute from its own warehouse
+    for (const shipmentItem of orderItem.shipmentItems) {
+      const warehouseId = shipmentItem.shipment.warehouseId;
+      const availableStock = await getAvailableStockAt(
+        tx,
+        substitute.id,
+        warehouseId,
+      );
+      if (availableStock < shipmentItem.quantity) {
+        throw new Error(outOfStock);
+      }
+
+      if (order.paymentStatus === PaymentStatus.PENDING) {
+        await releaseReservedQuantity(
+          tx,
+          order.id,
+          orderItem.productId,
+          warehouseId,
+          shipmentItem.quantity,
+        );
+        await reserveOrderStock(
+          tx,
+          order.id,
+          warehouseId,
+          [{ productId: substitute.id, quantity: shipmentItem.quantity }],
+          order.expirePayment,
+        );
+      } else {
+        // The original units were never found on the shelf, so nothing of
+        // them goes back into stock
+        await takeOrderQuantity(
+          tx,
+          substitute.id,
+          warehouseId,
+          shipmentItem.quantity,
+          'order substitution',
+        );
+      }
+    }
+
+    const price = Math.min(substitute.price, orderItem.price);
+    await tx.orderItem.update({
+      where: { id: orderItem.id },
+      data: {
+        productId: substitute.id,
+        price,
+        total: price * orderItem.quantity,
+        originalProductId: orderItem.productId,
+        originalPrice: orderItem.price,
+        substitutedAt: new Date(),
+      },
+    });
+
+    const reason = `${orderItem.product.name} substituted with ${substitute.name}`;
+    const { refundAmount, totalReduction } = await repriceOrder(
+      tx,
+      order,
+      user,
+      {
+        cancelReason: reason,
+        refundReason: reason,
+        entryType: WalletEntryType.REFUND,
+      },
+    );
+
+    const updatedOrder = await tx.order.findUnique({
+      where: { id: order.id },
+      include: { items: { include: { product: true } }, shipments: true },
+    });
+
+    return {
+      order: updatedOrder,
+      refundAmount,
+      totalReduction,
+      email: order.cart.user.email,
+      orderName: order.name,
+      original: orderItem.product.name,
+      substitute: substitute.name,
+    };
+  });
+
+  const url = `${WEB_URL}/order/${orderId}`;
+  await sendMail(
+    result.email,
+    `An item of your order ${result.orderName} was substituted`,
+    `${result.original} was out of stock, so we replaced it with ${result.substitute}.` +
+      (result.totalReduction > 0
+        ? ` The substitute is cheaper, Rp ${Math.round(result.totalReduction).toLocaleString('id-ID')} was taken off your order.`
+        : ' You pay the same price as for the original item.') +
+      ` If you do not want the substitute you can reject it until your order ships: <a href="${url}">${url}</a>`,
+  );
+
+  return { order: result.order, refundAmount: result.refundAmount };
+};
+
+// The customer turns a substitute down, the line is dropped from the order
+// and refunded like a canceled item
+export const rejectSubstitute = async (
+  orderId: number,
+  orderItemId: number,
+  userId: number,
+) => {
+  return await prisma.$transaction(async (tx) => {
+    const order = await findOrderForSubstitution(tx, orderId);
+
+    if (!order || order.cart.userId !== userId) {
+      throw new Error('Order not found');
+    }
+
+    const orderItem = order.items.find((item) => item.id === orderItemId);
+    if (
+      !orderItem ||
+      !orderItem.substitutedAt ||
+      orderItem.substitutionRejectedAt ||
+      orderItem.quantity === 0
+    ) {
+      throw new Error(nothingToReject);
+    }
+
+    if (
+      !SUBSTITUTABLE_STATUSES.includes(order.paymentStatus) ||
+      orderItem.shipmentItems.some(
+        (shipmentItem) =>
+          shipmentItem.shipment.status !== ShipmentStatus.PENDING,
+      )
+    ) {
+      throw new Error(alreadyShipped);
+    }
+
+    for (const shipmentItem of orderItem.shipmentItems) {
+      await tx.shipmentItem.delete({ where: { id: shipmentItem.id } });
+
+      if (order.paymentStatus === PaymentStatus.PENDING) {
+        await releaseReservedQuantity(
+          tx,
+          order.id,
+          orderItem.productId,
+          shipmentItem.shipment.warehouseId,
+          shipmentItem.quantity,
+        );
+      } else {
+        await restockOrderQuantity(
+          tx,
+          orderItem.productId,
+          shipmentItem.shipment.warehouseId,
+          shipmentItem.quantity,
+          'rejected substitute',
+        );
+      }
+    }
+
+    await tx.orderItem.update({
+      where: { id: orderItem.id },
+      data: {
+        quantity: 0,
+        canceledQuantity: { increment: orderItem.quantity },
+        total: 0,
+        substitutionRejectedAt: new Date(),
+      },
+    });
+
+    const { refundAmount } = await repriceOrder(
+      tx,
+      order,
+      { userId, role: Role.USER },
+      {
+        cancelReason: 'Substitute rejected',
+        refundReason: `Substitute ${orderItem.product.name} rejected`,
+        entryType: WalletEntryType.CANCELLATION,
+      },
+    );
+
+    const updatedOrder = await tx.order.findUnique({
+      where: { id: order.id },
+      include: { items: { include: { product: true } }, shipments: true },
+    });
+
+    return { order: updatedOrder, refundAmount };
+  });
+};
@@ -0,0 +1,147 @@
+import prisma from '@/prisma';
+import { PaymentStatus, Prisma, WalletEntryType } from '@prisma/client';
+import { validateWalletAdjustmentBody } from '../validations/wallet.validation';
+
+export const INSUFFICIENT_WALLET_BALANCE = 'Insufficient store credit balance';
+export const USER_NOT_FOUND = 'User not found';
+
+type WalletEntryInput = {
+  userId: number;
+  // Positive amounts credit the wallet, negative amounts debit it
+  amount: number;
+  type: WalletEntryType;
+  orderId?: number;
+  actorId?: number;
+  reason?: string;
+};
+
+// Every balance change goes through here so the ledger always matches the
+// balance. Debits are guarded on the balance so it can never go negative.
+export const recordWalletEntry = async (
+  tx: Prisma.TransactionClient,
+  { userId, amount, type, orderId, actorId, reason }: WalletEntryInput,
+) => {
+  if (amount === 0) {
+    return null;
+  }
+
+  const { count } = await tx.user.updateMany({
+    where: {
+      id: userId,
+      ...(amount < 0 ? { walletBalance: { gte: -amount } } : {}),
+    },
+    data: { walletBalance: { increment: amount } },
+  });
+
+  if (count === 0) {
+    throw new Error(INSUFFICIENT_WALLET_BALANCE);
+  }
+
+  const user = await tx.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { walletBalance: true },
+  });
+
+  return await tx.walletEntry.create({
+    data: {
+      userId,
+      amount,
+      balanceAfter: user.walletBalance,
+      type,
+      orderId,
+      actorId,
+      reason,
+    },
+  });
+};
+
+// What is still owed on an order once the store credit applied at checkout
+export const getAmountDue = (order: { total: number; walletAmount: number }) =>
+  Math.max(order.total - order.walletAmount, 0);
+
+// Gives the customer back what they already spent on an order that will not
+// be fulfilled: everything once it was paid, otherwise only the store credit
+export const refundOrderToWallet = async (
+  tx: Prisma.TransactionClient,
+  orderId: number,
+  paidStatus: PaymentStatus,
+  { actorId, reason }: { actorId?: number; reason?: string } = {},
+) => {
+  const order = await tx.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: { cart: true },
+  });
+
+  const wasPaid =
+    paidStatus !== PaymentStatus.PENDING && paidStatus !== PaymentStatus.FAILED;
+
+  return await recordWalletEntry(tx, {
+    userId: order.cart.userId,
+    amount: wasPaid ? order.total : order.walletAmount,
+    type: WalletEntryType.CANCELLATION,
+    orderId,
+    actorId,
+    reason,
+  });
+};
+
+export const getWallet = async (userId: number, page = 1, limit = 10) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, username: true, email: true, walletBalance: true },
+  });
+
+  if (!user) {
+    throw new Error(USER_NOT_FOUND);
+  }
+
+  const [totalCount, entries] = await Promise.all([
+    prisma.walletEntry.count({ where: { userId } }),
+    prisma.walletEntry.findMany({
+      where: { userId },
+      include: {
+        order: { select: { id: true, name: true } },
+        actor: { select: { id: true, username: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+  ]);
+
+  return {
+    user,
+    balance: user.walletBalance,
+    entries,
+    pagination: {
+      currentPage: page,
+      totalPages: Math.ceil(totalCount / limit),
+      totalItems: totalCount,
+      itemsPerPage: limit,
+    },
+  };
+};
+
+// Goodwill credits and corrections made by a super admin, always with a reason
+export const adjustWallet = async (
+  actorId: number,
+  userId: number,
+  body: unknown,
+) => {
+  const { amount, reason } = validateWalletAdjustmentBody.parse(body);
+
+  return await prisma.$transaction(async (tx) => {
+    const user = await tx.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new Error(USER_NOT_FOUND);
+    }
+
+    return await recordWalletEntry(tx, {
+      userId,
+      amount,
+      type: WalletEntryType.ADJUSTMENT,
+      actorId,
+      reason,
+    });
+  });
+};
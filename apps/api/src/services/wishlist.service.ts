@@ -0,0 +1,161 @@
+import prisma from '@/prisma';
+import { CartModel } from '../models/cart.model';
+import { calculateCartTotal } from '@/utils/cart.utils';
+import {
+  validateSaveForLaterBody,
+  validateWishlistBody,
+} from '@/validations/wishlist.validation';
+import {
+  CART_ITEM_NOT_FOUND,
+  getCartWarehouseId,
+  getOrCreateCart,
+} from './cart.services';
+import { getAvailableStocks } from './stock.service';
+
+export const WISHLIST_NOT_FOUND = 'Wishlist item not found';
+export const WISHLIST_PRODUCT_NOT_FOUND = 'Product not found';
+export const WISHLIST_OUT_OF_STOCK = 'Product is out of stock';
+
+// Stock left to sell at the warehouse serving the customer, or at every
+// warehouse when the customer has no address yet
+const getStockByProduct = async (
+  productIds: number[],
+  warehouseId: number | null,
+) => {
+  const stocks = await getAvailableStocks(productIds);
+  const stockByProduct = new Map<number, number>();
+
+  for (const stock of stocks) {
+    if (warehouseId !== null && stock.warehouseId !== warehouseId) {
+      continue;
+    }
+    stockByProduct.set(
+      stock.productId,
+      (stockByProduct.get(stock.productId) ?? 0) + stock.availableStock,
+    );
+  }
+
+  return stockByProduct;
+};
+
+export const getWishlist = async (userId: number) => {
+  const warehouseId = await getCartWarehouseId(userId);
+  const items = await prisma.wishlist.findMany({
+    where: { userId },
+    include: {
+      product: {
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+          price: true,
+          productImages: { select: { url: true }, take: 1 },
+        },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const stockByProduct = await getStockByProduct(
+    items.map((item) => item.productId),
+    warehouseId,
+  );
+  const warehouse = warehouseId
+    ? await prisma.warehouse.findUnique({
+        where: { id: warehouseId },
+        select: { id: true, name: true },
+      })
+    : null;
+
+  return {
+    warehouse,
+    items: items.map((item) => ({
+      ...item,
+      availableStock: stockByProduct.get(item.productId) ?? 0,
+    })),
+  };
+};
+
+export const addToWishlist = async (userId: number, body: unknown) => {
+  const { productId } = validateWishlistBody.parse(body);
+
+  const product = await prisma.product.findUnique({
+    where: { id: productId, deleted: false },
+  });
+  if (!product) {
+    throw new Error(WISHLIST_PRODUCT_NOT_FOUND);
+  }
+
+  // Adding a product twice keeps the entry it already has
+  return await prisma.wishlist.upsert({
+    where: { userId_productId: { userId, productId } },
+    create: { userId, productId },
+    update: {},
+  });
+};
+
+export const removeFromWishlist = async (userId: number, productId: number) => {
+  const { count } = await prisma.wishlist.deleteMany({
+    where: { userId, productId },
+  });
+  if (count === 0) {
+    throw new Error(WISHLIST_NOT_FOUND);
+  }
+};
+
+// Puts one unit of the product in the active cart and drops the entry, as
+// long as the customer's warehouse still has one to sell
+export const moveToCart = async (userId: number, productId: number) => {
+  const entry = await prisma.wishlist.findUnique({
+    where: { userId_productId: { userId, productId } },
+  });
+  if (!entry) {
+    throw new Error(WISHLIST_NOT_FOUND);
+  }
+
+  const cart = await getOrCreateCart(userId);
+  const cartItem = cart.items.find((item) => item.productId === productId);
+  const inCart = cartItem?.quantity ?? 0;
+  const stockByProduct = await getStockByProduct(
+    [productId],
+    await getCartWarehouseId(userId),
+  );
+  if (inCart + 1 > (stockByProduct.get(productId) ?? 0)) {
+    throw new Error(WISHLIST_OUT_OF_STOCK);
+  }
+
+  if (cartItem) {
+    await CartModel.updateItem(cartItem.id, inCart + 1);
+  } else {
+    await CartModel.addItem(cart.id, productId, 1);
+  }
+  await prisma.wishlist.delete({ where: { id: entry.id } });
+
+  return { cartTotal: await calculateCartTotal(cart.id) };
+};
+
+// Takes a line out of the active cart and parks its product in the wishlist
+export const saveForLater = async (userId: number, body: unknown) => {
+  const { cartItemId } = validateSaveForLaterBody.parse(body);
+
+  const cartItem = await prisma.cartItem.findFirst({
+    where: {
+      id: cartItemId,
+      cart: { userId, isActive: true, subscriptionId: null },
+    },
+  });
+  if (!cartItem) {
+    throw new Error(CART_ITEM_NOT_FOUND);
+  }
+
+  await prisma.$transaction([
+    prisma.wishlist.upsert({
+      where: { userId_productId: { userId, productId: cartItem.productId } },
+      create: { userId, productId: cartItem.productId },
+      update: {},
+    }),
+    prisma.cartItem.delete({ where: { id: cartItem.id } }),
+  ]);
+
+  return { cartTotal: await calculateCartTotal(cartItem.cartId) };
+};
@@ -19,3 +19,65 @@ export type ResponseStock = {
     stock: number;
   };
 };
+
+export type ReorderSkipReason = 'DISCONTINUED' | 'OUT_OF_STOCK' | 'REPRICED';
+
+export type ReorderLine = {
+  productId: number;
+  name: string;
+  // Quantity on the original order and the quantity that went into the cart
+  orderedQuantity: number;
+  quantity: number;
+  price: number;
+  previousPrice: number;
+  reason?: ReorderSkipReason;
+};
+
+export type ReorderReport = {
+  added: ReorderLine[];
+  adjusted: ReorderLine[];
+  skipped: ReorderLine[];
+};
+
+export type CartWarningReason =
+  'PRICE_CHANGED' | 'INSUFFICIENT_STOCK' | 'PRODUCT_DELETED';
+
+export type CartLineWarning = {
+  itemId: number;
+  productId: number;
+  name: string;
+  reason: CartWarningReason;
+  quantity: number;
+  // Price when the line was added and the price it would be ordered at now
+  addedPrice?: number;
+  price?: number;
+  // What the warehouse serving the customer can still sell
+  availableStock?: number;
+};
+
+export type CartRevalidationReport = {
+  warehouseId: number | null;
+  warnings: CartLineWarning[];
+};
+
+export type QuickOrderStatus =
+  'ADDED' | 'ADJUSTED' | 'OUT_OF_STOCK' | 'UNKNOWN_SKU' | 'INVALID_LINE';
+
+export type QuickOrderLine = {
+  // Line number in the pasted text or the CSV file, starting at 1
+  line: number;
+  text: string;
+  status: QuickOrderStatus;
+  sku?: string;
+  requestedQuantity?: number;
+  // Quantity that went into the cart
+  quantity: number;
+  productId?: number;
+  name?: string;
+  price?: number;
+};
+
+export type QuickOrderReport = {
+  warehouseId: number | null;
+  lines: QuickOrderLine[];
+};
@@ -1,19 +1,25 @@
-import { PaymentStatus } from '@prisma/client';
+import { FulfillmentMethod, SubstitutionPreference } from '@prisma/client';
 
 export type CheckoutBody = {
-  name: string;
-  paymentStatus: PaymentStatus;
-  shippingCost: number;
-  total: number;
-  paymentMethod: string;
-  warehouseId: number;
   cartId: number;
-  addressId: number;
-  orderItems: OrderItemsBody[];
-  latitude: number;
-  longitude: number;
-  userId: number;
-  voucherId: number;
+  fulfillmentMethod?: FulfillmentMethod;
+  addressId?: number;
+  pickupWarehouseId?: number;
+  paymentMethod: string;
+  courier?: string;
+  courierService?: string;
+  voucherCode?: string;
+  expectedTotal?: number;
+  walletAmount?: number;
+  deliverySlotId?: number;
+  deliveryDate?: string;
+  substitutions?: SubstitutionPreferenceBody[];
+};
+
+export type SubstitutionPreferenceBody = {
+  productId: number;
+  preference: SubstitutionPreference;
+  substituteProductId?: number;
 };
 
 export type OrderItemsBody = {
@@ -23,6 +29,26 @@ export type OrderItemsBody = {
   total: number;
 };
 
+export type CheckoutShipment = {
+  warehouseId: number;
+  shippingCost: number;
+  items: { productId: number; quantity: number }[];
+};
+
+export type CheckoutSummary = {
+  cartId: number;
+  fulfillmentMethod: FulfillmentMethod;
+  addressId: number | null;
+  warehouseId: number;
+  voucherId: number | null;
+  items: OrderItemsBody[];
+  shipments: CheckoutShipment[];
+  subtotal: number;
+  discount: number;
+  shippingCost: number;
+  total: number;
+};
+
 export type OrderQuery = {
   page?: number;
   limit?: number;
@@ -30,10 +56,3 @@ export type OrderQuery = {
   sortBy?: string;
   orderBy?: string;
 };
-
-export type CancellationSource = CancellationStatus;
-
-export enum CancellationStatus {
-  USER = 'USER',
-  SYSTEM = 'SYSTEM',
-}
@@ -0,0 +1,43 @@
+import { IncomingHttpHeaders } from 'http';
+import { PaymentChargeStatus } from '@prisma/client';
+
+export const INVALID_WEBHOOK_SIGNATURE = 'Invalid webhook signature';
+
+// Paid to the courier, so the order ships before any payment is received
+export const COD_PAYMENT_METHOD = 'COD';
+
+// Paid online through the payment provider's hosted page
+export const GATEWAY_PAYMENT_METHOD = 'PAYMENT_GATEWAY';
+
+// Orders fully covered by the customer's store credit balance
+export const STORE_CREDIT_PAYMENT_METHOD = 'STORE_CREDIT';
+
+export type CreateChargeInput = {
+  orderId: number;
+  amount: number;
+  expiresAt: Date;
+};
+
+export type ProviderCharge = {
+  reference: string;
+  status: PaymentChargeStatus;
+  redirectUrl?: string;
+};
+
+export type PaymentWebhookEvent = {
+  reference: string;
+  status: PaymentChargeStatus;
+  amount: number;
+};
+
+// Contract every payment gateway is plugged in through
+export interface PaymentProvider {
+  name: string;
+  createCharge(input: CreateChargeInput): Promise<ProviderCharge>;
+  getChargeStatus(reference: string): Promise<PaymentChargeStatus>;
+  // Throws when the signature does not match the raw request body
+  verifyWebhook(
+    headers: IncomingHttpHeaders,
+    rawBody: string,
+  ): PaymentWebhookEvent;
+}
@@ -0,0 +1,21 @@
+import { ShipmentEventStatus } from '@prisma/client';
+
+export type TrackingQuery = {
+  courier: string;
+  waybill: string;
+  shippedAt: Date;
+};
+
+export type TrackingEvent = {
+  status: ShipmentEventStatus;
+  description: string;
+  location?: string;
+  occurredAt: Date;
+};
+
+// Contract every courier tracking service is plugged in through
+export interface TrackingProvider {
+  name: string;
+  // The whole history the courier knows about, oldest first
+  getTrackingEvents(query: TrackingQuery): Promise<TrackingEvent[]>;
+}
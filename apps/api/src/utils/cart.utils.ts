@@ -16,7 +16,7 @@ export const validateCartItem = async (
   quantity: number,
 ): Promise<boolean> => {
   const product = await prisma.product.findUnique({
-    where: { id: productId },
+    where: { id: productId, deleted: false },
     include: { productStocks: true },
   });
 
@@ -0,0 +1,33 @@
+import { transporter } from './auth.utils';
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+// Text typed by admins or customers is escaped before it goes into an email
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+
+// Order notifications are best effort, a mail outage never fails the request.
+// Callers that keep track of what was sent check the returned flag.
+export const sendMail = async (to: string, subject: string, html: string) => {
+  try {
+    await transporter.sendMail({
+      from: {
+        name: 'Hemart',
+        address: process.env.GMAIL_USER!,
+      },
+      to,
+      subject,
+      html,
+    });
+    return true;
+  } catch (error) {
+    console.log('error sending an email: ', error);
+    return false;
+  }
+};
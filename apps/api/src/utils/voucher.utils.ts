@@ -0,0 +1,55 @@
+import { DiscountType, Voucher } from '@prisma/client';
+
+export type VoucherCartItem = {
+  productId: number;
+  quantity: number;
+  price: number;
+};
+
+// Returns the reason the voucher cannot be used, or null when it is applicable.
+// Orders that already redeemed a voucher re-check it with checkExpiry off.
+export const getVoucherIneligibility = (
+  voucher: Voucher,
+  items: VoucherCartItem[],
+  { checkExpiry = true }: { checkExpiry?: boolean } = {},
+): string | null => {
+  if (checkExpiry && voucher.expiryDate < new Date()) {
+    return 'Voucher has expired';
+  }
+
+  const cartTotal = calculateItemsTotal(items);
+  if (voucher.minPurchase && cartTotal < voucher.minPurchase) {
+    return `Minimum purchase of ${voucher.minPurchase} is required to apply this voucher`;
+  }
+
+  if (
+    voucher.productId &&
+    !items.some((item) => item.productId === voucher.productId)
+  ) {
+    return 'Voucher is not applicable to any products in the cart';
+  }
+
+  return null;
+};
+
+export const calculateVoucherDiscount = (
+  voucher: Voucher,
+  items: VoucherCartItem[],
+) => {
+  const cartTotal = calculateItemsTotal(items);
+
+  let discount = 0;
+  if (voucher.discountType === DiscountType.PERCENTAGE) {
+    discount = (voucher.discountValue / 100) * cartTotal;
+    if (voucher.maxDiscount && discount > voucher.maxDiscount) {
+      discount = voucher.maxDiscount;
+    }
+  } else if (voucher.discountType === DiscountType.FIXED) {
+    discount = voucher.discountValue;
+  }
+
+  return Math.min(discount, cartTotal);
+};
+
+export const calculateItemsTotal = (items: VoucherCartItem[]) =>
+  items.reduce((total, item) => total + item.price * item.quantity, 0);
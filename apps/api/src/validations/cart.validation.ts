@@ -59,3 +59,32 @@ export const DELETE_CART_BODY = z
   .positive({
     message: 'Product ID must be a positive number!',
   });
+
+// Validation schema for changing the quantity of a guest cart item
+export const UPDATE_QUANTITY_BODY = z.object({
+  quantity: z
+    .number({
+      message: 'Quantity must be a number!',
+    })
+    .int({
+      message: 'Quantity must be an integer!',
+    })
+    .positive({
+      message: 'Quantity must be a positive number!',
+    }),
+});
+
+// Validation schema for a quick order, the pasted lines or the CSV file text
+export const QUICK_ORDER_BODY = z.object({
+  text: z
+    .string({
+      message: 'Quick order lines are required!',
+    })
+    .trim()
+    .min(1, {
+      message: 'Quick order lines are required!',
+    })
+    .max(20000, {
+      message: 'Quick order is too long, split it into several orders!',
+    }),
+});
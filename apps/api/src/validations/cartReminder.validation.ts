@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+// Unsubscribe Body Validation
+export const validateUnsubscribeBody = z.object({
+  token: z
+    .string({ message: 'Token is required!' })
+    .min(1, { message: 'Token is required!' }),
+});
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+const time = z
+  .string({ message: 'Time is required!' })
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'Time must be HH:mm!' });
+
+export const dateKey = z
+  .string({ message: 'Date is required!' })
+  .regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be YYYY-MM-DD!' });
+
+const slotFields = z.object({
+  dayOfWeek: z
+    .number({ message: 'Day of week is required!' })
+    .int()
+    .min(0, { message: 'Day of week must be between 0 and 6!' })
+    .max(6, { message: 'Day of week must be between 0 and 6!' }),
+  startTime: time,
+  endTime: time,
+  capacity: z
+    .number({ message: 'Capacity is required!' })
+    .int({ message: 'Capacity must be an integer!' })
+    .positive({ message: 'Capacity must be a positive number!' }),
+  isActive: z.boolean().optional(),
+});
+
+// HH:mm strings compare in time order
+const hasValidWindow = (slot: { startTime?: string; endTime?: string }) =>
+  !slot.startTime || !slot.endTime || slot.startTime < slot.endTime;
+
+// Delivery Slot Body Validation
+export const validateDeliverySlotBody = slotFields.refine(hasValidWindow, {
+  message: 'End time must be after start time!',
+});
+
+export const validateDeliverySlotUpdateBody = slotFields
+  .partial()
+  .refine(hasValidWindow, { message: 'End time must be after start time!' });
+
+// Delivery Slot Query Validation
+export const validateAvailableSlotsBody = z.object({
+  addressId: z
+    .number({ message: 'AddressId is required!' })
+    .int({ message: 'AddressId must be Integer!' })
+    .positive({ message: 'AddressId must be Positive number!' }),
+});
+
+export const validatePickingQuery = z.object({
+  date: dateKey,
+  warehouseId: z.coerce.number().int().positive().optional(),
+});
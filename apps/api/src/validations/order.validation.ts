@@ -1,48 +1,152 @@
 import { z } from 'zod';
+import {
+  CancellationReason,
+  FulfillmentMethod,
+  PaymentProofRejectionReason,
+  SubstitutionPreference,
+} from '@prisma/client';
+import { dateKey } from './deliverySlot.validation';
 
 const MAX_FILE_SIZE = 1 * 1024 * 1024;
 const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png'];
 
+// Substitution Preference Validation
+const substitutionPreference = z
+  .object({
+    productId: z.number().int().positive(),
+    preference: z.nativeEnum(SubstitutionPreference, {
+      message: 'Substitution preference is required!',
+    }),
+    substituteProductId: z.number().int().positive().optional(),
+  })
+  .refine(
+    (line) =>
+      (line.preference === SubstitutionPreference.SPECIFIC) ===
+      !!line.substituteProductId,
+    { message: 'Choose the product to substitute with!' },
+  )
+  .refine((line) => line.substituteProductId !== line.productId, {
+    message: 'A product cannot substitute itself!',
+  });
+
 // Checkout Body Validation
-export const validateCheckoutBody = z.object({
-  name: z.string({ message: 'Name is required!' }).min(1),
-  paymentStatus: z.enum([
-    'UNPAID',
-    'PAID',
-    'PROCESSING',
-    'SHIPPED',
-    'DELIVERED',
-    'CANCELED',
-  ]),
-  shippingCost: z.number({ message: 'ShippingCost is required!' }),
-  total: z.number({ message: 'Total is required!' }),
-  paymentMethod: z.string({ message: 'Payment Method is required!' }).min(1),
-  warehouseId: z
-    .number({ message: 'warehouseId is required!' })
-    .int({ message: 'warehouseId must be Integer!' })
-    .positive({ message: 'warehouseId must be Positive number!' }),
-  cartId: z
-    .number({ message: 'CartId is required!' })
-    .int({ message: 'CartId must be Integer!' })
-    .positive({ message: 'CartId must be Positive number!' }),
+export const validateCheckoutBody = z
+  .object({
+    cartId: z
+      .number({ message: 'CartId is required!' })
+      .int({ message: 'CartId must be Integer!' })
+      .positive({ message: 'CartId must be Positive number!' }),
+    fulfillmentMethod: z
+      .nativeEnum(FulfillmentMethod)
+      .default(FulfillmentMethod.DELIVERY),
+    addressId: z
+      .number({ message: 'AddressId is required!' })
+      .int({ message: 'AddressId must be Integer!' })
+      .positive({ message: 'AddressId must be Positive number!' })
+      .optional(),
+    pickupWarehouseId: z
+      .number({ message: 'Pickup store must be a number!' })
+      .int()
+      .positive({ message: 'Pickup store must be a positive number!' })
+      .optional(),
+    paymentMethod: z.string({ message: 'Payment Method is required!' }).min(1),
+    courier: z.string({ message: 'Courier is required!' }).min(1).optional(),
+    courierService: z
+      .string({ message: 'Courier Service is required!' })
+      .min(1)
+      .optional(),
+    voucherCode: z.string().min(1).optional(),
+    expectedTotal: z.number().nonnegative().optional(),
+    walletAmount: z
+      .number({ message: 'Store credit amount must be a number!' })
+      .nonnegative({ message: 'Store credit amount must not be negative!' })
+      .optional(),
+    deliverySlotId: z.number().int().positive().optional(),
+    deliveryDate: dateKey.optional(),
+    substitutions: z.array(substitutionPreference).optional(),
+  })
+  .refine((body) => !body.deliverySlotId === !body.deliveryDate, {
+    message: 'Delivery slot and delivery date must be chosen together!',
+  })
+  .refine(
+    (body) =>
+      body.fulfillmentMethod === FulfillmentMethod.PICKUP ||
+      (body.addressId && body.courier && body.courierService),
+    { message: 'Delivery address and courier service are required!' },
+  )
+  .refine(
+    (body) =>
+      body.fulfillmentMethod === FulfillmentMethod.DELIVERY ||
+      (body.pickupWarehouseId && !body.deliverySlotId),
+    { message: 'Please select a store to pick up your order!' },
+  );
+
+// Shipping Services Query Validation
+export const validateShippingQuery = z.object({
   addressId: z
     .number({ message: 'AddressId is required!' })
     .int({ message: 'AddressId must be Integer!' })
     .positive({ message: 'AddressId must be Positive number!' }),
-  orderProducts: z.array(
-    z.object({
-      productId: z
-        .number({ message: 'productId is required!' })
-        .int({ message: 'productId must be Integer!' })
-        .positive({ message: 'productId must be Positive number!' }),
-      quantity: z
-        .number({ message: 'quantity is required!' })
-        .int({ message: 'quantity must be Integer!' })
-        .positive({ message: 'quantity must be Positive number!' }),
-      price: z.number({ message: 'price is required!' }).nonnegative(),
-      total: z.number({ message: 'total is required!' }).nonnegative(),
-    }),
-  ),
+  courier: z.string({ message: 'Courier is required!' }).min(1),
+});
+
+// Order Item Cancellation Body Validation
+export const validateCancelItemsBody = z.object({
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.number().int().positive(),
+        quantity: z
+          .number({ message: 'Quantity must be a number!' })
+          .int({ message: 'Quantity must be an integer!' })
+          .positive({ message: 'Quantity must be a positive number!' }),
+      }),
+      { message: 'Items are required!' },
+    )
+    .min(1, { message: 'Select at least one item to cancel!' })
+    .refine(
+      (items) =>
+        new Set(items.map((item) => item.orderItemId)).size === items.length,
+      { message: 'Each item can only be listed once!' },
+    ),
+  reason: z.string().trim().max(1000).optional(),
+});
+
+// Payment Proof Rejection Body Validation
+export const validateProofRejectionBody = z.object({
+  reason: z.nativeEnum(PaymentProofRejectionReason, {
+    message: 'Rejection reason is required!',
+  }),
+  note: z.string().trim().max(1000).optional(),
+});
+
+// Admin Cancellation Body Validation
+export const validateAdminCancelBody = z.object({
+  reason: z.nativeEnum(CancellationReason, {
+    message: 'Cancellation reason is required!',
+  }),
+  note: z.string().trim().max(1000).optional(),
+});
+
+// Pickup Code Body Validation
+export const validatePickupCodeBody = z.object({
+  code: z
+    .string({ message: 'Pickup code is required!' })
+    .trim()
+    .min(1, { message: 'Pickup code is required!' })
+    .transform((code) => code.toUpperCase()),
+});
+
+// Substitute Body Validation
+export const validateSubstituteBody = z.object({
+  orderItemId: z
+    .number({ message: 'Order item is required!' })
+    .int()
+    .positive(),
+  productId: z
+    .number({ message: 'Substitute product is required!' })
+    .int()
+    .positive(),
 });
 
 // File Validation
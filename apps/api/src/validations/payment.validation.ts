@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+// Payment Charge Body Validation
+export const validateCreateChargeBody = z.object({
+  orderId: z.coerce
+    .number({ message: 'Order ID must be Number!' })
+    .int()
+    .positive({ message: 'Order ID must be a positive integer' }),
+});
+
+// Mock Gateway Outcome Validation
+export const validateMockOutcome = z.enum(['succeed', 'fail', 'expire'], {
+  message: 'Outcome must be one of succeed, fail or expire',
+});
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+// Multipart forms send the selected items as a JSON string
+const parseJsonField = (value: unknown) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// Return Request Body Validation
+export const validateReturnRequestBody = z.object({
+  orderId: z.coerce
+    .number({ message: 'Order ID must be Number!' })
+    .int()
+    .positive({ message: 'Order ID must be a positive integer' }),
+  reason: z
+    .string({ message: 'Reason is required!' })
+    .trim()
+    .min(1, { message: 'Reason is required!' })
+    .max(1000, { message: 'Reason must be at most 1000 characters!' }),
+  items: z.preprocess(
+    parseJsonField,
+    z
+      .array(
+        z.object({
+          orderItemId: z.number().int().positive(),
+          quantity: z
+            .number({ message: 'Quantity must be a number!' })
+            .int({ message: 'Quantity must be an integer!' })
+            .positive({ message: 'Quantity must be a positive number!' }),
+        }),
+        { message: 'Items are required!' },
+      )
+      .min(1, { message: 'Select at least one item to return!' })
+      .refine(
+        (items) =>
+          new Set(items.map((item) => item.orderItemId)).size === items.length,
+        { message: 'Each item can only be listed once!' },
+      ),
+  ),
+});
+
+// Return Review Body Validation
+export const validateReturnApprovalBody = z.object({
+  restock: z.boolean({ message: 'Restock must be true or false!' }),
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const validateReturnRejectionBody = z.object({
+  note: z
+    .string({ message: 'A rejection note is required!' })
+    .trim()
+    .min(1, { message: 'A rejection note is required!' })
+    .max(1000),
+});
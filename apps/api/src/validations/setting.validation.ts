@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import cron from 'node-cron';
+
+// Setting Value Validations, picked per key by setting.service
+export const settingMinutes = z
+  .number({ message: 'Value must be a number of minutes!' })
+  .int({ message: 'Minutes must be an integer!' })
+  .positive({ message: 'Minutes must be a positive number!' });
+
+export const settingDays = z
+  .number({ message: 'Value must be a number of days!' })
+  .int({ message: 'Days must be an integer!' })
+  .positive({ message: 'Days must be a positive number!' });
+
+export const settingHours = z
+  .number({ message: 'Value must be a number of hours!' })
+  .int({ message: 'Hours must be an integer!' })
+  .positive({ message: 'Hours must be a positive number!' });
+
+export const settingCount = z
+  .number({ message: 'Value must be a number!' })
+  .int({ message: 'Value must be an integer!' })
+  .min(0, { message: 'Value cannot be negative!' });
+
+export const settingCronSchedule = z
+  .string({ message: 'Schedule is required!' })
+  .trim()
+  .refine((schedule) => cron.validate(schedule), {
+    message: 'Schedule must be a valid cron expression!',
+  });
+
+// Setting Update Body Validation, the value itself is checked per key
+export const validateSettingBody = z.object({
+  value: z.unknown().refine((value) => value !== undefined, {
+    message: 'Value is required!',
+  }),
+});
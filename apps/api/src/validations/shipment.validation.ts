@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { ShipmentEventStatus } from '@prisma/client';
+
+// Ship Body Validation
+export const validateShipBody = z.object({
+  courier: z
+    .string({ message: 'Courier is required!' })
+    .trim()
+    .min(1, { message: 'Courier is required!' })
+    .max(50),
+  courierService: z
+    .string({ message: 'Courier service is required!' })
+    .trim()
+    .min(1, { message: 'Courier service is required!' })
+    .max(50),
+  waybill: z
+    .string({ message: 'Waybill number is required!' })
+    .trim()
+    .min(1, { message: 'Waybill number is required!' })
+    .max(100),
+});
+
+// Shipment Event Body Validation
+export const validateShipmentEventBody = z.object({
+  status: z.nativeEnum(ShipmentEventStatus, {
+    message: 'Tracking status is required!',
+  }),
+  description: z.string().trim().max(1000).optional(),
+  location: z.string().trim().max(191).optional(),
+  occurredAt: z.coerce
+    .date({ message: 'Event time must be a valid date!' })
+    .optional(),
+});
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { SubscriptionCadence } from '@prisma/client';
+
+const subscriptionItems = z
+  .array(
+    z.object({
+      productId: z
+        .number({ message: 'Product ID must be a number!' })
+        .int()
+        .positive({ message: 'Product ID must be a positive integer' }),
+      quantity: z
+        .number({ message: 'Quantity must be a number!' })
+        .int({ message: 'Quantity must be an integer!' })
+        .positive({ message: 'Quantity must be a positive number!' }),
+    }),
+    { message: 'Items are required!' },
+  )
+  .min(1, { message: 'A subscription needs at least one item!' })
+  .refine(
+    (items) =>
+      new Set(items.map((item) => item.productId)).size === items.length,
+    { message: 'Each product can only be listed once!' },
+  );
+
+// Subscription Body Validation
+export const validateSubscriptionBody = z.object({
+  addressId: z
+    .number({ message: 'AddressId is required!' })
+    .int({ message: 'AddressId must be Integer!' })
+    .positive({ message: 'AddressId must be Positive number!' }),
+  cadence: z.nativeEnum(SubscriptionCadence, {
+    message: 'Cadence must be WEEKLY or BIWEEKLY!',
+  }),
+  startDate: z.coerce.date({ message: 'Start date is required!' }),
+  courier: z.string({ message: 'Courier is required!' }).min(1),
+  courierService: z.string({ message: 'Courier Service is required!' }).min(1),
+  voucherCode: z.string().trim().min(1).optional(),
+  items: subscriptionItems,
+});
+
+// Subscription Update Body Validation, every field is optional
+export const validateSubscriptionUpdateBody = z.object({
+  addressId: z
+    .number({ message: 'AddressId must be a number!' })
+    .int()
+    .positive()
+    .optional(),
+  cadence: z
+    .nativeEnum(SubscriptionCadence, {
+      message: 'Cadence must be WEEKLY or BIWEEKLY!',
+    })
+    .optional(),
+  courier: z.string().min(1).optional(),
+  courierService: z.string().min(1).optional(),
+  voucherCode: z.string().trim().min(1).nullable().optional(),
+  paused: z.boolean({ message: 'Paused must be true or false!' }).optional(),
+  items: subscriptionItems.optional(),
+});
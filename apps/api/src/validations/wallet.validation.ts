@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+// Wallet Adjustment Body Validation
+export const validateWalletAdjustmentBody = z.object({
+  amount: z
+    .number({ message: 'Amount must be a number!' })
+    .refine((amount) => amount !== 0, {
+      message: 'Amount must not be zero!',
+    }),
+  reason: z
+    .string({ message: 'A reason is required!' })
+    .trim()
+    .min(1, { message: 'A reason is required!' })
+    .max(1000, { message: 'Reason must be at most 1000 characters!' }),
+});
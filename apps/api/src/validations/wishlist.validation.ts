@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+// Wishlist Body Validation
+export const validateWishlistBody = z.object({
+  productId: z
+    .number({ message: 'Product ID must be a number!' })
+    .int({ message: 'Product ID must be an integer!' })
+    .positive({ message: 'Product ID must be a positive number!' }),
+});
+
+// Save For Later Body Validation
+export const validateSaveForLaterBody = z.object({
+  cartItemId: z
+    .number({ message: 'Cart item ID must be a number!' })
+    .int({ message: 'Cart item ID must be an integer!' })
+    .positive({ message: 'Cart item ID must be a positive number!' }),
+});
@@ -2,6 +2,7 @@
 
 import axios from 'axios';
 import { cookies } from 'next/headers';
+import { DeliverySlotInput } from '@/types/order';
 
 const API_URL = process.env.BASE_API_ADMIN;
 
@@ -54,6 +55,480 @@ export const getAllOrders = async (
   }
 };
 
+export const shipOrderShipment = async (
+  shipmentId: number,
+  data: { courier: string; courierService: string; waybill: string },
+) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.post(
+      `${process.env.NEXT_PUBLIC_BASE_API_URL}/orders/shipments/${shipmentId}/ship`,
+      data,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    let errorMessage = 'Failed to ship parcel';
+
+    if (error.response && error.response.data && error.response.data.message) {
+      errorMessage = error.response.data.message;
+    }
+
+    return {
+      ok: false,
+      message: errorMessage,
+      error: error.message,
+    };
+  }
+};
+
+export const addShipmentEvent = async (
+  shipmentId: number,
+  data: { status: string; description?: string; location?: string },
+) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.post(
+      `${process.env.NEXT_PUBLIC_BASE_API_URL}/orders/shipments/${shipmentId}/events`,
+      data,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    let errorMessage = 'Failed to add tracking event';
+
+    if (error.response && error.response.data && error.response.data.message) {
+      errorMessage = error.response.data.message;
+    }
+
+    return {
+      ok: false,
+      message: errorMessage,
+    };
+  }
+};
+
+export const confirmCodCollected = async (orderId: number) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.post(
+      `${process.env.NEXT_PUBLIC_BASE_API_URL}/orders/${orderId}/cod-collected`,
+      {},
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    let errorMessage = 'Failed to confirm cash collection';
+
+    if (error.response && error.response.data && error.response.data.message) {
+      errorMessage = error.response.data.message;
+    }
+
+    return {
+      ok: false,
+      message: errorMessage,
+      error: error.message,
+    };
+  }
+};
+
+export const markReadyForPickup = async (orderId: number) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.post(
+      `${process.env.NEXT_PUBLIC_BASE_API_URL}/orders/${orderId}/ready-for-pickup`,
+      {},
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    let errorMessage = 'Failed to mark the order ready for pickup';
+
+    if (error.response && error.response.data && error.response.data.message) {
+      errorMessage = error.response.data.message;
+    }
+
+    return {
+      ok: false,
+      message: errorMessage,
+      error: error.message,
+    };
+  }
+};
+
+export const confirmPickup = async (code: string) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.post(
+      `${process.env.NEXT_PUBLIC_BASE_API_URL}/orders/pickup/confirm`,
+      { code },
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    let errorMessage = 'Failed to confirm the pickup';
+
+    if (error.response && error.response.data && error.response.data.message) {
+      errorMessage = error.response.data.message;
+    }
+
+    return {
+      ok: false,
+      message: errorMessage,
+      error: error.message,
+    };
+  }
+};
+
+export const getSubstituteCandidates = async (
+  orderId: number,
+  orderItemId: number,
+) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.get(
+      `${process.env.NEXT_PUBLIC_BASE_API_URL}/orders/${orderId}/items/${orderItemId}/substitutes`,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    const errorMessage =
+      error.response?.data?.message || 'Failed to get substitutes';
+    return {
+      ok: false,
+      message: errorMessage,
+    };
+  }
+};
+
+export const substituteOrderItem = async (
+  orderId: number,
+  data: { orderItemId: number; productId: number },
+) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.post(
+      `${process.env.NEXT_PUBLIC_BASE_API_URL}/orders/${orderId}/substitute`,
+      data,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    let errorMessage = 'Failed to substitute item';
+
+    if (error.response && error.response.data && error.response.data.message) {
+      errorMessage = error.response.data.message;
+    }
+
+    return {
+      ok: false,
+      message: errorMessage,
+      error: error.message,
+    };
+  }
+};
+
+export const cancelOrderByAdmin = async (
+  orderId: number,
+  data: { reason: string; note?: string },
+) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.post(
+      `${process.env.NEXT_PUBLIC_BASE_API_URL}/orders/${orderId}/admin-cancel`,
+      data,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    let errorMessage = 'Failed to cancel order';
+
+    if (error.response && error.response.data && error.response.data.message) {
+      errorMessage = error.response.data.message;
+    }
+
+    return {
+      ok: false,
+      message: errorMessage,
+    };
+  }
+};
+
+export const cancelOrderItems = async (
+  orderId: number,
+  data: {
+    items: Array<{ orderItemId: number; quantity: number }>;
+    reason?: string;
+  },
+) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.post(
+      `${process.env.NEXT_PUBLIC_BASE_API_URL}/orders/${orderId}/cancel-items`,
+      data,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    let errorMessage = 'Failed to cancel order items';
+
+    if (error.response && error.response.data && error.response.data.message) {
+      errorMessage = error.response.data.message;
+    }
+
+    return {
+      ok: false,
+      message: errorMessage,
+      error: error.message,
+    };
+  }
+};
+
+export const getReturnRequests = async (
+  page: number,
+  limit: number,
+  status?: string,
+) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    let url = `${process.env.NEXT_PUBLIC_BASE_API_URL}/returns?page=${page}&limit=${limit}`;
+    if (status) {
+      url += `&status=${status}`;
+    }
+    const res = await axios.get(url, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    const errorMessage =
+      error.response?.data?.message || 'Failed to get return requests';
+    return { ok: false, message: errorMessage };
+  }
+};
+
+// Approving refunds the customer, restock decides whether goods go back on the shelf
+export const reviewReturnRequest = async (
+  id: number,
+  decision: 'approve' | 'reject',
+  data: { restock?: boolean; note?: string },
+) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.post(
+      `${process.env.NEXT_PUBLIC_BASE_API_URL}/returns/${id}/${decision}`,
+      data,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    const errorMessage =
+      error.response?.data?.message || `Failed to ${decision} return request`;
+    return { ok: false, message: errorMessage };
+  }
+};
+
+// Rejecting keeps the order open so the customer can upload a new proof
+export const reviewPaymentProof = async (
+  orderId: number,
+  decision: 'accept' | 'reject',
+  data: { reason?: string; note?: string } = {},
+) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.post(
+      `${process.env.NEXT_PUBLIC_BASE_API_URL}/orders/${orderId}/payment-proof/${decision}`,
+      data,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    const errorMessage =
+      error.response?.data?.message || `Failed to ${decision} payment proof`;
+    return { ok: false, message: errorMessage };
+  }
+};
+
+export const getDeliverySlots = async (warehouseId?: number) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    let url = `${process.env.NEXT_PUBLIC_BASE_API_URL}/delivery-slots`;
+    if (warehouseId) {
+      url += `?warehouseId=${warehouseId}`;
+    }
+    const res = await axios.get(url, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    const errorMessage =
+      error.response?.data?.message || 'Failed to get delivery slots';
+    return { ok: false, message: errorMessage };
+  }
+};
+
+export const createDeliverySlot = async (
+  data: DeliverySlotInput,
+  warehouseId?: number,
+) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.post(
+      `${process.env.NEXT_PUBLIC_BASE_API_URL}/delivery-slots`,
+      { ...data, warehouseId },
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    const errorMessage =
+      error.response?.data?.message || 'Failed to create delivery slot';
+    return { ok: false, message: errorMessage };
+  }
+};
+
+// Slots are never deleted, switching isActive off stops new bookings
+export const updateDeliverySlot = async (
+  id: number,
+  data: Partial<DeliverySlotInput>,
+) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.put(
+      `${process.env.NEXT_PUBLIC_BASE_API_URL}/delivery-slots/${id}`,
+      data,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    const errorMessage =
+      error.response?.data?.message || 'Failed to update delivery slot';
+    return { ok: false, message: errorMessage };
+  }
+};
+
+export const getPickingList = async (date: string, warehouseId?: number) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    let url = `${process.env.NEXT_PUBLIC_BASE_API_URL}/delivery-slots/picking?date=${date}`;
+    if (warehouseId) {
+      url += `&warehouseId=${warehouseId}`;
+    }
+    const res = await axios.get(url, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    const errorMessage =
+      error.response?.data?.message || 'Failed to get picking list';
+    return { ok: false, message: errorMessage };
+  }
+};
+
 export const updateStatusOrder = async (id: number, status: string) => {
   const token = cookies().get('token')?.value;
   if (!token) {
@@ -0,0 +1,18 @@
+'use server';
+
+import axios from 'axios';
+
+const API_URL = `${process.env.NEXT_PUBLIC_BASE_API_URL}/cart-reminders`;
+
+// The signed token from the reminder email stands in for a login
+export const unsubscribeFromCartReminders = async (token: string) => {
+  try {
+    const res = await axios.post(`${API_URL}/unsubscribe`, { token });
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    return {
+      ok: false,
+      message: error.response?.data?.message || 'Failed to unsubscribe',
+    };
+  }
+};
@@ -0,0 +1,18 @@
+'use server';
+
+import axios from 'axios';
+
+const API_URL = `${process.env.NEXT_PUBLIC_BASE_API_URL}/payments`;
+
+// The gateway is only offered when the API has a payment provider configured
+export const getPaymentOptions = async () => {
+  try {
+    const res = await axios.get(`${API_URL}/options`);
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    return {
+      ok: false,
+      message: error.response?.data?.message || 'Failed to get payment options',
+    };
+  }
+};
@@ -9,6 +9,7 @@ const API_URL = process.env.BASE_API_PRODUCT;
 export interface FormDataUpdate {
   productName: string;
   productDescription: string;
+  sku: string;
   price: number;
   category: number;
   images: File[];
@@ -54,6 +55,7 @@ export const fetchProduct = async (productId: string): Promise<FormData> => {
     return {
       productName: data.name,
       productDescription: data.description,
+      sku: data.sku,
       price: data.price,
       category: data.categoryId,
       images: data.productImages,
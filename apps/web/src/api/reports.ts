@@ -56,6 +56,21 @@ export const fetchSalesData = async (month: string, warehouseId: string) => {
   }
 };
 
+export const fetchCodReconciliation = async (
+  month: string,
+  warehouseId: string,
+) => {
+  try {
+    const response = await axios.get(`${API_URL}/cod`, {
+      params: { month, warehouseId },
+    });
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching COD reconciliation:', error);
+    throw error;
+  }
+};
+
 export const fetchTopProducts = async (month: string, warehouseId: string) => {
   try {
     const response = await axios.get(`${API_URL}/products`, {
@@ -0,0 +1,76 @@
+'use server';
+
+import axios from 'axios';
+import { cookies } from 'next/headers';
+import { SettingValue } from '@/types/setting';
+
+const API_URL = `${process.env.NEXT_PUBLIC_BASE_API_URL}/settings`;
+
+export const getSettings = async () => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.get(API_URL, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    return {
+      ok: false,
+      message: error.response?.data?.message || 'Failed to get settings',
+    };
+  }
+};
+
+export const updateSetting = async (key: string, value: SettingValue) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.put(
+      `${API_URL}/${key}`,
+      { value },
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    return {
+      ok: false,
+      message: error.response?.data?.message || 'Failed to update setting',
+    };
+  }
+};
+
+export const getSettingHistory = async (
+  page: number,
+  limit: number,
+  key?: string,
+) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.get(`${API_URL}/history`, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+      params: { page, limit, key },
+    });
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    return {
+      ok: false,
+      message: error.response?.data?.message || 'Failed to get setting history',
+    };
+  }
+};
@@ -0,0 +1,117 @@
+'use server';
+
+import axios from 'axios';
+import { cookies } from 'next/headers';
+import {
+  CreateSubscriptionInput,
+  UpdateSubscriptionInput,
+} from '@/types/subscription';
+
+const API_URL = `${process.env.NEXT_PUBLIC_BASE_API_URL}/subscriptions`;
+
+export const getMySubscriptions = async () => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.get(API_URL, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    return {
+      ok: false,
+      message: error.response?.data?.message || 'Failed to get subscriptions',
+    };
+  }
+};
+
+export const createSubscription = async (data: CreateSubscriptionInput) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.post(API_URL, data, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    return {
+      ok: false,
+      message: error.response?.data?.message || 'Failed to create subscription',
+    };
+  }
+};
+
+export const updateSubscription = async (
+  subscriptionId: number,
+  data: UpdateSubscriptionInput,
+) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.patch(`${API_URL}/${subscriptionId}`, data, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    return {
+      ok: false,
+      message: error.response?.data?.message || 'Failed to update subscription',
+    };
+  }
+};
+
+export const skipSubscriptionDelivery = async (subscriptionId: number) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.post(
+      `${API_URL}/${subscriptionId}/skip`,
+      {},
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    return {
+      ok: false,
+      message: error.response?.data?.message || 'Failed to skip delivery',
+    };
+  }
+};
+
+export const cancelSubscription = async (subscriptionId: number) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.delete(`${API_URL}/${subscriptionId}`, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    return {
+      ok: false,
+      message: error.response?.data?.message || 'Failed to cancel subscription',
+    };
+  }
+};
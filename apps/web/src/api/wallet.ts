@@ -0,0 +1,80 @@
+'use server';
+
+import axios from 'axios';
+import { cookies } from 'next/headers';
+import { WalletAdjustmentInput } from '@/types/wallet';
+
+const API_URL = `${process.env.NEXT_PUBLIC_BASE_API_URL}/wallet`;
+
+export const getMyWallet = async (page: number, limit: number) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.get(API_URL, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+      params: { page, limit },
+    });
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    return {
+      ok: false,
+      message: error.response?.data?.message || 'Failed to get store credit',
+    };
+  }
+};
+
+export const getUserWallet = async (
+  userId: number,
+  page: number,
+  limit: number,
+) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.get(`${API_URL}/users/${userId}`, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+      params: { page, limit },
+    });
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    return {
+      ok: false,
+      message: error.response?.data?.message || 'Failed to get store credit',
+    };
+  }
+};
+
+export const adjustUserWallet = async (
+  userId: number,
+  data: WalletAdjustmentInput,
+) => {
+  const token = cookies().get('token')?.value;
+  if (!token) {
+    return { ok: false, message: 'Unauthenticated' };
+  }
+  try {
+    const res = await axios.post(
+      `${API_URL}/users/${userId}/adjustments`,
+      data,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    return { ok: true, data: res.data };
+  } catch (error: any) {
+    return {
+      ok: false,
+      message: error.response?.data?.message || 'Failed to adjust store credit',
+    };
+  }
+};
@@ -6,6 +6,7 @@ import { FaGoogle, FaGithub } from 'react-icons/fa';
 import { signIn } from 'next-auth/react';
 
 import Cookies from 'js-cookie';
+import { clearGuestCartToken, getGuestCartHeaders } from '@/utils/guestCart';
 
 export default function Login() {
   const [email, setEmail] = useState('');
@@ -24,6 +25,8 @@ export default function Login() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          // The cart filled before logging in is merged into the user's cart
+          ...getGuestCartHeaders(),
         },
         body: JSON.stringify({ email, password }),
       });
@@ -32,6 +35,7 @@ export default function Login() {
 
       if (res.ok) {
         Cookies.set('token', data.token, { expires: 7 }); // Set token in cookie, expires in 7 days
+        clearGuestCartToken();
 
         const dataLog = await signIn('credentials', {
           callbackUrl: '/',
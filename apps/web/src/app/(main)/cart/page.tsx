@@ -10,9 +10,23 @@ import CheckoutSummary from '@/components/CheckOutSummary';
 import { formatRupiah } from '@/utils/currencyUtils';
 import { ConfirmationDeleteCart } from '@/components/ConfirmationDeleteCart';
 import CartTable from '@/components/Cart/CartTable';
+import ReorderReport from '@/components/Cart/ReorderReport';
+import { useSession } from 'next-auth/react';
+import { useWishlist } from '@/context/WishlistContext';
 
 const CartPage = () => {
-  const { cart, fetchCart, updateItemQuantity, removeItem } = useCart();
+  const {
+    cart,
+    fetchCart,
+    updateItemQuantity,
+    removeItem,
+    acceptItemPrice,
+    revalidation,
+    reorderReport,
+    dismissReorderReport,
+  } = useCart();
+  const { data } = useSession();
+  const { saveForLater } = useWishlist();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -52,13 +66,27 @@ const CartPage = () => {
 
   if (isLoading) return <div>Loading...</div>;
   if (error) return <div>{error}</div>;
-  if (!cart || cart.items.length === 0) return <EmptyCart />;
+  if (!cart || cart.items.length === 0) {
+    return (
+      <>
+        {reorderReport && (
+          <div className="container mx-6 p-4">
+            <ReorderReport
+              report={reorderReport}
+              onDismiss={dismissReorderReport}
+            />
+          </div>
+        )}
+        <EmptyCart />
+      </>
+    );
+  }
 
   return (
     <div className="container mx-6 p-4">
       <div className="-my-4 mb-10">
         <h1 className="text-2xl font-semibold mb-4">YOUR SHOPPING CART</h1>
-        <div className="mb-8 w-fit">
+        <div className="mb-8 flex gap-6">
           <Link
             href="/"
             className="flex items-center text-gray-600 hover:text-gray-800"
@@ -66,15 +94,49 @@ const CartPage = () => {
             <ArrowLeft className="w-4 h-4 mr-2" />
             Return to shop
           </Link>
+          {data?.user && (
+            <Link
+              href="/quick-order"
+              className="text-gray-600 hover:text-gray-800"
+            >
+              Quick order by SKU
+            </Link>
+          )}
         </div>
       </div>
+      {reorderReport && (
+        <ReorderReport
+          report={reorderReport}
+          onDismiss={dismissReorderReport}
+        />
+      )}
+      {(revalidation?.warnings.length ?? 0) > 0 && (
+        <div role="alert" className="alert alert-warning mb-4">
+          <span>
+            Some items changed since you added them. Review the warnings below
+            before checking out.
+          </span>
+        </div>
+      )}
       <CartTable
         items={cart.items}
+        warnings={revalidation?.warnings ?? []}
         onUpdateQuantity={handleUpdateQuantity}
         onRemoveItem={handleRemoveItem}
+        onAcceptPrice={acceptItemPrice}
+        onRemoveUnavailable={removeItem}
+        onSaveForLater={data?.user ? saveForLater : undefined}
       />
       <div className="md:w-1/3 ml-auto">
         <CheckoutSummary />
+        {data?.user && (
+          <Link
+            href="/profile/subscriptions/new"
+            className="btn btn-outline btn-sm w-full mt-2"
+          >
+            Subscribe to This Basket
+          </Link>
+        )}
       </div>
       <ConfirmationDeleteCart
         isOpen={isModalOpen}
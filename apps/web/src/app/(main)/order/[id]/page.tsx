@@ -2,44 +2,62 @@
 
 import React, { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { Order, PaymentStatus } from '@/types/order';
+import {
+  CancelOrderItemsInput,
+  Order,
+  PaymentStatus,
+  Shipment,
+} from '@/types/order';
 import { useOrder } from '@/context/OrderContext';
 import { formatRupiah } from '@/utils/currencyUtils';
+import { formatDeliveryDate } from '@/utils/dateUtils';
 import Cookies from 'js-cookie';
 import { toast } from 'react-hot-toast';
 import StatusBadge from '@/components/StatusBadge';
+import ReturnRequestForm from '@/components/ReturnRequestForm';
+import CancelOrderItemsForm from '@/components/CancelOrderItemsForm';
+import ShipmentTimeline from '@/components/ShipmentTimeline';
 
 const OrderDetail = () => {
   const [order, setOrder] = useState<Order | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(null);
+  const [showReturnForm, setShowReturnForm] = useState(false);
+  const [showCancelItemsForm, setShowCancelItemsForm] = useState(false);
   const { id } = useParams();
   const router = useRouter();
-  const { cancelOrder, confirmOrderReceived } = useOrder();
+  const {
+    cancelOrder,
+    cancelOrderItems,
+    confirmOrderReceived,
+    confirmShipmentReceived,
+    downloadInvoice,
+    rejectSubstitute,
+  } = useOrder();
 
-  useEffect(() => {
-    const fetchOrderDetail = async () => {
-      try {
-        const response = await fetch(
-          `${process.env.NEXT_PUBLIC_BASE_API_URL}/orders/${id}`,
-          {
-            headers: {
-              Authorization: `Bearer ${Cookies.get('token')}`,
-            },
+  const fetchOrderDetail = async () => {
+    try {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_BASE_API_URL}/orders/${id}`,
+        {
+          headers: {
+            Authorization: `Bearer ${Cookies.get('token')}`,
           },
-        );
-        if (!response.ok) {
-          throw new Error('Failed to fetch order details');
-        }
-        const data = await response.json();
-        setOrder(data.order);
-      } catch (err) {
-        setError(error);
-      } finally {
-        setLoading(false);
+        },
+      );
+      if (!response.ok) {
+        throw new Error('Failed to fetch order details');
       }
-    };
+      const data = await response.json();
+      setOrder(data.order);
+    } catch (err) {
+      setError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
 
+  useEffect(() => {
     fetchOrderDetail();
   }, [id]);
 
@@ -59,6 +77,51 @@ const OrderDetail = () => {
     }
   };
 
+  const handleCancelItems = async (data: CancelOrderItemsInput) => {
+    if (!order) return;
+    const { refundAmount, voucherRemoved } = await cancelOrderItems(
+      order.id,
+      data,
+    );
+    toast.success(
+      refundAmount > 0
+        ? `Items cancelled, your total dropped by ${formatRupiah(refundAmount)}`
+        : 'Items cancelled successfully',
+    );
+    if (voucherRemoved) {
+      toast('Your voucher no longer applies and was removed.');
+    }
+    setShowCancelItemsForm(false);
+    await fetchOrderDetail();
+  };
+
+  const handleRejectSubstitute = async (orderItemId: number) => {
+    if (!order) return;
+    try {
+      const { refundAmount } = await rejectSubstitute(order.id, orderItemId);
+      toast.success(
+        refundAmount > 0
+          ? `Substitute removed, your total dropped by ${formatRupiah(refundAmount)}`
+          : 'Substitute removed from your order',
+      );
+      await fetchOrderDetail();
+    } catch (error: any) {
+      console.error('Substitute rejection failed', error);
+      toast.error(
+        error.response?.data?.message || 'Failed to reject the substitute.',
+      );
+    }
+  };
+
+  const handleDownloadInvoice = async () => {
+    if (!order) return;
+    try {
+      await downloadInvoice(order.id);
+    } catch (error) {
+      toast.error('Failed to download invoice. Please try again.');
+    }
+  };
+
   const handleConfirmReceived = async () => {
     if (!order) return;
     try {
@@ -71,6 +134,30 @@ const OrderDetail = () => {
     }
   };
 
+  const handleConfirmParcelReceived = async (shipmentId: number) => {
+    if (!order?.shipments) return;
+    try {
+      await confirmShipmentReceived(shipmentId);
+      toast.success('Parcel received confirmed successfully');
+      const shipments = order.shipments.map((shipment) =>
+        shipment.id === shipmentId
+          ? { ...shipment, status: 'DELIVERED' as Shipment['status'] }
+          : shipment,
+      );
+      const allDelivered = shipments
+        .filter((shipment) => shipment.status !== 'CANCELED')
+        .every((shipment) => shipment.status === 'DELIVERED');
+      setOrder({
+        ...order,
+        shipments,
+        paymentStatus: allDelivered ? 'DELIVERED' : order.paymentStatus,
+      });
+    } catch (error) {
+      console.error('Parcel received confirmation failed', error);
+      toast.error('Failed to confirm parcel received. Please try again.');
+    }
+  };
+
   if (loading) return <div className="loading loading-lg"></div>;
   if (error) return <div className="alert alert-error">{error}</div>;
   if (!order) return <div className="alert alert-info">Order not found</div>;
@@ -78,8 +165,44 @@ const OrderDetail = () => {
   const isPending = order.paymentStatus === 'PENDING';
   const isDelivered = order.paymentStatus === 'DELIVERED';
   const isShipped = order.paymentStatus === 'SHIPPED';
+  const isPickup = order.fulfillmentMethod === 'PICKUP';
   const isPaymentProofUploaded =
     order.paymentProof !== null && order.paymentStatus === 'PENDING';
+  // Cash on delivery is paid to the courier, there is nothing to upload
+  const isCashOnDelivery = order.paymentMethod === 'COD';
+  const awaitsPaymentProof =
+    isPending && !isPaymentProofUploaded && !isCashOnDelivery;
+  const shipments = order.shipments ?? [];
+  const latestProof = order.paymentProofs?.[0];
+  const isProofRejected =
+    isPending && !isPaymentProofUploaded && latestProof?.status === 'REJECTED';
+  const returnRequests = order.returnRequests ?? [];
+  // Quantities already under review or refunded cannot be returned again
+  const returnableItems = order.items.map((item) => ({
+    id: item.id,
+    name: item.product.name,
+    returnable:
+      item.quantity -
+      returnRequests
+        .filter((request) => request.status !== 'REJECTED')
+        .flatMap((request) => request.items)
+        .filter((returnItem) => returnItem.orderItem.id === item.id)
+        .reduce((sum, returnItem) => sum + returnItem.quantity, 0),
+  }));
+  const canRequestReturn =
+    isDelivered && returnableItems.some((item) => item.returnable > 0);
+  const activeItems = order.items.filter((item) => item.quantity > 0);
+  // Substitutes can be turned down until the order leaves the warehouse
+  const canRejectSubstitutes =
+    (isPending || order.paymentStatus === 'PAID') &&
+    !shipments.some((shipment) =>
+      ['SHIPPED', 'DELIVERED'].includes(shipment.status),
+    );
+  // Cancelling the last unit is a full cancellation, done with Cancel Order
+  const canCancelItems =
+    isPending &&
+    !isPaymentProofUploaded &&
+    activeItems.reduce((sum, item) => sum + item.quantity, 0) > 1;
 
   return (
     <div className="container mx-auto p-4">
@@ -97,13 +220,41 @@ const OrderDetail = () => {
                 <strong>Created At:</strong>{' '}
                 {new Date(order.createdAt).toLocaleString()}
               </p>
-              <p>
-                <strong>Shipping Cost:</strong>{' '}
-                {formatRupiah(order.shippingCost)}
-              </p>
+              {isPickup ? (
+                <p>
+                  <strong>Pickup Store:</strong> {order.warehouse?.name},{' '}
+                  {order.warehouse?.address}
+                </p>
+              ) : (
+                <p>
+                  <strong>Shipping Cost:</strong>{' '}
+                  {formatRupiah(order.shippingCost)}
+                </p>
+              )}
+              {order.deliverySlot && order.deliveryDate && (
+                <p>
+                  <strong>Delivery Slot:</strong>{' '}
+                  {formatDeliveryDate(order.deliveryDate)},{' '}
+                  {order.deliverySlot.startTime} - {order.deliverySlot.endTime}
+                </p>
+              )}
               <p>
                 <strong>Total:</strong> {formatRupiah(order.total)}
               </p>
+              {order.walletAmount > 0 && (
+                <>
+                  <p>
+                    <strong>Store Credit:</strong>{' '}
+                    {formatRupiah(order.walletAmount)}
+                  </p>
+                  <p>
+                    <strong>Amount Due:</strong>{' '}
+                    {formatRupiah(
+                      Math.max(order.total - order.walletAmount, 0),
+                    )}
+                  </p>
+                </>
+              )}
             </div>
             <div>
               <h3 className="text-xl font-semibold mb-2">
@@ -122,7 +273,7 @@ const OrderDetail = () => {
                   <button className="btn btn-link btn-xs">View Proof</button>
                 </p>
               )}
-              {!isPaymentProofUploaded && (
+              {!isPaymentProofUploaded && !isCashOnDelivery && (
                 <p>
                   <strong>Expires:</strong>{' '}
                   {new Date(order.expirePayment).toLocaleString()}
@@ -134,15 +285,211 @@ const OrderDetail = () => {
           <div className="mt-6">
             <h3 className="text-xl font-semibold mb-2">Order Items</h3>
             <ul className="list-disc pl-5">
-              {order.items.map((item) => (
+              {activeItems.map((item) => (
                 <li key={item.id}>
                   {item.product.name} - Quantity: {item.quantity} - Price:{' '}
                   {formatRupiah(item.price * item.quantity)}
+                  {!!item.canceledQuantity && (
+                    <span className="text-sm text-gray-500">
+                      {' '}
+                      ({item.canceledQuantity} cancelled)
+                    </span>
+                  )}
+                  {item.substitutedAt && item.originalProduct && (
+                    <span className="text-sm text-gray-500">
+                      {' '}
+                      (substitute for {item.originalProduct.name})
+                    </span>
+                  )}
+                  {item.substitutedAt && canRejectSubstitutes && (
+                    <button
+                      className="btn btn-link btn-xs"
+                      onClick={() => handleRejectSubstitute(item.id)}
+                    >
+                      Reject Substitute
+                    </button>
+                  )}
                 </li>
               ))}
+              {order.items
+                .filter((item) => item.quantity === 0)
+                .map((item) => (
+                  <li key={item.id} className="text-gray-500 line-through">
+                    {item.product.name} -{' '}
+                    {item.substitutionRejectedAt
+                      ? 'Substitute rejected'
+                      : 'Cancelled'}
+                  </li>
+                ))}
             </ul>
           </div>
 
+          {isPickup && order.paymentStatus === 'READY_FOR_PICKUP' && (
+            <div className="mt-6 border rounded-lg p-4 text-center">
+              <h3 className="text-xl font-semibold mb-2">
+                Your order is ready for pickup
+              </h3>
+              <p className="text-sm">
+                Show this code at the counter of {order.warehouse?.name}
+              </p>
+              <p className="font-mono text-4xl tracking-widest my-4">
+                {order.pickupCode}
+              </p>
+              {isCashOnDelivery && (
+                <p className="text-sm">
+                  Please bring{' '}
+                  {formatRupiah(Math.max(order.total - order.walletAmount, 0))}{' '}
+                  to pay at the counter.
+                </p>
+              )}
+              {order.readyForPickupAt && (
+                <p className="text-sm text-gray-500">
+                  Ready since{' '}
+                  {new Date(order.readyForPickupAt).toLocaleString()}, orders
+                  left uncollected are cancelled.
+                </p>
+              )}
+            </div>
+          )}
+
+          {isPickup && order.pickedUpAt && (
+            <p className="mt-6">
+              <strong>Picked Up At:</strong>{' '}
+              {new Date(order.pickedUpAt).toLocaleString()}
+            </p>
+          )}
+
+          {!isPickup && shipments.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-xl font-semibold mb-2">
+                {shipments.length > 1
+                  ? `Shipped in ${shipments.length} parcels`
+                  : 'Parcel'}
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {shipments.map((shipment, index) => (
+                  <div key={shipment.id} className="border rounded-lg p-4">
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="font-semibold">
+                        Parcel {index + 1} from {shipment.warehouse.name}
+                      </span>
+                      <span className="badge badge-outline">
+                        {shipment.status}
+                      </span>
+                    </div>
+                    <ul className="list-disc pl-5 text-sm">
+                      {shipment.items.map((item) => (
+                        <li key={item.id}>
+                          {item.orderItem.product.name} - Quantity:{' '}
+                          {item.quantity}
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-sm mt-2">
+                      <strong>Shipping Cost:</strong>{' '}
+                      {formatRupiah(shipment.shippingCost)}
+                    </p>
+                    {shipment.shippedAt && (
+                      <p className="text-sm">
+                        <strong>Shipped At:</strong>{' '}
+                        {new Date(shipment.shippedAt).toLocaleString()}
+                      </p>
+                    )}
+                    <ShipmentTimeline shipment={shipment} />
+                    {shipments.length > 1 && shipment.status === 'SHIPPED' && (
+                      <button
+                        className="btn btn-success btn-sm mt-2"
+                        onClick={() => handleConfirmParcelReceived(shipment.id)}
+                      >
+                        Confirm Parcel Received
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {returnRequests.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-xl font-semibold mb-2">Return Requests</h3>
+              <div className="space-y-3">
+                {returnRequests.map((request) => (
+                  <div key={request.id} className="border rounded-lg p-4">
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="font-semibold">
+                        Return #{request.id} -{' '}
+                        {new Date(request.createdAt).toLocaleString()}
+                      </span>
+                      <span
+                        className={`badge ${
+                          request.status === 'APPROVED'
+                            ? 'badge-success'
+                            : request.status === 'REJECTED'
+                              ? 'badge-error'
+                              : 'badge-warning'
+                        }`}
+                      >
+                        {request.status}
+                      </span>
+                    </div>
+                    <ul className="list-disc pl-5 text-sm">
+                      {request.items.map((item) => (
+                        <li key={item.id}>
+                          {item.orderItem.product.name} - Quantity:{' '}
+                          {item.quantity}
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-sm mt-2">
+                      <strong>Reason:</strong> {request.reason}
+                    </p>
+                    <p className="text-sm">
+                      <strong>Refund:</strong>{' '}
+                      {formatRupiah(request.refundAmount)}
+                    </p>
+                    {request.reviewNote && (
+                      <p className="text-sm">
+                        <strong>Note from store:</strong> {request.reviewNote}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {showReturnForm && (
+            <div className="mt-6">
+              <ReturnRequestForm
+                orderId={order.id}
+                items={returnableItems}
+                onCancel={() => setShowReturnForm(false)}
+                onSubmitted={(returnRequest) => {
+                  setShowReturnForm(false);
+                  setOrder({
+                    ...order,
+                    returnRequests: [returnRequest, ...returnRequests],
+                  });
+                }}
+              />
+            </div>
+          )}
+
+          {showCancelItemsForm && (
+            <div className="mt-6">
+              <CancelOrderItemsForm
+                items={activeItems.map((item) => ({
+                  id: item.id,
+                  name: item.product.name,
+                  cancelable: item.quantity,
+                }))}
+                onCancel={() => setShowCancelItemsForm(false)}
+                onSubmit={handleCancelItems}
+              />
+            </div>
+          )}
+
           {order.voucher && (
             <div className="mt-6">
               <h3 className="text-xl font-semibold mb-2">Applied Voucher</h3>
@@ -159,7 +506,10 @@ const OrderDetail = () => {
           )}
 
           <div className="card-actions justify-end mt-6">
-            {isPending && !isPaymentProofUploaded && (
+            <button className="btn btn-outline" onClick={handleDownloadInvoice}>
+              Download Invoice
+            </button>
+            {awaitsPaymentProof && (
               <button
                 className="btn btn-primary"
                 onClick={handleUploadPaymentProof}
@@ -167,7 +517,7 @@ const OrderDetail = () => {
                 Upload Payment Proof
               </button>
             )}
-            {isShipped && (
+            {isShipped && !isCashOnDelivery && (
               <button
                 className="btn btn-success"
                 onClick={handleConfirmReceived}
@@ -175,6 +525,22 @@ const OrderDetail = () => {
                 Confirm Received
               </button>
             )}
+            {canRequestReturn && !showReturnForm && (
+              <button
+                className="btn btn-outline"
+                onClick={() => setShowReturnForm(true)}
+              >
+                Request Return
+              </button>
+            )}
+            {canCancelItems && !showCancelItemsForm && (
+              <button
+                className="btn btn-outline btn-error"
+                onClick={() => setShowCancelItemsForm(true)}
+              >
+                Cancel Items
+              </button>
+            )}
             {['PENDING'].includes(order.paymentStatus) &&
               !isPaymentProofUploaded && (
                 <button className="btn btn-error" onClick={handleCancelOrder}>
@@ -183,11 +549,57 @@ const OrderDetail = () => {
               )}
           </div>
 
-          {isPending && !isPaymentProofUploaded && (
+          {order.paymentStatus === 'CANCELED' &&
+            order.cancellationSource === 'ADMIN' && (
+              <div className="alert alert-error mt-4">
+                <div>
+                  <p>
+                    We canceled this order because{' '}
+                    {order.cancellationReason === 'OUT_OF_STOCK'
+                      ? 'some items are out of stock.'
+                      : order.cancellationReason === 'SUSPECTED_FRAUD'
+                        ? 'it could not be verified.'
+                        : order.cancellationReason === 'ADDRESS_UNREACHABLE'
+                          ? 'the delivery address cannot be reached.'
+                          : 'you asked us to cancel it.'}
+                  </p>
+                  {order.cancellationNote && <p>{order.cancellationNote}</p>}
+                </div>
+              </div>
+            )}
+          {isProofRejected && (
+            <div className="alert alert-warning mt-4">
+              <div>
+                <p>
+                  Your payment proof was rejected:{' '}
+                  {latestProof.rejectionReason === 'WRONG_AMOUNT'
+                    ? 'the transferred amount does not match the order total.'
+                    : latestProof.rejectionReason === 'UNREADABLE'
+                      ? 'the proof could not be read.'
+                      : latestProof.rejectionReason === 'WRONG_ACCOUNT'
+                        ? 'the transfer was made to the wrong account.'
+                        : 'it could not be verified.'}
+                </p>
+                {latestProof.reviewNote && <p>{latestProof.reviewNote}</p>}
+                <p>
+                  Please upload a new proof before{' '}
+                  {new Date(order.expirePayment).toLocaleString()}.
+                </p>
+              </div>
+            </div>
+          )}
+          {awaitsPaymentProof && (
             <div className="alert alert-info mt-4">
               Please upload your payment proof to confirm your order.
             </div>
           )}
+          {isCashOnDelivery && (isPending || isShipped) && (
+            <div className="alert alert-info mt-4">
+              Please have{' '}
+              {formatRupiah(Math.max(order.total - order.walletAmount, 0))} in
+              cash ready for the courier.
+            </div>
+          )}
           {isPaymentProofUploaded && (
             <div className="alert alert-info mt-4">
               Your Payment proof is under review by admin.
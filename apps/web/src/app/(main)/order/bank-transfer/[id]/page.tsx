@@ -128,6 +128,20 @@ const OrderDetail = () => {
               <p>
                 <strong>Total:</strong> {formatRupiah(order.total)}
               </p>
+              {order.walletAmount > 0 && (
+                <>
+                  <p>
+                    <strong>Store Credit:</strong>{' '}
+                    {formatRupiah(order.walletAmount)}
+                  </p>
+                  <p>
+                    <strong>Amount Due:</strong>{' '}
+                    {formatRupiah(
+                      Math.max(order.total - order.walletAmount, 0),
+                    )}
+                  </p>
+                </>
+              )}
             </div>
             <div>
               <h3 className="text-xl font-semibold mb-2">
@@ -6,16 +6,41 @@ import { useOrder } from '@/context/OrderContext';
 import { getClosestWarehouse } from '@/api/closestWarehouse';
 import { useRouter } from 'next/navigation';
 import OrderDetails from '@/components/OrderDetail';
+import SubstitutionPreferences from '@/components/SubstitutionPreferences';
 import WithAuth from '@/components/WithAuth';
 import Image from 'next/image';
 import { paymentMethods } from '@/utils/paymentList';
 import { Toaster, toast } from 'react-hot-toast';
 import { applyVoucher } from '@/api/vouchers';
 import { useSession } from 'next-auth/react';
+import { formatRupiah } from '@/utils/currencyUtils';
+import { getMyWallet } from '@/api/wallet';
+import { getPaymentOptions } from '@/api/payment';
+import { getCheckoutDeliverySlots, getPickupStores } from '@/utils/shipping';
+import { formatDeliveryDate } from '@/utils/dateUtils';
+import {
+  DeliverySlotOption,
+  FulfillmentMethod,
+  PickupStore,
+  SubstitutionPreferenceInput,
+} from '@/types/order';
+
+interface CheckoutErrorState {
+  code?: string;
+  message: string;
+  details?: {
+    subtotal: number;
+    discount: number;
+    shippingCost: number;
+    total: number;
+    maxOrderValue?: number;
+  };
+}
 
 const OrderProcessingPage = () => {
   const { data } = useSession();
-  const { cart } = useCart();
+  const { cart, revalidation } = useCart();
+  const hasCartWarnings = (revalidation?.warnings.length ?? 0) > 0;
   const { checkout, checkStock } = useOrder();
   const [closestWarehouseId, setClosestWarehouseId] = useState<number | null>(
     null,
@@ -32,6 +57,31 @@ const OrderProcessingPage = () => {
   const [shippingCost, setShippingCost] = useState<any>(0);
   const [voucherId, setVoucherId] = useState<any>(0);
   const [userAddress, setUserAddress] = useState<any>();
+  const [courierChoice, setCourierChoice] = useState<{
+    courier: string;
+    courierService: string;
+  } | null>(null);
+  const [appliedVoucherCode, setAppliedVoucherCode] = useState<string>('');
+  const [checkoutError, setCheckoutError] = useState<CheckoutErrorState | null>(
+    null,
+  );
+  const [walletBalance, setWalletBalance] = useState<number>(0);
+  const [walletAmount, setWalletAmount] = useState<number>(0);
+  const [gatewayEnabled, setGatewayEnabled] = useState(false);
+  const [slotOptions, setSlotOptions] = useState<DeliverySlotOption[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState<DeliverySlotOption | null>(
+    null,
+  );
+  const [fulfillmentMethod, setFulfillmentMethod] =
+    useState<FulfillmentMethod>('DELIVERY');
+  const [pickupStores, setPickupStores] = useState<PickupStore[]>([]);
+  const [pickupWarehouseId, setPickupWarehouseId] = useState<number | null>(
+    null,
+  );
+  const isPickup = fulfillmentMethod === 'PICKUP';
+  const [substitutions, setSubstitutions] = useState<
+    SubstitutionPreferenceInput[]
+  >([]);
 
   const router = useRouter();
 
@@ -51,6 +101,56 @@ const OrderProcessingPage = () => {
     fetchClosestWarehouse();
   }, []);
 
+  useEffect(() => {
+    const fetchWalletBalance = async () => {
+      const res = await getMyWallet(1, 1);
+      if (res.ok) {
+        setWalletBalance(res.data.balance);
+      }
+    };
+
+    fetchWalletBalance();
+  }, []);
+
+  useEffect(() => {
+    const fetchPaymentOptions = async () => {
+      const res = await getPaymentOptions();
+      setGatewayEnabled(res.ok && res.data.gatewayEnabled);
+    };
+
+    fetchPaymentOptions();
+  }, []);
+
+  // Only the stores holding the whole cart can hand it over
+  useEffect(() => {
+    const fetchPickupStores = async () => {
+      if (!cart) return;
+      const res = await getPickupStores();
+      const stores: PickupStore[] = res?.warehouses ?? [];
+      setPickupStores(stores);
+      setPickupWarehouseId((current) =>
+        stores.some((store) => store.id === current) ? current : null,
+      );
+    };
+
+    fetchPickupStores();
+  }, [cart]);
+
+  // Slots belong to the warehouse serving the address, so they follow it
+  useEffect(() => {
+    const fetchDeliverySlots = async () => {
+      setSelectedSlot(null);
+      if (!userAddress) {
+        setSlotOptions([]);
+        return;
+      }
+      const res = await getCheckoutDeliverySlots(Number(userAddress));
+      setSlotOptions(res?.slots ?? []);
+    };
+
+    fetchDeliverySlots();
+  }, [userAddress]);
+
   useEffect(() => {
     const checkStockAvailability = async () => {
       if (closestWarehouseId && cart) {
@@ -92,6 +192,7 @@ const OrderProcessingPage = () => {
       const response = await applyVoucher(voucherCode, cart?.id as number);
       setDiscount(response.discount);
       setVoucherId(response.voucherId);
+      setAppliedVoucherCode(voucherCode);
       toast.success(response.message);
     } catch (error: any) {
       console.error('Failed to apply voucher', error);
@@ -99,7 +200,28 @@ const OrderProcessingPage = () => {
     }
   };
 
+  const orderTotal =
+    (cart?.items.reduce(
+      (sum, item) => sum + item.product.price * item.quantity,
+      0,
+    ) ?? 0) +
+    (isPickup ? 0 : Number(shippingCost)) -
+    discount;
+  // Store credit can pay part of the order or all of it
+  const appliedCredit = Math.max(
+    Math.min(walletAmount, walletBalance, orderTotal),
+    0,
+  );
+  const coveredByCredit = appliedCredit > 0 && appliedCredit >= orderTotal;
+
   const handleCheckout = async () => {
+    // Price and stock drift is resolved on the cart page first
+    if (hasCartWarnings) {
+      toast.error('Some items in your cart changed, please review them.');
+      router.push('/cart');
+      return;
+    }
+
     if (!isStockAvailable) {
       toast.error('Sorry, some items in your order are out of stock.');
       return;
@@ -110,53 +232,96 @@ const OrderProcessingPage = () => {
       return;
     }
 
-    try {
-      const total =
-        cart.items.reduce(
-          (sum, item) => sum + item.product.price * item.quantity,
-          0,
-        ) +
-        Number(shippingCost) -
-        discount;
+    if (isPickup && !pickupWarehouseId) {
+      toast.error('Please select a pickup store.');
+      return;
+    }
 
-      const expirePayment = new Date();
-      expirePayment.setHours(expirePayment.getHours() + 1);
+    if (!isPickup && (!userAddress || !courierChoice)) {
+      toast.error('Please select a delivery address and service.');
+      return;
+    }
+
+    if (!isPickup && slotOptions.length > 0 && !selectedSlot) {
+      toast.error('Please select a delivery slot.');
+      return;
+    }
+
+    if (
+      substitutions.some(
+        (line) => line.preference === 'SPECIFIC' && !line.substituteProductId,
+      )
+    ) {
+      toast.error('Please choose the substitute products.');
+      return;
+    }
 
+    try {
+      // Prices are recomputed by the API, the total is only sent to detect drift
       const orderData = {
-        name: `Order-${Date.now()}`,
-        paymentStatus: 'PENDING',
-        shippingCost: Number(shippingCost),
-        total: Number(total),
-        paymentMethod:
-          paymentMethod === 'BANK_TRANSFER' ? selectedBank : 'PAYMENT_GATEWAY',
-        warehouseId: closestWarehouseId,
         cartId: cart.id,
-        addressId: Number(userAddress),
-        orderItems: cart.items.map((item) => ({
-          productId: item.product.id,
-          quantity: item.quantity,
-          price: item.product.price,
-          total: item.product.price * item.quantity,
-        })),
-        expirePayment: expirePayment.toISOString(),
-        ...(voucherId ? { voucherId: voucherId } : {}),
+        paymentMethod: coveredByCredit
+          ? 'STORE_CREDIT'
+          : paymentMethod === 'BANK_TRANSFER'
+            ? selectedBank
+            : paymentMethod,
+        expectedTotal: Number(orderTotal),
+        ...(isPickup
+          ? { fulfillmentMethod, pickupWarehouseId }
+          : {
+              addressId: Number(userAddress),
+              courier: courierChoice?.courier,
+              courierService: courierChoice?.courierService,
+            }),
+        ...(appliedCredit > 0 ? { walletAmount: appliedCredit } : {}),
+        ...(!isPickup && selectedSlot
+          ? {
+              deliverySlotId: selectedSlot.deliverySlotId,
+              deliveryDate: selectedSlot.date,
+            }
+          : {}),
+        ...(substitutions.length > 0 ? { substitutions } : {}),
+        ...(voucherId && appliedVoucherCode
+          ? { voucherCode: appliedVoucherCode }
+          : {}),
       };
 
+      setCheckoutError(null);
       const response = await checkout(orderData);
       setOrderId(response.orderId);
 
       toast.success('Order placed successfully!');
 
-      if (paymentMethod === 'PAYMENT_GATEWAY') {
+      if (coveredByCredit) {
+        router.push(`/order/${response.orderId}`);
+      } else if (paymentMethod === 'PAYMENT_GATEWAY') {
         router.push(`/order/payment-gateway/${response.orderId}`);
       } else if (paymentMethod === 'BANK_TRANSFER') {
         router.push(`/order/bank-transfer/${response.orderId}`);
+      } else if (paymentMethod === 'COD') {
+        router.push(`/order/${response.orderId}`);
       } else {
         router.push('/');
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Checkout failed', error);
-      toast.error('Failed to process your order. Please try again.');
+      const data = error.response?.data;
+      if (data?.code) {
+        setCheckoutError({
+          code: data.code,
+          message: data.message,
+          details: data.details,
+        });
+        toast.error(data.message);
+        // The slot filled up meanwhile, offer what is left
+        if (data.code === 'SLOT_UNAVAILABLE') {
+          setSelectedSlot(null);
+          const res = await getCheckoutDeliverySlots(Number(userAddress));
+          setSlotOptions(res?.slots ?? []);
+        }
+      } else {
+        toast.error('Failed to process your order. Please try again.');
+      }
     }
   };
 
@@ -164,6 +329,48 @@ const OrderProcessingPage = () => {
     <div className="container mx-auto p-4">
       <Toaster position="top-center" reverseOrder={false} />
       <h1 className="text-2xl font-bold mb-4">Order Processing</h1>
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div
+          className={`btn ${!isPickup ? 'btn-primary' : 'btn-outline'}`}
+          onClick={() => setFulfillmentMethod('DELIVERY')}
+        >
+          Delivery
+        </div>
+        <div
+          className={`btn ${isPickup ? 'btn-primary' : 'btn-outline'}`}
+          onClick={() => setFulfillmentMethod('PICKUP')}
+        >
+          Store Pickup
+        </div>
+      </div>
+      {isPickup && (
+        <div className="mb-4">
+          <label className="label">
+            <span className="label-text font-semibold">Pickup Store:</span>
+          </label>
+          {pickupStores.length === 0 ? (
+            <p className="text-sm">
+              No store has every item of your cart in stock, please choose
+              delivery instead.
+            </p>
+          ) : (
+            <select
+              className="select select-bordered w-full"
+              value={pickupWarehouseId ?? ''}
+              onChange={(e) => setPickupWarehouseId(Number(e.target.value))}
+            >
+              <option value="" disabled>
+                Choose where to collect your order
+              </option>
+              {pickupStores.map((store) => (
+                <option key={store.id} value={store.id}>
+                  {store.name} - {store.address}, {store.city.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
       {cart && (
         <OrderDetails
           cart={cart}
@@ -171,8 +378,97 @@ const OrderProcessingPage = () => {
           discount={discount}
           GetShippingCost={getShippingCost}
           setUserAddress={getUserAddressId}
+          setCourierChoice={setCourierChoice}
+          isPickup={isPickup}
         />
       )}
+      {!isPickup && slotOptions.length > 0 && (
+        <div className="mb-4">
+          <label className="label">
+            <span className="label-text font-semibold">Delivery Slot:</span>
+          </label>
+          <select
+            className="select select-bordered w-full"
+            value={
+              selectedSlot
+                ? `${selectedSlot.deliverySlotId}|${selectedSlot.date}`
+                : ''
+            }
+            onChange={(e) =>
+              setSelectedSlot(
+                slotOptions.find(
+                  (option) =>
+                    `${option.deliverySlotId}|${option.date}` ===
+                    e.target.value,
+                ) ?? null,
+              )
+            }
+          >
+            <option value="" disabled>
+              Choose when your order should arrive
+            </option>
+            {slotOptions.map((option) => (
+              <option
+                key={`${option.deliverySlotId}|${option.date}`}
+                value={`${option.deliverySlotId}|${option.date}`}
+              >
+                {formatDeliveryDate(option.date)}, {option.startTime} -{' '}
+                {option.endTime} ({option.remaining} left)
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      {cart && cart.items.length > 0 && (
+        <SubstitutionPreferences
+          items={cart.items}
+          value={substitutions}
+          onChange={setSubstitutions}
+        />
+      )}
+      {checkoutError && (
+        <div
+          role="alert"
+          className="alert alert-warning mb-4 flex-col items-start"
+        >
+          <span className="font-semibold">{checkoutError.message}</span>
+          {checkoutError.details && (
+            <div className="w-full text-sm">
+              <div className="flex justify-between">
+                <span>Subtotal</span>
+                <span>{formatRupiah(checkoutError.details.subtotal)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Shipping</span>
+                <span>{formatRupiah(checkoutError.details.shippingCost)}</span>
+              </div>
+              {checkoutError.details.discount > 0 && (
+                <div className="flex justify-between">
+                  <span>Discount</span>
+                  <span>-{formatRupiah(checkoutError.details.discount)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-semibold">
+                <span>Total</span>
+                <span>{formatRupiah(checkoutError.details.total)}</span>
+              </div>
+            </div>
+          )}
+          {checkoutError.code === 'SLOT_UNAVAILABLE' && (
+            <span className="text-sm">
+              Please choose another delivery slot.
+            </span>
+          )}
+          {checkoutError.code === 'COD_UNAVAILABLE' && (
+            <span className="text-sm">
+              {checkoutError.details?.maxOrderValue
+                ? `Cash on delivery is available for orders up to ${formatRupiah(checkoutError.details.maxOrderValue)}. `
+                : ''}
+              Please choose another payment method.
+            </span>
+          )}
+        </div>
+      )}
       {/* Voucher Code Input */}
       <div className="mb-4">
         <label className="label">
@@ -191,6 +487,41 @@ const OrderProcessingPage = () => {
           </button>
         </div>
       </div>
+      {walletBalance > 0 && (
+        <div className="mb-4">
+          <label className="label">
+            <span className="label-text font-semibold">
+              Store Credit ({formatRupiah(walletBalance)} available):
+            </span>
+          </label>
+          <div className="flex">
+            <input
+              type="number"
+              min={0}
+              max={walletBalance}
+              value={walletAmount || ''}
+              onChange={(e) => setWalletAmount(Number(e.target.value) || 0)}
+              placeholder="Amount of store credit to use"
+              className="input input-bordered flex-1 mr-2"
+            />
+            <button
+              onClick={() =>
+                setWalletAmount(Math.min(walletBalance, orderTotal))
+              }
+              className="btn btn-outline"
+            >
+              Use Maximum
+            </button>
+          </div>
+          {appliedCredit > 0 && (
+            <p className="text-sm mt-2">
+              {coveredByCredit
+                ? 'Your store credit covers the whole order.'
+                : `${formatRupiah(appliedCredit)} is paid with store credit, ${formatRupiah(orderTotal - appliedCredit)} remains to be paid.`}
+            </p>
+          )}
+        </div>
+      )}
       <div className="mb-4">
         <label className="label">
           <span className="label-text font-semibold">Payment Method:</span>
@@ -205,21 +536,32 @@ const OrderProcessingPage = () => {
           >
             <span>Bank Transfer</span>
           </div>
+          {gatewayEnabled && (
+            <div
+              className={`btn ${paymentMethod === 'PAYMENT_GATEWAY' ? 'btn-primary' : 'btn-outline'} flex items-center justify-center`}
+              onClick={() => {
+                setPaymentMethod('PAYMENT_GATEWAY');
+                setSelectedBank('');
+              }}
+            >
+              <Image
+                src="/icons/doku.png"
+                alt="Doku"
+                width={32}
+                height={32}
+                className="mr-2"
+              />
+              <span>Doku Payment Gateway</span>
+            </div>
+          )}
           <div
-            className={`btn ${paymentMethod === 'PAYMENT_GATEWAY' ? 'btn-primary' : 'btn-outline'} flex items-center justify-center`}
+            className={`btn ${paymentMethod === 'COD' ? 'btn-primary' : 'btn-outline'} flex items-center justify-center`}
             onClick={() => {
-              setPaymentMethod('PAYMENT_GATEWAY');
+              setPaymentMethod('COD');
               setSelectedBank('');
             }}
           >
-            <Image
-              src="/icons/doku.png"
-              alt="Doku"
-              width={32}
-              height={32}
-              className="mr-2"
-            />
-            <span>Doku Payment Gateway</span>
+            <span>{isPickup ? 'Pay at Pickup' : 'Cash on Delivery'}</span>
           </div>
         </div>
 
@@ -252,9 +594,14 @@ const OrderProcessingPage = () => {
       <button
         onClick={handleCheckout}
         disabled={
+          hasCartWarnings ||
           !isStockAvailable ||
-          !paymentMethod ||
-          (paymentMethod === 'BANK_TRANSFER' && !selectedBank)
+          (isPickup
+            ? !pickupWarehouseId
+            : slotOptions.length > 0 && !selectedSlot) ||
+          (!coveredByCredit &&
+            (!paymentMethod ||
+              (paymentMethod === 'BANK_TRANSFER' && !selectedBank)))
         }
         className="btn btn-primary w-full mt-4"
       >
@@ -2,7 +2,9 @@
 import React, { useState, useEffect } from 'react';
 import axios from 'axios';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import { useOrder } from '@/context/OrderContext';
+import { useCart } from '@/context/CartContext';
 import { Order } from '@/types/order';
 import WithAuth from '@/components/WithAuth';
 import { formatRupiah } from '@/utils/currencyUtils';
@@ -25,6 +27,9 @@ const OrderListPage = () => {
   const [sortOrder, setSortOrder] = useState('desc');
   const [dateRange, setDateRange] = useState('all');
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [reorderingId, setReorderingId] = useState<number | null>(null);
+  const { reorder } = useCart();
+  const router = useRouter();
 
   const formatDateForAPI = (dateString: string) => {
     if (!dateString) return '';
@@ -112,6 +117,20 @@ const OrderListPage = () => {
     fetchOrders();
   };
 
+  const handleBuyAgain = async (orderId: number) => {
+    setReorderingId(orderId);
+    try {
+      await reorder(orderId);
+      router.push('/cart');
+    } catch (error: any) {
+      toast.error(
+        error.response?.data?.error || 'Failed to copy the order to your cart',
+      );
+    } finally {
+      setReorderingId(null);
+    }
+  };
+
   const handleSort = (field: string) => {
     if (field === sortBy) {
       setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
@@ -214,6 +233,13 @@ const OrderListPage = () => {
                     >
                       View Details
                     </Link>
+                    <button
+                      className="btn btn-outline btn-sm"
+                      onClick={() => handleBuyAgain(order.id)}
+                      disabled={reorderingId !== null}
+                    >
+                      {reorderingId === order.id ? 'Adding...' : 'Buy Again'}
+                    </button>
                   </td>
                 </tr>
               ))}
@@ -2,7 +2,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { Order } from '@/types/order';
+import { MockPaymentOutcome, Order, PaymentCharge } from '@/types/order';
 import { useOrder } from '@/context/OrderContext';
 import { formatRupiah } from '@/utils/currencyUtils';
 import Cookies from 'js-cookie';
@@ -13,33 +13,40 @@ const OrderDetail = () => {
   const [order, setOrder] = useState<Order | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(null);
+  const [charge, setCharge] = useState<PaymentCharge | null>(null);
+  const [isPaying, setIsPaying] = useState(false);
   const { id } = useParams();
   const router = useRouter();
-  const { cancelOrder, confirmOrderPayment } = useOrder();
+  const {
+    cancelOrder,
+    createPaymentCharge,
+    refreshPaymentCharge,
+    simulatePayment,
+  } = useOrder();
 
-  useEffect(() => {
-    const fetchOrderDetail = async () => {
-      try {
-        const response = await fetch(
-          `${process.env.NEXT_PUBLIC_BASE_API_URL}/orders/${id}`,
-          {
-            headers: {
-              Authorization: `Bearer ${Cookies.get('token')}`,
-            },
+  const fetchOrderDetail = async () => {
+    try {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_BASE_API_URL}/orders/${id}`,
+        {
+          headers: {
+            Authorization: `Bearer ${Cookies.get('token')}`,
           },
-        );
-        if (!response.ok) {
-          throw new Error('Failed to fetch order details');
-        }
-        const data = await response.json();
-        setOrder(data.order);
-      } catch (err) {
-        setError(error);
-      } finally {
-        setLoading(false);
+        },
+      );
+      if (!response.ok) {
+        throw new Error('Failed to fetch order details');
       }
-    };
+      const data = await response.json();
+      setOrder(data.order);
+    } catch (err) {
+      setError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
 
+  useEffect(() => {
     fetchOrderDetail();
   }, [id]);
 
@@ -47,15 +54,59 @@ const OrderDetail = () => {
     router.push(`/order/payment-upload?orderId=${id}`);
   };
 
-  const handleConfirmPayment = async () => {
+  const handleChargeResult = async (updatedCharge: PaymentCharge) => {
+    setCharge(updatedCharge);
+    if (updatedCharge.status === 'SUCCEEDED') {
+      toast.success('Payment confirmed successfully');
+      router.push(`/order/success?orderId=${updatedCharge.orderId}`);
+    } else if (updatedCharge.status === 'PENDING') {
+      toast('Payment is still being processed.');
+    } else {
+      toast.error(
+        updatedCharge.status === 'EXPIRED'
+          ? 'Payment expired.'
+          : 'Payment failed.',
+      );
+      await fetchOrderDetail();
+    }
+  };
+
+  const handlePay = async () => {
     if (!order) return;
     try {
-      await confirmOrderPayment(order.id);
-      toast.success('Payment confirmed successfully');
-      router.push(`/order/success?orderId=${order.id}`);
+      setIsPaying(true);
+      const newCharge = await createPaymentCharge(order.id);
+      // Real gateways host their own payment page
+      if (newCharge.redirectUrl) {
+        window.location.href = newCharge.redirectUrl;
+        return;
+      }
+      setCharge(newCharge);
+    } catch (error) {
+      console.error('Payment charge creation failed', error);
+      toast.error('Failed to start payment. Please try again.');
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  const handleCheckStatus = async () => {
+    if (!charge) return;
+    try {
+      await handleChargeResult(await refreshPaymentCharge(charge.id));
+    } catch (error) {
+      console.error('Payment status check failed', error);
+      toast.error('Failed to check payment status.');
+    }
+  };
+
+  const handleSimulate = async (outcome: MockPaymentOutcome) => {
+    if (!charge) return;
+    try {
+      await handleChargeResult(await simulatePayment(charge.id, outcome));
     } catch (error) {
-      console.error('Payment confirmation failed', error);
-      toast.error('Failed to confirm payment. Please try again.');
+      console.error('Payment simulation failed', error);
+      toast.error('Failed to simulate payment.');
     }
   };
 
@@ -102,6 +153,20 @@ const OrderDetail = () => {
               <p>
                 <strong>Total:</strong> {formatRupiah(order.total)}
               </p>
+              {order.walletAmount > 0 && (
+                <>
+                  <p>
+                    <strong>Store Credit:</strong>{' '}
+                    {formatRupiah(order.walletAmount)}
+                  </p>
+                  <p>
+                    <strong>Amount Due:</strong>{' '}
+                    {formatRupiah(
+                      Math.max(order.total - order.walletAmount, 0),
+                    )}
+                  </p>
+                </>
+              )}
             </div>
             <div>
               <h3 className="text-xl font-semibold mb-2">
@@ -155,13 +220,61 @@ const OrderDetail = () => {
             </div>
           )}
 
+          {charge && isPending && (
+            <div className="mt-6 border rounded-lg p-4">
+              <h3 className="text-xl font-semibold mb-2">Payment</h3>
+              <p>
+                <strong>Reference:</strong> {charge.reference}
+              </p>
+              <p>
+                <strong>Amount:</strong> {formatRupiah(charge.amount)}
+              </p>
+              <p>
+                <strong>Status:</strong> {charge.status}
+              </p>
+              {charge.provider === 'mock' && charge.status === 'PENDING' && (
+                <div className="mt-4">
+                  <p className="text-sm text-gray-500 mb-2">
+                    Test gateway: choose how this payment ends.
+                  </p>
+                  <div className="flex gap-2">
+                    <button
+                      className="btn btn-success btn-sm"
+                      onClick={() => handleSimulate('succeed')}
+                    >
+                      Succeed
+                    </button>
+                    <button
+                      className="btn btn-error btn-sm"
+                      onClick={() => handleSimulate('fail')}
+                    >
+                      Fail
+                    </button>
+                    <button
+                      className="btn btn-warning btn-sm"
+                      onClick={() => handleSimulate('expire')}
+                    >
+                      Expire
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="card-actions justify-end mt-6">
-            {isPending && (
+            {isPending && !charge && (
               <button
                 className="btn btn-primary"
-                onClick={handleConfirmPayment}
+                onClick={handlePay}
+                disabled={isPaying}
               >
-                Confirm Payment
+                {isPaying ? 'Processing...' : 'Pay Now'}
+              </button>
+            )}
+            {isPending && charge && (
+              <button className="btn btn-outline" onClick={handleCheckStatus}>
+                Check Payment Status
               </button>
             )}
             {['PENDING', 'PAID'].includes(order.paymentStatus) && (
@@ -173,7 +286,7 @@ const OrderDetail = () => {
 
           {isPending && (
             <div className="alert alert-info mt-4">
-              Please confirm your payment to proceed with your order.
+              Please complete your payment to proceed with your order.
             </div>
           )}
         </div>
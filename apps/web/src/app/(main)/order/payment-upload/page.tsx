@@ -2,14 +2,14 @@
 
 import React, { useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import axios from 'axios';
-import Cookies from 'js-cookie';
 import { Toaster, toast } from 'react-hot-toast';
+import { useOrder } from '@/context/OrderContext';
 
 const PaymentUploadPage = () => {
   const router = useRouter();
   const searchParams = useSearchParams();
   const orderId = searchParams.get('orderId');
+  const { uploadProof } = useOrder();
 
   const [file, setFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
@@ -59,30 +59,18 @@ const PaymentUploadPage = () => {
       return;
     }
 
-    const formData = new FormData();
-    formData.append('image', file);
-    formData.append('orderId', orderId);
-
     try {
       setIsUploading(true);
-      const token = Cookies.get('token');
-
-      await axios.post(
-        `${process.env.NEXT_PUBLIC_BASE_API_URL}/orders/payment-proof`,
-        formData,
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-            'Content-Type': 'multipart/form-data',
-          },
-        },
-      );
+      await uploadProof(Number(orderId), file);
 
       toast.success('Payment proof uploaded successfully!');
       router.push(`/order/success?orderId=${orderId}`);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Failed to upload payment proof:', error);
-      toast.error('Failed to upload payment proof. Please try again.');
+      toast.error(
+        error.response?.data?.message ||
+          'Failed to upload payment proof. Please try again.',
+      );
     } finally {
       setIsUploading(false);
     }
@@ -0,0 +1,116 @@
+'use client';
+
+import { ChangeEvent, FormEvent, useState } from 'react';
+import Link from 'next/link';
+import axios from 'axios';
+import { ArrowLeft } from 'lucide-react';
+import { useSession } from 'next-auth/react';
+import { useCart } from '@/context/CartContext';
+import { QuickOrderReport } from '@/types/cart';
+import QuickOrderResult from '@/components/Cart/QuickOrderResult';
+import { ErrorAlert } from '@/components/ErrorAlert';
+
+const QuickOrderPage = () => {
+  const { status } = useSession();
+  const { quickOrder } = useCart();
+  const [text, setText] = useState('');
+  const [report, setReport] = useState<QuickOrderReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // A CSV file is read into the text area, so it can be checked before adding
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setText(await file.text());
+    e.target.value = '';
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      setReport(await quickOrder(text));
+    } catch (err) {
+      setError(
+        axios.isAxiosError(err)
+          ? err.response?.data?.error || 'Failed to add quick order'
+          : 'Failed to add quick order',
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (status === 'unauthenticated') {
+    return (
+      <div className="container mx-6 p-4">
+        <p>
+          Please{' '}
+          <Link href="/login" className="link">
+            log in
+          </Link>{' '}
+          to order by SKU.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-6 p-4 space-y-6">
+      <div className="-my-4 mb-4">
+        <h1 className="text-2xl font-semibold mb-4">QUICK ORDER</h1>
+        <Link
+          href="/cart"
+          className="flex items-center text-gray-600 hover:text-gray-800 w-fit"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to cart
+        </Link>
+      </div>
+      <form onSubmit={handleSubmit} className="space-y-4 md:w-2/3">
+        <p className="text-sm text-gray-500">
+          Paste one product per line as SKU and quantity, for example{' '}
+          <code>BERAS-MERAH,10</code>, or upload a CSV file with the same two
+          columns. Quantities are checked against the stock of your nearest
+          store.
+        </p>
+        <textarea
+          className="textarea textarea-bordered w-full h-48 font-mono"
+          placeholder={'SKU,quantity\nBERAS-MERAH,10'}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+        <div className="flex flex-wrap items-center gap-4">
+          <input
+            type="file"
+            accept=".csv,text/csv,text/plain"
+            className="file-input file-input-bordered file-input-sm"
+            onChange={handleFileChange}
+          />
+          <button
+            type="submit"
+            className="btn btn-primary"
+            disabled={isSubmitting || !text.trim()}
+          >
+            {isSubmitting ? 'Adding...' : 'Add to Cart'}
+          </button>
+        </div>
+      </form>
+      {error && <ErrorAlert message={error} />}
+      {report && (
+        <>
+          <QuickOrderResult report={report} />
+          <Link href="/cart" className="btn btn-outline btn-sm">
+            Go to Cart
+          </Link>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default QuickOrderPage;
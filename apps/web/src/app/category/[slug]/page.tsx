@@ -7,8 +7,7 @@ import { Plus } from 'lucide-react';
 import { useEffect, useState } from 'react';
 import { useCart } from '@/context/CartContext';
 import { useRouter } from 'next/navigation';
-import { useSession } from 'next-auth/react';
-import toast, { Toaster } from 'react-hot-toast';
+import { Toaster } from 'react-hot-toast';
 import { ProductType } from '@/types/product';
 import { useParams } from 'next/navigation';
 
@@ -56,12 +55,11 @@ export default function Categories() {
   const [error, setError] = useState<string | null>(null);
   const { addToCart, fetchCart, cart } = useCart();
   const router = useRouter();
-  const { data } = useSession();
   const params = useParams();
 
   const getTotalStock = (product: ProductType) => {
     return product.productStocks.reduce(
-      (total, stock) => total + stock.stock,
+      (total, stock) => total + (stock.availableStock ?? stock.stock),
       0,
     );
   };
@@ -73,11 +71,6 @@ export default function Categories() {
   };
 
   const handleAddToCart = async (product: ProductType) => {
-    if (!data?.user) {
-      toast.error('Login Required');
-      return;
-    }
-
     const availableStock = getAvailableStock(product);
     if (availableStock <= 0) {
       setError('This product is out of stock');
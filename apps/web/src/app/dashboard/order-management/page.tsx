@@ -1,10 +1,18 @@
 'use client';
+import { useState } from 'react';
 import { OrderTable } from '@/components/Admin/OrderTable';
+import { ReturnTable } from '@/components/Admin/ReturnTable';
+import { DeliverySlotTable } from '@/components/Admin/DeliverySlotTable';
+import { PickingList } from '@/components/Admin/PickingList';
 import { useSession } from 'next-auth/react';
 import Link from 'next/link';
 
 export default function OrderManagement() {
   const { data } = useSession();
+  const [activeTab, setActiveTab] = useState<
+    'orders' | 'returns' | 'picking' | 'slots'
+  >('orders');
+  const isSuperAdmin = data?.user?.role === 'SUPER_ADMIN';
 
   return (
     <>
@@ -14,8 +22,45 @@ export default function OrderManagement() {
             <div className="flex flex-row justify-between">
               <h2 className="text-xl my-4">Order Management</h2>
             </div>
+            <div role="tablist" className="tabs tabs-bordered mb-4">
+              <button
+                role="tab"
+                className={`tab ${activeTab === 'orders' ? 'tab-active' : ''}`}
+                onClick={() => setActiveTab('orders')}
+              >
+                Orders
+              </button>
+              <button
+                role="tab"
+                className={`tab ${activeTab === 'returns' ? 'tab-active' : ''}`}
+                onClick={() => setActiveTab('returns')}
+              >
+                Returns
+              </button>
+              <button
+                role="tab"
+                className={`tab ${activeTab === 'picking' ? 'tab-active' : ''}`}
+                onClick={() => setActiveTab('picking')}
+              >
+                Picking
+              </button>
+              <button
+                role="tab"
+                className={`tab ${activeTab === 'slots' ? 'tab-active' : ''}`}
+                onClick={() => setActiveTab('slots')}
+              >
+                Delivery Slots
+              </button>
+            </div>
             <div className="bg-white">
-              <OrderTable />
+              {activeTab === 'orders' && <OrderTable />}
+              {activeTab === 'returns' && <ReturnTable />}
+              {activeTab === 'picking' && (
+                <PickingList isSuperAdmin={isSuperAdmin} />
+              )}
+              {activeTab === 'slots' && (
+                <DeliverySlotTable isSuperAdmin={isSuperAdmin} />
+              )}
             </div>
           </>
         ) : (
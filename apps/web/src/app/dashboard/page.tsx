@@ -6,11 +6,13 @@ import 'chart.js/auto';
 import { useSession } from 'next-auth/react';
 import { getWarehouseId, getWarehouses } from '@/api/warehouse';
 import {
+  fetchCodReconciliation,
   fetchSalesData,
   fetchTopProducts,
   fetchTopCategories,
 } from '@/api/reports';
 import Link from 'next/link';
+import { formatRupiah } from '@/utils/currencyUtils';
 
 export default function MonthlySalesReport() {
   const { data } = useSession();
@@ -23,6 +25,10 @@ export default function MonthlySalesReport() {
     totalSales: 0,
     totalQuantity: 0,
   });
+  const [codData, setCodData] = useState({
+    outstanding: { count: 0, amount: 0, orders: [] },
+    collected: { count: 0, amount: 0 },
+  });
 
   useEffect(() => {
     const loadWarehouses = async () => {
@@ -83,7 +89,17 @@ export default function MonthlySalesReport() {
         }
       };
 
+      const loadCodReconciliation = async () => {
+        try {
+          const cod = await fetchCodReconciliation(month, warehouseId);
+          setCodData(cod);
+        } catch (error) {
+          console.error('Error loading COD reconciliation:', error);
+        }
+      };
+
       loadSalesData();
+      loadCodReconciliation();
       loadTopProducts();
       loadTopCategories();
     }
@@ -161,6 +177,53 @@ export default function MonthlySalesReport() {
               </div>
             </div>
 
+            {/* Cash on delivery reconciliation */}
+            <div className="mb-6">
+              <h2 className="text-xl font-bold mb-2">
+                Cash on Delivery Reconciliation
+              </h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <div className="card shadow-lg bg-base-100 p-4">
+                  <h3 className="font-bold">Outstanding with Couriers</h3>
+                  <p className="text-lg">
+                    {formatRupiah(codData.outstanding.amount)}
+                  </p>
+                  <p className="text-sm">
+                    {codData.outstanding.count} shipped orders
+                  </p>
+                </div>
+                <div className="card shadow-lg bg-base-100 p-4">
+                  <h3 className="font-bold">Collected This Month</h3>
+                  <p className="text-lg">
+                    {formatRupiah(codData.collected.amount)}
+                  </p>
+                  <p className="text-sm">{codData.collected.count} orders</p>
+                </div>
+              </div>
+              {codData.outstanding.orders.length > 0 && (
+                <table className="table table-sm">
+                  <thead>
+                    <tr>
+                      <th>Order Number</th>
+                      <th>Shipped At</th>
+                      <th>Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {codData.outstanding.orders.map((order: any) => (
+                      <tr key={order.id}>
+                        <td>{order.name}</td>
+                        <td>{new Date(order.shippedAt).toLocaleString()}</td>
+                        <td>
+                          {formatRupiah(order.total - order.walletAmount)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
             {/* Bar Chart for Top Products */}
             <div>
               <h2 className="text-xl font-bold">Top Products</h2>
@@ -11,6 +11,7 @@ import { useSession } from 'next-auth/react';
 export interface FormData {
   productName: string;
   productDescription: string;
+  sku: string;
   price: number;
   category: number;
   images: File[];
@@ -25,6 +26,7 @@ const CreateProductPage: React.FC = () => {
   const [formData, setFormData] = useState<FormData>({
     productName: '',
     productDescription: '',
+    sku: '',
     price: 0,
     category: 0,
     images: [],
@@ -98,6 +100,7 @@ const CreateProductPage: React.FC = () => {
     const formPayload = new FormData();
     formPayload.append('name', formData.productName);
     formPayload.append('description', formData.productDescription);
+    formPayload.append('sku', formData.sku);
     formPayload.append('price', formData.price.toString());
     formPayload.append('categoryId', formData.category.toString());
 
@@ -209,6 +212,23 @@ const CreateProductPage: React.FC = () => {
                             />
                           </div>
                         </div>
+                        <div>
+                          <label htmlFor="sku" className="label">
+                            <span className="label-text cursor-pointer">
+                              SKU
+                            </span>
+                          </label>
+                          <div className="form-control flex flex-row items-center rounded-box border border-base-content/20">
+                            <input
+                              id="sku"
+                              placeholder="Generated from the name if empty"
+                              className="input w-full transition-all input-sm input-bordered focus:outline-offset-0"
+                              name="sku"
+                              value={formData.sku}
+                              onChange={handleChange}
+                            />
+                          </div>
+                        </div>
                         <div>
                           <label htmlFor="price" className="label">
                             <span className="label-text cursor-pointer">
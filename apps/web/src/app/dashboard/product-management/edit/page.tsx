@@ -12,6 +12,7 @@ import Link from 'next/link';
 export interface FormData {
   productName: string;
   productDescription: string;
+  sku: string;
   price: number;
   category: number;
   images: File[];
@@ -28,6 +29,7 @@ const EditProductPage: React.FC = () => {
   const [formData, setFormData] = useState<FormData>({
     productName: '',
     productDescription: '',
+    sku: '',
     price: 0,
     category: 0,
     images: [],
@@ -88,6 +90,7 @@ const EditProductPage: React.FC = () => {
     const formPayload = new FormData();
     formPayload.append('name', formData.productName);
     formPayload.append('description', formData.productDescription);
+    formPayload.append('sku', formData.sku);
     formPayload.append('price', String(formData.price));
     formPayload.append('categoryId', String(formData.category));
 
@@ -200,6 +203,23 @@ const EditProductPage: React.FC = () => {
                             />
                           </div>
                         </div>
+                        <div>
+                          <label htmlFor="sku" className="label">
+                            <span className="label-text cursor-pointer">
+                              SKU
+                            </span>
+                          </label>
+                          <div className="form-control flex flex-row items-center rounded-box border border-base-content/20">
+                            <input
+                              id="sku"
+                              placeholder="SKU"
+                              className="input w-full transition-all input-sm input-bordered focus:outline-offset-0"
+                              name="sku"
+                              value={formData.sku}
+                              onChange={handleChange}
+                            />
+                          </div>
+                        </div>
                         <div>
                           <label htmlFor="price" className="label">
                             <span className="label-text cursor-pointer">
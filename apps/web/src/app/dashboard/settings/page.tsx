@@ -0,0 +1,46 @@
+'use client';
+import { useState } from 'react';
+import { SettingTable } from '@/components/Setting/SettingTable';
+import { SettingHistoryTable } from '@/components/Setting/SettingHistoryTable';
+import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+
+export default function Settings() {
+  const { data } = useSession();
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  return (
+    <div className="flex flex-col">
+      {data?.user?.role === 'SUPER_ADMIN' ? (
+        <>
+          <div className="flex flex-row justify-between">
+            <h2 className="text-xl my-4">Settings</h2>
+          </div>
+          <div className="bg-white">
+            <SettingTable
+              onSaved={() => setHistoryVersion((version) => version + 1)}
+            />
+          </div>
+          <h2 className="text-xl my-4">Change History</h2>
+          <div className="bg-white">
+            <SettingHistoryTable version={historyVersion} />
+          </div>
+        </>
+      ) : (
+        <div className="flex justify-center items-center flex-col p-3">
+          <h2 className="text-3xl text-center my-2">
+            You Don't have an access to this page.
+          </h2>
+          <div className="mt-4 flex w-80 items-center justify-center gap-8">
+            <Link
+              className="relative flex items-center justify-center text-xl no-underline outline-none transition-opacity hover:opacity-80 active:opacity-60"
+              href="/"
+            >
+              <span className="flex items-center">Back to Homepage</span>
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,7 @@ import { getAdminOnly } from '@/utils/getAdminOnly';
 
 export default function New() {
   const { data } = useSession();
-  const [warehouse, setWarehouse] = useState<{name: string, address: string, provinceId: number, cityId: string, latitude: string|number, longitude: string | number, postalCode: string, storeRadius: string, userId: number}>({name: '', address: '', cityId:'', provinceId: 0, latitude: 0, longitude: 0, storeRadius: '', postalCode: '', userId: 0});
+  const [warehouse, setWarehouse] = useState<{name: string, address: string, provinceId: number, cityId: string, latitude: string|number, longitude: string | number, postalCode: string, storeRadius: string, codEnabled: boolean, codMaxOrderValue: string, code: string, userId: number}>({name: '', code: '', address: '', cityId:'', provinceId: 0, latitude: 0, longitude: 0, storeRadius: '', codEnabled: false, codMaxOrderValue: '', postalCode: '', userId: 0});
   const [province, setProvince] = useState([]);
   const [provinceId, setProvinceId] = useState<number>(0);
   const [city, setCity] = useState([]);
@@ -48,6 +48,10 @@ export default function New() {
     setWarehouse({ ...warehouse, [e.target.name]: e.target.value });
   };
 
+  const handleChangeCod = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setWarehouse({ ...warehouse, codEnabled: e.target.checked });
+  };
+
   const handleChangeSelectProvince = (
     e: React.ChangeEvent<HTMLSelectElement>,
   ) => {
@@ -145,6 +149,23 @@ export default function New() {
                   <span className="bg-base-100 px-1">Name</span>
                 </label>
               </div>
+              <div className="form-control relative focus-within:border-white">
+                <input
+                  onChange={handleChange}
+                  type="text"
+                  name="code"
+                  id="code"
+                  placeholder=" "
+                  maxLength={5}
+                  className="peer input input-bordered relative z-0 w-full focus:outline-none"
+                />
+                <label
+                  htmlFor="code"
+                  className="label pointer-events-none absolute left-3 top-1 select-none px-1 transition-all duration-300 peer-focus:-translate-y-[21px] peer-focus:text-xs peer-[:not(:placeholder-shown)]:-translate-y-[21px] peer-[:not(:placeholder-shown)]:text-xs"
+                >
+                  <span className="bg-base-100 px-1">Order Number Code (e.g. JKT)</span>
+                </label>
+              </div>
               <div className="form-control relative focus-within:border-white">
                 <input
                   onChange={handleChange}
@@ -274,6 +295,34 @@ export default function New() {
                   <span className="bg-base-100 px-1">Store Radius</span>
                 </label>
               </div>
+              <div className="form-control relative focus-within:border-white">
+                <input
+                  onChange={handleChange}
+                  type="text"
+                  name="codMaxOrderValue"
+                  id="codMaxOrderValue"
+                  placeholder=" "
+                  className="peer input input-bordered relative z-0 w-full focus:outline-none"
+                />
+                <label
+                  htmlFor="codMaxOrderValue"
+                  className="label pointer-events-none absolute left-3 top-1 select-none px-1 transition-all duration-300 peer-focus:-translate-y-[21px] peer-focus:text-xs peer-[:not(:placeholder-shown)]:-translate-y-[21px] peer-[:not(:placeholder-shown)]:text-xs"
+                >
+                  <span className="bg-base-100 px-1">COD Max Order Value</span>
+                </label>
+              </div>
+              <div className="form-control">
+                <label className="label cursor-pointer justify-start gap-2">
+                  <input
+                    onChange={handleChangeCod}
+                    type="checkbox"
+                    name="codEnabled"
+                    id="codEnabled"
+                    className="checkbox"
+                  />
+                  <span className="label-text">Accept Cash on Delivery</span>
+                </label>
+              </div>
               <div className="form-control relative focus-within:border-white">
                 <select
                   className="peer text-md select select-bordered relative z-0 w-full focus:outline-none"
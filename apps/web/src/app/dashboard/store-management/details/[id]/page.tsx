@@ -54,6 +54,14 @@ export default function  Addresses() {
                             <p className='font-medium'>Store Radius: </p>
                             <p className="text-right">{warehouse?.storeRadius}</p>
                         </div>
+                        <div className='flex justify-between items-center'>
+                            <p className='font-medium'>Order Number Code: </p>
+                            <p className="text-right">{warehouse?.code ?? '-'}</p>
+                        </div>
+                        <div className='flex justify-between items-center'>
+                            <p className='font-medium'>Cash on Delivery: </p>
+                            <p className="text-right">{warehouse?.codEnabled ? `Up to ${warehouse?.codMaxOrderValue ?? 'any amount'}` : 'Not available'}</p>
+                        </div>
                         <div className='flex justify-between items-center'>
                             <p className='font-medium'>Store Admin: </p>
                             <p className="text-right">{warehouse?.user.name}</p>
@@ -55,6 +55,10 @@ export default function New() {
     setWarehouse({ ...warehouse, [e.target.name]: e.target.value });
   };
 
+  const handleChangeCod = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setWarehouse({ ...warehouse, codEnabled: e.target.checked });
+  };
+
   const handleChangeSelectProvince = (
     e: React.ChangeEvent<HTMLSelectElement>,
   ) => {
@@ -123,7 +127,7 @@ export default function New() {
   }, [provinceId]);
 
   useEffect(() => {
-    setWarehouse({name: prevWarehouse?.name, address: prevWarehouse?.address, latitude: prevWarehouse?.latitude, longitude: prevWarehouse?.longitude, storeRadius: prevWarehouse?.storeRadius, postalCode: prevWarehouse?.postalCode, })
+    setWarehouse({name: prevWarehouse?.name, code: prevWarehouse?.code ?? '', address: prevWarehouse?.address, latitude: prevWarehouse?.latitude, longitude: prevWarehouse?.longitude, storeRadius: prevWarehouse?.storeRadius, codEnabled: prevWarehouse?.codEnabled, codMaxOrderValue: prevWarehouse?.codMaxOrderValue ?? '', postalCode: prevWarehouse?.postalCode, })
   }, [prevWarehouse])
 
   return (
@@ -153,6 +157,23 @@ export default function New() {
                   <span className="bg-base-100 px-1">Name</span>
                 </label>
               </div>
+              <div className="form-control relative focus-within:border-white">
+                <input
+                  onChange={handleChange}
+                  type="text"
+                  name="code"
+                  id="code"
+                  value={warehouse?.code}
+                  maxLength={5}
+                  className="peer input input-bordered relative z-0 w-full focus:outline-none"
+                />
+                <label
+                  htmlFor="code"
+                  className="label pointer-events-none absolute left-3 top-1 select-none px-1 transition-all duration-300 -translate-y-[21px] text-xs peer-[:not(:placeholder-shown)]:-translate-y-[21px] peer-[:not(:placeholder-shown)]:text-xs"
+                >
+                  <span className="bg-base-100 px-1">Order Number Code (e.g. JKT)</span>
+                </label>
+              </div>
               <div className="form-control relative focus-within:border-white">
                 <input
                   onChange={handleChange}
@@ -282,6 +303,35 @@ export default function New() {
                   <span className="bg-base-100 px-1">Store Radius</span>
                 </label>
               </div>
+              <div className="form-control relative focus-within:border-white">
+                <input
+                  onChange={handleChange}
+                  type="text"
+                  name="codMaxOrderValue"
+                  id="codMaxOrderValue"
+                  value={warehouse?.codMaxOrderValue}
+                  className="peer input input-bordered relative z-0 w-full focus:outline-none"
+                />
+                <label
+                  htmlFor="codMaxOrderValue"
+                  className="label pointer-events-none absolute left-3 top-1 select-none px-1 transition-all duration-300 -translate-y-[21px] text-xs peer-[:not(:placeholder-shown)]:-translate-y-[21px] peer-[:not(:placeholder-shown)]:text-xs"
+                >
+                  <span className="bg-base-100 px-1">COD Max Order Value</span>
+                </label>
+              </div>
+              <div className="form-control">
+                <label className="label cursor-pointer justify-start gap-2">
+                  <input
+                    onChange={handleChangeCod}
+                    type="checkbox"
+                    name="codEnabled"
+                    id="codEnabled"
+                  checked={!!warehouse?.codEnabled}
+                    className="checkbox"
+                  />
+                  <span className="label-text">Accept Cash on Delivery</span>
+                </label>
+              </div>
               <div className="form-control relative focus-within:border-white">
                 <select
                   className="peer text-md select select-bordered relative z-0 w-full focus:outline-none"
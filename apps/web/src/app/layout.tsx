@@ -2,6 +2,7 @@
 import { CartProvider } from '../context/CartContext';
 import { SessionProvider } from 'next-auth/react';
 import { OrderProvider } from '@/context/OrderContext';
+import { WishlistProvider } from '@/context/WishlistContext';
 import './globals.css';
 import Header from '@/components/Header';
 import HeaderMobile from '@/components/HeaderMobile';
@@ -21,18 +22,20 @@ export default function RootLayout({ children, dashboard }: LayoutProps) {
       <body>
         <SessionProvider>
           <CartProvider>
-            <OrderProvider>
-              <div className="flex flex-col min-h-screen">
-                <Header />
-                <HeaderMobile />
-                <main className="flex-grow container mx-auto px-4 py-8">
-                  {children || dashboard}
-                </main>
-                <FooterMobile />
-                <Footer />
-                <SmallFooter />
-              </div>
-            </OrderProvider>
+            <WishlistProvider>
+              <OrderProvider>
+                <div className="flex flex-col min-h-screen">
+                  <Header />
+                  <HeaderMobile />
+                  <main className="flex-grow container mx-auto px-4 py-8">
+                    {children || dashboard}
+                  </main>
+                  <FooterMobile />
+                  <Footer />
+                  <SmallFooter />
+                </div>
+              </OrderProvider>
+            </WishlistProvider>
           </CartProvider>
         </SessionProvider>
       </body>
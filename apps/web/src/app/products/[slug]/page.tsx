@@ -5,11 +5,11 @@ import { useParams } from 'next/navigation';
 import { getProductBySlug } from '@/api/products';
 import { useCart } from '@/context/CartContext';
 import Image from 'next/image';
-import toast, { Toaster } from 'react-hot-toast';
+import { Toaster } from 'react-hot-toast';
 import { ProductType } from '@/types/product';
-import { useSession } from 'next-auth/react';
 import { getClosestWarehouse } from '@/api/closestWarehouse';
 import { getUserCurrentLocation } from '@/utils/getUserCurrentLocation';
+import WishlistButton from '@/components/WishlistButton';
 
 interface Warehouse {
   id: number;
@@ -24,7 +24,6 @@ interface ProductStock {
 
 const ProductDetail = () => {
   const { slug } = useParams();
-  const { data } = useSession();
 
   const { addToCart, fetchCart, cart } = useCart();
   const [product, setProduct] = useState<ProductType | null>(null);
@@ -72,7 +71,7 @@ const ProductDetail = () => {
 
   const getTotalStock = (product: ProductType) => {
     return product.productStocks.reduce(
-      (total, stock) => total + stock.stock,
+      (total, stock) => total + (stock.availableStock ?? stock.stock),
       0,
     );
   };
@@ -86,11 +85,6 @@ const ProductDetail = () => {
   const handleAddToCart = async () => {
     if (!product) return;
 
-    if (!data?.user) {
-      toast.error('Login Required');
-      return;
-    }
-
     const availableStock = getAvailableStock(product);
     if (availableStock <= 0) {
       setError('This product is out of stock');
@@ -107,7 +101,7 @@ const ProductDetail = () => {
 
   if (loading) return <span className="loading loading-bars loading-lg"></span>;
 
-  const stockAvailable = product?.productStocks[0]?.stock > 0 || null;
+  const stockAvailable = (product && getTotalStock(product) > 0) || null;
 
   return (
     <div className="container mx-auto p-5">
@@ -135,12 +129,14 @@ const ProductDetail = () => {
             </div>
           )}
           <div>
-            <h1 className="text-3xl font-bold">{product.name}</h1>
+            <div className="flex justify-between items-start gap-2">
+              <h1 className="text-3xl font-bold">{product.name}</h1>
+              <WishlistButton productId={product.id} />
+            </div>
             <p className="text-gray-700 text-lg mt-4">{product.description}</p>
             <p className="text-2xl font-semibold mt-4">{`Rp ${product.price.toLocaleString('id-ID')}`}</p>
-            <p className="mt-2">
-              Total Stocks: {product.productStocks[0].stock}
-            </p>
+            <p className="mt-2">Total Stocks: {getTotalStock(product)}</p>
+            <p className="mt-1 text-sm text-gray-500">SKU: {product.sku}</p>
 
             <div className="mt-6">
               <label className="block mb-2 text-sm font-medium">Quantity</label>
@@ -1,11 +1,13 @@
 'use client';
 import ProfileCard from '@/components/ProfileCard';
+import WalletCard from '@/components/Wallet/WalletCard';
 
  function Profile() {
 
   return (
-    <div className="flex justify-center gap-6">
+    <div className="flex flex-col items-center gap-6">
       <ProfileCard />
+      <WalletCard />
     </div>
   );
 }
@@ -0,0 +1,218 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { toast } from 'react-hot-toast';
+import { useCart } from '@/context/CartContext';
+import { getUserAddresses } from '@/api/address';
+import { createSubscription } from '@/api/subscription';
+import { getCheckoutShippingServices } from '@/utils/shipping';
+import { SubscriptionCadence } from '@/types/subscription';
+import { formatRupiah } from '@/utils/currencyUtils';
+import { ErrorAlert } from '@/components/ErrorAlert';
+
+// The first order is placed in the morning of the chosen day
+const RUN_TIME = 'T08:00';
+
+const getMinStartDate = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 2);
+  return date.toISOString().split('T')[0];
+};
+
+// Turns the current cart into a recurring basket
+export default function NewSubscription() {
+  const { data } = useSession();
+  const { cart } = useCart();
+  const router = useRouter();
+  const [addresses, setAddresses] = useState<any[]>([]);
+  const [addressId, setAddressId] = useState<number | null>(null);
+  const [cadence, setCadence] = useState<SubscriptionCadence>('WEEKLY');
+  const [startDate, setStartDate] = useState(getMinStartDate());
+  const [courier, setCourier] = useState('');
+  const [services, setServices] = useState<any[]>([]);
+  const [courierService, setCourierService] = useState('');
+  const [voucherCode, setVoucherCode] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const fetchAddresses = async () => {
+      const res = await getUserAddresses(data?.user?.id);
+      const userAddresses = res?.address ?? [];
+      setAddresses(userAddresses);
+      const primary = userAddresses.find((address: any) => address.isPrimary);
+      setAddressId(primary?.id ?? userAddresses[0]?.id ?? null);
+    };
+
+    if (data?.user) {
+      fetchAddresses();
+    }
+  }, [data?.user]);
+
+  // The cart is quoted because it holds the same items as the new basket
+  useEffect(() => {
+    const fetchServices = async () => {
+      setCourierService('');
+      if (!addressId || !courier) {
+        setServices([]);
+        return;
+      }
+      const res = await getCheckoutShippingServices({ addressId, courier });
+      setServices(res?.services ?? []);
+    };
+
+    fetchServices();
+  }, [addressId, courier]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!cart || cart.items.length === 0) return;
+    if (!addressId || !courier || !courierService) {
+      setError('Please choose an address and a delivery service.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    const res = await createSubscription({
+      addressId,
+      cadence,
+      startDate: new Date(`${startDate}${RUN_TIME}`).toISOString(),
+      courier,
+      courierService,
+      voucherCode: voucherCode.trim() || undefined,
+      items: cart.items.map((item) => ({
+        productId: item.product.id,
+        quantity: item.quantity,
+      })),
+    });
+    setIsSubmitting(false);
+
+    if (!res.ok) {
+      setError(res.message || 'Failed to create subscription');
+      return;
+    }
+    toast.success('Subscription created');
+    router.push('/profile/subscriptions');
+  };
+
+  if (!cart || cart.items.length === 0) {
+    return (
+      <div className="sm:w-[40vw] w-[100vw]">
+        <p>Add the groceries you buy regularly to your cart first.</p>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="card card-compact bg-base-100 shadow-xl sm:w-[40vw] w-[100vw] p-5 space-y-4"
+    >
+      <h1 className="text-2xl font-semibold">New Subscription</h1>
+      <div>
+        {cart.items.map((item) => (
+          <div key={item.id} className="flex justify-between text-sm">
+            <span>
+              {item.product.name} x {item.quantity}
+            </span>
+            <span>{formatRupiah(item.product.price * item.quantity)}</span>
+          </div>
+        ))}
+      </div>
+      <label className="form-control">
+        <span className="label-text">Delivery address</span>
+        <select
+          value={addressId ?? ''}
+          onChange={(e) => setAddressId(Number(e.target.value))}
+          className="select select-bordered"
+        >
+          {addresses.map((address) => (
+            <option key={address.id} value={address.id}>
+              {address.name}: {address.address}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="flex gap-4">
+        <label className="form-control flex-1">
+          <span className="label-text">Every</span>
+          <select
+            value={cadence}
+            onChange={(e) => setCadence(e.target.value as SubscriptionCadence)}
+            className="select select-bordered"
+          >
+            <option value="WEEKLY">Week</option>
+            <option value="BIWEEKLY">Two weeks</option>
+          </select>
+        </label>
+        <label className="form-control flex-1">
+          <span className="label-text">First order on</span>
+          <input
+            type="date"
+            value={startDate}
+            min={getMinStartDate()}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="input input-bordered"
+          />
+        </label>
+      </div>
+      <div className="flex gap-4">
+        <label className="form-control flex-1">
+          <span className="label-text">Courier</span>
+          <select
+            value={courier}
+            onChange={(e) => setCourier(e.target.value)}
+            className="select select-bordered"
+          >
+            <option value="" disabled>
+              Delivery Method
+            </option>
+            <option value="jne">JNE</option>
+            <option value="pos">POS</option>
+            <option value="tiki">TIKI</option>
+          </select>
+        </label>
+        <label className="form-control flex-1">
+          <span className="label-text">Service</span>
+          <select
+            value={courierService}
+            onChange={(e) => setCourierService(e.target.value)}
+            className="select select-bordered"
+            disabled={services.length === 0}
+          >
+            <option value="" disabled>
+              Delivery Service
+            </option>
+            {services.map((service) => (
+              <option key={service.service} value={service.service}>
+                {service.service} ({formatRupiah(service.cost[0]?.value ?? 0)})
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <input
+        type="text"
+        value={voucherCode}
+        onChange={(e) => setVoucherCode(e.target.value)}
+        placeholder="Voucher code (optional)"
+        className="input input-bordered w-full"
+      />
+      <p className="text-sm text-gray-500">
+        Each order uses the prices, stock and voucher rules of the day it is
+        placed. We email you a payment link every cycle.
+      </p>
+      {error && <ErrorAlert message={error} />}
+      <button
+        type="submit"
+        className="btn btn-primary w-full"
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? 'Saving...' : 'Start Subscription'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { getMySubscriptions } from '@/api/subscription';
+import { Subscription } from '@/types/subscription';
+import SubscriptionCard from '@/components/Subscription/SubscriptionCard';
+import { ErrorAlert } from '@/components/ErrorAlert';
+
+export default function Subscriptions() {
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchSubscriptions = async () => {
+    const res = await getMySubscriptions();
+    if (res.ok) {
+      setSubscriptions(res.data.subscriptions);
+    } else {
+      setError(res.message || 'Failed to get subscriptions');
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    fetchSubscriptions();
+  }, []);
+
+  return (
+    <div className="flex flex-col gap-6 sm:w-[40vw] w-[100vw]">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-semibold">Subscriptions</h1>
+        <Link
+          href="/profile/subscriptions/new"
+          className="btn btn-sm btn-primary"
+        >
+          Subscribe to My Cart
+        </Link>
+      </div>
+      <p className="text-sm text-gray-500">
+        Each cycle we place the order for you and email a payment link. Items
+        can be changed or a delivery skipped until the cutoff shown below.
+      </p>
+      {error && <ErrorAlert message={error} />}
+      {isLoading ? (
+        <span className="loading loading-spinner loading-md"></span>
+      ) : subscriptions.length === 0 ? (
+        <p>You have no subscriptions yet.</p>
+      ) : (
+        subscriptions.map((subscription) => (
+          <SubscriptionCard
+            key={subscription.id}
+            subscription={subscription}
+            onChange={fetchSubscriptions}
+          />
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { Toaster } from 'react-hot-toast';
+import { Trash2 } from 'lucide-react';
+import { useWishlist } from '@/context/WishlistContext';
+import { formatRupiah } from '@/utils/currencyUtils';
+
+export default function Wishlist() {
+  const { wishlist, fetchWishlist, moveToCart, removeFromWishlist } =
+    useWishlist();
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchWishlist().finally(() => setIsLoading(false));
+  }, []);
+
+  const items = wishlist?.items ?? [];
+
+  return (
+    <div className="flex flex-col gap-6 sm:w-[40vw] w-[100vw]">
+      <Toaster />
+      <h1 className="text-2xl font-semibold">Wishlist</h1>
+      <p className="text-sm text-gray-500">
+        {wishlist?.warehouse
+          ? `Prices and stock are shown as they are now at ${wishlist.warehouse.name}, the store nearest to your primary address.`
+          : 'Add an address to see the stock at your nearest store. Until then the stock of every store is shown.'}
+      </p>
+      {isLoading ? (
+        <span className="loading loading-spinner loading-md"></span>
+      ) : items.length === 0 ? (
+        <p>Your wishlist is empty.</p>
+      ) : (
+        items.map((item) => (
+          <div key={item.id} className="card card-compact bg-base-100 shadow">
+            <div className="card-body flex-row items-center gap-4">
+              <figure className="bg-base-200 rounded-md w-20 h-20 shrink-0">
+                {item.product.productImages[0]?.url && (
+                  <Image
+                    src={item.product.productImages[0].url}
+                    alt={item.product.name}
+                    width={80}
+                    height={80}
+                  />
+                )}
+              </figure>
+              <div className="flex-1">
+                <Link
+                  href={`/products/${item.product.slug}`}
+                  className="font-semibold hover:underline"
+                >
+                  {item.product.name}
+                </Link>
+                <p className="font-bold text-success">
+                  {formatRupiah(item.product.price)}
+                </p>
+                <p
+                  className={`text-sm ${item.availableStock > 0 ? 'text-gray-500' : 'text-error'}`}
+                >
+                  {item.availableStock > 0
+                    ? `${item.availableStock} in stock`
+                    : 'Out of stock'}
+                </p>
+              </div>
+              <div className="flex flex-col gap-2">
+                <button
+                  className="btn btn-sm btn-primary"
+                  onClick={() => moveToCart(item.productId)}
+                  disabled={item.availableStock <= 0}
+                >
+                  Move to Cart
+                </button>
+                <button
+                  className="btn btn-sm btn-ghost text-red-500"
+                  onClick={() => removeFromWishlist(item.productId)}
+                >
+                  <Trash2 size={16} />
+                  Remove
+                </button>
+              </div>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
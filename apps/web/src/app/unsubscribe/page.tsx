@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { unsubscribeFromCartReminders } from '@/api/cartReminder';
+import { ErrorAlert } from '@/components/ErrorAlert';
+
+export default function Unsubscribe() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const unsubscribe = async () => {
+      if (!token) {
+        setError('This unsubscribe link is incomplete.');
+        setIsLoading(false);
+        return;
+      }
+
+      const res = await unsubscribeFromCartReminders(token);
+      if (!res.ok) {
+        setError(res.message || 'Failed to unsubscribe');
+      }
+      setIsLoading(false);
+    };
+
+    unsubscribe();
+  }, [token]);
+
+  return (
+    <div className="bg-base-100 flex flex-col justify-center items-center gap-6">
+      {isLoading ? (
+        <span className="loading loading-spinner loading-md"></span>
+      ) : error ? (
+        <ErrorAlert message={error} />
+      ) : (
+        <>
+          <h2 className="font-bold text-2xl">You are unsubscribed</h2>
+          <p className="font-medium text-center">
+            We will no longer email you about items left in your cart.
+          </p>
+        </>
+      )}
+      <Link href="/" className="btn btn-ghost hover:btn-link">
+        Back to Shop
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { AdminCancelOrderInput, CancellationReason } from '@/types/order';
+
+interface CancelOrderFormProps {
+  onSubmit: (data: AdminCancelOrderInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const CANCELLATION_REASONS: {
+  value: CancellationReason;
+  label: string;
+}[] = [
+  { value: 'OUT_OF_STOCK', label: 'Out of stock' },
+  { value: 'SUSPECTED_FRAUD', label: 'Suspected fraud' },
+  { value: 'ADDRESS_UNREACHABLE', label: 'Address unreachable' },
+  { value: 'CUSTOMER_REQUEST', label: 'Customer request' },
+];
+
+export const CancelOrderForm = ({
+  onSubmit,
+  onCancel,
+}: CancelOrderFormProps) => {
+  const [reason, setReason] = useState<CancellationReason>('OUT_OF_STOCK');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await onSubmit({ reason, note: note.trim() || undefined });
+    } catch (error: any) {
+      setError(error.message || 'Failed to cancel order.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <h3 className="text-lg font-semibold">Cancel Order</h3>
+      <select
+        value={reason}
+        onChange={(e) => setReason(e.target.value as CancellationReason)}
+        className="select select-bordered w-full"
+      >
+        {CANCELLATION_REASONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note for the customer (optional)"
+        className="textarea textarea-bordered w-full"
+        maxLength={1000}
+      />
+      <p className="text-sm text-gray-500">
+        Stock goes back to the warehouse and a paid amount is refunded to the
+        customer&apos;s store credit. The customer is notified by email.
+      </p>
+      {error && <p className="text-red-500">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button type="button" className="btn btn-ghost" onClick={onCancel}>
+          Back
+        </button>
+        <button type="submit" className="btn btn-error" disabled={isSubmitting}>
+          {isSubmitting ? 'Canceling...' : 'Cancel Order'}
+        </button>
+      </div>
+    </form>
+  );
+};
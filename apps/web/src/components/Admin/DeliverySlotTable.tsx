@@ -0,0 +1,240 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  createDeliverySlot,
+  getDeliverySlots,
+  updateDeliverySlot,
+} from '@/api/admin';
+import { getWarehouses } from '@/api/warehouse';
+import { DeliverySlot, DeliverySlotInput } from '@/types/order';
+import { DAY_NAMES } from '@/utils/dateUtils';
+import { ErrorAlert } from '../ErrorAlert';
+import { toast } from 'react-hot-toast';
+
+const EMPTY_SLOT: DeliverySlotInput = {
+  dayOfWeek: 1,
+  startTime: '09:00',
+  endTime: '12:00',
+  capacity: 10,
+};
+
+export const DeliverySlotTable = ({
+  isSuperAdmin,
+}: {
+  isSuperAdmin: boolean;
+}) => {
+  const [slots, setSlots] = useState<DeliverySlot[]>([]);
+  const [warehouses, setWarehouses] = useState<{ id: number; name: string }[]>(
+    [],
+  );
+  const [warehouseId, setWarehouseId] = useState<number | undefined>();
+  const [form, setForm] = useState<DeliverySlotInput>(EMPTY_SLOT);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (!isSuperAdmin) return;
+    getWarehouses()
+      .then((data) => setWarehouses(data ?? []))
+      .catch(() => setError('Failed to fetch stores'));
+  }, [isSuperAdmin]);
+
+  const fetchSlots = async () => {
+    // A super admin has to pick the warehouse first
+    if (isSuperAdmin && !warehouseId) {
+      setSlots([]);
+      return;
+    }
+    setLoading(true);
+    setError('');
+    const res = await getDeliverySlots(warehouseId);
+    if (res.ok) {
+      setSlots(res.data.slots);
+    } else {
+      setError(res.message || 'Failed to get delivery slots');
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchSlots();
+  }, [warehouseId]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const res = await createDeliverySlot(form, warehouseId);
+    if (!res.ok) {
+      toast.error(res.message || 'Failed to create delivery slot');
+      return;
+    }
+    toast.success('Delivery slot added');
+    setForm(EMPTY_SLOT);
+    fetchSlots();
+  };
+
+  const handleUpdate = async (
+    slot: DeliverySlot,
+    data: Partial<DeliverySlotInput>,
+  ) => {
+    const res = await updateDeliverySlot(slot.id, data);
+    if (!res.ok) {
+      toast.error(res.message || 'Failed to update delivery slot');
+      return;
+    }
+    setSlots((current) =>
+      current.map((item) => (item.id === slot.id ? res.data.slot : item)),
+    );
+  };
+
+  const handleCapacityChange = (slot: DeliverySlot, value: string) => {
+    const capacity = parseInt(value, 10);
+    if (isNaN(capacity) || capacity < 1 || capacity === slot.capacity) return;
+    handleUpdate(slot, { capacity });
+  };
+
+  return (
+    <>
+      {isSuperAdmin && (
+        <div className="flex items-center gap-4 p-4">
+          <select
+            className="select select-bordered select-sm"
+            value={warehouseId ?? ''}
+            onChange={(e) =>
+              setWarehouseId(
+                e.target.value ? parseInt(e.target.value, 10) : undefined,
+              )
+            }
+          >
+            <option value="" disabled>
+              Select a warehouse
+            </option>
+            {warehouses.map((warehouse) => (
+              <option key={warehouse.id} value={warehouse.id}>
+                {warehouse.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {error && <ErrorAlert message={error} />}
+
+      {(!isSuperAdmin || warehouseId) && (
+        <form
+          onSubmit={handleCreate}
+          className="flex flex-wrap items-end gap-2 p-4"
+        >
+          <label className="form-control">
+            <span className="label-text">Day</span>
+            <select
+              className="select select-bordered select-sm"
+              value={form.dayOfWeek}
+              onChange={(e) =>
+                setForm({ ...form, dayOfWeek: parseInt(e.target.value, 10) })
+              }
+            >
+              {DAY_NAMES.map((day, index) => (
+                <option key={day} value={index}>
+                  {day}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="form-control">
+            <span className="label-text">From</span>
+            <input
+              type="time"
+              className="input input-bordered input-sm"
+              value={form.startTime}
+              onChange={(e) => setForm({ ...form, startTime: e.target.value })}
+              required
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text">Until</span>
+            <input
+              type="time"
+              className="input input-bordered input-sm"
+              value={form.endTime}
+              onChange={(e) => setForm({ ...form, endTime: e.target.value })}
+              required
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text">Orders per slot</span>
+            <input
+              type="number"
+              min={1}
+              className="input input-bordered input-sm w-28"
+              value={form.capacity}
+              onChange={(e) =>
+                setForm({ ...form, capacity: parseInt(e.target.value, 10) })
+              }
+              required
+            />
+          </label>
+          <button type="submit" className="btn btn-primary btn-sm">
+            Add Slot
+          </button>
+        </form>
+      )}
+
+      <div className="overflow-x-auto">
+        {loading ? (
+          <span className="loading loading-spinner loading-md m-4"></span>
+        ) : (
+          <table className="table table-zebra">
+            <thead>
+              <tr>
+                <th>Day</th>
+                <th>Window</th>
+                <th>Orders per slot</th>
+                <th>Active</th>
+              </tr>
+            </thead>
+            <tbody>
+              {slots.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="text-center">
+                    No delivery slots yet
+                  </td>
+                </tr>
+              ) : (
+                slots.map((slot) => (
+                  <tr key={slot.id}>
+                    <td>{DAY_NAMES[slot.dayOfWeek]}</td>
+                    <td>
+                      {slot.startTime} - {slot.endTime}
+                    </td>
+                    <td>
+                      <input
+                        type="number"
+                        min={1}
+                        className="input input-bordered input-sm w-24"
+                        defaultValue={slot.capacity}
+                        onBlur={(e) =>
+                          handleCapacityChange(slot, e.target.value)
+                        }
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="checkbox"
+                        className="toggle toggle-primary toggle-sm"
+                        checked={slot.isActive}
+                        onChange={(e) =>
+                          handleUpdate(slot, { isActive: e.target.checked })
+                        }
+                      />
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </>
+  );
+};
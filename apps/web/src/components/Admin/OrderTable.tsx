@@ -1,11 +1,35 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
-import { getAllOrders, updateStatusOrder } from '@/api/admin';
+import {
+  addShipmentEvent,
+  cancelOrderByAdmin,
+  cancelOrderItems,
+  confirmCodCollected,
+  confirmPickup,
+  getAllOrders,
+  markReadyForPickup,
+  shipOrderShipment,
+  substituteOrderItem,
+  updateStatusOrder,
+} from '@/api/admin';
+import {
+  AdminCancelOrderInput,
+  CancelOrderItemsInput,
+  ShipmentEventInput,
+  ShipParcelInput,
+} from '@/types/order';
 import { formatRupiah } from '@/utils/currencyUtils';
 import { Search } from '../Search';
 import { Pagination } from '../Pagination';
 import { ErrorAlert } from '../ErrorAlert';
+import CancelOrderItemsForm from '../CancelOrderItemsForm';
+import { PaymentProofReview } from './PaymentProofReview';
+import { CancelOrderForm } from './CancelOrderForm';
+import { ShipParcelForm } from './ShipParcelForm';
+import { ShipmentEventForm } from './ShipmentEventForm';
+import { SubstituteItemForm } from './SubstituteItemForm';
+import { useOrder } from '@/context/OrderContext';
 import Swal from 'sweetalert2';
 
 interface Order {
@@ -14,12 +38,15 @@ interface Order {
   paymentStatus: string;
   shippingCost: number;
   total: number;
+  walletAmount: number;
   paymentMethod: string;
   paymentProof: string;
   expirePayment: string;
   warehouseId: number;
   cartId: number;
-  addressId: number;
+  addressId: number | null;
+  fulfillmentMethod: 'DELIVERY' | 'PICKUP';
+  pickupCode: string | null;
   voucherId: any;
   shippedAt: number;
   cancellationSource: any;
@@ -30,6 +57,8 @@ interface Order {
   cart: any;
   address: any;
   voucher: any;
+  shipments: any;
+  paymentProofs: any;
 }
 
 interface Warehouse {
@@ -52,6 +81,17 @@ export const OrderTable = () => {
   const [totalPages, setTotalPages] = useState<number>(1);
   const [limit] = useState<number>(10);
   const [userRole, setUserRole] = useState<UserRole>('USER');
+  const [cancelingOrder, setCancelingOrder] = useState<Order | null>(null);
+  const [reviewingOrder, setReviewingOrder] = useState<Order | null>(null);
+  const [cancelingWholeOrder, setCancelingWholeOrder] = useState<Order | null>(
+    null,
+  );
+  const [shippingParcelId, setShippingParcelId] = useState<number | null>(null);
+  const [trackingParcelId, setTrackingParcelId] = useState<number | null>(null);
+  const [substitutingOrder, setSubstitutingOrder] = useState<Order | null>(
+    null,
+  );
+  const { downloadInvoice } = useOrder();
 
   const fetchOrders = async (page: number) => {
     setLoading(true);
@@ -95,19 +135,11 @@ export const OrderTable = () => {
       if (!res.ok)
         throw new Error(res.message || 'Failed to update payment status');
 
-      if (newStatus === 'CANCELED') {
-        Swal.fire({
-          icon: 'warning',
-          title: 'Payment Rejected',
-          text: 'Payment proof has been rejected. Order status reverted to PENDING.',
-        });
-      } else {
-        Swal.fire({
-          icon: 'success',
-          title: 'Success',
-          text: `Payment Status has been successfully updated to ${newStatus}`,
-        });
-      }
+      Swal.fire({
+        icon: 'success',
+        title: 'Success',
+        text: `Payment Status has been successfully updated to ${newStatus}`,
+      });
 
       // Update the filteredOrders state
       const updatedOrders = filteredOrders.map((order) =>
@@ -119,6 +151,225 @@ export const OrderTable = () => {
     }
   };
 
+  // Ships a single parcel, the order becomes SHIPPED once every parcel is sent
+  const handleShipParcel = async (data: ShipParcelInput) => {
+    if (!shippingParcelId) return;
+    const res = await shipOrderShipment(shippingParcelId, data);
+    if (!res.ok) throw new Error(res.message || 'Failed to ship parcel');
+
+    setShippingParcelId(null);
+    Swal.fire({
+      icon: 'success',
+      title: 'Success',
+      text: 'Parcel has been marked as shipped',
+    });
+    fetchOrders(currentPage);
+  };
+
+  const handleAddShipmentEvent = async (data: ShipmentEventInput) => {
+    if (!trackingParcelId) return;
+    const res = await addShipmentEvent(trackingParcelId, data);
+    if (!res.ok) throw new Error(res.message || 'Failed to add tracking event');
+
+    setTrackingParcelId(null);
+    Swal.fire({
+      icon: 'success',
+      title: 'Tracking Updated',
+      text: 'The customer can see the update on their order.',
+    });
+    fetchOrders(currentPage);
+  };
+
+  const handleCodCollected = async (order: Order) => {
+    const result = await Swal.fire({
+      title: 'Cash collected?',
+      text: `Confirm the courier handed over ${formatRupiah(Math.max(order.total - order.walletAmount, 0))} for ${order.name}.`,
+      showCancelButton: true,
+      confirmButtonText: 'Confirm',
+    });
+    if (!result.isConfirmed) return;
+
+    const res = await confirmCodCollected(order.id);
+    if (!res.ok) {
+      setError(res.message || 'Failed to confirm cash collection');
+      return;
+    }
+
+    Swal.fire({
+      icon: 'success',
+      title: 'Cash Collected',
+      text: 'The order is now paid and delivered.',
+    });
+    fetchOrders(currentPage);
+  };
+
+  const handleReadyForPickup = async (order: Order) => {
+    const result = await Swal.fire({
+      title: 'Ready for pickup?',
+      text: `Confirm ${order.name} is packed and waiting at the counter. The customer will receive the pickup code.`,
+      showCancelButton: true,
+      confirmButtonText: 'Confirm',
+    });
+    if (!result.isConfirmed) return;
+
+    const res = await markReadyForPickup(order.id);
+    if (!res.ok) {
+      setError(res.message || 'Failed to mark the order ready for pickup');
+      return;
+    }
+
+    Swal.fire({
+      icon: 'success',
+      title: 'Ready for Pickup',
+      text: 'The customer was sent the pickup code by email.',
+    });
+    fetchOrders(currentPage);
+  };
+
+  // The customer shows the code at the counter, scanned or typed in here
+  const handleConfirmPickup = async () => {
+    const result = await Swal.fire({
+      title: 'Hand over an order',
+      input: 'text',
+      inputLabel: 'Pickup code',
+      inputPlaceholder: 'Scan or type the pickup code',
+      showCancelButton: true,
+      confirmButtonText: 'Confirm Pickup',
+      inputValidator: (value) =>
+        value.trim() ? null : 'Please enter the pickup code',
+    });
+    if (!result.isConfirmed) return;
+
+    const res = await confirmPickup(result.value);
+    if (!res.ok) {
+      Swal.fire({
+        icon: 'error',
+        title: 'Pickup Not Confirmed',
+        text: res.message,
+      });
+      return;
+    }
+
+    Swal.fire({
+      icon: 'success',
+      title: 'Order Picked Up',
+      text: `${res.data.order.name} was handed over to the customer.`,
+    });
+    fetchOrders(currentPage);
+  };
+
+  // Only units still waiting in an unshipped parcel can be cancelled
+  const getCancelableItems = (order: Order) =>
+    order.items
+      .filter((item: any) => item.quantity > 0)
+      .map((item: any) => ({
+        id: item.id,
+        name: item.product?.name ?? `Item #${item.id}`,
+        cancelable: (order.shipments ?? [])
+          .filter((shipment: any) => shipment.status === 'PENDING')
+          .flatMap((shipment: any) => shipment.items)
+          .filter((shipmentItem: any) => shipmentItem.orderItemId === item.id)
+          .reduce(
+            (sum: number, shipmentItem: any) => sum + shipmentItem.quantity,
+            0,
+          ),
+      }));
+
+  const handleCancelItems = async (data: CancelOrderItemsInput) => {
+    if (!cancelingOrder) return;
+    const res = await cancelOrderItems(cancelingOrder.id, data);
+    if (!res.ok) throw new Error(res.message || 'Failed to cancel items');
+
+    setCancelingOrder(null);
+    Swal.fire({
+      icon: 'success',
+      title: 'Items Cancelled',
+      text:
+        res.data.refundAmount > 0
+          ? `${formatRupiah(res.data.refundAmount)} will be refunded to the customer.`
+          : 'The order has been updated.',
+    });
+    fetchOrders(currentPage);
+  };
+
+  // The whole order can be canceled until one of its parcels has left
+  const canCancelOrder = (order: Order) =>
+    ['PENDING', 'PAID'].includes(order.paymentStatus) &&
+    !(order.shipments ?? []).some((shipment: any) =>
+      ['SHIPPED', 'DELIVERED'].includes(shipment.status),
+    );
+
+  const handleCancelOrder = async (data: AdminCancelOrderInput) => {
+    if (!cancelingWholeOrder) return;
+    const res = await cancelOrderByAdmin(cancelingWholeOrder.id, data);
+    if (!res.ok) throw new Error(res.message || 'Failed to cancel order');
+
+    setCancelingWholeOrder(null);
+    Swal.fire({
+      icon: 'success',
+      title: 'Order Cancelled',
+      text: 'The customer was notified by email.',
+    });
+    fetchOrders(currentPage);
+  };
+
+  // Lines still waiting to ship whose customer accepts a substitute
+  const getSubstitutableItems = (order: Order) =>
+    order.items
+      .filter(
+        (item: any) =>
+          item.quantity > 0 &&
+          !item.substitutedAt &&
+          item.substitutionPreference !== 'NONE',
+      )
+      .map((item: any) => ({
+        id: item.id,
+        name: item.product?.name ?? `Item #${item.id}`,
+        price: item.price,
+        preference: item.substitutionPreference,
+      }));
+
+  const handleSubstituteItem = async (data: {
+    orderItemId: number;
+    productId: number;
+  }) => {
+    if (!substitutingOrder) return;
+    const res = await substituteOrderItem(substitutingOrder.id, data);
+    if (!res.ok) throw new Error(res.message || 'Failed to substitute item');
+
+    setSubstitutingOrder(null);
+    Swal.fire({
+      icon: 'success',
+      title: 'Item Substituted',
+      text:
+        res.data.refundAmount > 0
+          ? `${formatRupiah(res.data.refundAmount)} was refunded, the customer was notified by email.`
+          : 'The customer was notified by email.',
+    });
+    fetchOrders(currentPage);
+  };
+
+  const handleDownloadInvoice = async (order: Order) => {
+    try {
+      await downloadInvoice(order.id);
+    } catch (err) {
+      setError('Failed to download invoice');
+    }
+  };
+
+  const handleProofReviewed = (decision: 'accept' | 'reject') => {
+    setReviewingOrder(null);
+    Swal.fire({
+      icon: decision === 'accept' ? 'success' : 'warning',
+      title: decision === 'accept' ? 'Payment Accepted' : 'Proof Rejected',
+      text:
+        decision === 'accept'
+          ? 'The order is now paid and ready to ship.'
+          : 'The customer was notified and can upload a new proof.',
+    });
+    fetchOrders(currentPage);
+  };
+
   // Search functionality optimized with memoization
   const handleSearch = (query: string) => {
     const lowerQuery = query.toLowerCase();
@@ -137,24 +388,40 @@ export const OrderTable = () => {
 
   const handleClearSearch = () => setFilteredOrders(orders);
 
-  // Memoized available statuses based on current status
+  // Memoized available statuses based on current status, mirrors the API transition table.
+  // Cancellations go through the Cancel Order action so they carry a reason, and
+  // shipping goes through Ship Parcel so every parcel gets its waybill
   const getAvailableStatuses = useMemo(
-    () => (currentStatus: string) => {
-      switch (currentStatus) {
-        case 'PAID':
-          return ['SHIPPED'];
-        case 'SHIPPED':
-          return ['DELIVERED'];
-        case 'DELIVERED':
-          return [];
-        case 'CANCELED':
-          return ['PENDING'];
-        case 'PENDING':
-          return ['PAID', 'CANCELED'];
-        default:
+    () =>
+      (
+        currentStatus: string,
+        paymentMethod: string,
+        fulfillmentMethod: Order['fulfillmentMethod'],
+      ) => {
+        // Pickup orders leave through Ready for Pickup and the counter handover
+        if (fulfillmentMethod === 'PICKUP') {
+          if (currentStatus !== 'PENDING') return [];
+          return paymentMethod === 'COD' ? [] : ['PAID'];
+        }
+        // Cash on delivery ships unpaid and is paid through Cash Collected
+        if (paymentMethod === 'COD') {
           return [];
-      }
-    },
+        }
+        switch (currentStatus) {
+          case 'PAID':
+            return [];
+          case 'SHIPPED':
+            return ['DELIVERED'];
+          case 'DELIVERED':
+            return [];
+          case 'CANCELED':
+            return [];
+          case 'PENDING':
+            return ['PAID'];
+          default:
+            return [];
+        }
+      },
     [],
   );
 
@@ -176,6 +443,12 @@ export const OrderTable = () => {
       <div className="overflow-x-auto">
         <div className="flex flex-row justify-between my-3 mx-3 gap-10">
           <Search onSearch={handleSearch} onClear={handleClearSearch} />
+          <button
+            className="btn btn-sm btn-outline"
+            onClick={handleConfirmPickup}
+          >
+            Confirm Pickup
+          </button>
           {userRole === 'SUPER_ADMIN' && warehouses.length > 0 && (
             <select
               onChange={(e) => handleWarehouseChange(e.target.value)}
@@ -204,6 +477,7 @@ export const OrderTable = () => {
               <th>Payment Method</th>
               <th>Payment Proof</th>
               <th>Payment Status</th>
+              <th>Parcels</th>
               <th></th>
             </tr>
           </thead>
@@ -211,9 +485,17 @@ export const OrderTable = () => {
             {filteredOrders.map((order, index) => (
               <tr key={index}>
                 <td>{order.id}</td>
-                <td>{order.name}</td>
-                <td>{order.address.name ?? '-'}</td>
-                <td>{order.address.address ?? '-'}</td>
+                <td>
+                  {order.name}
+                  <button
+                    className="btn btn-xs btn-ghost block"
+                    onClick={() => handleDownloadInvoice(order)}
+                  >
+                    Invoice
+                  </button>
+                </td>
+                <td>{order.address?.name ?? '-'}</td>
+                <td>{order.address?.address ?? 'Store pickup'}</td>
                 <td>{order.warehouse.name ?? '-'}</td>
                 <td>{formatRupiah(order.total)}</td>
                 <td>{formatRupiah(order.shippingCost)}</td>
@@ -232,6 +514,14 @@ export const OrderTable = () => {
                   ) : (
                     'No proof available'
                   )}
+                  {order.paymentProofs?.length > 0 && (
+                    <button
+                      className="btn btn-xs btn-ghost mt-1"
+                      onClick={() => setReviewingOrder(order)}
+                    >
+                      Proofs ({order.paymentProofs.length})
+                    </button>
+                  )}
                 </td>
                 <td>
                   <select
@@ -241,20 +531,110 @@ export const OrderTable = () => {
                     }
                     className="select select-bordered select-sm"
                     disabled={
-                      getAvailableStatuses(order.paymentStatus).length === 0
+                      getAvailableStatuses(
+                        order.paymentStatus,
+                        order.paymentMethod,
+                        order.fulfillmentMethod,
+                      ).length === 0
                     }
                   >
                     <option value={order.paymentStatus} disabled>
                       {order.paymentStatus}
                     </option>
-                    {getAvailableStatuses(order.paymentStatus).map((status) => (
+                    {getAvailableStatuses(
+                      order.paymentStatus,
+                      order.paymentMethod,
+                      order.fulfillmentMethod,
+                    ).map((status) => (
                       <option key={status} value={status}>
                         {status}
                       </option>
                     ))}
                   </select>
                 </td>
-                <td></td>
+                <td>
+                  {order.shipments?.map((shipment: any) => (
+                    <div
+                      key={shipment.id}
+                      className="flex items-center gap-2 text-xs mb-1"
+                    >
+                      <span>{shipment.warehouse.name}</span>
+                      <span className="badge badge-sm">{shipment.status}</span>
+                      {order.fulfillmentMethod !== 'PICKUP' &&
+                        order.paymentStatus ===
+                          (order.paymentMethod === 'COD'
+                            ? 'PENDING'
+                            : 'PAID') &&
+                        shipment.status === 'PENDING' && (
+                          <button
+                            className="btn btn-xs btn-primary"
+                            onClick={() => setShippingParcelId(shipment.id)}
+                          >
+                            Ship
+                          </button>
+                        )}
+                      {shipment.waybill && (
+                        <span title={shipment.courierService ?? ''}>
+                          {shipment.courier?.toUpperCase()} {shipment.waybill}
+                        </span>
+                      )}
+                      {shipment.status === 'SHIPPED' && (
+                        <button
+                          className="btn btn-xs btn-outline"
+                          onClick={() => setTrackingParcelId(shipment.id)}
+                        >
+                          Track
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </td>
+                <td>
+                  {order.fulfillmentMethod === 'PICKUP' &&
+                    order.paymentStatus ===
+                      (order.paymentMethod === 'COD' ? 'PENDING' : 'PAID') && (
+                      <button
+                        className="btn btn-xs btn-primary mb-1"
+                        onClick={() => handleReadyForPickup(order)}
+                      >
+                        Ready for Pickup
+                      </button>
+                    )}
+                  {order.paymentMethod === 'COD' &&
+                    order.paymentStatus === 'SHIPPED' && (
+                      <button
+                        className="btn btn-xs btn-success mb-1"
+                        onClick={() => handleCodCollected(order)}
+                      >
+                        Cash Collected
+                      </button>
+                    )}
+                  {['PENDING', 'PAID'].includes(order.paymentStatus) && (
+                    <button
+                      className="btn btn-xs btn-outline btn-error"
+                      onClick={() => setCancelingOrder(order)}
+                    >
+                      Cancel Items
+                    </button>
+                  )}
+                  {canCancelOrder(order) &&
+                    getSubstitutableItems(order).length > 0 && (
+                      <button
+                        className="btn btn-xs btn-outline mt-1"
+                        onClick={() => setSubstitutingOrder(order)}
+                      >
+                        Substitute
+                      </button>
+                    )}
+                  {canCancelOrder(order) && (
+                    <button
+                      className="btn btn-xs btn-error mt-1"
+                      onClick={() => setCancelingWholeOrder(order)}
+                    >
+                      Cancel Order
+                    </button>
+                  )}
+                </td>
               </tr>
             ))}
           </tbody>
@@ -266,6 +646,75 @@ export const OrderTable = () => {
         totalPages={totalPages}
         onPageChange={handlePageChange}
       />
+
+      {reviewingOrder && (
+        <PaymentProofReview
+          order={reviewingOrder}
+          onClose={() => setReviewingOrder(null)}
+          onReviewed={handleProofReviewed}
+        />
+      )}
+
+      {cancelingOrder && (
+        <div className="modal modal-open">
+          <div className="modal-box">
+            <p className="font-semibold mb-2">{cancelingOrder.name}</p>
+            <CancelOrderItemsForm
+              items={getCancelableItems(cancelingOrder)}
+              onCancel={() => setCancelingOrder(null)}
+              onSubmit={handleCancelItems}
+            />
+          </div>
+        </div>
+      )}
+
+      {shippingParcelId && (
+        <div className="modal modal-open">
+          <div className="modal-box">
+            <ShipParcelForm
+              onCancel={() => setShippingParcelId(null)}
+              onSubmit={handleShipParcel}
+            />
+          </div>
+        </div>
+      )}
+
+      {substitutingOrder && (
+        <div className="modal modal-open">
+          <div className="modal-box">
+            <p className="font-semibold mb-2">{substitutingOrder.name}</p>
+            <SubstituteItemForm
+              orderId={substitutingOrder.id}
+              items={getSubstitutableItems(substitutingOrder)}
+              onCancel={() => setSubstitutingOrder(null)}
+              onSubmit={handleSubstituteItem}
+            />
+          </div>
+        </div>
+      )}
+
+      {trackingParcelId && (
+        <div className="modal modal-open">
+          <div className="modal-box">
+            <ShipmentEventForm
+              onCancel={() => setTrackingParcelId(null)}
+              onSubmit={handleAddShipmentEvent}
+            />
+          </div>
+        </div>
+      )}
+
+      {cancelingWholeOrder && (
+        <div className="modal modal-open">
+          <div className="modal-box">
+            <p className="font-semibold mb-2">{cancelingWholeOrder.name}</p>
+            <CancelOrderForm
+              onCancel={() => setCancelingWholeOrder(null)}
+              onSubmit={handleCancelOrder}
+            />
+          </div>
+        </div>
+      )}
     </>
   );
 };
@@ -0,0 +1,181 @@
+'use client';
+
+import { useState } from 'react';
+import { reviewPaymentProof } from '@/api/admin';
+import { PaymentProof, PaymentProofRejectionReason } from '@/types/order';
+import { formatRupiah } from '@/utils/currencyUtils';
+
+interface PaymentProofReviewProps {
+  order: {
+    id: number;
+    name: string;
+    total: number;
+    paymentStatus: string;
+    expirePayment: string;
+    paymentProofs?: PaymentProof[];
+  };
+  onClose: () => void;
+  onReviewed: (decision: 'accept' | 'reject') => void;
+}
+
+const REJECTION_REASONS: {
+  value: PaymentProofRejectionReason;
+  label: string;
+}[] = [
+  { value: 'WRONG_AMOUNT', label: 'Wrong amount' },
+  { value: 'UNREADABLE', label: 'Unreadable' },
+  { value: 'WRONG_ACCOUNT', label: 'Wrong account' },
+  { value: 'OTHER', label: 'Other' },
+];
+
+const reasonLabel = (reason: PaymentProofRejectionReason | null) =>
+  REJECTION_REASONS.find((option) => option.value === reason)?.label ?? '-';
+
+export const PaymentProofReview = ({
+  order,
+  onClose,
+  onReviewed,
+}: PaymentProofReviewProps) => {
+  const [reason, setReason] =
+    useState<PaymentProofRejectionReason>('WRONG_AMOUNT');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const proofs = order.paymentProofs ?? [];
+  const canReview =
+    order.paymentStatus === 'PENDING' &&
+    proofs.some((proof) => proof.status === 'PENDING');
+
+  const handleReview = async (decision: 'accept' | 'reject') => {
+    setIsSubmitting(true);
+    setError('');
+    const res = await reviewPaymentProof(
+      order.id,
+      decision,
+      decision === 'reject'
+        ? { reason, note: note.trim() || undefined }
+        : undefined,
+    );
+    setIsSubmitting(false);
+
+    if (!res.ok) {
+      setError(res.message || `Failed to ${decision} payment proof`);
+      return;
+    }
+    onReviewed(decision);
+  };
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box max-w-3xl">
+        <h3 className="font-bold text-lg">Payment proofs of {order.name}</h3>
+        <p className="text-sm mb-4">
+          Order total {formatRupiah(order.total)}, payment due{' '}
+          {new Date(order.expirePayment).toLocaleString()}
+        </p>
+
+        {proofs.length === 0 ? (
+          <p>No proof uploaded yet.</p>
+        ) : (
+          <table className="table table-sm">
+            <thead>
+              <tr>
+                <th>Version</th>
+                <th>Uploaded</th>
+                <th>Decision</th>
+                <th>Reason</th>
+                <th>Reviewer</th>
+              </tr>
+            </thead>
+            <tbody>
+              {proofs.map((proof, index) => (
+                <tr key={proof.id}>
+                  <td>
+                    <a
+                      className="link link-primary"
+                      href={proof.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      #{proofs.length - index}
+                    </a>
+                  </td>
+                  <td>{new Date(proof.createdAt).toLocaleString()}</td>
+                  <td>{proof.status}</td>
+                  <td className="max-w-xs whitespace-normal">
+                    {proof.status === 'REJECTED'
+                      ? reasonLabel(proof.rejectionReason)
+                      : '-'}
+                    {proof.reviewNote && (
+                      <div className="text-xs">{proof.reviewNote}</div>
+                    )}
+                  </td>
+                  <td>
+                    {proof.reviewer?.username ?? '-'}
+                    {proof.reviewedAt && (
+                      <div className="text-xs">
+                        {new Date(proof.reviewedAt).toLocaleString()}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {canReview && (
+          <div className="mt-4 space-y-2">
+            <select
+              value={reason}
+              onChange={(e) =>
+                setReason(e.target.value as PaymentProofRejectionReason)
+              }
+              className="select select-bordered select-sm w-full"
+            >
+              {REJECTION_REASONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional note for the customer"
+              className="textarea textarea-bordered w-full"
+              maxLength={1000}
+            />
+          </div>
+        )}
+
+        {error && <p className="text-red-500 mt-2">{error}</p>}
+
+        <div className="modal-action">
+          <button className="btn btn-ghost" onClick={onClose}>
+            Close
+          </button>
+          {canReview && (
+            <>
+              <button
+                className="btn btn-error"
+                disabled={isSubmitting}
+                onClick={() => handleReview('reject')}
+              >
+                Reject
+              </button>
+              <button
+                className="btn btn-success"
+                disabled={isSubmitting}
+                onClick={() => handleReview('accept')}
+              >
+                Accept
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
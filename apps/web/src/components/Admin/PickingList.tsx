@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getPickingList } from '@/api/admin';
+import { getWarehouses } from '@/api/warehouse';
+import { PickingSlot } from '@/types/order';
+import { formatDeliveryDate } from '@/utils/dateUtils';
+import { ErrorAlert } from '../ErrorAlert';
+
+// Deliveries start tomorrow, so that is the day worth preparing for
+const getTomorrow = () =>
+  new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+export const PickingList = ({ isSuperAdmin }: { isSuperAdmin: boolean }) => {
+  const [date, setDate] = useState<string>(getTomorrow());
+  const [slots, setSlots] = useState<PickingSlot[]>([]);
+  const [warehouses, setWarehouses] = useState<{ id: number; name: string }[]>(
+    [],
+  );
+  const [warehouseId, setWarehouseId] = useState<number | undefined>();
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (!isSuperAdmin) return;
+    getWarehouses()
+      .then((data) => setWarehouses(data ?? []))
+      .catch(() => setError('Failed to fetch stores'));
+  }, [isSuperAdmin]);
+
+  useEffect(() => {
+    const fetchPickingList = async () => {
+      if (!date || (isSuperAdmin && !warehouseId)) {
+        setSlots([]);
+        return;
+      }
+      setLoading(true);
+      setError('');
+      const res = await getPickingList(date, warehouseId);
+      if (res.ok) {
+        setSlots(res.data.slots);
+      } else {
+        setError(res.message || 'Failed to get picking list');
+      }
+      setLoading(false);
+    };
+
+    fetchPickingList();
+  }, [date, warehouseId, isSuperAdmin]);
+
+  return (
+    <>
+      <div className="flex items-center gap-4 p-4">
+        <input
+          type="date"
+          className="input input-bordered input-sm"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+        />
+        {isSuperAdmin && (
+          <select
+            className="select select-bordered select-sm"
+            value={warehouseId ?? ''}
+            onChange={(e) =>
+              setWarehouseId(
+                e.target.value ? parseInt(e.target.value, 10) : undefined,
+              )
+            }
+          >
+            <option value="" disabled>
+              Select a warehouse
+            </option>
+            {warehouses.map((warehouse) => (
+              <option key={warehouse.id} value={warehouse.id}>
+                {warehouse.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {error && <ErrorAlert message={error} />}
+
+      {loading ? (
+        <span className="loading loading-spinner loading-md m-4"></span>
+      ) : slots.length === 0 ? (
+        <p className="p-4">No delivery slots on this day.</p>
+      ) : (
+        <div className="flex flex-col gap-4 p-4">
+          {slots.map((slot) => (
+            <div key={slot.id} className="card card-compact bg-base-100 border">
+              <div className="card-body">
+                <h3 className="card-title text-lg">
+                  {formatDeliveryDate(date)}, {slot.startTime} - {slot.endTime}
+                  <span className="badge badge-outline">
+                    {slot.orders.length} / {slot.capacity} orders
+                  </span>
+                </h3>
+
+                {slot.pickList.length > 0 && (
+                  <div>
+                    <h4 className="font-semibold">To pick</h4>
+                    <ul className="list-disc list-inside">
+                      {slot.pickList.map((line) => (
+                        <li key={line.productId}>
+                          {line.quantity} x {line.name}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {slot.orders.length > 0 && (
+                  <table className="table table-sm">
+                    <thead>
+                      <tr>
+                        <th>Order</th>
+                        <th>Status</th>
+                        <th>Deliver To</th>
+                        <th>Items</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {slot.orders.map((order) => (
+                        <tr key={order.id}>
+                          <td>{order.name}</td>
+                          <td>{order.paymentStatus}</td>
+                          <td>
+                            {order.address.name}, {order.address.address}
+                          </td>
+                          <td>
+                            {order.items
+                              .map((item) => `${item.quantity} x ${item.name}`)
+                              .join(', ')}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,224 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getReturnRequests, reviewReturnRequest } from '@/api/admin';
+import { formatRupiah } from '@/utils/currencyUtils';
+import { Pagination } from '../Pagination';
+import { ErrorAlert } from '../ErrorAlert';
+import Swal from 'sweetalert2';
+
+interface ReturnRequest {
+  id: number;
+  status: string;
+  reason: string;
+  refundAmount: number;
+  restocked: boolean | null;
+  reviewNote: string | null;
+  createdAt: string;
+  order: { id: number; name: string };
+  user: { id: number; username: string; email: string };
+  items: any;
+  photos: { id: number; url: string }[];
+}
+
+const STATUS_FILTERS = ['REQUESTED', 'APPROVED', 'REJECTED'];
+
+export const ReturnTable = () => {
+  const [returnRequests, setReturnRequests] = useState<ReturnRequest[]>([]);
+  const [status, setStatus] = useState<string>('REQUESTED');
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>('');
+  const [currentPage, setCurrentPage] = useState<number>(1);
+  const [totalPages, setTotalPages] = useState<number>(1);
+  const [limit] = useState<number>(10);
+
+  const fetchReturnRequests = async (page: number) => {
+    setLoading(true);
+    setError('');
+    const res = await getReturnRequests(page, limit, status);
+    if (res.ok) {
+      setReturnRequests(res.data.returnRequests);
+      setTotalPages(res.data.pagination.totalPages);
+    } else {
+      setError(res.message || 'Failed to get return requests');
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchReturnRequests(currentPage);
+  }, [currentPage, status]);
+
+  const handleApprove = async (request: ReturnRequest) => {
+    const result = await Swal.fire({
+      title: 'Approve return?',
+      text: `${formatRupiah(request.refundAmount)} will be refunded to the customer.`,
+      input: 'textarea',
+      inputPlaceholder: 'Optional note for the customer',
+      showDenyButton: true,
+      showCancelButton: true,
+      confirmButtonText: 'Restock items',
+      denyButtonText: 'Write off items',
+      returnInputValueOnDeny: true,
+    });
+    if (result.isDismissed) return;
+
+    const res = await reviewReturnRequest(request.id, 'approve', {
+      restock: result.isConfirmed,
+      note: result.value || undefined,
+    });
+    if (!res.ok) {
+      setError(res.message || 'Failed to approve return request');
+      return;
+    }
+
+    Swal.fire({
+      icon: 'success',
+      title: 'Return Approved',
+      text: result.isConfirmed
+        ? 'Items were restocked and the refund was recorded.'
+        : 'Items were written off and the refund was recorded.',
+    });
+    fetchReturnRequests(currentPage);
+  };
+
+  const handleReject = async (request: ReturnRequest) => {
+    const result = await Swal.fire({
+      title: 'Reject return?',
+      input: 'textarea',
+      inputPlaceholder: 'Tell the customer why the return was rejected',
+      inputValidator: (value) =>
+        !value?.trim() ? 'A rejection note is required' : undefined,
+      showCancelButton: true,
+      confirmButtonText: 'Reject',
+    });
+    if (!result.isConfirmed) return;
+
+    const res = await reviewReturnRequest(request.id, 'reject', {
+      note: result.value,
+    });
+    if (!res.ok) {
+      setError(res.message || 'Failed to reject return request');
+      return;
+    }
+
+    Swal.fire({
+      icon: 'warning',
+      title: 'Return Rejected',
+      text: 'The customer can see your note on their order.',
+    });
+    fetchReturnRequests(currentPage);
+  };
+
+  const handleStatusChange = (value: string) => {
+    setStatus(value);
+    setCurrentPage(1);
+  };
+
+  return (
+    <>
+      <div className="flex items-center gap-4 p-4">
+        <select
+          value={status}
+          onChange={(e) => handleStatusChange(e.target.value)}
+          className="select select-bordered select-sm"
+        >
+          {STATUS_FILTERS.map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <ErrorAlert message={error} />}
+
+      <div className="overflow-x-auto">
+        {loading ? (
+          <span className="loading loading-spinner loading-md m-4"></span>
+        ) : (
+          <table className="table table-zebra">
+            <thead>
+              <tr>
+                <th>Id</th>
+                <th>Order Number</th>
+                <th>Customer</th>
+                <th>Items</th>
+                <th>Reason</th>
+                <th>Photos</th>
+                <th>Refund</th>
+                <th>Status</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {returnRequests.map((request) => (
+                <tr key={request.id}>
+                  <td>{request.id}</td>
+                  <td>{request.order.name}</td>
+                  <td>{request.user.username}</td>
+                  <td>
+                    {request.items.map((item: any) => (
+                      <div key={item.id} className="text-xs">
+                        {item.orderItem.product.name} x {item.quantity}
+                      </div>
+                    ))}
+                  </td>
+                  <td className="max-w-xs whitespace-normal">
+                    {request.reason}
+                  </td>
+                  <td>
+                    {request.photos.map((photo, index) => (
+                      <a
+                        key={photo.id}
+                        className="link link-primary text-xs block"
+                        href={photo.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        Photo {index + 1}
+                      </a>
+                    ))}
+                  </td>
+                  <td>{formatRupiah(request.refundAmount)}</td>
+                  <td>
+                    {request.status}
+                    {request.restocked !== null && (
+                      <div className="text-xs">
+                        {request.restocked ? 'Restocked' : 'Written off'}
+                      </div>
+                    )}
+                  </td>
+                  <td>
+                    {request.status === 'REQUESTED' && (
+                      <div className="flex gap-2">
+                        <button
+                          className="btn btn-xs btn-success"
+                          onClick={() => handleApprove(request)}
+                        >
+                          Approve
+                        </button>
+                        <button
+                          className="btn btn-xs btn-error"
+                          onClick={() => handleReject(request)}
+                        >
+                          Reject
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <Pagination
+        currentPage={currentPage}
+        totalPages={totalPages}
+        onPageChange={setCurrentPage}
+      />
+    </>
+  );
+};
@@ -0,0 +1,88 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { ShipParcelInput } from '@/types/order';
+
+interface ShipParcelFormProps {
+  onSubmit: (data: ShipParcelInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const COURIERS = ['jne', 'pos', 'tiki'];
+
+export const ShipParcelForm = ({ onSubmit, onCancel }: ShipParcelFormProps) => {
+  const [courier, setCourier] = useState(COURIERS[0]);
+  const [courierService, setCourierService] = useState('');
+  const [waybill, setWaybill] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    if (!courierService.trim() || !waybill.trim()) {
+      setError('Courier service and waybill number are required.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await onSubmit({
+        courier,
+        courierService: courierService.trim(),
+        waybill: waybill.trim(),
+      });
+    } catch (error: any) {
+      setError(error.message || 'Failed to ship parcel.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <h3 className="text-lg font-semibold">Ship Parcel</h3>
+      <select
+        value={courier}
+        onChange={(e) => setCourier(e.target.value)}
+        className="select select-bordered w-full"
+      >
+        {COURIERS.map((value) => (
+          <option key={value} value={value}>
+            {value.toUpperCase()}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={courierService}
+        onChange={(e) => setCourierService(e.target.value)}
+        placeholder="Service, e.g. REG"
+        className="input input-bordered w-full"
+        maxLength={50}
+      />
+      <input
+        type="text"
+        value={waybill}
+        onChange={(e) => setWaybill(e.target.value)}
+        placeholder="Waybill number"
+        className="input input-bordered w-full"
+        maxLength={100}
+      />
+      {error && <p className="text-red-500">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button type="button" className="btn btn-ghost" onClick={onCancel}>
+          Back
+        </button>
+        <button
+          type="submit"
+          className="btn btn-primary"
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? 'Shipping...' : 'Ship'}
+        </button>
+      </div>
+    </form>
+  );
+};
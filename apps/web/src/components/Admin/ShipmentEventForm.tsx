@@ -0,0 +1,93 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { ShipmentEventInput, ShipmentEventStatus } from '@/types/order';
+
+interface ShipmentEventFormProps {
+  onSubmit: (data: ShipmentEventInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const EVENT_STATUSES: { value: ShipmentEventStatus; label: string }[] = [
+  { value: 'PICKED_UP', label: 'Picked up' },
+  { value: 'IN_TRANSIT', label: 'In transit' },
+  { value: 'OUT_FOR_DELIVERY', label: 'Out for delivery' },
+  { value: 'DELIVERED', label: 'Delivered' },
+];
+
+export const ShipmentEventForm = ({
+  onSubmit,
+  onCancel,
+}: ShipmentEventFormProps) => {
+  const [status, setStatus] = useState<ShipmentEventStatus>('PICKED_UP');
+  const [description, setDescription] = useState('');
+  const [location, setLocation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await onSubmit({
+        status,
+        description: description.trim() || undefined,
+        location: location.trim() || undefined,
+      });
+    } catch (error: any) {
+      setError(error.message || 'Failed to add tracking event.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <h3 className="text-lg font-semibold">Add Tracking Update</h3>
+      <select
+        value={status}
+        onChange={(e) => setStatus(e.target.value as ShipmentEventStatus)}
+        className="select select-bordered w-full"
+      >
+        {EVENT_STATUSES.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={location}
+        onChange={(e) => setLocation(e.target.value)}
+        placeholder="Location (optional)"
+        className="input input-bordered w-full"
+        maxLength={191}
+      />
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Description (optional)"
+        className="textarea textarea-bordered w-full"
+        maxLength={1000}
+      />
+      <p className="text-sm text-gray-500">
+        A Delivered update completes the parcel.
+      </p>
+      {error && <p className="text-red-500">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button type="button" className="btn btn-ghost" onClick={onCancel}>
+          Back
+        </button>
+        <button
+          type="submit"
+          className="btn btn-primary"
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? 'Saving...' : 'Add Update'}
+        </button>
+      </div>
+    </form>
+  );
+};
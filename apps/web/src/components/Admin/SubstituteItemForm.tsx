@@ -0,0 +1,147 @@
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import { getSubstituteCandidates } from '@/api/admin';
+import { SubstituteCandidate, SubstitutionPreference } from '@/types/order';
+import { formatRupiah } from '@/utils/currencyUtils';
+
+interface SubstitutableItem {
+  id: number;
+  name: string;
+  price: number;
+  preference: SubstitutionPreference;
+}
+
+interface SubstituteItemFormProps {
+  orderId: number;
+  items: SubstitutableItem[];
+  onSubmit: (data: { orderItemId: number; productId: number }) => Promise<void>;
+  onCancel: () => void;
+}
+
+const PREFERENCE_LABELS: Record<SubstitutionPreference, string> = {
+  NONE: 'no substitute',
+  SIMILAR: 'a similar item',
+  SPECIFIC: 'a specific product',
+};
+
+export const SubstituteItemForm = ({
+  orderId,
+  items,
+  onSubmit,
+  onCancel,
+}: SubstituteItemFormProps) => {
+  const [orderItemId, setOrderItemId] = useState<number | null>(
+    items[0]?.id ?? null,
+  );
+  const [candidates, setCandidates] = useState<SubstituteCandidate[]>([]);
+  const [productId, setProductId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const selectedItem = items.find((item) => item.id === orderItemId);
+
+  // The customer's preference decides which products can be offered
+  useEffect(() => {
+    const fetchCandidates = async () => {
+      setProductId(null);
+      setCandidates([]);
+      if (!orderItemId) return;
+
+      const res = await getSubstituteCandidates(orderId, orderItemId);
+      if (!res.ok) {
+        setError(res.message || 'Failed to get substitutes.');
+        return;
+      }
+      setError(null);
+      setCandidates(res.data.products);
+    };
+
+    fetchCandidates();
+  }, [orderId, orderItemId]);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    if (!orderItemId || !productId) {
+      setError('Choose the item and its substitute.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await onSubmit({ orderItemId, productId });
+    } catch (error: any) {
+      setError(error.message || 'Failed to substitute item.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <h3 className="text-lg font-semibold">Substitute Item</h3>
+      {items.length === 0 ? (
+        <p className="text-sm">
+          The customer accepts no substitute for the items of this order.
+        </p>
+      ) : (
+        <>
+          <select
+            value={orderItemId ?? ''}
+            onChange={(e) => setOrderItemId(Number(e.target.value))}
+            className="select select-bordered w-full"
+          >
+            {items.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name} ({formatRupiah(item.price)})
+              </option>
+            ))}
+          </select>
+          {selectedItem && (
+            <p className="text-sm text-gray-500">
+              The customer accepts {PREFERENCE_LABELS[selectedItem.preference]}.
+              They pay {formatRupiah(selectedItem.price)} at most, a cheaper
+              substitute is refunded.
+            </p>
+          )}
+          <select
+            value={productId ?? ''}
+            onChange={(e) => setProductId(Number(e.target.value))}
+            className="select select-bordered w-full"
+          >
+            <option value="" disabled>
+              {candidates.length === 0
+                ? 'No substitute available'
+                : 'Choose the substitute'}
+            </option>
+            {candidates.map((candidate) => (
+              <option
+                key={candidate.id}
+                value={candidate.id}
+                disabled={!candidate.inStock}
+              >
+                {candidate.name} ({formatRupiah(candidate.price)})
+                {candidate.inStock ? '' : ' - out of stock'}
+              </option>
+            ))}
+          </select>
+        </>
+      )}
+      {error && <p className="text-red-500">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button type="button" className="btn btn-ghost" onClick={onCancel}>
+          Back
+        </button>
+        <button
+          type="submit"
+          className="btn btn-primary"
+          disabled={isSubmitting || !productId}
+        >
+          {isSubmitting ? 'Substituting...' : 'Substitute'}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,111 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CancelOrderItemsInput } from '@/types/order';
+
+interface CancelableItem {
+  id: number;
+  name: string;
+  cancelable: number;
+}
+
+interface CancelOrderItemsFormProps {
+  items: CancelableItem[];
+  onSubmit: (data: CancelOrderItemsInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const CancelOrderItemsForm: React.FC<CancelOrderItemsFormProps> = ({
+  items,
+  onSubmit,
+  onCancel,
+}) => {
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleQuantityChange = (item: CancelableItem, value: string) => {
+    const quantity = Math.min(Math.max(Number(value) || 0, 0), item.cancelable);
+    setQuantities({ ...quantities, [item.id]: quantity });
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const selectedItems = items
+      .filter((item) => (quantities[item.id] ?? 0) > 0)
+      .map((item) => ({ orderItemId: item.id, quantity: quantities[item.id] }));
+
+    if (selectedItems.length === 0) {
+      setError('Select at least one item to cancel.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await onSubmit({
+        items: selectedItems,
+        reason: reason.trim() || undefined,
+      });
+    } catch (error: any) {
+      setError(
+        error.response?.data?.message ||
+          error.message ||
+          'Failed to cancel items.',
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="border rounded-lg p-4 space-y-4">
+      <h3 className="text-lg font-semibold">Cancel Items</h3>
+      <div className="space-y-2">
+        {items.map((item) => (
+          <div key={item.id} className="flex items-center justify-between">
+            <span>
+              {item.name}{' '}
+              <span className="text-sm text-gray-500">
+                (max {item.cancelable})
+              </span>
+            </span>
+            <input
+              type="number"
+              min={0}
+              max={item.cancelable}
+              value={quantities[item.id] ?? 0}
+              disabled={item.cancelable === 0}
+              onChange={(e) => handleQuantityChange(item, e.target.value)}
+              className="input input-bordered input-sm w-20"
+            />
+          </div>
+        ))}
+      </div>
+      <textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Reason (optional)"
+        className="textarea textarea-bordered w-full"
+        maxLength={1000}
+      />
+      <p className="text-sm text-gray-500">
+        The order total is recalculated. A voucher whose minimum purchase is no
+        longer met is removed.
+      </p>
+      {error && <p className="text-red-500">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button type="button" className="btn btn-ghost" onClick={onCancel}>
+          Back
+        </button>
+        <button type="submit" className="btn btn-error" disabled={isSubmitting}>
+          {isSubmitting ? 'Canceling...' : 'Cancel Selected Items'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default CancelOrderItemsForm;
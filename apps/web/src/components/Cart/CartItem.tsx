@@ -1,6 +1,7 @@
 import React from 'react';
 import { Trash2 } from 'lucide-react';
 import { formatRupiah } from '@/utils/currencyUtils';
+import { CartLineWarning } from '@/types/cart';
 interface CartItemType {
   id: number;
   product: {
@@ -12,23 +13,108 @@ interface CartItemType {
 
 interface CartItemProps {
   item: CartItemType;
+  warnings: CartLineWarning[];
   onUpdateQuantity: (itemId: number, newQuantity: number) => void;
   onRemoveItem: (itemId: number) => void;
+  onAcceptPrice: (itemId: number) => void;
+  // Warning fixes remove right away, the line cannot be ordered anyway
+  onRemoveUnavailable: (itemId: number) => void;
+  // Only logged-in customers have a wishlist to move the line to
+  onSaveForLater?: (itemId: number) => void;
 }
 
 export const CartItem: React.FC<CartItemProps> = ({
   item,
+  warnings,
   onUpdateQuantity,
   onRemoveItem,
+  onAcceptPrice,
+  onRemoveUnavailable,
+  onSaveForLater,
 }) => {
+  const priceChange = warnings.find(
+    (warning) => warning.reason === 'PRICE_CHANGED',
+  );
+
   return (
     <tr className="border-b">
       <td className="py-4">
         <div className="flex items-center">
           <span>{item.product.name}</span>
         </div>
+        {onSaveForLater && (
+          <button
+            className="btn btn-link btn-xs px-0"
+            onClick={() => onSaveForLater(item.id)}
+          >
+            Save for later
+          </button>
+        )}
+        {warnings.map((warning) => (
+          <div
+            key={warning.reason}
+            className="flex flex-wrap items-center gap-2 mt-1 text-sm text-warning"
+          >
+            {warning.reason === 'PRICE_CHANGED' && (
+              <>
+                <span>
+                  Price changed from {formatRupiah(warning.addedPrice ?? 0)} to{' '}
+                  {formatRupiah(warning.price ?? 0)}
+                </span>
+                <button
+                  className="btn btn-xs btn-outline"
+                  onClick={() => onAcceptPrice(item.id)}
+                >
+                  Accept New Price
+                </button>
+              </>
+            )}
+            {warning.reason === 'INSUFFICIENT_STOCK' && (
+              <>
+                <span>
+                  Only {warning.availableStock ?? 0} left at your nearest store
+                </span>
+                {(warning.availableStock ?? 0) > 0 ? (
+                  <button
+                    className="btn btn-xs btn-outline"
+                    onClick={() =>
+                      onUpdateQuantity(item.id, warning.availableStock ?? 0)
+                    }
+                  >
+                    Reduce to {warning.availableStock}
+                  </button>
+                ) : (
+                  <button
+                    className="btn btn-xs btn-outline"
+                    onClick={() => onRemoveUnavailable(item.id)}
+                  >
+                    Remove
+                  </button>
+                )}
+              </>
+            )}
+            {warning.reason === 'PRODUCT_DELETED' && (
+              <>
+                <span>This product is no longer sold</span>
+                <button
+                  className="btn btn-xs btn-outline"
+                  onClick={() => onRemoveUnavailable(item.id)}
+                >
+                  Remove
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+      </td>
+      <td className="py-4">
+        {priceChange && (
+          <span className="block text-xs text-gray-500 line-through">
+            {formatRupiah(priceChange.addedPrice ?? 0)}
+          </span>
+        )}
+        {formatRupiah(item.product.price)}
       </td>
-      <td className="py-4">{formatRupiah(item.product.price)}</td>
       <td className="py-4">
         <div className="flex items-center">
           <button
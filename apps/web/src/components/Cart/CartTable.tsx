@@ -1,4 +1,5 @@
 import { CartItem } from './CartItem';
+import { CartLineWarning } from '@/types/cart';
 
 interface CartItemType {
   id: number;
@@ -11,14 +12,22 @@ interface CartItemType {
 
 interface CartTableProps {
   items: CartItemType[];
+  warnings: CartLineWarning[];
   onUpdateQuantity: (itemId: number, newQuantity: number) => void;
   onRemoveItem: (itemId: number) => void;
+  onAcceptPrice: (itemId: number) => void;
+  onRemoveUnavailable: (itemId: number) => void;
+  onSaveForLater?: (itemId: number) => void;
 }
 
 const CartTable: React.FC<CartTableProps> = ({
   items,
+  warnings,
   onUpdateQuantity,
   onRemoveItem,
+  onAcceptPrice,
+  onRemoveUnavailable,
+  onSaveForLater,
 }) => {
   return (
     <table className="w-full">
@@ -36,8 +45,12 @@ const CartTable: React.FC<CartTableProps> = ({
           <CartItem
             key={item.id}
             item={item}
+            warnings={warnings.filter((warning) => warning.itemId === item.id)}
             onUpdateQuantity={onUpdateQuantity}
             onRemoveItem={onRemoveItem}
+            onAcceptPrice={onAcceptPrice}
+            onRemoveUnavailable={onRemoveUnavailable}
+            onSaveForLater={onSaveForLater}
           />
         ))}
       </tbody>
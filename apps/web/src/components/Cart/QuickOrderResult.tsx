@@ -0,0 +1,100 @@
+import React from 'react';
+import {
+  QuickOrderLine,
+  QuickOrderReport,
+  QuickOrderStatus,
+} from '@/types/cart';
+import { formatRupiah } from '@/utils/currencyUtils';
+
+const STATUSES: Record<
+  QuickOrderStatus,
+  { label: string; badge: string; describe: (line: QuickOrderLine) => string }
+> = {
+  ADDED: {
+    label: 'Added',
+    badge: 'badge-success',
+    describe: (line) => `${line.quantity} added to the cart`,
+  },
+  ADJUSTED: {
+    label: 'Adjusted',
+    badge: 'badge-warning',
+    describe: (line) =>
+      `${line.quantity} of ${line.requestedQuantity} added, the rest is out of stock`,
+  },
+  OUT_OF_STOCK: {
+    label: 'Out of stock',
+    badge: 'badge-error',
+    describe: () => 'Nothing left to add at your nearest store',
+  },
+  UNKNOWN_SKU: {
+    label: 'Unknown SKU',
+    badge: 'badge-error',
+    describe: (line) => `No product has the SKU ${line.sku}`,
+  },
+  INVALID_LINE: {
+    label: 'Invalid line',
+    badge: 'badge-ghost',
+    describe: () => 'Expected "SKU,quantity" with a whole quantity above 0',
+  },
+};
+
+interface QuickOrderResultProps {
+  report: QuickOrderReport;
+}
+
+const QuickOrderResult: React.FC<QuickOrderResultProps> = ({ report }) => {
+  const addedCount = report.lines.filter((line) => line.quantity > 0).length;
+
+  return (
+    <div className="space-y-2">
+      <p className="font-semibold">
+        {addedCount} of {report.lines.length} line(s) were added to the cart.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>Line</th>
+              <th>Input</th>
+              <th>Product</th>
+              <th>Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.lines.map((line) => {
+              const status = STATUSES[line.status];
+              return (
+                <tr key={line.line}>
+                  <td>{line.line}</td>
+                  <td className="font-mono">{line.text}</td>
+                  <td>
+                    {line.name ? (
+                      <>
+                        {line.name}
+                        <span className="block text-xs text-gray-500">
+                          {formatRupiah(line.price ?? 0)}
+                        </span>
+                      </>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                  <td>
+                    <span className={`badge ${status.badge}`}>
+                      {status.label}
+                    </span>
+                    <span className="block text-xs text-gray-500">
+                      {status.describe(line)}
+                    </span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default QuickOrderResult;
@@ -0,0 +1,66 @@
+import React from 'react';
+import {
+  ReorderLine,
+  ReorderReport as ReorderReportType,
+  ReorderSkipReason,
+} from '@/types/cart';
+import { formatRupiah } from '@/utils/currencyUtils';
+
+const SKIP_REASONS: Record<ReorderSkipReason, (line: ReorderLine) => string> = {
+  DISCONTINUED: () => 'no longer sold',
+  OUT_OF_STOCK: () => 'out of stock at your nearest store',
+  REPRICED: (line) =>
+    `price changed from ${formatRupiah(line.previousPrice)} to ${formatRupiah(line.price)}`,
+};
+
+interface ReorderReportProps {
+  report: ReorderReportType;
+  onDismiss: () => void;
+}
+
+const ReorderReport: React.FC<ReorderReportProps> = ({ report, onDismiss }) => {
+  const { added, adjusted, skipped } = report;
+
+  return (
+    <div
+      role="alert"
+      className={`alert ${skipped.length || adjusted.length ? 'alert-warning' : 'alert-success'} mb-6 items-start`}
+    >
+      <div className="w-full space-y-2">
+        <p className="font-semibold">
+          {added.length + adjusted.length} item(s) from your past order were
+          added to the cart.
+        </p>
+        {adjusted.length > 0 && (
+          <div>
+            <p>Added with a lower quantity because of limited stock:</p>
+            <ul className="list-disc list-inside text-sm">
+              {adjusted.map((line) => (
+                <li key={line.productId}>
+                  {line.name}: {line.quantity} of {line.orderedQuantity}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {skipped.length > 0 && (
+          <div>
+            <p>Not added:</p>
+            <ul className="list-disc list-inside text-sm">
+              {skipped.map((line) => (
+                <li key={line.productId}>
+                  {line.name}: {SKIP_REASONS[line.reason!](line)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+      <button className="btn btn-sm btn-ghost" onClick={onDismiss}>
+        Dismiss
+      </button>
+    </div>
+  );
+};
+
+export default ReorderReport;
@@ -4,9 +4,11 @@ import { useOrder } from '@/context/OrderContext';
 import { useRouter } from 'next/navigation';
 import { formatRupiah } from '@/utils/currencyUtils';
 import { toast } from 'react-hot-toast';
+import { isGuest } from '@/utils/guestCart';
 
 const CheckoutSummary = () => {
-  const { cart } = useCart();
+  const { cart, revalidation } = useCart();
+  const hasWarnings = (revalidation?.warnings.length ?? 0) > 0;
   const { checkout } = useOrder();
   const router = useRouter();
 
@@ -19,6 +21,13 @@ const CheckoutSummary = () => {
   const total = subtotal;
 
   const handleCheckout = async () => {
+    // The guest cart is kept and merged into the account on login
+    if (isGuest()) {
+      toast('Log in to check out, your cart will be kept.');
+      router.push('/login');
+      return;
+    }
+
     try {
       router.push('/order/checkout');
     } catch (error) {
@@ -42,10 +51,16 @@ const CheckoutSummary = () => {
       </div>
       <button
         onClick={handleCheckout}
-        className="w-full bg-teal-700 text-white py-3 rounded-lg mt-6 font-semibold hover:bg-teal-800 transition-colors"
+        disabled={hasWarnings}
+        className="w-full bg-teal-700 text-white py-3 rounded-lg mt-6 font-semibold hover:bg-teal-800 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
       >
         PROCEED TO CHECKOUT
       </button>
+      {hasWarnings && (
+        <p className="text-sm text-warning mt-2">
+          Fix the warnings on your cart items to check out.
+        </p>
+      )}
     </div>
   );
 };
@@ -14,6 +14,7 @@ import {
   ClipboardList,
   ChartColumnBig,
   Store,
+  Settings,
 } from 'lucide-react';
 import { signOut } from 'next-auth/react';
 import { useSession } from 'next-auth/react';
@@ -63,6 +64,12 @@ export default function DashboardMenu() {
                 Store management
                 </Link>
               </li>
+              <li>
+                <Link href="/dashboard/settings">
+                  <Settings />
+                  Settings
+                </Link>
+              </li>
             </>
           ) : (
             ''
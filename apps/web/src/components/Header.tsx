@@ -126,6 +126,9 @@ export default function Header() {
                 <li>
                   <Link href="/order/list">Orders</Link>
                 </li>
+                <li>
+                  <Link href="/quick-order">Quick Order</Link>
+                </li>
                 {data.user.role == 'ADMIN' ||
                 data.user.role == 'SUPER_ADMIN' ? (
                   <li>
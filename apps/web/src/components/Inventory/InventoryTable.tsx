@@ -21,6 +21,8 @@ interface ProductStock {
   productId: number;
   id: number;
   stock: number;
+  reservedStock?: number;
+  availableStock?: number;
   warehouse: Warehouse;
 }
 
@@ -171,6 +173,8 @@ export default function InventoryTable() {
               <th>Product Name</th>
               <th>Warehouse Name</th>
               <th>Stock</th>
+              <th>Reserved</th>
+              <th>Available</th>
               <th>Action</th>
             </tr>
           </thead>
@@ -180,6 +184,8 @@ export default function InventoryTable() {
                 <td>{stock.productName}</td>
                 <td>{stock.warehouse.name}</td>
                 <td>{stock.stock}</td>
+                <td>{stock.reservedStock ?? 0}</td>
+                <td>{stock.availableStock ?? stock.stock}</td>
                 <td>
                   <button
                     onClick={() =>
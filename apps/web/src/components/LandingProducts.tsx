@@ -5,9 +5,9 @@ import { Plus } from 'lucide-react';
 import { useEffect, useState } from 'react';
 import { useCart } from '../context/CartContext';
 import { useRouter } from 'next/navigation';
-import { useSession } from 'next-auth/react';
-import toast, { Toaster } from 'react-hot-toast';
+import { Toaster } from 'react-hot-toast';
 import { ProductType } from '@/types/product';
+import WishlistButton from './WishlistButton';
 
 interface Warehouse {
   id: number;
@@ -36,6 +36,7 @@ interface Product {
   productStocks: ProductStock[];
   category: Category;
   slug: string;
+  sku: string;
   productImages: ProductImage[];
 }
 
@@ -49,11 +50,10 @@ export default function LandingProducts({ catHeader, products, slug }: Props) {
   const [error, setError] = useState<string | null>(null);
   const { addToCart, fetchCart, cart } = useCart();
   const router = useRouter();
-  const { data } = useSession();
 
   const getTotalStock = (product: ProductType) => {
     return product.productStocks.reduce(
-      (total, stock) => total + stock.stock,
+      (total, stock) => total + (stock.availableStock ?? stock.stock),
       0,
     );
   };
@@ -65,11 +65,6 @@ export default function LandingProducts({ catHeader, products, slug }: Props) {
   };
 
   const handleAddToCart = async (product: ProductType) => {
-    if (!data?.user) {
-      toast.error('Login Required');
-      return;
-    }
-
     const availableStock = getAvailableStock(product);
     if (availableStock <= 0) {
       setError('This product is out of stock');
@@ -124,12 +119,18 @@ export default function LandingProducts({ catHeader, products, slug }: Props) {
                 <p className="hover:underline">{product.description}</p>
                 <div className="flex justify-between items-center">
                   <p className="font-bold text-success">{`Rp ${product.price.toLocaleString('id-ID')}`}</p>
-                  <button
-                    className="btn btn-ghost"
-                    onClick={() => handleAddToCart(product)}
-                  >
-                    <Plus />
-                  </button>
+                  <div className="flex">
+                    <WishlistButton
+                      productId={product.id}
+                      className="btn btn-ghost btn-sm px-1"
+                    />
+                    <button
+                      className="btn btn-ghost btn-sm px-1"
+                      onClick={() => handleAddToCart(product)}
+                    >
+                      <Plus />
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
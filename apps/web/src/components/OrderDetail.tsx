@@ -5,7 +5,7 @@ import { formatRupiah } from '@/utils/currencyUtils';
 import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { getUserAddresses } from '@/api/address';
-import { getShippingCost } from '@/utils/shipping';
+import { getCheckoutShippingServices } from '@/utils/shipping';
 import Link from 'next/link';
 interface OrderDetailsProps {
   cart: Cart;
@@ -13,16 +13,15 @@ interface OrderDetailsProps {
   discount:number;
   GetShippingCost: any;
   setUserAddress: any;
+  setCourierChoice: (choice: { courier: string; courierService: string }) => void;
+  isPickup?: boolean;
 }
 
-const OrderDetails: React.FC<OrderDetailsProps> = ({ cart, warehouseId, discount, GetShippingCost, setUserAddress }) => {
+const OrderDetails: React.FC<OrderDetailsProps> = ({ cart, warehouseId, discount, GetShippingCost, setUserAddress, setCourierChoice, isPickup = false }) => {
   const { data } = useSession();
   
   const [selectedShippingMethod, setSelectedShippingMethod] = useState<any>();
-  const [shippingData, setShippingData] = useState<any>({
-    weight: 1000,
-    origin: 1,
-  });
+  const [shippingData, setShippingData] = useState<any>({});
   const [addresses, setAddresses] = useState<any>();
   const [defaultAddress, setDefaultAddress] = useState<any>()
   const [selectedAddress, setSelectedAddress] = useState<any>(defaultAddress);
@@ -49,13 +48,10 @@ const OrderDetails: React.FC<OrderDetailsProps> = ({ cart, warehouseId, discount
   };
   
   const shippingCostData = async () => {
+    if (!shippingData.addressId || !shippingData.courier) return;
     try {
-      
-      const data = await getShippingCost(shippingData);
-      console.log(data);
-      setServices(data.hasil[0]?.costs);
-      
-     
+      const data = await getCheckoutShippingServices(shippingData);
+      setServices(data?.services);
     } catch (error) {
       console.log(error);
     }
@@ -64,7 +60,7 @@ const OrderDetails: React.FC<OrderDetailsProps> = ({ cart, warehouseId, discount
   const handleChangeAddress = (address: any) => {
     setSelectedAddress(address);
     setUserAddress(address.id)
-    setShippingData({ ...shippingData, destination: String(address.cityId), });
+    setShippingData({ ...shippingData, addressId: address.id });
   };
   const handleChangeMethod = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setSelectedShippingMethod(e.target.value);
@@ -75,6 +71,7 @@ const OrderDetails: React.FC<OrderDetailsProps> = ({ cart, warehouseId, discount
     setSelectedService(cost[1]);
     setSelectedServiceCost(cost[0]);
     GetShippingCost(cost[0])
+    setCourierChoice({ courier: shippingData.courier, courierService: cost[1] });
   };
 
   useEffect(() => {
@@ -95,7 +92,9 @@ const OrderDetails: React.FC<OrderDetailsProps> = ({ cart, warehouseId, discount
   }, [data?.user, selectedAddress, selectedShippingMethod]);
 
   const shippingCost = 15000; // You might want to calculate this dynamically
-  const total = subtotal + Number(selectedServiceCost) - discount;
+  // Picked up orders are not shipped, so there is nothing to pay for shipping
+  const shippingTotal = isPickup ? 0 : Number(selectedServiceCost);
+  const total = subtotal + shippingTotal - discount;
 
   return (
     <div className="bg-white p-4 rounded shadow-md mb-4">
@@ -110,6 +109,7 @@ const OrderDetails: React.FC<OrderDetailsProps> = ({ cart, warehouseId, discount
           </div>
         ))}
       </div>
+      {!isPickup && (
       <div className='border-t pt-2'>
       <div className="flex flex-col gap-2">
         <div className="flex justify-between items-center">
@@ -196,6 +196,7 @@ const OrderDetails: React.FC<OrderDetailsProps> = ({ cart, warehouseId, discount
         </div>
       </div>
       </div>
+      )}
       <div className="border-t pt-2">
         <div className="flex justify-between mb-2">
           <span>Subtotal</span>
@@ -203,7 +204,7 @@ const OrderDetails: React.FC<OrderDetailsProps> = ({ cart, warehouseId, discount
         </div>
         <div className="flex justify-between mb-2">
           <span>Shipping</span>
-          <span>{formatRupiah(selectedServiceCost)}</span>
+          <span>{formatRupiah(shippingTotal)}</span>
         </div>
         {discount > 0 && (
           <div className="flex justify-between mb-2 text-red-500">
@@ -1,6 +1,6 @@
 'use client'
 import Link from "next/link";
-import { User, MapPinHouse, ShoppingBag, Key, LogOut } from "lucide-react";
+import { User, MapPinHouse, ShoppingBag, Repeat, Heart, Key, LogOut } from "lucide-react";
 import { signOut } from "next-auth/react";
 import { useSession } from "next-auth/react";
 
@@ -32,6 +32,18 @@ export default function ProfileMenu() {
               Orders
             </Link>
           </li>
+          <li>
+            <Link href="/profile/subscriptions">
+              <Repeat />
+              Subscriptions
+            </Link>
+          </li>
+          <li>
+            <Link href="/profile/wishlist">
+              <Heart />
+              Wishlist
+            </Link>
+          </li>
           <li>
             <Link href="/profile/change-password">
               <Key />
@@ -1,6 +1,6 @@
 'use client';
 import Link from 'next/link';
-import { User, MapPinHouse, ShoppingBag, Key, LogOut } from 'lucide-react';
+import { User, MapPinHouse, ShoppingBag, Repeat, Heart, Key, LogOut } from 'lucide-react';
 import { signOut, useSession } from 'next-auth/react';
 
 
@@ -30,6 +30,18 @@ export default function ProfileMenuMobile() {
           Orders
         </Link>
       </div>
+      <div className="carousel-item flex flex-col items-center p-5  border-r-4 max-w-28 w-full">
+        <Link href={'/profile/subscriptions'} className='flex flex-col items-center justify-center'>
+          <Repeat />
+          Subscribe
+        </Link>
+      </div>
+      <div className="carousel-item flex flex-col items-center p-5  border-r-4 max-w-28 w-full">
+        <Link href={'/profile/wishlist'} className='flex flex-col items-center justify-center'>
+          <Heart />
+          Wishlist
+        </Link>
+      </div>
       <div className="carousel-item flex flex-col items-center p-5  border-r-4 max-w-28 w-full">
         <Link href="/profile/change-password" className='flex flex-col items-center justify-center'>
           <Key />
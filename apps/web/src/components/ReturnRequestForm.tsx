@@ -0,0 +1,160 @@
+'use client';
+
+import React, { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useOrder } from '@/context/OrderContext';
+import { ReturnRequest } from '@/types/order';
+
+interface ReturnableItem {
+  id: number;
+  name: string;
+  returnable: number;
+}
+
+interface ReturnRequestFormProps {
+  orderId: number;
+  items: ReturnableItem[];
+  onSubmitted: (returnRequest: ReturnRequest) => void;
+  onCancel: () => void;
+}
+
+const MAX_PHOTOS = 5;
+const MAX_PHOTO_SIZE = 1 * 1024 * 1024; // 1MB in bytes
+const ACCEPTED_TYPES = ['image/jpeg', 'image/jpg', 'image/png'];
+
+const ReturnRequestForm: React.FC<ReturnRequestFormProps> = ({
+  orderId,
+  items,
+  onSubmitted,
+  onCancel,
+}) => {
+  const { requestReturn } = useOrder();
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [reason, setReason] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleQuantityChange = (item: ReturnableItem, value: string) => {
+    const quantity = Math.min(Math.max(Number(value) || 0, 0), item.returnable);
+    setQuantities({ ...quantities, [item.id]: quantity });
+  };
+
+  const handlePhotoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? []);
+
+    if (selected.length > MAX_PHOTOS) {
+      setError(`You can attach at most ${MAX_PHOTOS} photos.`);
+      event.target.value = '';
+      return;
+    }
+
+    if (
+      selected.some(
+        (photo) =>
+          !ACCEPTED_TYPES.includes(photo.type) || photo.size > MAX_PHOTO_SIZE,
+      )
+    ) {
+      setError('Photos must be .jpg, .jpeg or .png files of at most 1MB.');
+      event.target.value = '';
+      return;
+    }
+
+    setError(null);
+    setPhotos(selected);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const selectedItems = items
+      .filter((item) => (quantities[item.id] ?? 0) > 0)
+      .map((item) => ({ orderItemId: item.id, quantity: quantities[item.id] }));
+
+    if (selectedItems.length === 0) {
+      setError('Select at least one item to return.');
+      return;
+    }
+    if (!reason.trim()) {
+      setError('Please describe the problem with your items.');
+      return;
+    }
+    if (photos.length === 0) {
+      setError('Please attach at least one photo.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const returnRequest = await requestReturn(orderId, {
+        reason,
+        items: selectedItems,
+        photos,
+      });
+      toast.success('Return request submitted');
+      onSubmitted(returnRequest);
+    } catch (error: any) {
+      setError(
+        error.response?.data?.message || 'Failed to submit return request.',
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="border rounded-lg p-4 space-y-4">
+      <h3 className="text-lg font-semibold">Request a Return</h3>
+      <div className="space-y-2">
+        {items.map((item) => (
+          <div key={item.id} className="flex items-center justify-between">
+            <span>
+              {item.name}{' '}
+              <span className="text-sm text-gray-500">
+                (max {item.returnable})
+              </span>
+            </span>
+            <input
+              type="number"
+              min={0}
+              max={item.returnable}
+              value={quantities[item.id] ?? 0}
+              disabled={item.returnable === 0}
+              onChange={(e) => handleQuantityChange(item, e.target.value)}
+              className="input input-bordered input-sm w-20"
+            />
+          </div>
+        ))}
+      </div>
+      <textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Tell us what was wrong, e.g. damaged packaging or wrong item"
+        className="textarea textarea-bordered w-full"
+        maxLength={1000}
+      />
+      <input
+        type="file"
+        accept=".jpg,.jpeg,.png"
+        multiple
+        onChange={handlePhotoChange}
+        className="file-input file-input-bordered file-input-sm w-full"
+      />
+      {error && <p className="text-red-500">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button type="button" className="btn btn-ghost" onClick={onCancel}>
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="btn btn-primary"
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? 'Submitting...' : 'Submit Return'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ReturnRequestForm;
@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getSettingHistory } from '@/api/setting';
+import { SettingChange } from '@/types/setting';
+import { Pagination } from '../Pagination';
+import { ErrorAlert } from '../ErrorAlert';
+
+interface SettingHistoryTableProps {
+  version: number;
+}
+
+// Who changed which setting, newest first
+export const SettingHistoryTable = ({ version }: SettingHistoryTableProps) => {
+  const [changes, setChanges] = useState<SettingChange[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>('');
+  const [currentPage, setCurrentPage] = useState<number>(1);
+  const [totalPages, setTotalPages] = useState<number>(1);
+  const [limit] = useState<number>(10);
+
+  const fetchHistory = async (page: number) => {
+    setLoading(true);
+    setError('');
+    const res = await getSettingHistory(page, limit);
+    if (res.ok) {
+      setChanges(res.data.changes);
+      setTotalPages(res.data.pagination.totalPages);
+    } else {
+      setError(res.message || 'Failed to get setting history');
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchHistory(currentPage);
+  }, [currentPage, version]);
+
+  return (
+    <>
+      {error && <ErrorAlert message={error} />}
+      <div className="overflow-x-auto">
+        {loading ? (
+          <span className="loading loading-spinner loading-md"></span>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-gray-500">No setting was changed yet.</p>
+        ) : (
+          <table className="table table-sm">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Setting</th>
+                <th>Old Value</th>
+                <th>New Value</th>
+                <th>Changed By</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map((change) => (
+                <tr key={change.id}>
+                  <td>{new Date(change.createdAt).toLocaleString()}</td>
+                  <td className="font-mono text-sm">{change.key}</td>
+                  <td className="font-mono text-sm">
+                    {change.oldValue === null ? '-' : String(change.oldValue)}
+                  </td>
+                  <td className="font-mono text-sm">
+                    {String(change.newValue)}
+                  </td>
+                  <td>{change.actor.username}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <Pagination
+        currentPage={currentPage}
+        totalPages={totalPages}
+        onPageChange={setCurrentPage}
+      />
+    </>
+  );
+};
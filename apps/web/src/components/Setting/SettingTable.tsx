@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { getSettings, updateSetting } from '@/api/setting';
+import { Setting, SettingGroup } from '@/types/setting';
+import { ErrorAlert } from '../ErrorAlert';
+
+const GROUPS: SettingGroup[] = ['Payments', 'Orders', 'Carts', 'Schedules'];
+
+interface SettingTableProps {
+  onSaved: () => void;
+}
+
+// Values apply on the next read, schedules are rescheduled right away
+export const SettingTable = ({ onSaved }: SettingTableProps) => {
+  const [settings, setSettings] = useState<Setting[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>('');
+
+  const fetchSettings = async () => {
+    setLoading(true);
+    setError('');
+    const res = await getSettings();
+    if (res.ok) {
+      setSettings(res.data.settings);
+      setDrafts(
+        Object.fromEntries(
+          res.data.settings.map((setting: Setting) => [
+            setting.key,
+            String(setting.value),
+          ]),
+        ),
+      );
+    } else {
+      setError(res.message || 'Failed to get settings');
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const handleSave = async (setting: Setting) => {
+    const draft = drafts[setting.key]?.trim() ?? '';
+    const value =
+      typeof setting.defaultValue === 'number' ? Number(draft) : draft;
+
+    setSavingKey(setting.key);
+    const res = await updateSetting(setting.key, value);
+    setSavingKey(null);
+
+    if (!res.ok) {
+      toast.error(res.message || 'Failed to update setting');
+      return;
+    }
+
+    toast.success(`${setting.label} updated`);
+    await fetchSettings();
+    onSaved();
+  };
+
+  if (loading) {
+    return <span className="loading loading-spinner loading-md"></span>;
+  }
+
+  if (error) {
+    return <ErrorAlert message={error} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {GROUPS.map((group) => (
+        <div key={group} className="overflow-x-auto">
+          <h3 className="font-semibold mb-2">{group}</h3>
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Setting</th>
+                <th>Default</th>
+                <th>Value</th>
+                <th>Last Changed</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {settings
+                .filter((setting) => setting.group === group)
+                .map((setting) => {
+                  const isNumber = typeof setting.defaultValue === 'number';
+                  const isChanged =
+                    drafts[setting.key] !== String(setting.value);
+                  return (
+                    <tr key={setting.key}>
+                      <td>{setting.label}</td>
+                      <td className="font-mono text-sm">
+                        {String(setting.defaultValue)}
+                      </td>
+                      <td>
+                        <input
+                          type={isNumber ? 'number' : 'text'}
+                          min={isNumber ? 1 : undefined}
+                          value={drafts[setting.key] ?? ''}
+                          onChange={(e) =>
+                            setDrafts({
+                              ...drafts,
+                              [setting.key]: e.target.value,
+                            })
+                          }
+                          className="input input-bordered input-sm w-40 font-mono"
+                        />
+                      </td>
+                      <td>
+                        {setting.updatedAt
+                          ? new Date(setting.updatedAt).toLocaleString()
+                          : '-'}
+                      </td>
+                      <td>
+                        <button
+                          className="btn btn-sm btn-primary"
+                          disabled={!isChanged || savingKey === setting.key}
+                          onClick={() => handleSave(setting)}
+                        >
+                          {savingKey === setting.key ? 'Saving...' : 'Save'}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+};
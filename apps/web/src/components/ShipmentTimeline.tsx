@@ -0,0 +1,55 @@
+import React from 'react';
+import { Shipment, ShipmentEventStatus } from '@/types/order';
+
+const EVENT_LABELS: Record<ShipmentEventStatus, string> = {
+  PICKED_UP: 'Picked up',
+  IN_TRANSIT: 'In transit',
+  OUT_FOR_DELIVERY: 'Out for delivery',
+  DELIVERED: 'Delivered',
+};
+
+interface ShipmentTimelineProps {
+  shipment: Pick<Shipment, 'courier' | 'courierService' | 'waybill' | 'events'>;
+}
+
+const ShipmentTimeline: React.FC<ShipmentTimelineProps> = ({ shipment }) => {
+  const events = shipment.events ?? [];
+
+  return (
+    <div className="mt-2 text-sm">
+      {shipment.waybill && (
+        <p>
+          <strong>Courier:</strong> {shipment.courier?.toUpperCase()}{' '}
+          {shipment.courierService} - Waybill {shipment.waybill}
+        </p>
+      )}
+      {events.length > 0 ? (
+        <ul className="timeline timeline-vertical timeline-compact mt-2">
+          {events.map((event, index) => (
+            <li key={event.id}>
+              {index > 0 && <hr />}
+              <div className="timeline-middle">
+                <span className="badge badge-xs badge-primary"></span>
+              </div>
+              <div className="timeline-end mb-2">
+                <p className="font-semibold">{EVENT_LABELS[event.status]}</p>
+                {event.description && <p>{event.description}</p>}
+                <p className="text-xs text-gray-500">
+                  {new Date(event.occurredAt).toLocaleString()}
+                  {event.location && ` - ${event.location}`}
+                </p>
+              </div>
+              {index < events.length - 1 && <hr />}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        shipment.waybill && (
+          <p className="text-gray-500">No tracking updates yet.</p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ShipmentTimeline;
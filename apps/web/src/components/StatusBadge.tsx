@@ -14,6 +14,8 @@ const StatusBadge: React.FC<StatusBadgeProps> = ({ status }) => {
     status === 'DELIVERED'
   ) {
     return <span className="badge badge-success">{status}</span>;
+  } else if (status === 'READY_FOR_PICKUP') {
+    return <span className="badge badge-info">{status}</span>;
   } else if (status === 'FAILED' || status === 'CANCELED') {
     return <span className="badge badge-error">{status}</span>;
   } else {
@@ -0,0 +1,245 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import Swal from 'sweetalert2';
+import { toast } from 'react-hot-toast';
+import {
+  cancelSubscription,
+  skipSubscriptionDelivery,
+  updateSubscription,
+} from '@/api/subscription';
+import { Subscription, SubscriptionCadence } from '@/types/subscription';
+import { formatRupiah } from '@/utils/currencyUtils';
+
+const CADENCE_LABELS: Record<SubscriptionCadence, string> = {
+  WEEKLY: 'Every week',
+  BIWEEKLY: 'Every two weeks',
+};
+
+interface SubscriptionCardProps {
+  subscription: Subscription;
+  onChange: () => void;
+}
+
+// One recurring basket, its items can be changed until the cutoff before a run
+export default function SubscriptionCard({
+  subscription,
+  onChange,
+}: SubscriptionCardProps) {
+  const [quantities, setQuantities] = useState<Record<number, number>>(
+    Object.fromEntries(
+      subscription.items.map((item) => [item.productId, item.quantity]),
+    ),
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const locked = new Date(subscription.editableUntil) <= new Date();
+  const isDirty = subscription.items.some(
+    (item) => quantities[item.productId] !== item.quantity,
+  );
+  const basketTotal = subscription.items.reduce(
+    (sum, item) => sum + item.product.price * (quantities[item.productId] ?? 0),
+    0,
+  );
+
+  const runAction = async (
+    action: () => Promise<{ ok: boolean; message?: string }>,
+    successMessage: string,
+  ) => {
+    setIsSubmitting(true);
+    const res = await action();
+    setIsSubmitting(false);
+    if (!res.ok) {
+      toast.error(res.message || 'Failed to update subscription');
+      return;
+    }
+    toast.success(successMessage);
+    onChange();
+  };
+
+  const handleQuantityChange = (productId: number, value: string) => {
+    setQuantities({
+      ...quantities,
+      [productId]: Math.max(Number(value) || 0, 0),
+    });
+  };
+
+  const handleSaveItems = () => {
+    const items = subscription.items
+      .filter((item) => quantities[item.productId] > 0)
+      .map((item) => ({
+        productId: item.productId,
+        quantity: quantities[item.productId],
+      }));
+    if (items.length === 0) {
+      toast.error('Keep at least one item or cancel the subscription.');
+      return;
+    }
+    runAction(
+      () => updateSubscription(subscription.id, { items }),
+      'Subscription items updated',
+    );
+  };
+
+  const handleCancel = async () => {
+    const result = await Swal.fire({
+      title: 'Cancel subscription?',
+      text: 'No further orders will be placed for this basket.',
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Cancel Subscription',
+      cancelButtonText: 'Keep It',
+    });
+    if (!result.isConfirmed) return;
+
+    runAction(
+      () => cancelSubscription(subscription.id),
+      'Subscription canceled',
+    );
+  };
+
+  const { address, lastOrder } = subscription;
+
+  return (
+    <div className="card card-compact bg-base-100 shadow-xl p-5 space-y-3">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <p className="text-lg font-semibold">
+            {CADENCE_LABELS[subscription.cadence]}
+          </p>
+          <p className="text-sm text-gray-500">
+            Deliver to {address.name}: {address.address}
+          </p>
+          <p className="text-sm text-gray-500">
+            {subscription.courier.toUpperCase()} {subscription.courierService}
+            {subscription.voucherCode &&
+              `, voucher ${subscription.voucherCode}`}
+          </p>
+        </div>
+        <span
+          className={`badge ${subscription.paused ? 'badge-ghost' : 'badge-success'}`}
+        >
+          {subscription.paused ? 'Paused' : 'Active'}
+        </span>
+      </div>
+
+      {!subscription.paused && (
+        <p>
+          Next order:{' '}
+          <span className="font-semibold">
+            {new Date(subscription.nextRunAt).toLocaleString('id-ID')}
+          </span>
+          <span className="block text-sm text-gray-500">
+            {locked
+              ? 'Changes for this delivery are closed.'
+              : `Changes are possible until ${new Date(subscription.editableUntil).toLocaleString('id-ID')}.`}
+          </span>
+        </p>
+      )}
+
+      {subscription.lastError && (
+        <div role="alert" className="alert alert-warning text-sm">
+          The last order could not be placed: {subscription.lastError}
+        </div>
+      )}
+
+      {lastOrder && (
+        <p className="text-sm">
+          Last order:{' '}
+          <Link
+            href={
+              lastOrder.paymentStatus === 'PENDING'
+                ? `/order/payment-gateway/${lastOrder.id}`
+                : `/order/${lastOrder.id}`
+            }
+            className="link link-primary"
+          >
+            {lastOrder.name}
+          </Link>{' '}
+          ({lastOrder.paymentStatus}, {formatRupiah(lastOrder.total)})
+        </p>
+      )}
+
+      <table className="table table-sm">
+        <thead>
+          <tr>
+            <th>Product</th>
+            <th>Price</th>
+            <th>Quantity</th>
+          </tr>
+        </thead>
+        <tbody>
+          {subscription.items.map((item) => (
+            <tr key={item.id}>
+              <td>{item.product.name}</td>
+              <td>{formatRupiah(item.product.price)}</td>
+              <td>
+                <input
+                  type="number"
+                  min={0}
+                  value={quantities[item.productId] ?? 0}
+                  disabled={locked}
+                  onChange={(e) =>
+                    handleQuantityChange(item.productId, e.target.value)
+                  }
+                  className="input input-bordered input-sm w-20"
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-sm text-gray-500">
+        Basket {formatRupiah(basketTotal)} before shipping and discounts. Set a
+        quantity to 0 to remove an item.
+      </p>
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <button
+          className="btn btn-sm btn-primary"
+          onClick={handleSaveItems}
+          disabled={!isDirty || locked || isSubmitting}
+        >
+          Save Items
+        </button>
+        <button
+          className="btn btn-sm btn-outline"
+          onClick={() =>
+            runAction(
+              () => skipSubscriptionDelivery(subscription.id),
+              'The next delivery was skipped',
+            )
+          }
+          disabled={subscription.paused || locked || isSubmitting}
+        >
+          Skip Next Delivery
+        </button>
+        <button
+          className="btn btn-sm btn-outline"
+          onClick={() =>
+            runAction(
+              () =>
+                updateSubscription(subscription.id, {
+                  paused: !subscription.paused,
+                }),
+              subscription.paused
+                ? 'Subscription resumed'
+                : 'Subscription paused',
+            )
+          }
+          disabled={isSubmitting}
+        >
+          {subscription.paused ? 'Resume' : 'Pause'}
+        </button>
+        <button
+          className="btn btn-sm btn-error"
+          onClick={handleCancel}
+          disabled={isSubmitting}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
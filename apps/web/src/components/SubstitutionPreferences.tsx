@@ -0,0 +1,152 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CartItem } from '@/types/cart';
+import {
+  SubstitutionPreference,
+  SubstitutionPreferenceInput,
+} from '@/types/order';
+import { searchProduct } from '@/api/products';
+
+interface SubstitutionPreferencesProps {
+  items: CartItem[];
+  value: SubstitutionPreferenceInput[];
+  onChange: (value: SubstitutionPreferenceInput[]) => void;
+}
+
+interface ProductOption {
+  id: number;
+  name: string;
+}
+
+const PREFERENCE_LABELS: Record<SubstitutionPreference, string> = {
+  NONE: 'No substitute, refund me',
+  SIMILAR: 'A similar item',
+  SPECIFIC: 'A specific product',
+};
+
+// What the picker may bring instead when an item is missing in the warehouse
+const SubstitutionPreferences: React.FC<SubstitutionPreferencesProps> = ({
+  items,
+  value,
+  onChange,
+}) => {
+  const [queries, setQueries] = useState<Record<number, string>>({});
+  const [results, setResults] = useState<Record<number, ProductOption[]>>({});
+
+  const getLine = (productId: number) =>
+    value.find((line) => line.productId === productId);
+
+  const updateLine = (
+    productId: number,
+    preference: SubstitutionPreference,
+    substituteProductId?: number,
+  ) => {
+    const others = value.filter((line) => line.productId !== productId);
+    onChange(
+      preference === 'NONE'
+        ? others
+        : [...others, { productId, preference, substituteProductId }],
+    );
+  };
+
+  const handleSearch = async (productId: number) => {
+    const query = queries[productId]?.trim();
+    if (!query) return;
+
+    const res = await searchProduct(query);
+    const products: ProductOption[] = res.ok ? res.data.products : [];
+    setResults({
+      ...results,
+      [productId]: products.filter((product) => product.id !== productId),
+    });
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="label">
+        <span className="label-text font-semibold">
+          If an item is out of stock:
+        </span>
+      </label>
+      <div className="space-y-3">
+        {items.map((item) => {
+          const line = getLine(item.product.id);
+          const preference = line?.preference ?? 'NONE';
+          return (
+            <div key={item.id} className="border rounded-lg p-3">
+              <div className="flex justify-between items-center gap-2">
+                <span>{item.product.name}</span>
+                <select
+                  className="select select-bordered select-sm"
+                  value={preference}
+                  onChange={(e) =>
+                    updateLine(
+                      item.product.id,
+                      e.target.value as SubstitutionPreference,
+                    )
+                  }
+                >
+                  {Object.entries(PREFERENCE_LABELS).map(([key, label]) => (
+                    <option key={key} value={key}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {preference === 'SPECIFIC' && (
+                <div className="mt-2 space-y-2">
+                  <div className="flex">
+                    <input
+                      type="text"
+                      value={queries[item.product.id] ?? ''}
+                      onChange={(e) =>
+                        setQueries({
+                          ...queries,
+                          [item.product.id]: e.target.value,
+                        })
+                      }
+                      placeholder="Search the substitute product"
+                      className="input input-bordered input-sm flex-1 mr-2"
+                    />
+                    <button
+                      type="button"
+                      className="btn btn-sm btn-outline"
+                      onClick={() => handleSearch(item.product.id)}
+                    >
+                      Search
+                    </button>
+                  </div>
+                  {(results[item.product.id]?.length ?? 0) > 0 && (
+                    <select
+                      className="select select-bordered select-sm w-full"
+                      value={line?.substituteProductId ?? ''}
+                      onChange={(e) =>
+                        updateLine(
+                          item.product.id,
+                          'SPECIFIC',
+                          Number(e.target.value),
+                        )
+                      }
+                    >
+                      <option value="" disabled>
+                        Choose the substitute
+                      </option>
+                      {results[item.product.id].map((product) => (
+                        <option key={product.id} value={product.id}>
+                          {product.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SubstitutionPreferences;
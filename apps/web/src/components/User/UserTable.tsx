@@ -6,6 +6,7 @@ import { Search } from '../Search';
 import { Pagination } from '../Pagination';
 import { ErrorAlert } from '../ErrorAlert';
 import Image from 'next/image';
+import { WalletAdjustmentModal } from '../Wallet/WalletAdjustmentModal';
 
 interface User {
   id: number;
@@ -27,6 +28,7 @@ export const UserTable = () => {
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [totalPages, setTotalPages] = useState<number>(1);
   const [limit] = useState<number>(5);
+  const [walletUserId, setWalletUserId] = useState<number | null>(null);
 
   const fetchUsers = async (page: number) => {
     setLoading(true);
@@ -126,6 +128,14 @@ export const UserTable = () => {
                   {user.dob ? new Date(user.dob).toLocaleDateString() : ''}
                 </td>
                 <td>{user.role}</td>
+                <td>
+                  <button
+                    className="btn btn-xs btn-outline"
+                    onClick={() => setWalletUserId(user.id)}
+                  >
+                    Store Credit
+                  </button>
+                </td>
               </tr>
             ))}
           </tbody>
@@ -137,6 +147,13 @@ export const UserTable = () => {
         totalPages={totalPages}
         onPageChange={handlePageChange}
       />
+
+      {walletUserId && (
+        <WalletAdjustmentModal
+          userId={walletUserId}
+          onClose={() => setWalletUserId(null)}
+        />
+      )}
     </>
   );
 };
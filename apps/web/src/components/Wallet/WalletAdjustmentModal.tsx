@@ -0,0 +1,112 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { adjustUserWallet, getUserWallet } from '@/api/wallet';
+import { Wallet } from '@/types/wallet';
+import { formatRupiah } from '@/utils/currencyUtils';
+import { WalletLedger } from './WalletLedger';
+
+interface WalletAdjustmentModalProps {
+  userId: number;
+  onClose: () => void;
+}
+
+// Goodwill credits and corrections, every adjustment needs a reason
+export const WalletAdjustmentModal: React.FC<WalletAdjustmentModalProps> = ({
+  userId,
+  onClose,
+}) => {
+  const [wallet, setWallet] = useState<Wallet | null>(null);
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchWallet = async () => {
+    const res = await getUserWallet(userId, 1, 10);
+    if (res.ok) {
+      setWallet(res.data);
+    } else {
+      setError(res.message || 'Failed to get store credit');
+    }
+  };
+
+  useEffect(() => {
+    fetchWallet();
+  }, [userId]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const value = Number(amount);
+    if (!value) {
+      setError('Enter a positive amount to credit or a negative one to debit.');
+      return;
+    }
+    if (!reason.trim()) {
+      setError('A reason is required.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    const res = await adjustUserWallet(userId, {
+      amount: value,
+      reason: reason.trim(),
+    });
+    setIsSubmitting(false);
+
+    if (!res.ok) {
+      setError(res.message || 'Failed to adjust store credit');
+      return;
+    }
+
+    setAmount('');
+    setReason('');
+    fetchWallet();
+  };
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box max-w-2xl">
+        <h3 className="text-lg font-semibold">
+          Store Credit {wallet && `- ${wallet.user.username}`}
+        </h3>
+        <p className="text-2xl font-semibold my-2">
+          {formatRupiah(wallet?.balance ?? 0)}
+        </p>
+        {wallet && <WalletLedger entries={wallet.entries} />}
+
+        <form onSubmit={handleSubmit} className="space-y-2 mt-4">
+          <input
+            type="number"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="Amount, negative to debit"
+            className="input input-bordered w-full"
+          />
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (required)"
+            className="textarea textarea-bordered w-full"
+            maxLength={1000}
+          />
+          {error && <p className="text-red-500">{error}</p>}
+          <div className="modal-action">
+            <button type="button" className="btn btn-ghost" onClick={onClose}>
+              Close
+            </button>
+            <button
+              type="submit"
+              className="btn btn-primary"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? 'Saving...' : 'Adjust Balance'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getMyWallet } from '@/api/wallet';
+import { Wallet } from '@/types/wallet';
+import { formatRupiah } from '@/utils/currencyUtils';
+import { Pagination } from '../Pagination';
+import { ErrorAlert } from '../ErrorAlert';
+import { WalletLedger } from './WalletLedger';
+
+// Store credit balance on the profile page, fed by refunds and cancellations
+export default function WalletCard() {
+  const [wallet, setWallet] = useState<Wallet | null>(null);
+  const [error, setError] = useState<string>('');
+  const [currentPage, setCurrentPage] = useState<number>(1);
+  const [limit] = useState<number>(5);
+
+  useEffect(() => {
+    const fetchWallet = async () => {
+      const res = await getMyWallet(currentPage, limit);
+      if (res.ok) {
+        setWallet(res.data);
+      } else {
+        setError(res.message || 'Failed to get store credit');
+      }
+    };
+
+    fetchWallet();
+  }, [currentPage, limit]);
+
+  return (
+    <div className="card card-compact bg-base-100 shadow-xl sm:w-[40vw] w-[100vw] p-5 h-fit">
+      <p className="text-sm text-gray-500">Store Credit</p>
+      <p className="text-2xl font-semibold mb-2">
+        {formatRupiah(wallet?.balance ?? 0)}
+      </p>
+      <p className="text-sm text-gray-500 mb-4">
+        Refunds are added to your store credit and can be used at checkout.
+      </p>
+      {error && <ErrorAlert message={error} />}
+      {wallet && (
+        <>
+          <WalletLedger entries={wallet.entries} />
+          {wallet.pagination.totalPages > 1 && (
+            <Pagination
+              currentPage={currentPage}
+              totalPages={wallet.pagination.totalPages}
+              onPageChange={setCurrentPage}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
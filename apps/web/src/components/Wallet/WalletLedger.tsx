@@ -0,0 +1,57 @@
+import React from 'react';
+import { WalletEntry, WalletEntryType } from '@/types/wallet';
+import { formatRupiah } from '@/utils/currencyUtils';
+
+const ENTRY_LABELS: Record<WalletEntryType, string> = {
+  REFUND: 'Refund',
+  CANCELLATION: 'Cancellation',
+  ADJUSTMENT: 'Adjustment',
+  CHECKOUT: 'Checkout',
+};
+
+interface WalletLedgerProps {
+  entries: WalletEntry[];
+}
+
+export const WalletLedger: React.FC<WalletLedgerProps> = ({ entries }) => {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No store credit activity.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="table table-sm">
+        <thead>
+          <tr>
+            <th>Date</th>
+            <th>Type</th>
+            <th>Details</th>
+            <th className="text-right">Amount</th>
+            <th className="text-right">Balance</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry) => (
+            <tr key={entry.id}>
+              <td>{new Date(entry.createdAt).toLocaleDateString()}</td>
+              <td>{ENTRY_LABELS[entry.type]}</td>
+              <td className="max-w-xs whitespace-normal">
+                {entry.order?.name}
+                {entry.reason && (
+                  <div className="text-xs text-gray-500">{entry.reason}</div>
+                )}
+              </td>
+              <td
+                className={`text-right ${entry.amount < 0 ? 'text-error' : 'text-success'}`}
+              >
+                {entry.amount > 0 ? '+' : '-'}
+                {formatRupiah(Math.abs(entry.amount))}
+              </td>
+              <td className="text-right">{formatRupiah(entry.balanceAfter)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
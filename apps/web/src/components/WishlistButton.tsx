@@ -0,0 +1,48 @@
+'use client';
+
+import { useState } from 'react';
+import { Heart } from 'lucide-react';
+import { useSession } from 'next-auth/react';
+import { toast } from 'react-hot-toast';
+import { useWishlist } from '@/context/WishlistContext';
+
+interface WishlistButtonProps {
+  productId: number;
+  className?: string;
+}
+
+// Heart that saves the product to the wishlist or takes it out again
+export default function WishlistButton({
+  productId,
+  className = 'btn btn-ghost',
+}: WishlistButtonProps) {
+  const { status } = useSession();
+  const { isWishlisted, toggleWishlist } = useWishlist();
+  const [isSaving, setIsSaving] = useState(false);
+  const wishlisted = isWishlisted(productId);
+
+  const handleClick = async () => {
+    if (status !== 'authenticated') {
+      toast.error('Log in to save products to your wishlist');
+      return;
+    }
+
+    setIsSaving(true);
+    await toggleWishlist(productId);
+    setIsSaving(false);
+  };
+
+  return (
+    <button
+      className={className}
+      onClick={handleClick}
+      disabled={isSaving}
+      aria-label={wishlisted ? 'Remove from wishlist' : 'Save to wishlist'}
+    >
+      <Heart
+        className={wishlisted ? 'text-error' : ''}
+        fill={wishlisted ? 'currentColor' : 'none'}
+      />
+    </button>
+  );
+}
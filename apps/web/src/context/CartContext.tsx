@@ -7,7 +7,12 @@ import React, {
   ReactNode,
   useEffect,
 } from 'react';
-import { Cart } from '@/types/cart';
+import {
+  Cart,
+  CartRevalidationReport,
+  QuickOrderReport,
+  ReorderReport,
+} from '@/types/cart';
 import { useCartOperations } from '../hooks/useCartOperations';
 import { toast } from 'react-hot-toast';
 
@@ -17,6 +22,8 @@ interface CartContextType {
   fetchCart: () => Promise<void>;
   updateItemQuantity: (itemId: number, newQuantity: number) => Promise<void>;
   removeItem: (itemId: number) => Promise<void>;
+  acceptItemPrice: (itemId: number) => Promise<void>;
+  revalidation: CartRevalidationReport | null;
   addToCart: (
     productId: number,
     quantity: number,
@@ -24,6 +31,10 @@ interface CartContextType {
   ) => Promise<void>;
   clearCart: () => void; // Tambahkan clearCart ke dalam context type
   cartItemCount: number;
+  reorder: (orderId: number) => Promise<ReorderReport>;
+  reorderReport: ReorderReport | null;
+  dismissReorderReport: () => void;
+  quickOrder: (text: string) => Promise<QuickOrderReport>;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -33,12 +44,20 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({
 }) => {
   const [cart, setCart] = useState<Cart | null>(null);
   const [cartItemCount, setCartItemCount] = useState(0);
+  const [revalidation, setRevalidation] =
+    useState<CartRevalidationReport | null>(null);
+  const [reorderReport, setReorderReport] = useState<ReorderReport | null>(
+    null,
+  );
   const {
     createNewCart,
     fetchCartData,
     updateCartItem,
     removeCartItem,
     addItemToCart,
+    acceptCartItemPrice,
+    reorderFromOrder,
+    quickOrderItems,
   } = useCartOperations();
 
   useEffect(() => {
@@ -63,8 +82,9 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({
 
   const fetchCart = async () => {
     try {
-      const fetchedCart = await fetchCartData();
+      const { cart: fetchedCart, report } = await fetchCartData();
       setCart(fetchedCart);
+      setRevalidation(report);
       updateCartItemCount(fetchedCart);
     } catch (err) {
       console.error('Failed to load cart:', err);
@@ -99,6 +119,20 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({
     }
   };
 
+  const acceptItemPrice = async (itemId: number) => {
+    if (!cart) {
+      console.error('Cart is not loaded');
+      return;
+    }
+
+    try {
+      await acceptCartItemPrice(cart.id, itemId);
+      await fetchCart();
+    } catch (err) {
+      console.error('Failed to accept price:', err);
+    }
+  };
+
   const addToCart = async (
     productId: number,
     quantity: number,
@@ -143,9 +177,26 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({
     }
   };
 
+  // The report is kept here so the cart page can explain what was copied
+  const reorder = async (orderId: number) => {
+    const report = await reorderFromOrder(orderId);
+    setReorderReport(report);
+    await fetchCart();
+    return report;
+  };
+
+  const dismissReorderReport = () => setReorderReport(null);
+
+  const quickOrder = async (text: string) => {
+    const report = await quickOrderItems(text);
+    await fetchCart();
+    return report;
+  };
+
   // Fungsi untuk mengosongkan cart
   const clearCart = () => {
     setCart(null);
+    setRevalidation(null);
     setCartItemCount(0);
   };
 
@@ -157,9 +208,15 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({
         fetchCart,
         updateItemQuantity,
         removeItem,
+        acceptItemPrice,
+        revalidation,
         addToCart,
         clearCart, // Pastikan clearCart ada di sini
         cartItemCount,
+        reorder,
+        reorderReport,
+        dismissReorderReport,
+        quickOrder,
       }}
     >
       {children}
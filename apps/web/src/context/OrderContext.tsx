@@ -6,10 +6,19 @@ import React, {
   useState,
   ReactNode,
   useEffect,
+  useRef,
 } from 'react';
 import axios from 'axios';
 import { useCart } from './CartContext';
-import { Order } from '@/types/order';
+import {
+  CancelOrderItemsInput,
+  CancelOrderItemsResult,
+  MockPaymentOutcome,
+  Order,
+  PaymentCharge,
+  ReturnRequest,
+  ReturnRequestInput,
+} from '@/types/order';
 import Cookies from 'js-cookie';
 
 // interface Order {
@@ -22,11 +31,31 @@ interface OrderContextType {
   setCurrentOrder: (order: Order | null) => void;
   checkout: (data: any) => Promise<{ orderId: number }>;
   cancelOrder: (orderId: number, source: string) => Promise<void>;
+  cancelOrderItems: (
+    orderId: number,
+    data: CancelOrderItemsInput,
+  ) => Promise<CancelOrderItemsResult>;
+  rejectSubstitute: (
+    orderId: number,
+    orderItemId: number,
+  ) => Promise<{ refundAmount: number }>;
   uploadProof: (orderId: number, file: File) => Promise<void>;
   checkStock: (data: any) => Promise<void>;
   fetchOrder: (orderId: number) => Promise<void>;
+  downloadInvoice: (orderId: number) => Promise<void>;
   confirmOrderReceived: (orderId: number) => Promise<void>;
   confirmOrderPayment: (orderId: number) => Promise<void>;
+  confirmShipmentReceived: (shipmentId: number) => Promise<void>;
+  requestReturn: (
+    orderId: number,
+    data: ReturnRequestInput,
+  ) => Promise<ReturnRequest>;
+  createPaymentCharge: (orderId: number) => Promise<PaymentCharge>;
+  refreshPaymentCharge: (chargeId: number) => Promise<PaymentCharge>;
+  simulatePayment: (
+    chargeId: number,
+    outcome: MockPaymentOutcome,
+  ) => Promise<PaymentCharge>;
 }
 
 const OrderContext = createContext<OrderContextType | undefined>(undefined);
@@ -38,6 +67,13 @@ export const OrderProvider: React.FC<{ children: ReactNode }> = ({
   const baseApi =
     process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api';
   const { setCart } = useCart();
+  // Retries of the same attempt reuse its key so the API replays instead of duplicating
+  const checkoutKey = useRef<string | null>(null);
+  const uploadAttempt = useRef<{
+    orderId: number;
+    file: File;
+    key: string;
+  } | null>(null);
 
   // useEffect(() => {}, []);
 
@@ -45,6 +81,12 @@ export const OrderProvider: React.FC<{ children: ReactNode }> = ({
     Authorization: `Bearer ${Cookies.get('token')}`,
   });
 
+  // Keep the key only while the outcome is unknown (network error or in flight)
+  const isAttemptSettled = (error: unknown) =>
+    axios.isAxiosError(error) &&
+    !!error.response &&
+    error.response.data?.code !== 'IDEMPOTENCY_KEY_IN_PROGRESS';
+
   const checkout = async (data: any) => {
     try {
       let response;
@@ -55,9 +97,16 @@ export const OrderProvider: React.FC<{ children: ReactNode }> = ({
         });
       } else {
         // If it's a new order, create it
+        if (!checkoutKey.current) {
+          checkoutKey.current = crypto.randomUUID();
+        }
         response = await axios.post(`${baseApi}/orders/checkout`, data, {
-          headers: getHeaders(),
+          headers: {
+            ...getHeaders(),
+            'Idempotency-Key': checkoutKey.current,
+          },
         });
+        checkoutKey.current = null;
       }
       setCurrentOrder(response.data);
 
@@ -66,6 +115,9 @@ export const OrderProvider: React.FC<{ children: ReactNode }> = ({
 
       return { orderId: response.data.id };
     } catch (error) {
+      if (isAttemptSettled(error)) {
+        checkoutKey.current = null;
+      }
       console.error('Checkout failed', error);
       throw error;
     }
@@ -99,6 +151,85 @@ export const OrderProvider: React.FC<{ children: ReactNode }> = ({
     }
   };
 
+  const confirmShipmentReceived = async (shipmentId: number) => {
+    try {
+      await axios.post(
+        `${baseApi}/orders/shipments/${shipmentId}/confirm-receipt`,
+        {},
+        { headers: getHeaders() },
+      );
+    } catch (error) {
+      console.error('Parcel received confirmation failed', error);
+      throw error;
+    }
+  };
+
+  const requestReturn = async (orderId: number, data: ReturnRequestInput) => {
+    const formData = new FormData();
+    formData.append('orderId', orderId.toString());
+    formData.append('reason', data.reason);
+    formData.append('items', JSON.stringify(data.items));
+    data.photos.forEach((photo) => formData.append('images', photo));
+
+    try {
+      const response = await axios.post(`${baseApi}/returns`, formData, {
+        headers: {
+          ...getHeaders(),
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+      return response.data.returnRequest;
+    } catch (error) {
+      console.error('Return request failed', error);
+      throw error;
+    }
+  };
+
+  const createPaymentCharge = async (orderId: number) => {
+    try {
+      const response = await axios.post(
+        `${baseApi}/payments/charges`,
+        { orderId },
+        { headers: getHeaders() },
+      );
+      return response.data.charge;
+    } catch (error) {
+      console.error('Payment charge creation failed', error);
+      throw error;
+    }
+  };
+
+  const refreshPaymentCharge = async (chargeId: number) => {
+    try {
+      const response = await axios.get(
+        `${baseApi}/payments/charges/${chargeId}`,
+        { headers: getHeaders() },
+      );
+      return response.data.charge;
+    } catch (error) {
+      console.error('Payment status check failed', error);
+      throw error;
+    }
+  };
+
+  // Only available against a development API running the mock gateway
+  const simulatePayment = async (
+    chargeId: number,
+    outcome: MockPaymentOutcome,
+  ) => {
+    try {
+      const response = await axios.post(
+        `${baseApi}/payments/mock/charges/${chargeId}/${outcome}`,
+        {},
+        { headers: getHeaders() },
+      );
+      return response.data.charge;
+    } catch (error) {
+      console.error('Payment simulation failed', error);
+      throw error;
+    }
+  };
+
   const cancelOrder = async (orderId: number, source: string) => {
     try {
       const response = await axios.post(
@@ -113,10 +244,51 @@ export const OrderProvider: React.FC<{ children: ReactNode }> = ({
     }
   };
 
+  const cancelOrderItems = async (
+    orderId: number,
+    data: CancelOrderItemsInput,
+  ) => {
+    try {
+      const response = await axios.post(
+        `${baseApi}/orders/${orderId}/cancel-items`,
+        data,
+        { headers: getHeaders() },
+      );
+      return {
+        refundAmount: response.data.refundAmount,
+        voucherRemoved: response.data.voucherRemoved,
+      };
+    } catch (error) {
+      console.error('Order item cancellation failed', error);
+      throw error;
+    }
+  };
+
+  const rejectSubstitute = async (orderId: number, orderItemId: number) => {
+    try {
+      const response = await axios.post(
+        `${baseApi}/orders/${orderId}/items/${orderItemId}/reject-substitute`,
+        {},
+        { headers: getHeaders() },
+      );
+      return { refundAmount: response.data.refundAmount };
+    } catch (error) {
+      console.error('Substitute rejection failed', error);
+      throw error;
+    }
+  };
+
   const uploadProof = async (orderId: number, file: File) => {
     const formData = new FormData();
     formData.append('orderId', orderId.toString());
-    formData.append('file', file);
+    formData.append('image', file);
+
+    if (
+      uploadAttempt.current?.orderId !== orderId ||
+      uploadAttempt.current?.file !== file
+    ) {
+      uploadAttempt.current = { orderId, file, key: crypto.randomUUID() };
+    }
 
     try {
       const response = await axios.post(
@@ -126,11 +298,16 @@ export const OrderProvider: React.FC<{ children: ReactNode }> = ({
           headers: {
             ...getHeaders(),
             'Content-Type': 'multipart/form-data',
+            'Idempotency-Key': uploadAttempt.current.key,
           },
         },
       );
+      uploadAttempt.current = null;
       await fetchOrder(orderId);
     } catch (error) {
+      if (isAttemptSettled(error)) {
+        uploadAttempt.current = null;
+      }
       console.error('Proof upload failed', error);
       throw error;
     }
@@ -158,6 +335,30 @@ export const OrderProvider: React.FC<{ children: ReactNode }> = ({
     }
   };
 
+  // The invoice needs the auth header, so it is fetched and saved from a blob
+  const downloadInvoice = async (orderId: number) => {
+    try {
+      const response = await axios.get(`${baseApi}/orders/${orderId}/invoice`, {
+        headers: getHeaders(),
+        responseType: 'blob',
+      });
+      const fileName =
+        /filename="(.+)"/.exec(
+          response.headers['content-disposition'] ?? '',
+        )?.[1] ?? `invoice-${orderId}.pdf`;
+
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download invoice', error);
+      throw error;
+    }
+  };
+
   return (
     <OrderContext.Provider
       value={{
@@ -165,11 +366,19 @@ export const OrderProvider: React.FC<{ children: ReactNode }> = ({
         setCurrentOrder,
         checkout,
         cancelOrder,
+        cancelOrderItems,
+        rejectSubstitute,
         uploadProof,
         checkStock,
         fetchOrder,
+        downloadInvoice,
         confirmOrderReceived,
         confirmOrderPayment,
+        confirmShipmentReceived,
+        requestReturn,
+        createPaymentCharge,
+        refreshPaymentCharge,
+        simulatePayment,
       }}
     >
       {children}
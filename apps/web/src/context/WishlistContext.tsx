@@ -0,0 +1,138 @@
+'use client';
+
+import React, {
+  createContext,
+  useContext,
+  useState,
+  ReactNode,
+  useEffect,
+} from 'react';
+import { useSession } from 'next-auth/react';
+import { toast } from 'react-hot-toast';
+import axios from 'axios';
+import axiosInstance from '../utils/axiosInstance';
+import { Wishlist } from '@/types/wishlist';
+import { isGuest } from '@/utils/guestCart';
+import { useCart } from './CartContext';
+
+interface WishlistContextType {
+  wishlist: Wishlist | null;
+  fetchWishlist: () => Promise<void>;
+  isWishlisted: (productId: number) => boolean;
+  toggleWishlist: (productId: number) => Promise<void>;
+  removeFromWishlist: (productId: number) => Promise<void>;
+  moveToCart: (productId: number) => Promise<void>;
+  saveForLater: (cartItemId: number) => Promise<void>;
+}
+
+const WishlistContext = createContext<WishlistContextType | undefined>(
+  undefined,
+);
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) ? err.response?.data?.message || fallback : fallback;
+
+export const WishlistProvider: React.FC<{ children: ReactNode }> = ({
+  children,
+}) => {
+  const [wishlist, setWishlist] = useState<Wishlist | null>(null);
+  const { status } = useSession();
+  const { fetchCart } = useCart();
+
+  // Guests have no wishlist, it lives on the user's account
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchWishlist();
+    } else if (status === 'unauthenticated') {
+      setWishlist(null);
+    }
+  }, [status]);
+
+  const fetchWishlist = async () => {
+    if (isGuest()) {
+      setWishlist(null);
+      return;
+    }
+
+    try {
+      const response = await axiosInstance.get<Wishlist>('/wishlist');
+      setWishlist({
+        warehouse: response.data.warehouse,
+        items: response.data.items,
+      });
+    } catch (err) {
+      console.error('Failed to load wishlist:', err);
+    }
+  };
+
+  const isWishlisted = (productId: number) =>
+    !!wishlist?.items.some((item) => item.productId === productId);
+
+  const removeFromWishlist = async (productId: number) => {
+    try {
+      await axiosInstance.delete(`/wishlist/${productId}`);
+      await fetchWishlist();
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Failed to remove from wishlist'));
+    }
+  };
+
+  const toggleWishlist = async (productId: number) => {
+    if (isWishlisted(productId)) {
+      await removeFromWishlist(productId);
+      return;
+    }
+
+    try {
+      await axiosInstance.post('/wishlist', { productId });
+      await fetchWishlist();
+      toast.success('Saved to your wishlist');
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Failed to add to wishlist'));
+    }
+  };
+
+  const moveToCart = async (productId: number) => {
+    try {
+      await axiosInstance.post(`/wishlist/${productId}/move-to-cart`);
+      await Promise.all([fetchWishlist(), fetchCart()]);
+      toast.success('Moved to your cart');
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Failed to move item to cart'));
+    }
+  };
+
+  const saveForLater = async (cartItemId: number) => {
+    try {
+      await axiosInstance.post('/wishlist/save-for-later', { cartItemId });
+      await Promise.all([fetchWishlist(), fetchCart()]);
+      toast.success('Saved for later');
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Failed to save item for later'));
+    }
+  };
+
+  return (
+    <WishlistContext.Provider
+      value={{
+        wishlist,
+        fetchWishlist,
+        isWishlisted,
+        toggleWishlist,
+        removeFromWishlist,
+        moveToCart,
+        saveForLater,
+      }}
+    >
+      {children}
+    </WishlistContext.Provider>
+  );
+};
+
+export const useWishlist = () => {
+  const context = useContext(WishlistContext);
+  if (!context) {
+    throw new Error('useWishlist must be used within a WishlistProvider');
+  }
+  return context;
+};
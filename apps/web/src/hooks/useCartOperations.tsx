@@ -1,8 +1,24 @@
 import { useState } from 'react';
 import axiosInstance from '../utils/axiosInstance';
-import { Cart } from '@/types/cart';
+import { Cart, CartData, QuickOrderReport, ReorderReport } from '@/types/cart';
 import axios from 'axios';
 import Cookies from 'js-cookie';
+import {
+  getGuestCartHeaders,
+  isGuest,
+  saveGuestCartToken,
+} from '@/utils/guestCart';
+
+// Visitors who are not logged in use the guest cart routes, which find their
+// cart through the signed token instead of the user's token
+const fetchGuestCart = async (): Promise<CartData> => {
+  const response = await axiosInstance.get<CartData & { token: string }>(
+    '/carts/guest',
+    { headers: getGuestCartHeaders() },
+  );
+  saveGuestCartToken(response.data.token);
+  return { cart: response.data.cart, report: response.data.report };
+};
 
 export const useCartOperations = () => {
   const [isLoading, setIsLoading] = useState(false);
@@ -12,6 +28,10 @@ export const useCartOperations = () => {
     setIsLoading(true);
     setError(null);
     try {
+      if (isGuest()) {
+        return (await fetchGuestCart()).cart;
+      }
+
       const token = Cookies.get('token');
       if (!token) {
         throw new Error('No token found');
@@ -38,13 +58,17 @@ export const useCartOperations = () => {
     }
   };
 
-  const fetchCartData = async (): Promise<Cart> => {
+  const fetchCartData = async (): Promise<CartData> => {
     setIsLoading(true);
     setError(null);
     try {
-      const response = await axiosInstance.get<{ cart: Cart }>('/carts');
+      if (isGuest()) {
+        return await fetchGuestCart();
+      }
+
+      const response = await axiosInstance.get<CartData>('/carts');
       localStorage.setItem('cartId', response.data.cart.id.toString());
-      return response.data.cart;
+      return { cart: response.data.cart, report: response.data.report };
     } catch (err) {
       if (axios.isAxiosError(err) && err.response?.status === 404) {
         const invalidateResponse = await axiosInstance.post<{ cart: Cart }>(
@@ -57,7 +81,11 @@ export const useCartOperations = () => {
           'cartId',
           invalidateResponse.data.cart.id.toString(),
         );
-        return invalidateResponse.data.cart;
+        // A fresh cart has nothing to revalidate
+        return {
+          cart: invalidateResponse.data.cart,
+          report: { warehouseId: null, warnings: [] },
+        };
       }
       setError('Failed to fetch cart');
       throw err;
@@ -74,6 +102,15 @@ export const useCartOperations = () => {
     setIsLoading(true);
     setError(null);
     try {
+      if (isGuest()) {
+        await axiosInstance.put(
+          `/carts/guest/items/${itemId}`,
+          { quantity: newQuantity },
+          { headers: getGuestCartHeaders() },
+        );
+        return;
+      }
+
       await axiosInstance.put(`/carts/${cartId}/items/${itemId}`, {
         quantity: newQuantity,
       });
@@ -92,6 +129,13 @@ export const useCartOperations = () => {
     setIsLoading(true);
     setError(null);
     try {
+      if (isGuest()) {
+        await axiosInstance.delete(`/carts/guest/items/${itemId}`, {
+          headers: getGuestCartHeaders(),
+        });
+        return;
+      }
+
       await axiosInstance.delete(`/carts/${cartId}/items/${itemId}`);
     } catch (err) {
       setError('Failed to remove item');
@@ -109,6 +153,16 @@ export const useCartOperations = () => {
     setIsLoading(true);
     setError(null);
     try {
+      if (isGuest()) {
+        const response = await axiosInstance.post<{ token: string }>(
+          '/carts/guest/items',
+          { productId, quantity },
+          { headers: getGuestCartHeaders() },
+        );
+        saveGuestCartToken(response.data.token);
+        return;
+      }
+
       await axiosInstance.post(`/carts/${cartId}/items`, {
         productId,
         quantity,
@@ -122,12 +176,65 @@ export const useCartOperations = () => {
     }
   };
 
+  const acceptCartItemPrice = async (
+    cartId: number,
+    itemId: number,
+  ): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await axiosInstance.post(`/carts/${cartId}/items/${itemId}/accept-price`);
+    } catch (err) {
+      setError('Failed to accept price');
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const reorderFromOrder = async (orderId: number): Promise<ReorderReport> => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await axiosInstance.post<{ report: ReorderReport }>(
+        '/carts/reorder',
+        { orderId },
+      );
+      return response.data.report;
+    } catch (err) {
+      setError('Failed to reorder');
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const quickOrderItems = async (text: string): Promise<QuickOrderReport> => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await axiosInstance.post<{ report: QuickOrderReport }>(
+        '/carts/quick-order',
+        { text },
+      );
+      return response.data.report;
+    } catch (err) {
+      setError('Failed to add quick order');
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   return {
     createNewCart,
     fetchCartData,
     updateCartItem,
     removeCartItem,
     addItemToCart,
+    acceptCartItemPrice,
+    reorderFromOrder,
+    quickOrderItems,
     isLoading,
     error,
   };
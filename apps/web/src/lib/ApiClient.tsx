@@ -1,5 +1,6 @@
 const API_BASE_URL = 'http://localhost:8000/api';
 import axios from "axios";
+import { clearGuestCartToken, getGuestCartHeaders } from '@/utils/guestCart';
 
 async function handleResponse(response: Response) {
   const data = await response.json();
@@ -18,11 +19,15 @@ export async function registerUser(
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      // The new account starts with the cart filled while browsing
+      ...getGuestCartHeaders(),
     },
     body: JSON.stringify({email}),
   });
 
-  return handleResponse(response);
+  const data = await handleResponse(response);
+  clearGuestCartToken();
+  return data;
 }
 
 export async function loginUser(email: string, password: string) {
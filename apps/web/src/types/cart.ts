@@ -6,9 +6,74 @@ export interface CartItem {
     price: number;
   };
   quantity: number;
+  addedPrice?: number | null;
 }
 
 export interface Cart {
   id: number;
   items: CartItem[];
 }
+
+export type CartWarningReason =
+  'PRICE_CHANGED' | 'INSUFFICIENT_STOCK' | 'PRODUCT_DELETED';
+
+export interface CartLineWarning {
+  itemId: number;
+  productId: number;
+  name: string;
+  reason: CartWarningReason;
+  quantity: number;
+  addedPrice?: number;
+  price?: number;
+  availableStock?: number;
+}
+
+// Returned with every cart read, checkout waits until it is empty
+export interface CartRevalidationReport {
+  warehouseId: number | null;
+  warnings: CartLineWarning[];
+}
+
+export interface CartData {
+  cart: Cart;
+  report: CartRevalidationReport;
+}
+
+export type ReorderSkipReason = 'DISCONTINUED' | 'OUT_OF_STOCK' | 'REPRICED';
+
+export interface ReorderLine {
+  productId: number;
+  name: string;
+  orderedQuantity: number;
+  quantity: number;
+  price: number;
+  previousPrice: number;
+  reason?: ReorderSkipReason;
+}
+
+export interface ReorderReport {
+  added: ReorderLine[];
+  adjusted: ReorderLine[];
+  skipped: ReorderLine[];
+}
+
+export type QuickOrderStatus =
+  'ADDED' | 'ADJUSTED' | 'OUT_OF_STOCK' | 'UNKNOWN_SKU' | 'INVALID_LINE';
+
+export interface QuickOrderLine {
+  line: number;
+  text: string;
+  status: QuickOrderStatus;
+  sku?: string;
+  requestedQuantity?: number;
+  quantity: number;
+  productId?: number;
+  name?: string;
+  price?: number;
+}
+
+// One entry per non-empty line of the pasted text or CSV file
+export interface QuickOrderReport {
+  warehouseId: number | null;
+  lines: QuickOrderLine[];
+}
@@ -7,19 +7,233 @@ export type PaymentStatus =
   | 'SHIPPED'
   | 'DELIVERED'
   | 'FAILED'
-  | 'CANCELED';
+  | 'CANCELED'
+  | 'READY_FOR_PICKUP';
+
+export type FulfillmentMethod = 'DELIVERY' | 'PICKUP';
 
 export interface OrderItem {
   id: number;
   quantity: number;
   price: number;
   total: number;
+  canceledQuantity: number;
   orderId: number;
   productId: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export type ShipmentStatus = 'PENDING' | 'SHIPPED' | 'DELIVERED' | 'CANCELED';
+
+export type ShipmentEventStatus =
+  'PICKED_UP' | 'IN_TRANSIT' | 'OUT_FOR_DELIVERY' | 'DELIVERED';
+
+// One step of a parcel's tracking timeline
+export interface ShipmentEvent {
+  id: number;
+  status: ShipmentEventStatus;
+  description: string | null;
+  location: string | null;
+  occurredAt: string;
+}
+
+export interface ShipParcelInput {
+  courier: string;
+  courierService: string;
+  waybill: string;
+}
+
+export interface ShipmentEventInput {
+  status: ShipmentEventStatus;
+  description?: string;
+  location?: string;
+}
+
+// One parcel of an order, sent from a single warehouse
+export interface Shipment {
+  id: number;
+  status: ShipmentStatus;
+  shippingCost: number;
+  courier: string | null;
+  courierService: string | null;
+  waybill: string | null;
+  shippedAt: string | null;
+  deliveredAt: string | null;
+  events?: ShipmentEvent[];
+  warehouse: {
+    id: number;
+    name: string;
+  };
+  items: Array<{
+    id: number;
+    quantity: number;
+    orderItem: {
+      id: number;
+      product: {
+        name: string;
+      };
+    };
+  }>;
+}
+
+export type ReturnStatus = 'REQUESTED' | 'APPROVED' | 'REJECTED';
+
+export interface ReturnRequest {
+  id: number;
+  status: ReturnStatus;
+  reason: string;
+  refundAmount: number;
+  restocked: boolean | null;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  items: Array<{
+    id: number;
+    quantity: number;
+    orderItem: {
+      id: number;
+      product: {
+        name: string;
+      };
+    };
+  }>;
+  photos: Array<{ id: number; url: string }>;
+}
+
+export type PaymentProofRejectionReason =
+  'WRONG_AMOUNT' | 'UNREADABLE' | 'WRONG_ACCOUNT' | 'OTHER';
+
+export interface PaymentProof {
+  id: number;
+  url: string;
+  status: 'PENDING' | 'ACCEPTED' | 'REJECTED';
+  rejectionReason: PaymentProofRejectionReason | null;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  reviewer: { id: number; username: string } | null;
+}
+
+export type PaymentChargeStatus =
+  'PENDING' | 'SUCCEEDED' | 'FAILED' | 'EXPIRED';
+
+export interface PaymentCharge {
+  id: number;
+  provider: string;
+  reference: string;
+  status: PaymentChargeStatus;
+  amount: number;
+  redirectUrl: string | null;
+  expiresAt: string;
+  orderId: number;
+}
+
+export type MockPaymentOutcome = 'succeed' | 'fail' | 'expire';
+
+// SIMILAR accepts any product of the same category, SPECIFIC only the chosen one
+export type SubstitutionPreference = 'NONE' | 'SIMILAR' | 'SPECIFIC';
+
+export interface SubstitutionPreferenceInput {
+  productId: number;
+  preference: SubstitutionPreference;
+  substituteProductId?: number;
+}
+
+// A product an admin may swap in for a missing line
+export interface SubstituteCandidate {
+  id: number;
+  name: string;
+  price: number;
+  inStock: boolean;
+}
+
+export interface CancelOrderItemsInput {
+  items: Array<{ orderItemId: number; quantity: number }>;
+  reason?: string;
+}
+
+export type CancellationReason =
+  | 'OUT_OF_STOCK'
+  | 'SUSPECTED_FRAUD'
+  | 'ADDRESS_UNREACHABLE'
+  | 'CUSTOMER_REQUEST';
+
+export interface AdminCancelOrderInput {
+  reason: CancellationReason;
+  note?: string;
+}
+
+export interface CancelOrderItemsResult {
+  refundAmount: number;
+  voucherRemoved: boolean;
+}
+
+export interface ReturnRequestInput {
+  reason: string;
+  items: Array<{ orderItemId: number; quantity: number }>;
+  photos: File[];
+}
+
+// A weekly delivery window of a warehouse, dayOfWeek 0 is Sunday
+export interface DeliverySlot {
+  id: number;
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  capacity: number;
+  isActive: boolean;
+  warehouseId: number;
+}
+
+export interface DeliverySlotInput {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  capacity: number;
+  isActive?: boolean;
+}
+
+// A dated slot that can still be booked at checkout
+export interface DeliverySlotOption {
+  deliverySlotId: number;
+  date: string;
+  startTime: string;
+  endTime: string;
+  remaining: number;
+}
+
+export interface PickLine {
+  productId: number;
+  name: string;
+  quantity: number;
+}
+
+// The orders booked in a slot on one day and the quantities to pick for them
+export interface PickingSlot extends DeliverySlot {
+  orders: Array<{
+    id: number;
+    name: string;
+    paymentStatus: PaymentStatus;
+    paymentMethod: string;
+    address: { name: string; address: string };
+    items: PickLine[];
+  }>;
+  pickList: PickLine[];
+}
+
+// A warehouse holding the whole cart, where the customer can collect the order
+export interface PickupStore {
+  id: number;
+  name: string;
+  address: string;
+  postalCode: string;
+  codEnabled: boolean;
+  codMaxOrderValue: number | null;
+  city: { name: string };
+  province: { name: string };
+}
+
 export interface Warehouse {
   id: number;
   name: string;
@@ -64,11 +278,25 @@ export interface Order {
   createdAt: string;
   updatedAt: string;
   total: number;
+  walletAmount: number;
   shippingCost: number;
   paymentStatus: PaymentStatus;
   paymentMethod: string;
   paymentProof?: string;
   expirePayment: string;
+  cancellationSource?: 'USER' | 'SYSTEM' | 'ADMIN' | null;
+  cancellationReason?: CancellationReason | null;
+  cancellationNote?: string | null;
+  deliveryDate?: string | null;
+  deliverySlot?: DeliverySlot | null;
+  fulfillmentMethod: FulfillmentMethod;
+  pickupCode?: string | null;
+  readyForPickupAt?: string | null;
+  pickedUpAt?: string | null;
+  warehouse?: {
+    name: string;
+    address: string;
+  };
   address: {
     address: string;
     city: {
@@ -78,18 +306,28 @@ export interface Order {
       name: string;
     };
     postalCode: string;
-  };
+  } | null;
   items: Array<{
     id: number;
     product: {
       name: string;
     };
     quantity: number;
+    canceledQuantity?: number;
     price: number;
+    substitutionPreference?: SubstitutionPreference;
+    preferredSubstitute?: { name: string } | null;
+    originalProduct?: { name: string } | null;
+    originalPrice?: number | null;
+    substitutedAt?: string | null;
+    substitutionRejectedAt?: string | null;
   }>;
   voucher?: {
     code: string;
     discountType: 'PERCENTAGE' | 'FIXED';
     discountValue: number;
   };
+  shipments?: Shipment[];
+  returnRequests?: ReturnRequest[];
+  paymentProofs?: PaymentProof[];
 }
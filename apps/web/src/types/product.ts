@@ -7,6 +7,9 @@ export interface Warehouse {
 export interface ProductStock {
   id: number;
   stock: number;
+  // On-hand stock minus units held by unpaid orders
+  reservedStock?: number;
+  availableStock?: number;
   warehouse: Warehouse;
 }
 
@@ -22,5 +25,6 @@ export interface ProductType {
   productStocks: ProductStock[];
   category: Category;
   slug: string;
+  sku: string;
   productImages: { url: string }[];
 }
@@ -0,0 +1,32 @@
+export type SettingGroup = 'Payments' | 'Orders' | 'Carts' | 'Schedules';
+
+export type SettingValue = number | string;
+
+// A runtime setting, value falls back to defaultValue until first changed
+export interface Setting {
+  key: string;
+  label: string;
+  group: SettingGroup;
+  value: SettingValue;
+  defaultValue: SettingValue;
+  updatedAt: string | null;
+}
+
+export interface SettingChange {
+  id: number;
+  key: string;
+  oldValue: SettingValue | null;
+  newValue: SettingValue;
+  createdAt: string;
+  actor: { id: number; username: string };
+}
+
+export interface SettingHistory {
+  changes: SettingChange[];
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalItems: number;
+    itemsPerPage: number;
+  };
+}
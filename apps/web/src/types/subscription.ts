@@ -0,0 +1,50 @@
+export type SubscriptionCadence = 'WEEKLY' | 'BIWEEKLY';
+
+export interface SubscriptionItem {
+  id: number;
+  quantity: number;
+  productId: number;
+  product: { id: number; name: string; price: number };
+}
+
+// A standing basket that is ordered automatically on every cycle
+export interface Subscription {
+  id: number;
+  cadence: SubscriptionCadence;
+  nextRunAt: string;
+  editableUntil: string;
+  paused: boolean;
+  courier: string;
+  courierService: string;
+  voucherCode: string | null;
+  lastRunAt: string | null;
+  lastError: string | null;
+  address: { id: number; name: string; address: string };
+  items: SubscriptionItem[];
+  lastOrder: {
+    id: number;
+    name: string;
+    paymentStatus: string;
+    total: number;
+  } | null;
+}
+
+export interface SubscriptionItemInput {
+  productId: number;
+  quantity: number;
+}
+
+export interface CreateSubscriptionInput {
+  addressId: number;
+  cadence: SubscriptionCadence;
+  startDate: string;
+  courier: string;
+  courierService: string;
+  voucherCode?: string;
+  items: SubscriptionItemInput[];
+}
+
+export interface UpdateSubscriptionInput {
+  paused?: boolean;
+  items?: SubscriptionItemInput[];
+}
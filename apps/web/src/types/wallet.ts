@@ -0,0 +1,31 @@
+export type WalletEntryType =
+  'REFUND' | 'CANCELLATION' | 'ADJUSTMENT' | 'CHECKOUT';
+
+// One line of the store credit ledger, negative amounts were spent
+export interface WalletEntry {
+  id: number;
+  amount: number;
+  balanceAfter: number;
+  type: WalletEntryType;
+  reason: string | null;
+  createdAt: string;
+  order: { id: number; name: string } | null;
+  actor: { id: number; username: string } | null;
+}
+
+export interface Wallet {
+  user: { id: number; username: string; email: string };
+  balance: number;
+  entries: WalletEntry[];
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalItems: number;
+    itemsPerPage: number;
+  };
+}
+
+export interface WalletAdjustmentInput {
+  amount: number;
+  reason: string;
+}
@@ -0,0 +1,20 @@
+// A product the customer keeps for later, priced and stocked as it is now
+export interface WishlistItem {
+  id: number;
+  productId: number;
+  createdAt: string;
+  availableStock: number;
+  product: {
+    id: number;
+    name: string;
+    slug: string;
+    price: number;
+    productImages: { url: string }[];
+  };
+}
+
+export interface Wishlist {
+  // The store serving the customer's primary address, null without an address
+  warehouse: { id: number; name: string } | null;
+  items: WishlistItem[];
+}
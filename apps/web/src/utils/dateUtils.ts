@@ -6,3 +6,23 @@ export const formatDate = (dateString: string): string => {
   };
   return new Date(dateString).toLocaleDateString('id-ID', options);
 };
+
+export const DAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+// Delivery dates are calendar days, read in UTC so the day never shifts
+export const formatDeliveryDate = (date: string): string =>
+  new Date(`${date.slice(0, 10)}T00:00:00.000Z`).toLocaleDateString('id-ID', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
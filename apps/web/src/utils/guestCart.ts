@@ -0,0 +1,24 @@
+import Cookies from 'js-cookie';
+
+// Signed token of the cart a visitor fills before logging in. The API merges
+// that cart into the user's cart on login or registration.
+export const GUEST_CART_COOKIE = 'guest_cart';
+export const GUEST_CART_HEADER = 'x-guest-cart';
+
+export const isGuest = () => !Cookies.get('token');
+
+export const getGuestCartHeaders = (): Record<string, string> => {
+  const guestToken = Cookies.get(GUEST_CART_COOKIE);
+  return guestToken ? { [GUEST_CART_HEADER]: guestToken } : {};
+};
+
+export const saveGuestCartToken = (token?: string) => {
+  if (token) {
+    Cookies.set(GUEST_CART_COOKIE, token, { expires: 14 });
+  }
+};
+
+// Called once the API has taken the guest cart over
+export const clearGuestCartToken = () => {
+  Cookies.remove(GUEST_CART_COOKIE);
+};
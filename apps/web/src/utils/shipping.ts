@@ -1,4 +1,5 @@
 import axios from "axios"
+import Cookies from 'js-cookie';
 
 export const getShippingCost = async (data: any) =>{
     try {
@@ -8,4 +9,57 @@ export const getShippingCost = async (data: any) =>{
         console.log(error);
         
     }
-}
\ No newline at end of file
+}
+
+export const getCheckoutShippingServices = async (data: {
+  addressId: number;
+  courier: string;
+}) => {
+  try {
+    const res = await axios.post(
+      `${process.env.NEXT_PUBLIC_BASE_API_URL}/orders/checkout/shipping`,
+      data,
+      {
+        headers: {
+          Authorization: `Bearer ${Cookies.get('token')}`,
+        },
+      },
+    );
+    return res.data;
+  } catch (error) {
+    console.log(error);
+  }
+};
+
+export const getCheckoutDeliverySlots = async (addressId: number) => {
+  try {
+    const res = await axios.post(
+      `${process.env.NEXT_PUBLIC_BASE_API_URL}/delivery-slots/available`,
+      { addressId },
+      {
+        headers: {
+          Authorization: `Bearer ${Cookies.get('token')}`,
+        },
+      },
+    );
+    return res.data;
+  } catch (error) {
+    console.log(error);
+  }
+};
+
+export const getPickupStores = async () => {
+  try {
+    const res = await axios.get(
+      `${process.env.NEXT_PUBLIC_BASE_API_URL}/orders/checkout/pickup-stores`,
+      {
+        headers: {
+          Authorization: `Bearer ${Cookies.get('token')}`,
+        },
+      },
+    );
+    return res.data;
+  } catch (error) {
+    console.log(error);
+  }
+};